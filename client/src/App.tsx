@@ -3,6 +3,9 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/Home";
 import AuthPage from "@/pages/auth-page";
+import MoverInbox from "@/pages/mover-inbox";
+import AdminPage from "@/pages/admin-page";
+import SharedEstimatePage from "@/pages/shared-estimate";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { AuthProvider } from "./hooks/use-auth";
@@ -12,7 +15,10 @@ function Router() {
   return (
     <Switch>
       <ProtectedRoute path="/" component={Home} />
+      <ProtectedRoute path="/mover" component={MoverInbox} role="mover" />
+      <ProtectedRoute path="/admin" component={AdminPage} role="admin" />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/share/:token" component={SharedEstimatePage} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
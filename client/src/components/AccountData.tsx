@@ -0,0 +1,133 @@
+import { useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Download, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { downloadFile } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ImportRowError, ImportSummary } from "@shared/schema";
+
+// Thrown by the import request so the dialog can list what was wrong with each row
+class ImportFailedError extends Error {
+  constructor(message: string, public errors: ImportRowError[]) {
+    super(message);
+  }
+}
+
+// Export the account's estimates, checklists and progress, or restore an export
+// into a new account
+export function AccountDataCard() {
+  const [exporting, setExporting] = useState(false);
+  const [importErrors, setImportErrors] = useState<ImportRowError[] | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleExport = () => {
+    setExporting(true);
+    downloadFile("/api/account/export", `move-ease-export-${new Date().toISOString().slice(0, 10)}.zip`)
+      .catch((error) => {
+        toast({
+          title: "Error exporting data",
+          description: error.message || "Please try again later",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setExporting(false));
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await fetch("/api/account/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: file,
+        credentials: "include",
+      });
+      const body = await response.json().catch(() => ({ message: response.statusText }));
+      if (!response.ok) throw new ImportFailedError(body.message, body.errors ?? []);
+      return body as ImportSummary;
+    },
+    onSuccess: (summary) => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Data imported",
+        description: `Restored ${summary.estimates} estimates and ${summary.checklists} checklists.`,
+      });
+    },
+    onError: (error) => {
+      if (error instanceof ImportFailedError && error.errors.length > 0) {
+        setImportErrors(error.errors);
+        return;
+      }
+      toast({
+        title: "Error importing data",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) importMutation.mutate(file);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Your data</CardTitle>
+        <CardDescription>
+          Download your estimates, checklists and progress as CSV and JSON files. An export can be imported into a new account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex gap-2">
+        <Button variant="outline" onClick={handleExport} disabled={exporting}>
+          {exporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+          Export data
+        </Button>
+        <Button variant="outline" onClick={() => fileInput.current?.click()} disabled={importMutation.isPending}>
+          {importMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          Import data
+        </Button>
+        <input ref={fileInput} type="file" accept=".zip,application/zip" className="hidden" onChange={handleFileChange} />
+      </CardContent>
+
+      <Dialog open={importErrors !== null} onOpenChange={(open) => !open && setImportErrors(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Nothing was imported</DialogTitle>
+            <DialogDescription>Fix these rows in the export and try again. Row numbers match the CSV files.</DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Row</TableHead>
+                <TableHead>Problem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {importErrors?.map((error, index) => (
+                <TableRow key={index}>
+                  <TableCell className="font-mono text-xs">{error.file}</TableCell>
+                  <TableCell>{error.row === 0 ? "Whole file" : error.row}</TableCell>
+                  <TableCell className="text-sm">{error.errors.join("; ")}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
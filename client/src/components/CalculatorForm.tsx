@@ -4,19 +4,23 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
-import { CalendarIcon, Share2, Printer, Info, CheckCircle, XCircle, Home, Building, House, Save, Loader2 } from "lucide-react";
+import { CalendarIcon, Share2, Printer, Info, CheckCircle, XCircle, Home, Building, House, Save, Loader2, Zap, ClipboardList, FileDown } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { useForm, Controller } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { cn } from "@/lib/utils";
-import { moveCalculationRequestSchema, type MoveCalculationResponse, type MoveEstimate } from "@shared/schema";
+import { moveCalculationRequestSchema, type CompanyTier, type MoveCalculationResponse, type MoveEstimate } from "@shared/schema";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, downloadFile } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { CostBreakdownChart } from "./CostBreakdownChart";
+import { InventoryBuilder } from "./InventoryBuilder";
+import { CompanyReviewsDialog } from "./CompanyReviews";
+import { QuoteRequestDialog } from "./QuoteRequests";
+import { ShareEstimateDialog } from "./EstimateShare";
 import { HOME_SIZES, ADDITIONAL_ITEMS, FLEXIBILITY_OPTIONS } from "@/lib/constants";
 import { useAddressAutocomplete } from "@/lib/useAddressAutocomplete";
 import { useAuth } from "@/hooks/use-auth";
@@ -41,6 +45,11 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
   const [savingEstimate, setSavingEstimate] = useState(false);
+  // The saved copy of the current results, which quote requests are made from
+  const [savedEstimate, setSavedEstimate] = useState<MoveEstimate | null>(null);
+  const [quoteRequest, setQuoteRequest] = useState<{ tier: CompanyTier; companyIds: number[] } | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [downloadingReport, setDownloadingReport] = useState(false);
   const { user } = useAuth();
   const [, navigate] = useLocation();
   const queryClient = useQueryClient();
@@ -58,6 +67,8 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
       moveDate: undefined,
       flexibility: "exact",
       services: [],
+      estimateMode: "homeSize",
+      inventory: [],
     },
   });
 
@@ -71,7 +82,8 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
     },
     onSuccess: (data: MoveCalculationResponse) => {
       setResults(data);
-      setCurrentStep(4);
+      setSavedEstimate(null);
+      setCurrentStep(5);
       setLoading(false);
     },
     onError: (error) => {
@@ -85,12 +97,19 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
   });
 
   const handleNext = () => {
-    if (currentStep < 4) {
+    if (currentStep < 5) {
       const fieldsToValidate = {
         1: ["origin", "destination"],
         2: ["homeSize", "additionalItems"],
-        3: ["moveDate", "flexibility", "services"],
+        3: ["estimateMode", "inventory"],
+        4: ["moveDate", "flexibility", "services"],
       }[currentStep];
+      
+      // An itemized quote needs something to size the truck with
+      if (currentStep === 3 && form.getValues("estimateMode") === "inventory" && form.getValues("inventory").length === 0) {
+        form.setError("inventory", { message: "Add at least one item to your inventory" });
+        return;
+      }
 
       form.trigger(fieldsToValidate as any).then((isValid) => {
         if (isValid) {
@@ -111,20 +130,26 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
     mutation.mutate(data);
   });
 
-  // Handle sharing results
+  // Share links point at a saved estimate, so save the results first if needed
   const handleShare = () => {
-    if (navigator.share) {
-      navigator.share({
-        title: 'My Moving Cost Estimate',
-        text: `Moving from ${results?.origin} to ${results?.destination} costs approximately $${results?.costs.hybrid}`,
-        url: window.location.href,
-      }).catch((error) => console.log('Error sharing', error));
-    } else {
+    if (!user) {
       toast({
-        title: "Sharing not supported",
-        description: "Your browser doesn't support the Web Share API",
+        title: "Login required",
+        description: "Please login or register to share estimates",
       });
+      navigate("/auth");
+      return;
+    }
+    
+    if (savedEstimate) {
+      setSharing(true);
+      return;
     }
+    
+    setSavingEstimate(true);
+    saveEstimateMutation.mutate(undefined, {
+      onSuccess: () => setSharing(true),
+    });
   };
 
   // Handle printing results
@@ -132,23 +157,57 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
     window.print();
   };
   
+  const downloadReport = (estimate: MoveEstimate) => {
+    setDownloadingReport(true);
+    downloadFile(`/api/estimates/${estimate.id}/report`, `moving-estimate-${estimate.id}.pdf`)
+      .catch((error) => {
+        toast({
+          title: "Error downloading report",
+          description: error.message || "Please try again later",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setDownloadingReport(false));
+  };
+  
+  // Reports are generated from a saved estimate, so save the results first if needed
+  const handleDownloadReport = () => {
+    if (!user) {
+      toast({
+        title: "Login required",
+        description: "Please login or register to download a PDF report",
+      });
+      navigate("/auth");
+      return;
+    }
+    
+    if (savedEstimate) {
+      downloadReport(savedEstimate);
+      return;
+    }
+    
+    setSavingEstimate(true);
+    saveEstimateMutation.mutate(undefined, {
+      onSuccess: (estimate) => estimate && downloadReport(estimate),
+    });
+  };
+  
   // Handle saving estimate to user profile
   const saveEstimateMutation = useMutation({
     mutationFn: async () => {
       if (!results) return null;
       
+      // The server prices the estimate again, so only the calculator inputs are sent
       const estimateData = {
         origin: results.origin,
         destination: results.destination,
-        distance: results.distance,
         homeSize: results.homeSize,
         additionalItems: form.getValues("additionalItems") || "none",
         moveDate: format(form.getValues("moveDate"), "yyyy-MM-dd"),
         flexibility: form.getValues("flexibility") || "exact",
         services: form.getValues("services") || [],
-        costDiy: results.costs.diy,
-        costHybrid: results.costs.hybrid,
-        costFullService: results.costs.fullService,
+        estimateMode: results.estimateMode,
+        inventory: results.estimateMode === "inventory" ? form.getValues("inventory") : [],
       };
       
       const response = await apiRequest("POST", "/api/save-estimate", estimateData);
@@ -156,6 +215,7 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
     },
     onSuccess: (data: MoveEstimate) => {
       setSavingEstimate(false);
+      setSavedEstimate(data);
       queryClient.invalidateQueries({ queryKey: ["/api/my-estimates"] });
       toast({
         title: "Estimate saved!",
@@ -185,6 +245,32 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
     setSavingEstimate(true);
     saveEstimateMutation.mutate();
   };
+  
+  // Quotes are requested from a saved estimate, so save the results first if needed
+  const handleRequestQuotes = (tier: CompanyTier, companyIds: number[]) => {
+    if (!user) {
+      toast({
+        title: "Login required",
+        description: "Please login or register to request quotes from movers",
+      });
+      navigate("/auth");
+      return;
+    }
+    
+    if (savedEstimate) {
+      setQuoteRequest({ tier, companyIds });
+      return;
+    }
+    
+    setSavingEstimate(true);
+    saveEstimateMutation.mutate(undefined, {
+      onSuccess: () => setQuoteRequest({ tier, companyIds }),
+    });
+  };
+  
+  // Recommended companies that offer a tier, preselected in the quote request
+  const companiesOffering = (tier: CompanyTier) =>
+    results?.companies.filter(company => company.tiers.includes(tier)).map(company => company.id) ?? [];
 
   const handleSelectOriginSuggestion = (suggestion: string) => {
     form.setValue("origin", suggestion);
@@ -402,8 +488,83 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
         </div>
       </div>
       
-      {/* Step 3: Move Date */}
+      {/* Step 3: Inventory */}
       <div className={cn("space-y-6", currentStep !== 3 && "hidden")}>
+        <h3 className="text-xl font-medium text-gray-900">How should we size your move?</h3>
+        
+        <Controller
+          control={form.control}
+          name="estimateMode"
+          render={({ field }) => (
+            <div className="grid md:grid-cols-2 gap-4">
+              <button
+                type="button"
+                onClick={() => field.onChange("homeSize")}
+                className={cn(
+                  "p-4 border-2 rounded-lg text-left hover:border-primary",
+                  field.value === "homeSize" && "border-primary bg-indigo-50"
+                )}
+              >
+                <Zap className="text-primary h-5 w-5 mb-2" />
+                <span className="block font-medium">Quick estimate</span>
+                <span className="text-sm text-gray-500">Based on a typical home of your size</span>
+              </button>
+              <button
+                type="button"
+                onClick={() => field.onChange("inventory")}
+                className={cn(
+                  "p-4 border-2 rounded-lg text-left hover:border-primary",
+                  field.value === "inventory" && "border-primary bg-indigo-50"
+                )}
+              >
+                <ClipboardList className="text-primary h-5 w-5 mb-2" />
+                <span className="block font-medium">Itemized inventory</span>
+                <span className="text-sm text-gray-500">List your furniture room by room for a more accurate truck size and price</span>
+              </button>
+            </div>
+          )}
+        />
+        
+        {form.watch("estimateMode") === "inventory" && (
+          <Controller
+            control={form.control}
+            name="inventory"
+            render={({ field }) => (
+              <InventoryBuilder
+                value={field.value}
+                onChange={(inventory) => {
+                  field.onChange(inventory);
+                  form.clearErrors("inventory");
+                }}
+              />
+            )}
+          />
+        )}
+        {form.formState.errors.inventory && (
+          <p className="text-red-500 text-xs mt-1">{form.formState.errors.inventory.message}</p>
+        )}
+        
+        <div className="flex justify-between mt-8">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handlePrevious}
+            className="bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+          >
+            Back
+          </Button>
+          <Button
+            type="button"
+            onClick={handleNext}
+            className="bg-primary hover:bg-indigo-700 text-white font-medium"
+          >
+            Continue
+          </Button>
+        </div>
+      </div>
+      
+      {/* Step 4: Move Date */}
+      <div className={cn("space-y-6", currentStep !== 4 && "hidden")}>
         <h3 className="text-xl font-medium text-gray-900">When are you planning to move?</h3>
         
         <div className="grid md:grid-cols-2 gap-6">
@@ -563,8 +724,8 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
         </div>
       </div>
       
-      {/* Step 4: Results */}
-      <div className={cn("space-y-6", currentStep !== 4 && "hidden")}>
+      {/* Step 5: Results */}
+      <div className={cn("space-y-6", currentStep !== 5 && "hidden")}>
         {results && (
           <>
             <div className="flex items-center justify-between">
@@ -604,6 +765,20 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                 >
                   <Printer className="mr-1 h-4 w-4" /> Print
                 </Button>
+                <Button 
+                  type="button" 
+                  variant="ghost"
+                  className="inline-flex items-center text-primary hover:text-indigo-700 font-medium"
+                  onClick={handleDownloadReport}
+                  disabled={downloadingReport || savingEstimate}
+                >
+                  {downloadingReport ? (
+                    <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FileDown className="mr-1 h-4 w-4" />
+                  )}
+                  PDF
+                </Button>
               </div>
             </div>
             
@@ -613,14 +788,65 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                 <div>
                   <p className="text-gray-700">Moving from <span className="font-medium">{results.origin}</span> to <span className="font-medium">{results.destination}</span></p>
                   <p className="text-gray-700 mt-1">
-                    <span className="font-medium">{HOME_SIZES.find(s => s.value === results.homeSize)?.label}</span> home on 
+                    {results.volume ? (
+                      <><span className="font-medium">{results.volume.itemCount} items ({results.volume.cubicFeet.toLocaleString()} cu ft)</span> on </>
+                    ) : (
+                      <><span className="font-medium">{HOME_SIZES.find(s => s.value === results.homeSize)?.label}</span> home on </>
+                    )}
                     <span className="font-medium"> {format(new Date(results.moveDate), "MMMM d, yyyy")}</span>
                   </p>
-                  <p className="text-xs text-gray-500 mt-2">Estimates based on approximately {results.distance} miles distance</p>
+                  {results.volume && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      About {results.volume.weight.toLocaleString()} lbs: {results.volume.truckCount > 1 ? `${results.volume.truckCount} × ` : ""}{results.volume.truck}, {results.volume.laborHours} labor hours for full service
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2">
+                    Estimates based on approximately {results.distance} miles distance
+                    {results.distanceConfidence !== "high" && (
+                      <span> (approximate — add a city, state and ZIP code for a more accurate distance)</span>
+                    )}
+                  </p>
                 </div>
               </div>
             </div>
             
+            {/* Price by date within the flexibility window */}
+            {results.dateOptions.length > 1 && (
+              <div className="border rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-gray-900">Hybrid move price by date</h4>
+                  {results.cheapestDate.savings.hybrid > 0 ? (
+                    <p className="text-sm text-green-600 font-medium">
+                      Save ${results.cheapestDate.savings.hybrid} by moving on {format(parseISO(results.cheapestDate.date), "EEE, MMM d")}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-gray-500">Your selected date is already the cheapest</p>
+                  )}
+                </div>
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {results.dateOptions.map((option) => (
+                    <div
+                      key={option.date}
+                      className={cn(
+                        "flex-shrink-0 w-20 rounded-md border p-2 text-center",
+                        option.date === results.cheapestDate.date && "border-green-500 bg-green-50",
+                        option.date === results.moveDate && "ring-2 ring-primary"
+                      )}
+                    >
+                      <div className="text-xs text-gray-500">{format(parseISO(option.date), "EEE")}</div>
+                      <div className="text-sm font-medium">{format(parseISO(option.date), "MMM d")}</div>
+                      <div className={cn(
+                        "text-sm font-semibold mt-1",
+                        option.demandMultiplier > 1 ? "text-amber-600" : "text-gray-900"
+                      )}>
+                        ${option.costs.hybrid}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             <div className="grid md:grid-cols-3 gap-6">
               {/* DIY Option */}
               <div className="border rounded-lg overflow-hidden">
@@ -636,7 +862,11 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                   <ul className="space-y-2">
                     <li className="flex items-start">
                       <CheckCircle className="text-green-500 mr-2 h-4 w-4 mt-0.5" />
-                      <span className="text-sm text-gray-700">15 ft truck rental (1 day)</span>
+                      <span className="text-sm text-gray-700">
+                        {results.volume
+                          ? `${results.volume.truckCount > 1 ? `${results.volume.truckCount} × ` : ""}${results.volume.truck} rental (1 day)`
+                          : "15 ft truck rental (1 day)"}
+                      </span>
                     </li>
                     <li className="flex items-start">
                       <CheckCircle className="text-green-500 mr-2 h-4 w-4 mt-0.5" />
@@ -656,7 +886,12 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                     </li>
                   </ul>
                   <div className="pt-4">
-                    <Button className="w-full bg-gray-800 hover:bg-black text-white font-medium py-2 rounded-md shadow-sm transition-colors">
+                    <Button
+                      type="button"
+                      className="w-full bg-gray-800 hover:bg-black text-white font-medium py-2 rounded-md shadow-sm transition-colors"
+                      disabled={savingEstimate}
+                      onClick={() => handleRequestQuotes("diy", companiesOffering("diy"))}
+                    >
                       View Truck Options
                     </Button>
                   </div>
@@ -704,7 +939,12 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                     </li>
                   </ul>
                   <div className="pt-4">
-                    <Button className="w-full bg-primary hover:bg-indigo-700 text-white font-medium py-2 rounded-md shadow-sm transition-colors">
+                    <Button
+                      type="button"
+                      className="w-full bg-primary hover:bg-indigo-700 text-white font-medium py-2 rounded-md shadow-sm transition-colors"
+                      disabled={savingEstimate}
+                      onClick={() => handleRequestQuotes("hybrid", companiesOffering("hybrid"))}
+                    >
                       Select This Option
                     </Button>
                   </div>
@@ -745,7 +985,12 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                     </li>
                   </ul>
                   <div className="pt-4">
-                    <Button className="w-full bg-gray-800 hover:bg-black text-white font-medium py-2 rounded-md shadow-sm transition-colors">
+                    <Button
+                      type="button"
+                      className="w-full bg-gray-800 hover:bg-black text-white font-medium py-2 rounded-md shadow-sm transition-colors"
+                      disabled={savingEstimate}
+                      onClick={() => handleRequestQuotes("fullService", companiesOffering("fullService"))}
+                    >
                       View Moving Companies
                     </Button>
                   </div>
@@ -774,9 +1019,13 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
             <div className="mt-10">
               <h3 className="text-xl font-medium text-gray-900 mb-6">Recommended Moving Companies</h3>
               
+              {results.companies.length === 0 && (
+                <p className="text-gray-500">No companies in our directory serve this route yet.</p>
+              )}
+              
               <div className="grid md:grid-cols-2 gap-6">
-                {results.companies.map((company, index) => (
-                  <div key={index} className="border rounded-lg p-4 flex">
+                {results.companies.map((company) => (
+                  <div key={company.id} className="border rounded-lg p-4 flex">
                     <div className="w-24 h-24 bg-gray-100 rounded-lg flex items-center justify-center flex-shrink-0">
                       <svg className="text-gray-400 h-10 w-10" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
@@ -786,7 +1035,9 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                       <div className="flex justify-between">
                         <h4 className="font-medium text-lg">{company.name}</h4>
                         <div className="flex items-center">
-                          <span className="text-amber-500 font-medium">{company.rating}</span>
+                          <span className="text-amber-500 font-medium">
+                            {company.reviewCount > 0 ? company.rating.toFixed(1) : "New"}
+                          </span>
                           <div className="flex text-amber-400 ml-1">
                             {Array(5).fill(0).map((_, i) => (
                               <svg 
@@ -804,15 +1055,42 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
                         </div>
                       </div>
                       <p className="text-sm text-gray-500 mt-1">{company.description}</p>
-                      <p className="text-sm font-medium text-green-600 mt-3">
+                      <p className={cn("text-sm font-medium mt-3", company.available ? "text-green-600" : "text-amber-600")}>
                         {company.available 
                           ? "Available on your selected date" 
-                          : "Not available on your selected date"}
+                          : company.nextAvailableDate
+                            ? `Next available ${format(parseISO(company.nextAvailableDate), "MMM d")}`
+                            : "Not available near your selected date"}
                       </p>
-                      <div className="mt-2">
-                        <a href="#" className="text-primary hover:text-indigo-700 text-sm font-medium">
+                      <div className="flex flex-wrap gap-x-4 text-sm text-gray-700 mt-1">
+                        {company.estimatedCosts.diy !== undefined && <span>DIY ~${company.estimatedCosts.diy}</span>}
+                        {company.estimatedCosts.hybrid !== undefined && <span>Hybrid ~${company.estimatedCosts.hybrid}</span>}
+                        {company.estimatedCosts.fullService !== undefined && <span>Full service ~${company.estimatedCosts.fullService}</span>}
+                      </div>
+                      <ul className="mt-2 space-y-1">
+                        {company.reasons.map((reason) => (
+                          <li key={reason} className="flex items-start text-xs text-gray-500">
+                            <CheckCircle className="text-primary mr-1 h-3 w-3 mt-0.5 flex-shrink-0" />
+                            {reason}
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="mt-2 flex items-center gap-4">
+                        <button
+                          type="button"
+                          className="text-primary hover:text-indigo-700 text-sm font-medium"
+                          disabled={savingEstimate}
+                          onClick={() => handleRequestQuotes(company.tiers.includes("fullService") ? "fullService" : company.tiers[0], [company.id])}
+                        >
                           Get a custom quote
-                        </a>
+                        </button>
+                        {company.reviewCount > 0 && (
+                          <CompanyReviewsDialog companyId={company.id} companyName={company.name}>
+                            <button type="button" className="text-gray-600 hover:text-gray-900 text-sm">
+                              Read {company.reviewCount} {company.reviewCount === 1 ? "review" : "reviews"}
+                            </button>
+                          </CompanyReviewsDialog>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -820,6 +1098,20 @@ export function CalculatorForm({ currentStep, setCurrentStep, setResults, result
               </div>
             </div>
             
+            {savedEstimate && quoteRequest && (
+              <QuoteRequestDialog
+                estimate={savedEstimate}
+                tier={quoteRequest.tier}
+                companyIds={quoteRequest.companyIds}
+                open
+                onOpenChange={(open) => !open && setQuoteRequest(null)}
+              />
+            )}
+            
+            {savedEstimate && (
+              <ShareEstimateDialog estimate={savedEstimate} open={sharing} onOpenChange={setSharing} />
+            )}
+            
             <div className="flex justify-between mt-8">
               <Button 
                 type="button" 
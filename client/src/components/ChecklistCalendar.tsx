@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarPlus, Copy, Download, Loader2, RefreshCw, Rss } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, downloadFile } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CalendarSubscription } from "@shared/schema";
+
+// Get a checklist's tasks into a calendar app, once as a file or as a live subscription
+export function ChecklistCalendarMenu({ checklistId }: { checklistId: number }) {
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
+  const { toast } = useToast();
+
+  const handleDownload = () => {
+    downloadFile(`/api/checklists/${checklistId}/calendar`, `moving-checklist-${checklistId}.ics`).catch((error) => {
+      toast({
+        title: "Error downloading calendar",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <CalendarPlus className="mr-1 h-4 w-4" /> Add to calendar
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" /> Download .ics file
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setSubscribeOpen(true)}>
+            <Rss className="mr-2 h-4 w-4" /> Subscribe
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <CalendarSubscriptionDialog open={subscribeOpen} onOpenChange={setSubscribeOpen} />
+    </>
+  );
+}
+
+function CalendarSubscriptionDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: subscription, isLoading } = useQuery<CalendarSubscription>({
+    queryKey: ["/api/calendar/subscription"],
+    enabled: open,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/calendar/subscription/reset");
+      return response.json();
+    },
+    onSuccess: (updated: CalendarSubscription) => {
+      queryClient.setQueryData(["/api/calendar/subscription"], updated);
+      toast({ title: "Address reset", description: "Calendars using the old address will stop updating." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error resetting address",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = () => {
+    if (!subscription) return;
+    navigator.clipboard.writeText(subscription.url).then(
+      () => toast({ title: "Address copied" }),
+      () => toast({ title: "Copy this address", description: subscription.url }),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe to your moving tasks</DialogTitle>
+          <DialogDescription>
+            Add this address to your calendar app to see the tasks from all your checklists on their due dates.
+            It keeps up as you tick tasks off or change your move date. Keep it private: anyone with it can see your tasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !subscription ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <Input readOnly value={subscription.url} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" aria-label="Copy address" onClick={copyUrl}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => resetMutation.mutate()} disabled={!subscription || resetMutation.isPending}>
+            <RefreshCw className="mr-2 h-4 w-4" /> Reset address
+          </Button>
+          <Button asChild disabled={!subscription}>
+            <a href={subscription?.webcalUrl}>Open in calendar app</a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, LogOut, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { ChecklistAccess, ChecklistCollaborator, ChecklistRole } from "@shared/schema";
+
+const ROLE_LABELS: Record<ChecklistAccess, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+// Who a checklist is shared with. The owner invites people and changes their roles;
+// members can see the list and leave.
+export function ChecklistShareDialog({
+  checklistId,
+  access,
+  members,
+  open,
+  onOpenChange,
+}: {
+  checklistId: number;
+  access: ChecklistAccess;
+  members: ChecklistCollaborator[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ChecklistRole>("editor");
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isOwner = access === "owner";
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message || "Please try again later", variant: "destructive" });
+  };
+
+  // Member changes can unassign tasks, so the items are refreshed too
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/checklists", checklistId] });
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/checklists/${checklistId}/members`, { username: username.trim(), role });
+      return response.json();
+    },
+    onSuccess: (member: ChecklistCollaborator) => {
+      refresh();
+      setUsername("");
+      toast({ title: "Checklist shared", description: `${member.username} can now see this checklist.` });
+    },
+    onError: onError("Error sharing checklist"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: number; role: ChecklistRole }) => {
+      const response = await apiRequest("PATCH", `/api/checklists/${checklistId}/members/${userId}`, { role });
+      return response.json();
+    },
+    onSuccess: refresh,
+    onError: onError("Error changing role"),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/checklists/${checklistId}/members/${userId}`);
+    },
+    onSuccess: (_, userId) => {
+      if (userId === user?.id) {
+        // Left the checklist; it's no longer in the user's list
+        onOpenChange(false);
+        queryClient.invalidateQueries({ queryKey: ["/api/checklists"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/checklist-items/upcoming"] });
+        return;
+      }
+      refresh();
+    },
+    onError: onError("Error removing member"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share this checklist</DialogTitle>
+          <DialogDescription>
+            Plan the move together. Editors can add, assign and tick off tasks; viewers can only see them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (username.trim()) inviteMutation.mutate();
+            }}
+          >
+            <Input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+            <Select value={role} onValueChange={(value) => setRole(value as ChecklistRole)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={!username.trim() || inviteMutation.isPending}>
+              {inviteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+            </Button>
+          </form>
+        )}
+
+        <ul className="divide-y">
+          {members.map(member => (
+            <li key={member.userId} className="flex items-center gap-3 py-2">
+              <div className="flex-grow text-sm font-medium">
+                {member.username}
+                {member.userId === user?.id && <span className="text-muted-foreground"> (you)</span>}
+              </div>
+              {isOwner && member.access !== "owner" ? (
+                <>
+                  <Select
+                    value={member.access}
+                    onValueChange={(value) => roleMutation.mutate({ userId: member.userId, role: value as ChecklistRole })}
+                  >
+                    <SelectTrigger className="h-8 w-28 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="editor">{ROLE_LABELS.editor}</SelectItem>
+                      <SelectItem value="viewer">{ROLE_LABELS.viewer}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`Stop sharing with ${member.username}`}
+                    disabled={removeMutation.isPending}
+                    onClick={() => removeMutation.mutate(member.userId)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              ) : (
+                <Badge variant="outline">{ROLE_LABELS[member.access]}</Badge>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {!isOwner && user && (
+          <Button variant="outline" onClick={() => removeMutation.mutate(user.id)} disabled={removeMutation.isPending}>
+            <LogOut className="mr-2 h-4 w-4" /> Leave this checklist
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
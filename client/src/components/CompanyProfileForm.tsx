@@ -0,0 +1,206 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { HOME_SIZES } from "@/lib/constants";
+import { TIER_LABELS } from "./QuoteRequests";
+import {
+  movingCompanyProfileSchema,
+  type CompanyTier,
+  type MovingCompany,
+  type MovingCompanyProfile,
+} from "@shared/schema";
+
+interface CompanyProfileFormProps {
+  company?: MovingCompany; // Omitted when registering a new company
+  onSaved?: (company: MovingCompany) => void;
+}
+
+// Directory profile a mover registers and keeps up to date
+export function CompanyProfileForm({ company, onSaved }: CompanyProfileFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<MovingCompanyProfile>({
+    resolver: zodResolver(movingCompanyProfileSchema),
+    defaultValues: company
+      ? {
+          name: company.name,
+          description: company.description,
+          serviceStates: company.serviceStates,
+          interstate: company.interstate,
+          tiers: company.tiers,
+          maxHomeSize: company.maxHomeSize as MovingCompanyProfile["maxHomeSize"],
+          dailyCapacity: company.dailyCapacity,
+          pricingMultipliers: company.pricingMultipliers,
+        }
+      : {
+          name: "",
+          description: "",
+          serviceStates: [],
+          interstate: false,
+          tiers: ["fullService"],
+          maxHomeSize: "3bedroom",
+          dailyCapacity: 1,
+          pricingMultipliers: { diy: 1, hybrid: 1, fullService: 1 },
+        },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: MovingCompanyProfile) => {
+      const response = company
+        ? await apiRequest("PATCH", `/api/moving-companies/${company.id}`, data)
+        : await apiRequest("POST", "/api/moving-companies", data);
+      return response.json();
+    },
+    onSuccess: (saved: MovingCompany) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/moving-companies"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/moving-companies/${saved.id}`] });
+      toast({
+        title: company ? "Company profile updated" : "Company registered",
+        description: saved.published ? undefined : "An admin will check your company before it's listed in the directory",
+      });
+      onSaved?.(saved);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving company profile",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = form.handleSubmit((data) => saveMutation.mutate(data));
+  const errors = form.formState.errors;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="company-name">Company name</Label>
+          <Input id="company-name" {...form.register("name")} />
+          {errors.name && <p className="text-red-500 text-xs">{errors.name.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="company-states">States served</Label>
+          <Controller
+            control={form.control}
+            name="serviceStates"
+            render={({ field }) => (
+              <Input
+                id="company-states"
+                defaultValue={field.value.join(", ")}
+                onBlur={(e) => field.onChange(e.target.value.split(",").map(state => state.trim().toUpperCase()).filter(Boolean))}
+                placeholder="NY, NJ, CT or * for nationwide"
+              />
+            )}
+          />
+          {errors.serviceStates && <p className="text-red-500 text-xs">Use two-letter state codes, or * for nationwide</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="company-description">Description</Label>
+        <Textarea id="company-description" {...form.register("description")} />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Services offered</Label>
+        <Controller
+          control={form.control}
+          name="tiers"
+          render={({ field }) => (
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(TIER_LABELS) as CompanyTier[]).map(tier => (
+                <label key={tier} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={field.value.includes(tier)}
+                    onCheckedChange={(checked) => field.onChange(
+                      checked === true ? [...field.value, tier] : field.value.filter(t => t !== tier)
+                    )}
+                  />
+                  {TIER_LABELS[tier]}
+                </label>
+              ))}
+            </div>
+          )}
+        />
+        {errors.tiers && <p className="text-red-500 text-xs">Choose at least one service</p>}
+      </div>
+
+      <div className="grid sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Largest home</Label>
+          <Controller
+            control={form.control}
+            name="maxHomeSize"
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HOME_SIZES.map(size => (
+                    <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="company-capacity">Jobs per day</Label>
+          <Input id="company-capacity" type="number" min={0} {...form.register("dailyCapacity", { valueAsNumber: true })} />
+        </div>
+        <div className="flex items-end pb-2">
+          <Controller
+            control={form.control}
+            name="interstate"
+            render={({ field }) => (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={!!field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                Licensed for interstate moves
+              </label>
+            )}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Price level relative to our estimates (1 = same)</Label>
+        <div className="grid grid-cols-3 gap-4">
+          {(Object.keys(TIER_LABELS) as CompanyTier[]).map(tier => (
+            <div key={tier}>
+              <span className="text-xs text-muted-foreground">{TIER_LABELS[tier]}</span>
+              <Input type="number" step="0.05" min={0} {...form.register(`pricingMultipliers.${tier}`, { valueAsNumber: true })} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+            </>
+          ) : company ? (
+            "Save Profile"
+          ) : (
+            "Register Company"
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
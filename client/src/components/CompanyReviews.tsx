@@ -0,0 +1,352 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { formatDistanceToNow } from "date-fns";
+import { Star, Flag, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  reviewSubmissionSchema,
+  type MovingCompany,
+  type Paginated,
+  type PublicCompanyReview,
+  type ReviewSubmission,
+  type ReviewSummary,
+} from "@shared/schema";
+
+type ReviewPage = Paginated<PublicCompanyReview> & { summary: ReviewSummary };
+
+const RATING_ASPECTS = [
+  { name: "punctuality", label: "Punctuality" },
+  { name: "care", label: "Care with belongings" },
+  { name: "priceAccuracy", label: "Price accuracy" },
+] as const;
+
+const PAGE_SIZE = 5;
+
+interface CompanyReviewsDialogProps {
+  companyId: number;
+  companyName: string;
+  children: React.ReactNode; // Trigger
+}
+
+// Paginated reviews for a company, with aggregate ratings and reporting
+export function CompanyReviewsDialog({ companyId, companyName, children }: CompanyReviewsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<ReviewPage>({
+    queryKey: [`/api/moving-companies/${companyId}/reviews?page=${page}&pageSize=${PAGE_SIZE}`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{companyName} reviews</DialogTitle>
+          <DialogDescription>From customers who saved an estimate for their move</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : data.total === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No reviews yet.</p>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-4 gap-3 text-center">
+              <div className="rounded bg-muted/50 p-2">
+                <div className="text-2xl font-bold">{data.summary.average.toFixed(1)}</div>
+                <div className="text-xs text-muted-foreground">{data.summary.count} reviews</div>
+              </div>
+              {RATING_ASPECTS.map(aspect => (
+                <div key={aspect.name} className="rounded bg-muted/50 p-2">
+                  <div className="text-lg font-semibold">{data.summary[aspect.name].toFixed(1)}</div>
+                  <div className="text-xs text-muted-foreground">{aspect.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <ul className="space-y-4">
+              {data.items.map(review => (
+                <ReviewItem key={review.id} review={review} />
+              ))}
+            </ul>
+
+            {data.totalPages > 1 && (
+              <Pagination>
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href="#"
+                      className={cn(page <= 1 && "pointer-events-none opacity-50")}
+                      onClick={(e) => { e.preventDefault(); setPage(page - 1); }}
+                    />
+                  </PaginationItem>
+                  <PaginationItem className="px-3 text-sm text-muted-foreground">
+                    Page {data.page} of {data.totalPages}
+                  </PaginationItem>
+                  <PaginationItem>
+                    <PaginationNext
+                      href="#"
+                      className={cn(page >= data.totalPages && "pointer-events-none opacity-50")}
+                      onClick={(e) => { e.preventDefault(); setPage(page + 1); }}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ReviewItem({ review }: { review: PublicCompanyReview }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reporting, setReporting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const flagMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/reviews/${review.id}/flag`, { reason });
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setReporting(false);
+      setReason("");
+      toast({ title: "Review reported", description: data.message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error reporting review",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <li className="border-b pb-4 last:border-b-0">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Stars value={review.overall} />
+          <span className="text-sm font-medium">{review.reviewer}</span>
+          {review.location && <span className="text-xs text-muted-foreground">moved to {review.location}</span>}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+        </span>
+      </div>
+      <p className="text-sm text-gray-700 mt-2">{review.text}</p>
+      <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+        <span>Punctuality {review.punctuality}/5</span>
+        <span>Care {review.care}/5</span>
+        <span>Price accuracy {review.priceAccuracy}/5</span>
+        {user && !reporting && (
+          <button type="button" className="ml-auto inline-flex items-center hover:text-red-600" onClick={() => setReporting(true)}>
+            <Flag className="h-3 w-3 mr-1" /> Report
+          </button>
+        )}
+      </div>
+      {reporting && (
+        <div className="mt-2 flex gap-2">
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What's wrong with this review?"
+            className="min-h-[60px] text-sm"
+          />
+          <div className="flex flex-col gap-1">
+            <Button
+              type="button"
+              size="sm"
+              variant="destructive"
+              disabled={reason.trim().length < 3 || flagMutation.isPending}
+              onClick={() => flagMutation.mutate()}
+            >
+              Report
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setReporting(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+interface ReviewFormDialogProps {
+  estimateId: number;
+  children: React.ReactNode; // Trigger
+}
+
+// Review a mover for one of the user's saved estimates
+export function ReviewFormDialog({ estimateId, children }: ReviewFormDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [companyId, setCompanyId] = useState<string>("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: companies } = useQuery<MovingCompany[]>({
+    queryKey: ["/api/moving-companies"],
+    enabled: open,
+  });
+
+  const form = useForm<ReviewSubmission>({
+    resolver: zodResolver(reviewSubmissionSchema),
+    defaultValues: {
+      estimateId,
+      punctuality: 0,
+      care: 0,
+      priceAccuracy: 0,
+      text: "",
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async (data: ReviewSubmission) => {
+      const response = await apiRequest("POST", `/api/moving-companies/${companyId}/reviews`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews/featured"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/moving-companies"] });
+      setOpen(false);
+      form.reset();
+      setCompanyId("");
+      toast({ title: "Review submitted", description: "Thanks for helping other movers choose." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error submitting review",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = form.handleSubmit((data) => reviewMutation.mutate(data));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Review your mover</DialogTitle>
+          <DialogDescription>How did the company you hired for this move do?</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Moving company</Label>
+            <Select value={companyId} onValueChange={setCompanyId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a company" />
+              </SelectTrigger>
+              <SelectContent>
+                {companies?.map(company => (
+                  <SelectItem key={company.id} value={String(company.id)}>{company.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {RATING_ASPECTS.map(aspect => (
+            <div key={aspect.name} className="flex items-center justify-between">
+              <Label>{aspect.label}</Label>
+              <Controller
+                control={form.control}
+                name={aspect.name}
+                render={({ field }) => (
+                  <StarInput value={field.value} onChange={field.onChange} label={aspect.label} />
+                )}
+              />
+            </div>
+          ))}
+          {RATING_ASPECTS.some(aspect => form.formState.errors[aspect.name]) && (
+            <p className="text-red-500 text-xs">Please rate all three aspects</p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor={`review-text-${estimateId}`}>Your review</Label>
+            <Textarea id={`review-text-${estimateId}`} {...form.register("text")} placeholder="What went well, and what could have gone better?" />
+            {form.formState.errors.text && (
+              <p className="text-red-500 text-xs">{form.formState.errors.text.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={!companyId || reviewMutation.isPending}>
+              {reviewMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Submitting...
+                </>
+              ) : (
+                "Submit Review"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function StarInput({ value, onChange, label }: { value: number; onChange: (value: number) => void; label: string }) {
+  return (
+    <div className="flex">
+      {[1, 2, 3, 4, 5].map(star => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          aria-label={`${label}: ${star} stars`}
+          className="p-0.5"
+        >
+          <Star className={cn("h-5 w-5 text-amber-400", star <= value && "fill-current")} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function Stars({ value }: { value: number }) {
+  return (
+    <div className="flex">
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star key={star} className={cn("h-4 w-4 text-amber-400", star <= Math.round(value) && "fill-current")} />
+      ))}
+    </div>
+  );
+}
@@ -7,44 +7,59 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Truck, Users, Package, HelpCircle, PieChart as PieChartIcon, BarChart as BarChartIcon, Activity } from 'lucide-react';
+import { Truck, Users, Package, Fuel, Gem, Sparkles, ShieldCheck, Receipt, CalendarClock, PieChart as PieChartIcon, BarChart as BarChartIcon, Activity } from 'lucide-react';
+import type { CostCategory, MoveCalculationResponse } from '@shared/schema';
+
+type Tier = keyof MoveCalculationResponse["costs"];
 
 interface CostBreakdownChartProps {
-  breakdown: {
-    transportation: number;
-    labor: number;
-    materials: number;
-    other: number;
-  };
-  costs?: {
-    diy: number;
-    hybrid: number;
-    fullService: number;
-  };
+  breakdown: MoveCalculationResponse["breakdown"];
+  costs: MoveCalculationResponse["costs"];
 }
 
 // Enhanced descriptions for cost categories
-const costDescriptions = {
-  transportation: "Transportation costs include truck rental, fuel, and distance-based charges for relocating your belongings.",
-  labor: "Labor costs cover loading, unloading, and any additional help required during your move.",
+const costDescriptions: Record<CostCategory, string> = {
+  truck: "Truck or container rental plus distance-based mileage charges for relocating your belongings.",
+  fuel: "Fuel for the trip, based on the driving distance between your addresses.",
+  labor: "Labor covers loading, unloading, and moving crew time, priced per mover-hour.",
   materials: "Materials include boxes, tape, bubble wrap, furniture covers, and other packing supplies.",
-  other: "Other costs may include insurance, storage fees, specialty item handling, and potential unexpected expenses.",
+  specialItems: "Extra handling and equipment for pianos, artwork, gym equipment, and other special items.",
+  services: "Additional services you selected, such as packing, storage, or cleaning.",
+  demand: "Adjustment for how busy movers are on your date: summer, weekends, and month-end cost more.",
+  insurance: "Valuation coverage that protects your belongings while in transit.",
+  taxes: "Sales tax on equipment rental and packing materials.",
 };
 
 // Icons for each cost category
-const costIcons = {
-  transportation: <Truck className="h-4 w-4" />,
+const costIcons: Record<CostCategory, React.ReactNode> = {
+  truck: <Truck className="h-4 w-4" />,
+  fuel: <Fuel className="h-4 w-4" />,
   labor: <Users className="h-4 w-4" />,
   materials: <Package className="h-4 w-4" />,
-  other: <HelpCircle className="h-4 w-4" />,
+  specialItems: <Gem className="h-4 w-4" />,
+  services: <Sparkles className="h-4 w-4" />,
+  demand: <CalendarClock className="h-4 w-4" />,
+  insurance: <ShieldCheck className="h-4 w-4" />,
+  taxes: <Receipt className="h-4 w-4" />,
 };
 
 // Color palette with lighter variants for hover states
-const colorPalette = {
-  transportation: { main: '#4F46E5', light: '#818CF8' },
+const colorPalette: Record<CostCategory, { main: string, light: string }> = {
+  truck: { main: '#4F46E5', light: '#818CF8' },
+  fuel: { main: '#F59E0B', light: '#FCD34D' },
   labor: { main: '#2563EB', light: '#60A5FA' },
   materials: { main: '#8B5CF6', light: '#A78BFA' },
-  other: { main: '#EC4899', light: '#F472B6' },
+  specialItems: { main: '#EC4899', light: '#F472B6' },
+  services: { main: '#10B981', light: '#6EE7B7' },
+  demand: { main: '#EF4444', light: '#FCA5A5' },
+  insurance: { main: '#0EA5E9', light: '#7DD3FC' },
+  taxes: { main: '#6B7280', light: '#9CA3AF' },
+};
+
+const tierLabels: Record<Tier, string> = {
+  diy: 'DIY Move',
+  hybrid: 'Hybrid Move',
+  fullService: 'Full Service',
 };
 
 // Chart type options
@@ -53,57 +68,24 @@ type ChartType = 'pie' | 'bar' | 'radial';
 export function CostBreakdownChart({ breakdown, costs }: CostBreakdownChartProps) {
   const [activeIndex, setActiveIndex] = useState<number | null>(null);
   const [chartType, setChartType] = useState<ChartType>('pie');
-  const [selectedTab, setSelectedTab] = useState<string>("hybrid");
+  const [selectedTab, setSelectedTab] = useState<Tier>("hybrid");
   
-  // Calculate total cost
-  const totalCost = Object.values(breakdown).reduce((sum, value) => sum + value, 0);
+  // Line items always sum to the tier's total cost
+  const totalCost = costs[selectedTab];
   
-  // Prepare data for charts
-  const data = [
-    { 
-      name: 'Transportation', 
-      value: breakdown.transportation, 
-      color: colorPalette.transportation.main,
-      lightColor: colorPalette.transportation.light,
-      percent: Math.round((breakdown.transportation / totalCost) * 100),
-      icon: costIcons.transportation,
-      description: costDescriptions.transportation
-    },
-    { 
-      name: 'Labor', 
-      value: breakdown.labor, 
-      color: colorPalette.labor.main,
-      lightColor: colorPalette.labor.light,
-      percent: Math.round((breakdown.labor / totalCost) * 100),
-      icon: costIcons.labor,
-      description: costDescriptions.labor
-    },
-    { 
-      name: 'Materials', 
-      value: breakdown.materials, 
-      color: colorPalette.materials.main,
-      lightColor: colorPalette.materials.light,
-      percent: Math.round((breakdown.materials / totalCost) * 100),
-      icon: costIcons.materials,
-      description: costDescriptions.materials
-    },
-    { 
-      name: 'Other', 
-      value: breakdown.other, 
-      color: colorPalette.other.main,
-      lightColor: colorPalette.other.light,
-      percent: Math.round((breakdown.other / totalCost) * 100),
-      icon: costIcons.other,
-      description: costDescriptions.other
-    },
-  ];
-  
-  // Compare data for different moving types
-  const compareData = costs ? [
-    { name: 'DIY', value: costs.diy },
-    { name: 'Hybrid', value: costs.hybrid },
-    { name: 'Full Service', value: costs.fullService },
-  ] : [];
+  // Prepare data for charts from the selected tier's line items
+  // Discounts are listed below the chart but can't be drawn as segments
+  const data = breakdown[selectedTab].filter(item => item.amount > 0).map(item => ({
+    name: item.label,
+    value: item.amount,
+    color: colorPalette[item.category].main,
+    lightColor: colorPalette[item.category].light,
+    percent: totalCost > 0 ? Math.round((item.amount / totalCost) * 100) : 0,
+    icon: costIcons[item.category],
+    description: item.detail
+      ? `${costDescriptions[item.category]} (${item.detail})`
+      : costDescriptions[item.category],
+  }));
   
   // Event handlers
   const handlePieEnter = (_: any, index: number) => {
@@ -264,84 +246,49 @@ export function CostBreakdownChart({ breakdown, costs }: CostBreakdownChartProps
     }
   };
   
-  // Compare options section (if costs are provided)
+  // Per-tier line item lists; switching tabs also switches the chart above
   const renderCompareSection = () => {
-    if (!costs) return null;
-    
     return (
       <div className="mt-6">
-        <Tabs defaultValue="hybrid" value={selectedTab} onValueChange={setSelectedTab}>
+        <Tabs defaultValue="hybrid" value={selectedTab} onValueChange={(value) => setSelectedTab(value as Tier)}>
           <TabsList className="grid grid-cols-3 mb-4">
             <TabsTrigger value="diy">DIY</TabsTrigger>
             <TabsTrigger value="hybrid">Hybrid</TabsTrigger>
             <TabsTrigger value="fullService">Full Service</TabsTrigger>
           </TabsList>
           
-          <TabsContent value="diy" className="mt-0">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-lg">DIY Move Breakdown</CardTitle>
-                <CardDescription>Total cost: ${costs.diy}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-2">
-                  {data.map((item, index) => (
-                    <li key={index} className="flex justify-between items-center py-1 border-b border-gray-100">
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: item.color }}></div>
-                        <span className="text-sm">{item.name}</span>
-                      </div>
-                      <span className="font-medium">${Math.round(item.value * 0.7)}</span>
-                    </li>
-                  ))}
-                </ul>
-              </CardContent>
-            </Card>
-          </TabsContent>
-          
-          <TabsContent value="hybrid" className="mt-0">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-lg">Hybrid Move Breakdown</CardTitle>
-                <CardDescription>Total cost: ${costs.hybrid}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-2">
-                  {data.map((item, index) => (
-                    <li key={index} className="flex justify-between items-center py-1 border-b border-gray-100">
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: item.color }}></div>
-                        <span className="text-sm">{item.name}</span>
-                      </div>
-                      <span className="font-medium">${item.value}</span>
-                    </li>
-                  ))}
-                </ul>
-              </CardContent>
-            </Card>
-          </TabsContent>
-          
-          <TabsContent value="fullService" className="mt-0">
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-lg">Full Service Breakdown</CardTitle>
-                <CardDescription>Total cost: ${costs.fullService}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ul className="space-y-2">
-                  {data.map((item, index) => (
-                    <li key={index} className="flex justify-between items-center py-1 border-b border-gray-100">
-                      <div className="flex items-center">
-                        <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: item.color }}></div>
-                        <span className="text-sm">{item.name}</span>
-                      </div>
-                      <span className="font-medium">${Math.round(item.value * 1.5)}</span>
+          {(Object.keys(tierLabels) as Tier[]).map((tier) => (
+            <TabsContent key={tier} value={tier} className="mt-0">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-lg">{tierLabels[tier]} Breakdown</CardTitle>
+                  <CardDescription>Total cost: ${costs[tier]}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {breakdown[tier].map((item) => (
+                      <li key={item.category} className="flex justify-between items-center py-1 border-b border-gray-100">
+                        <div className="flex items-center">
+                          <div className="w-3 h-3 rounded-full mr-2" style={{ backgroundColor: colorPalette[item.category].main }}></div>
+                          <div>
+                            <span className="text-sm">{item.label}</span>
+                            {item.detail && (
+                              <span className="block text-xs text-gray-500">{item.detail}</span>
+                            )}
+                          </div>
+                        </div>
+                        <span className="font-medium">${item.amount}</span>
+                      </li>
+                    ))}
+                    <li className="flex justify-between items-center pt-2 font-semibold">
+                      <span className="text-sm">Total</span>
+                      <span>${costs[tier]}</span>
                     </li>
-                  ))}
-                </ul>
-              </CardContent>
-            </Card>
-          </TabsContent>
+                  </ul>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
     );
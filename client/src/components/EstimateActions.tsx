@@ -0,0 +1,346 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Archive, ArchiveRestore, Copy, Loader2, MoreVertical, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ADDITIONAL_ITEMS, FLEXIBILITY_OPTIONS, HOME_SIZES } from "@/lib/constants";
+import { moveCalculationRequestSchema, type MoveEstimate } from "@shared/schema";
+
+const SERVICE_OPTIONS = [
+  { value: "packing", label: "Packing" },
+  { value: "storage", label: "Storage" },
+  { value: "cleaning", label: "Cleaning" },
+] as const;
+
+// The inputs that can change after saving; the inventory stays as it was saved
+const estimateEditSchema = moveCalculationRequestSchema.pick({
+  origin: true,
+  destination: true,
+  homeSize: true,
+  additionalItems: true,
+  moveDate: true,
+  flexibility: true,
+  services: true,
+});
+
+type EstimateEdit = z.infer<typeof estimateEditSchema>;
+
+function invalidateEstimates(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/my-estimates") });
+}
+
+// Edit, duplicate, archive and delete actions for a saved estimate
+export function EstimateActionsMenu({ estimate }: { estimate: MoveEstimate }) {
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "duplicate" | "archive" | "unarchive") => {
+      const response = await apiRequest("POST", `/api/estimates/${estimate.id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_estimate: MoveEstimate, action) => {
+      invalidateEstimates(queryClient);
+      toast({
+        title: action === "duplicate" ? "Estimate duplicated" : action === "archive" ? "Estimate archived" : "Estimate restored",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating estimate",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/estimates/${estimate.id}`);
+    },
+    onSuccess: () => {
+      invalidateEstimates(queryClient);
+      setDeleteOpen(false);
+      toast({ title: "Estimate deleted" });
+    },
+    onError: (error) => {
+      setDeleteOpen(false);
+      toast({
+        title: "Error deleting estimate",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Estimate actions">
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setEditOpen(true)}>
+            <Pencil className="mr-2 h-4 w-4" /> Edit
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => actionMutation.mutate("duplicate")}>
+            <Copy className="mr-2 h-4 w-4" /> Duplicate
+          </DropdownMenuItem>
+          {estimate.archivedAt ? (
+            <DropdownMenuItem onSelect={() => actionMutation.mutate("unarchive")}>
+              <ArchiveRestore className="mr-2 h-4 w-4" /> Unarchive
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onSelect={() => actionMutation.mutate("archive")}>
+              <Archive className="mr-2 h-4 w-4" /> Archive
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-red-600" onSelect={() => setDeleteOpen(true)}>
+            <Trash2 className="mr-2 h-4 w-4" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <EditEstimateDialog estimate={estimate} open={editOpen} onOpenChange={setEditOpen} />
+
+      <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this estimate?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The estimate and its inventory are removed for good. Archive it instead if you might want it later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={deleteMutation.isPending}
+              onClick={(e) => { e.preventDefault(); deleteMutation.mutate(); }}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function EditEstimateDialog({
+  estimate,
+  open,
+  onOpenChange,
+}: {
+  estimate: MoveEstimate;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<EstimateEdit>({
+    resolver: zodResolver(estimateEditSchema),
+    values: {
+      origin: estimate.origin,
+      destination: estimate.destination,
+      homeSize: estimate.homeSize as EstimateEdit["homeSize"],
+      additionalItems: (estimate.additionalItems ?? "none") as EstimateEdit["additionalItems"],
+      moveDate: estimate.moveDate,
+      flexibility: (estimate.flexibility ?? "exact") as EstimateEdit["flexibility"],
+      services: (estimate.services ?? []) as EstimateEdit["services"],
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: EstimateEdit) => {
+      const response = await apiRequest("PATCH", `/api/estimates/${estimate.id}`, data);
+      return response.json();
+    },
+    onSuccess: (updated: MoveEstimate) => {
+      invalidateEstimates(queryClient);
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith(`/api/estimates/${estimate.id}/revisions`) });
+      onOpenChange(false);
+      toast({
+        title: "Estimate updated",
+        description: `Full service is now $${updated.costFullService.toLocaleString()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating estimate",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = form.handleSubmit((data) => updateMutation.mutate(data));
+  const errors = form.formState.errors;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Edit estimate</DialogTitle>
+          <DialogDescription>
+            Saving prices the move again with today's rates. Your inventory stays as it was saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id={`edit-estimate-${estimate.id}`} onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`origin-${estimate.id}`}>Moving from</Label>
+            <Input id={`origin-${estimate.id}`} {...form.register("origin")} />
+            {errors.origin && <p className="text-red-500 text-xs">{errors.origin.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`destination-${estimate.id}`}>Moving to</Label>
+            <Input id={`destination-${estimate.id}`} {...form.register("destination")} />
+            {errors.destination && <p className="text-red-500 text-xs">{errors.destination.message}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Home size</Label>
+              <Controller
+                control={form.control}
+                name="homeSize"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOME_SIZES.map(size => (
+                        <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Special items</Label>
+              <Controller
+                control={form.control}
+                name="additionalItems"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ADDITIONAL_ITEMS.map(item => (
+                        <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`move-date-${estimate.id}`}>Move date</Label>
+              <Input id={`move-date-${estimate.id}`} type="date" {...form.register("moveDate")} />
+              {errors.moveDate && <p className="text-red-500 text-xs">{errors.moveDate.message}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label>Date flexibility</Label>
+              <Controller
+                control={form.control}
+                name="flexibility"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FLEXIBILITY_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Additional services</Label>
+            <Controller
+              control={form.control}
+              name="services"
+              render={({ field }) => (
+                <div className="flex gap-4">
+                  {SERVICE_OPTIONS.map(service => (
+                    <label key={service.value} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={field.value.includes(service.value)}
+                        onCheckedChange={(checked) => field.onChange(
+                          checked === true
+                            ? [...field.value, service.value]
+                            : field.value.filter(value => value !== service.value)
+                        )}
+                      />
+                      {service.label}
+                    </label>
+                  ))}
+                </div>
+              )}
+            />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button type="submit" form={`edit-estimate-${estimate.id}`} disabled={updateMutation.isPending}>
+            {updateMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Recalculating...
+              </>
+            ) : (
+              "Save and Recalculate"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ADDITIONAL_ITEMS, HOME_SIZES } from "@/lib/constants";
+import type { ComparedEstimate, EstimateComparison, TierCosts } from "@shared/schema";
+
+// One color per compared estimate, in order
+const ESTIMATE_COLORS = ["#2563EB", "#10B981", "#F59E0B", "#8B5CF6"];
+
+const TIERS: { key: keyof TierCosts; label: string }[] = [
+  { key: "diy", label: "DIY Move" },
+  { key: "hybrid", label: "Hybrid Move" },
+  { key: "fullService", label: "Full Service" },
+];
+
+interface EstimateComparisonDialogProps {
+  estimateIds: number[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EstimateComparisonDialog({ estimateIds, open, onOpenChange }: EstimateComparisonDialogProps) {
+  const { data: comparison, isLoading, error } = useQuery<EstimateComparison>({
+    queryKey: [`/api/estimates/compare?ids=${estimateIds.join(",")}`],
+    enabled: open && estimateIds.length >= 2,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare estimates</DialogTitle>
+          <DialogDescription>Differences are measured against the cheapest estimate for each service level.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error || !comparison ? (
+          <p className="text-red-600">{error?.message || "These estimates couldn't be compared."}</p>
+        ) : (
+          <div className="space-y-6">
+            <ComparisonChart estimates={comparison.estimates} />
+            <ComparisonTable comparison={comparison} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ComparisonChart({ estimates }: { estimates: ComparedEstimate[] }) {
+  // Grouped by tier, one bar per estimate
+  const data = TIERS.map(tier => ({
+    tier: tier.label,
+    ...Object.fromEntries(estimates.map(estimate => [estimateKey(estimate), estimate.costs[tier.key]])),
+  }));
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="tier" />
+          <YAxis tickFormatter={(value: number) => `$${value.toLocaleString()}`} />
+          <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+          <Legend />
+          {estimates.map((estimate, index) => (
+            <Bar
+              key={estimate.id}
+              dataKey={estimateKey(estimate)}
+              name={estimateLabel(estimate)}
+              fill={ESTIMATE_COLORS[index % ESTIMATE_COLORS.length]}
+              radius={[4, 4, 0, 0]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function ComparisonTable({ comparison }: { comparison: EstimateComparison }) {
+  const { estimates, cheapest } = comparison;
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead />
+          {estimates.map((estimate, index) => (
+            <TableHead key={estimate.id}>
+              <span className="inline-flex items-center gap-2">
+                <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: ESTIMATE_COLORS[index % ESTIMATE_COLORS.length] }} />
+                {estimateLabel(estimate)}
+              </span>
+            </TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {TIERS.map(tier => (
+          <TableRow key={tier.key}>
+            <TableCell className="font-medium">{tier.label}</TableCell>
+            {estimates.map(estimate => (
+              <TableCell key={estimate.id}>
+                <div className="font-semibold">${estimate.costs[tier.key].toLocaleString()}</div>
+                {cheapest[tier.key] === estimate.id ? (
+                  <Badge variant="secondary" className="text-xs text-green-700">Cheapest</Badge>
+                ) : (
+                  <div className="text-xs text-red-600">+${estimate.deltas[tier.key].toLocaleString()}</div>
+                )}
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+        <DetailRow label="Route" estimates={estimates} render={estimate => `${estimate.origin} → ${estimate.destination}`} />
+        <DetailRow label="Distance" estimates={estimates} render={estimate => `${estimate.distance.toLocaleString()} miles`} />
+        <DetailRow label="Move date" estimates={estimates} render={estimate => formatMoveDate(estimate.moveDate)} />
+        <DetailRow
+          label="Home size"
+          estimates={estimates}
+          render={estimate => HOME_SIZES.find(size => size.value === estimate.homeSize)?.label ?? estimate.homeSize}
+        />
+        <DetailRow
+          label="Special items"
+          estimates={estimates}
+          render={estimate => ADDITIONAL_ITEMS.find(item => item.value === estimate.additionalItems)?.label ?? estimate.additionalItems}
+        />
+        <DetailRow
+          label="Services"
+          estimates={estimates}
+          render={estimate => (estimate.services.length > 0 ? estimate.services.join(", ") : "None")}
+        />
+      </TableBody>
+    </Table>
+  );
+}
+
+function DetailRow({
+  label,
+  estimates,
+  render,
+}: {
+  label: string;
+  estimates: ComparedEstimate[];
+  render: (estimate: ComparedEstimate) => string;
+}) {
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      {estimates.map(estimate => (
+        <TableCell key={estimate.id} className="text-sm text-muted-foreground">{render(estimate)}</TableCell>
+      ))}
+    </TableRow>
+  );
+}
+
+function estimateKey(estimate: ComparedEstimate) {
+  return `estimate${estimate.id}`;
+}
+
+function estimateLabel(estimate: ComparedEstimate) {
+  return `${estimate.destination.split(",")[0]} · ${formatMoveDate(estimate.moveDate, "MMM d")}`;
+}
+
+function formatMoveDate(moveDate: string, pattern = "MMM d, yyyy") {
+  const date = new Date(`${moveDate.slice(0, 10)}T00:00`);
+  return isNaN(date.getTime()) ? moveDate : format(date, pattern);
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import type { EstimateRevision, EstimateRevisionDiff, MoveEstimate, RevisionCosts } from "@shared/schema";
+
+// Timeline of every price a saved estimate has had
+export function EstimateHistoryDialog({ estimate, children }: { estimate: MoveEstimate; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+
+  const { data: revisions, isLoading } = useQuery<EstimateRevision[]>({
+    queryKey: [`/api/estimates/${estimate.id}/revisions`],
+    enabled: open,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price history</DialogTitle>
+          <DialogDescription>
+            {estimate.origin.split(",")[0]} to {estimate.destination.split(",")[0]}. Each time you edit the move, the new price is added here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !revisions ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+            {[...revisions].reverse().map(revision => (
+              <RevisionEntry
+                key={revision.id}
+                estimateId={estimate.id}
+                revision={revision}
+                isLatest={revision.revision === revisions[revisions.length - 1].revision}
+              />
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function RevisionEntry({
+  estimateId,
+  revision,
+  isLatest,
+}: {
+  estimateId: number;
+  revision: EstimateRevision;
+  isLatest: boolean;
+}) {
+  const [showDiff, setShowDiff] = useState(false);
+
+  return (
+    <li className="ml-4">
+      <div className={cn("absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white", isLatest ? "bg-primary" : "bg-gray-300")} />
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">Revision {revision.revision}</span>
+        {isLatest && <Badge>Current</Badge>}
+        <span className="text-xs text-muted-foreground">
+          {format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")}
+          {revision.pricingVersion && ` · pricing ${revision.pricingVersion}`}
+        </span>
+      </div>
+      <div className="mt-1 text-sm text-gray-700">
+        DIY ${revision.costDiy.toLocaleString()} · Hybrid ${revision.costHybrid.toLocaleString()} · Full service ${revision.costFullService.toLocaleString()}
+      </div>
+
+      {revision.revision > 1 && (
+        <>
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setShowDiff(!showDiff)}>
+            {showDiff ? <ChevronUp className="mr-1 h-3 w-3" /> : <ChevronDown className="mr-1 h-3 w-3" />}
+            What changed since revision {revision.revision - 1}
+          </Button>
+          {showDiff && <RevisionDiff estimateId={estimateId} from={revision.revision - 1} to={revision.revision} />}
+        </>
+      )}
+    </li>
+  );
+}
+
+function RevisionDiff({ estimateId, from, to }: { estimateId: number; from: number; to: number }) {
+  const { data: diff, isLoading } = useQuery<EstimateRevisionDiff>({
+    queryKey: [`/api/estimates/${estimateId}/revisions/diff?from=${from}&to=${to}`],
+  });
+
+  if (isLoading || !diff) {
+    return <Loader2 className="mt-2 h-4 w-4 animate-spin text-primary" />;
+  }
+
+  return (
+    <div className="mt-2 space-y-3 rounded-md bg-muted/50 p-3">
+      {diff.changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing changed.</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {diff.changes.map(change => (
+            <li key={change.field}>
+              <span className="text-muted-foreground">{change.label}:</span>{" "}
+              {formatValue(change.field, change.from)} → {formatValue(change.field, change.to)}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diff.attribution.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>What moved the price</TableHead>
+              <TableHead className="text-right">DIY</TableHead>
+              <TableHead className="text-right">Hybrid</TableHead>
+              <TableHead className="text-right">Full service</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {diff.attribution.map(entry => (
+              <CostRow key={entry.factor} label={entry.label} costs={entry.costChange} />
+            ))}
+            <CostRow label="Total change" costs={diff.costChange} className="font-semibold" />
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+function CostRow({ label, costs, className }: { label: string; costs: RevisionCosts; className?: string }) {
+  return (
+    <TableRow className={className}>
+      <TableCell>{label}</TableCell>
+      <TableCell className="text-right">{formatChange(costs.costDiy)}</TableCell>
+      <TableCell className="text-right">{formatChange(costs.costHybrid)}</TableCell>
+      <TableCell className="text-right">{formatChange(costs.costFullService)}</TableCell>
+    </TableRow>
+  );
+}
+
+function formatChange(amount: number) {
+  if (amount === 0) return <span className="text-muted-foreground">$0</span>;
+  return (
+    <span className={amount > 0 ? "text-red-600" : "text-green-600"}>
+      {amount > 0 ? "+" : "-"}${Math.abs(amount).toLocaleString()}
+    </span>
+  );
+}
+
+function formatValue(field: EstimateRevisionDiff["changes"][number]["field"], value: unknown): string {
+  if (value === null || value === undefined) return "None";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "None";
+  if (field === "distance") return `${value} miles`;
+  if (field === "inventory" && typeof value === "object") {
+    const totals = value as { cubicFeet: number; itemCount: number };
+    return `${totals.itemCount} items, ${totals.cubicFeet} cu ft`;
+  }
+  return String(value);
+}
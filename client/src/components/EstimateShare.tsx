@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Ban, Copy, Eye, Link2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { EstimateShare, MoveEstimate } from "@shared/schema";
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "never", label: "Never" },
+];
+
+interface ShareEstimateDialogProps {
+  estimate: MoveEstimate;
+  open?: boolean; // Controlled when the caller opens the dialog itself
+  onOpenChange?: (open: boolean) => void;
+  children?: React.ReactNode; // Trigger
+}
+
+// Create, copy and revoke read-only links to a saved estimate
+export function ShareEstimateDialog({ estimate, open: controlledOpen, onOpenChange, children }: ShareEstimateDialogProps) {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = onOpenChange ?? setUncontrolledOpen;
+
+  const [expiry, setExpiry] = useState("30");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sharesKey = `/api/estimates/${estimate.id}/shares`;
+
+  const { data: shares, isLoading } = useQuery<EstimateShare[]>({
+    queryKey: [sharesKey],
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", sharesKey, {
+        expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      });
+      return response.json();
+    },
+    onSuccess: (share: EstimateShare) => {
+      queryClient.invalidateQueries({ queryKey: [sharesKey] });
+      copyLink(share);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error creating link",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (share: EstimateShare) => {
+      const response = await apiRequest("POST", `/api/shares/${share.id}/revoke`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [sharesKey] });
+      toast({ title: "Link revoked", description: "Anyone opening it now sees that it has expired." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error revoking link",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = (share: EstimateShare) => {
+    const url = shareUrl(share);
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(url).then(
+        () => toast({ title: "Link copied", description: "Anyone with the link can view this estimate." }),
+        () => toast({ title: "Copy this link", description: url }),
+      );
+    } else if (navigator.share) {
+      navigator.share({ title: "My Moving Cost Estimate", url }).catch((error) => console.log('Error sharing', error));
+    } else {
+      toast({ title: "Copy this link", description: url });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {children && <DialogTrigger asChild>{children}</DialogTrigger>}
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share estimate</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view the prices and inventory for {estimate.origin.split(',')[0]} to {estimate.destination.split(',')[0]}, without logging in. They can't change anything.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-grow space-y-2">
+            <Label>Link expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+            {createMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Link2 className="mr-2 h-4 w-4" />}
+            Create link
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : shares && shares.length > 0 && (
+          <ul className="border rounded-md divide-y">
+            {shares.map(share => {
+              const status = shareStatus(share);
+              return (
+                <li key={share.id} className="flex items-center gap-3 px-3 py-2">
+                  <div className="flex-grow text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">Created {format(new Date(share.createdAt), "MMM d")}</span>
+                      <Badge variant={status === "Active" ? "secondary" : "outline"}>{status}</Badge>
+                    </div>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Eye className="h-3 w-3" />
+                      {share.viewCount} {share.viewCount === 1 ? "view" : "views"}
+                      {share.lastViewedAt && ` · last ${formatDistanceToNow(new Date(share.lastViewedAt), { addSuffix: true })}`}
+                      {status === "Active" && share.expiresAt && ` · expires ${format(new Date(share.expiresAt), "MMM d")}`}
+                    </span>
+                  </div>
+                  {status === "Active" && (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Copy link" onClick={() => copyLink(share)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-red-600"
+                        aria-label="Revoke link"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(share)}
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function shareStatus(share: EstimateShare) {
+  if (share.revokedAt) return "Revoked";
+  if (share.expiresAt && new Date(share.expiresAt) <= new Date()) return "Expired";
+  return "Active";
+}
+
+function shareUrl(share: EstimateShare) {
+  return `${window.location.origin}/share/${share.token}`;
+}
@@ -1,4 +1,4 @@
-import { Menu, LogIn, LogOut, User } from "lucide-react";
+import { Menu, LogIn, LogOut, User, Inbox, Shield } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
@@ -13,6 +13,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { NotificationBell } from "./NotificationCenter";
 
 export function Header() {
   const { user, logoutMutation } = useAuth();
@@ -54,34 +55,53 @@ export function Header() {
           </ul>
           
           {user ? (
-            <DropdownMenu>
-              <DropdownMenuTrigger asChild>
-                <Button variant="ghost" className="relative rounded-full h-8 w-8 p-0">
-                  <Avatar className="h-8 w-8">
-                    <AvatarFallback className="bg-primary/10 text-primary">
-                      {user.username.substring(0, 2).toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-                </Button>
-              </DropdownMenuTrigger>
-              <DropdownMenuContent align="end">
-                <DropdownMenuLabel>My Account</DropdownMenuLabel>
-                <DropdownMenuLabel className="font-normal text-sm text-muted-foreground">
-                  {user.username}
-                </DropdownMenuLabel>
-                <DropdownMenuSeparator />
-                <Link href="/?tab=profile">
-                  <DropdownMenuItem>
-                    <User className="mr-2 h-4 w-4" />
-                    <span>Profile</span>
+            <div className="flex items-center gap-3">
+              <NotificationBell />
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="relative rounded-full h-8 w-8 p-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarFallback className="bg-primary/10 text-primary">
+                        {user.username.substring(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>My Account</DropdownMenuLabel>
+                  <DropdownMenuLabel className="font-normal text-sm text-muted-foreground">
+                    {user.username}
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <Link href="/?tab=profile">
+                    <DropdownMenuItem>
+                      <User className="mr-2 h-4 w-4" />
+                      <span>Profile</span>
+                    </DropdownMenuItem>
+                  </Link>
+                  {user.role === "mover" && (
+                    <Link href="/mover">
+                      <DropdownMenuItem>
+                        <Inbox className="mr-2 h-4 w-4" />
+                        <span>Quote inbox</span>
+                      </DropdownMenuItem>
+                    </Link>
+                  )}
+                  {user.role === "admin" && (
+                    <Link href="/admin">
+                      <DropdownMenuItem>
+                        <Shield className="mr-2 h-4 w-4" />
+                        <span>Admin</span>
+                      </DropdownMenuItem>
+                    </Link>
+                  )}
+                  <DropdownMenuItem onClick={handleLogout} disabled={logoutMutation.isPending}>
+                    <LogOut className="mr-2 h-4 w-4" />
+                    <span>{logoutMutation.isPending ? "Logging out..." : "Log out"}</span>
                   </DropdownMenuItem>
-                </Link>
-                <DropdownMenuItem onClick={handleLogout} disabled={logoutMutation.isPending}>
-                  <LogOut className="mr-2 h-4 w-4" />
-                  <span>{logoutMutation.isPending ? "Logging out..." : "Log out"}</span>
-                </DropdownMenuItem>
-              </DropdownMenuContent>
-            </DropdownMenu>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           ) : (
             <Button onClick={handleLogin} variant="outline" size="sm" className="ml-4">
               <LogIn className="mr-2 h-4 w-4" />
@@ -90,7 +110,10 @@ export function Header() {
           )}
         </nav>
         
-        <MobileMenu user={user} onLogin={handleLogin} onLogout={handleLogout} isLoggingOut={logoutMutation.isPending} />
+        <div className="flex items-center gap-3 md:hidden">
+          {user && <NotificationBell />}
+          <MobileMenu user={user} onLogin={handleLogin} onLogout={handleLogout} isLoggingOut={logoutMutation.isPending} />
+        </div>
       </div>
     </header>
   );
@@ -147,6 +170,22 @@ function MobileMenu({
                   Profile
                 </a>
               </Link>
+              {user.role === "mover" && (
+                <Link href="/mover">
+                  <a className="flex items-center text-gray-700 hover:text-primary font-medium py-2 px-4 rounded hover:bg-gray-100">
+                    <Inbox className="mr-2 h-4 w-4" />
+                    Quote inbox
+                  </a>
+                </Link>
+              )}
+              {user.role === "admin" && (
+                <Link href="/admin">
+                  <a className="flex items-center text-gray-700 hover:text-primary font-medium py-2 px-4 rounded hover:bg-gray-100">
+                    <Shield className="mr-2 h-4 w-4" />
+                    Admin
+                  </a>
+                </Link>
+              )}
               <button 
                 onClick={onLogout}
                 disabled={isLoggingOut}
@@ -0,0 +1,132 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Loader2, Minus, Plus, Package } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { InventoryCatalogItem, InventoryRoom, InventorySelection } from "@shared/schema";
+
+// Shape of GET /api/inventory/catalog
+interface CatalogRoom {
+  id: InventoryRoom;
+  label: string;
+  items: InventoryCatalogItem[];
+}
+
+interface InventoryBuilderProps {
+  value: InventorySelection[];
+  onChange: (value: InventorySelection[]) => void;
+}
+
+export function InventoryBuilder({ value, onChange }: InventoryBuilderProps) {
+  const [selectedRoom, setSelectedRoom] = useState<InventoryRoom>("livingRoom");
+
+  const { data: rooms, isLoading } = useQuery<CatalogRoom[]>({
+    queryKey: ["/api/inventory/catalog"],
+  });
+
+  const quantityOf = (itemId: string) =>
+    value.find(selection => selection.itemId === itemId)?.quantity ?? 0;
+
+  const setQuantity = (item: InventoryCatalogItem, quantity: number) => {
+    const others = value.filter(selection => selection.itemId !== item.id);
+    onChange(quantity > 0 ? [...others, { itemId: item.id, room: item.room, quantity }] : others);
+  };
+
+  // Running totals so customers can see how their load is adding up
+  const catalogItems = rooms?.flatMap(room => room.items) ?? [];
+  const totals = value.reduce((sum, selection) => {
+    const item = catalogItems.find(i => i.id === selection.itemId);
+    if (!item) return sum;
+    return {
+      items: sum.items + selection.quantity,
+      cubicFeet: sum.cubicFeet + item.cubicFeet * selection.quantity,
+      weight: sum.weight + item.weight * selection.quantity,
+    };
+  }, { items: 0, cubicFeet: 0, weight: 0 });
+
+  const roomCount = (room: CatalogRoom) =>
+    value.filter(selection => selection.room === room.id).reduce((sum, selection) => sum + selection.quantity, 0);
+
+  if (isLoading || !rooms) {
+    return (
+      <div className="flex items-center justify-center py-10 text-gray-500">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Loading inventory catalogue...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between bg-indigo-50 border border-indigo-100 rounded-lg px-4 py-3">
+        <div className="flex items-center text-gray-700">
+          <Package className="text-primary mr-2 h-5 w-5" />
+          <span className="font-medium">{totals.items} items</span>
+        </div>
+        <div className="text-sm text-gray-600">
+          {totals.cubicFeet.toLocaleString()} cu ft · {totals.weight.toLocaleString()} lbs
+        </div>
+      </div>
+
+      <Tabs value={selectedRoom} onValueChange={(room) => setSelectedRoom(room as InventoryRoom)}>
+        <TabsList className="flex flex-wrap h-auto justify-start">
+          {rooms.map(room => (
+            <TabsTrigger key={room.id} value={room.id}>
+              {room.label}
+              {roomCount(room) > 0 && (
+                <span className="ml-1 text-xs text-primary">({roomCount(room)})</span>
+              )}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {rooms.map(room => (
+          <TabsContent key={room.id} value={room.id}>
+            <ul className="divide-y border rounded-lg">
+              {room.items.map(item => {
+                const quantity = quantityOf(item.id);
+                return (
+                  <li key={item.id} className={cn("flex items-center justify-between px-4 py-2", quantity > 0 && "bg-indigo-50/50")}>
+                    <div>
+                      <div className="font-medium text-gray-900">{item.name}</div>
+                      <div className="text-xs text-gray-500">{item.cubicFeet} cu ft · {item.weight} lbs</div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={quantity === 0}
+                        onClick={() => setQuantity(item, quantity - 1)}
+                        aria-label={`Remove ${item.name}`}
+                      >
+                        <Minus className="h-4 w-4" />
+                      </Button>
+                      <span className="w-6 text-center font-medium">{quantity}</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={quantity >= 100}
+                        onClick={() => setQuantity(item, quantity + 1)}
+                        aria-label={`Add ${item.name}`}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </TabsContent>
+        ))}
+      </Tabs>
+
+      <p className="text-xs text-gray-500">
+        Pianos, artwork and gym equipment need special handling; choose them under special items on the previous step.
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/hooks/use-auth';
+import { useChecklistSync } from '@/hooks/use-checklist-sync';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
@@ -12,9 +13,40 @@ import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { format } from 'date-fns';
-import { CalendarIcon, Clock, Calendar as CalendarIcon2, CheckCircle, CheckSquare, FileCheck, Settings, Tag, MapPin } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { CalendarIcon, Clock, Calendar as CalendarIcon2, CheckCircle, CheckSquare, FileCheck, Settings, Tag, MapPin, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Users } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ChecklistCalendarMenu } from './ChecklistCalendar';
+import { ChecklistShareDialog } from './ChecklistSharing';
+import {
+  CHECKLIST_CATEGORIES,
+  checklistItemInputSchema,
+  type ChecklistAccess,
+  type ChecklistCollaborator,
+  type ChecklistItemInput,
+} from '@shared/schema';
 
 // Define types for checklist and checklist items
 type Checklist = {
@@ -25,6 +57,12 @@ type Checklist = {
   createdAt: string;
 };
 
+// As listed: the user's own checklists and the ones shared with them
+type ChecklistSummary = Checklist & {
+  access: ChecklistAccess;
+  ownerUsername: string;
+};
+
 type ChecklistItem = {
   id: number;
   checklistId: number;
@@ -33,24 +71,82 @@ type ChecklistItem = {
   category: string;
   timeframe: string;
   completed: boolean;
+  position: number;
+  dueDate: string | null;
+  assignedTo: number | null;
+  completedBy: number | null;
+  completedAt: string | null;
   createdAt: string;
 };
 
+type ItemUpdate = { id: number, completed?: boolean, assignedTo?: number | null };
+
 type TimeframeItem = {
   label: string;
   value: string;
   order: number;
 };
 
+// Define timeframes for filtering and ordering
+const timeframes: TimeframeItem[] = [
+  { label: '8 Weeks Before', value: '8-weeks', order: 1 },
+  { label: '4 Weeks Before', value: '4-weeks', order: 2 },
+  { label: '2 Weeks Before', value: '2-weeks', order: 3 },
+  { label: '1 Week Before', value: '1-week', order: 4 },
+  { label: 'Moving Day', value: 'moving-day', order: 5 },
+  { label: 'After Moving', value: 'after-move', order: 6 },
+];
+
+// How the user is moving; decides which tier-specific tasks the checklist gets
+const moveTiers = [
+  { label: 'Doing it myself (truck rental)', value: 'diy' },
+  { label: 'Hybrid (I pack, movers drive)', value: 'hybrid' },
+  { label: 'Full-service movers', value: 'fullService' },
+];
+
+// Views of open tasks by due date, alongside the timeframe tabs
+const dueViews = [
+  { label: 'Overdue', value: 'overdue', empty: 'Nothing is overdue.' },
+  { label: 'Due This Week', value: 'this-week', empty: 'Nothing is due in the next 7 days.' },
+];
+
+function categoryLabel(category: string) {
+  return category.charAt(0).toUpperCase() + category.slice(1).replace('-', ' ');
+}
+
+// Due dates are calendar days, so compare them with the user's local date
+function localDay(date: Date) {
+  return format(date, 'yyyy-MM-dd');
+}
+
+function parseDay(value: string) {
+  return new Date(`${value.slice(0, 10)}T00:00`);
+}
+
+function isOverdue(item: ChecklistItem) {
+  return !item.completed && item.dueDate !== null && item.dueDate < localDay(new Date());
+}
+
+function isDueThisWeek(item: ChecklistItem) {
+  return !item.completed && item.dueDate !== null && !isOverdue(item) &&
+    item.dueDate <= localDay(addDays(new Date(), 6));
+}
+
 export function MovingChecklist({ estimateId }: { estimateId?: number }) {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(new Date());
+  const [moveTier, setMoveTier] = useState('');
   const [activeTab, setActiveTab] = useState('all');
+  // The item being edited; null with addingItem set means a new one
+  const [editingItem, setEditingItem] = useState<ChecklistItem | null>(null);
+  const [addingItem, setAddingItem] = useState(false);
+  const [deletingItem, setDeletingItem] = useState<ChecklistItem | null>(null);
+  const [sharing, setSharing] = useState(false);
 
   // Query to get checklists
-  const { data: checklists, isLoading: checklistsLoading } = useQuery<Checklist[]>({
+  const { data: checklists, isLoading: checklistsLoading } = useQuery<ChecklistSummary[]>({
     queryKey: ['/api/checklists'],
     enabled: !!user,
   });
@@ -75,19 +171,41 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
   }, [checklists, estimateId]);
 
   // Query to get checklist items for the selected checklist
-  const { data: checklistData, isLoading: itemsLoading } = useQuery<{ checklist: Checklist, items: ChecklistItem[] }>({
+  const { data: checklistData, isLoading: itemsLoading } = useQuery<{ checklist: Checklist, items: ChecklistItem[], access: ChecklistAccess }>({
     queryKey: ['/api/checklists', selectedChecklistId],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/checklists/${selectedChecklistId}`);
+      return res.json();
+    },
+    enabled: !!selectedChecklistId,
+  });
+
+  // Everyone the checklist is shared with, for assigning tasks and showing who did them
+  const { data: members = [] } = useQuery<ChecklistCollaborator[]>({
+    queryKey: ['/api/checklists', selectedChecklistId, 'members'],
+    queryFn: async () => {
+      const res = await apiRequest('GET', `/api/checklists/${selectedChecklistId}/members`);
+      return res.json();
+    },
     enabled: !!selectedChecklistId,
   });
 
+  // Changes made by anyone the checklist is shared with show up as they happen
+  useChecklistSync(selectedChecklistId);
+
+  const access = checklistData?.access ?? 'viewer';
+  const canEdit = access !== 'viewer';
+  const selectedChecklist = checklists?.find(checklist => checklist.id === selectedChecklistId);
+
   // Mutation to create a new checklist
   const createChecklistMutation = useMutation({
-    mutationFn: async (data: { moveDate: string, estimateId?: number }) => {
+    mutationFn: async (data: { moveDate: string, estimateId?: number, tier: string | null }) => {
       const res = await apiRequest('POST', '/api/checklists', data);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/checklists'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/checklist-items/upcoming'] });
       toast({
         title: 'Checklist created',
         description: 'Your moving checklist has been created successfully.',
@@ -102,14 +220,15 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
     },
   });
 
-  // Mutation to update a checklist item (mark as complete/incomplete)
+  // Mutation to update a checklist item (mark as complete/incomplete, or assign it)
   const updateItemMutation = useMutation({
-    mutationFn: async ({ id, completed }: { id: number, completed: boolean }) => {
-      const res = await apiRequest('PATCH', `/api/checklist-items/${id}`, { completed });
+    mutationFn: async ({ id, ...update }: ItemUpdate) => {
+      const res = await apiRequest('PATCH', `/api/checklist-items/${id}`, update);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/checklists', selectedChecklistId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/checklist-items/upcoming'] });
     },
     onError: (error: Error) => {
       toast({
@@ -120,6 +239,68 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
     },
   });
 
+  // Mutation to change the move date, which moves every due date with it
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ checklistId, moveDate }: { checklistId: number, moveDate: string }) => {
+      const res = await apiRequest('PATCH', `/api/checklists/${checklistId}`, { moveDate });
+      return res.json();
+    },
+    onSuccess: () => {
+      // Also refreshes the checklist list, which shows the move dates
+      queryClient.invalidateQueries({ queryKey: ['/api/checklists'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/checklist-items/upcoming'] });
+      toast({
+        title: 'Move date changed',
+        description: 'Due dates have been updated to match.',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error changing move date',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Mutation to move items around within the checklist
+  const reorderMutation = useMutation({
+    mutationFn: async ({ checklistId, itemIds }: { checklistId: number, itemIds: number[] }) => {
+      const res = await apiRequest('PUT', `/api/checklists/${checklistId}/items/order`, { itemIds });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/checklists', selectedChecklistId] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Error reordering items',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Mutation to delete a checklist item
+  const deleteItemMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/checklist-items/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/checklists', selectedChecklistId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/checklist-items/upcoming'] });
+      setDeletingItem(null);
+    },
+    onError: (error: Error) => {
+      setDeletingItem(null);
+      toast({
+        title: 'Error deleting item',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Handle creating a new checklist
   const handleCreateChecklist = () => {
     if (!selectedDate) {
@@ -133,6 +314,7 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
     createChecklistMutation.mutate({
       moveDate: format(selectedDate, 'yyyy-MM-dd'),
       estimateId: estimateId,
+      tier: moveTier || null,
     });
   };
 
@@ -141,37 +323,60 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
     updateItemMutation.mutate({ id, completed: !currentStatus });
   };
 
-  // Define timeframes for filtering and ordering
-  const timeframes: TimeframeItem[] = [
-    { label: '8 Weeks Before', value: '8-weeks', order: 1 },
-    { label: '4 Weeks Before', value: '4-weeks', order: 2 },
-    { label: '2 Weeks Before', value: '2-weeks', order: 3 },
-    { label: '1 Week Before', value: '1-week', order: 4 },
-    { label: 'Moving Day', value: 'moving-day', order: 5 },
-    { label: 'After Moving', value: 'after-move', order: 6 },
-  ];
-
-  // Filter and sort items based on active tab
-  const filteredItems = React.useMemo(() => {
+  const handleAssignItem = (id: number, assignedTo: number | null) => {
+    updateItemMutation.mutate({ id, assignedTo });
+  };
+
+  // People who can be given tasks; viewers can't tick them off
+  const assignees = members.filter(member => member.access !== 'viewer');
+  const memberName = (userId: number) =>
+    userId === user?.id ? 'you' : members.find(member => member.userId === userId)?.username ?? 'a former member';
+
+  // Sort items by timeframe, then in the order the user arranged them
+  const orderedItems = React.useMemo(() => {
     if (!checklistData?.items) return [];
     
-    let items = [...checklistData.items];
-    
-    // Filter by timeframe if not 'all'
-    if (activeTab !== 'all') {
-      items = items.filter(item => item.timeframe === activeTab);
-    }
-    
-    // Sort by timeframe order, then by completion status
-    return items.sort((a, b) => {
+    return [...checklistData.items].sort((a, b) => {
       const aTimeframe = timeframes.find(t => t.value === a.timeframe)?.order || 99;
       const bTimeframe = timeframes.find(t => t.value === b.timeframe)?.order || 99;
       
       if (aTimeframe !== bTimeframe) return aTimeframe - bTimeframe;
-      if (a.completed !== b.completed) return a.completed ? 1 : -1;
-      return 0;
+      return a.position - b.position || a.id - b.id;
     });
-  }, [checklistData, activeTab]);
+  }, [checklistData]);
+
+  // Filter by due date or timeframe if not 'all'
+  const filteredItems = activeTab === 'all'
+    ? orderedItems
+    : activeTab === 'overdue'
+      ? orderedItems.filter(isOverdue)
+      : activeTab === 'this-week'
+        ? orderedItems.filter(isDueThisWeek)
+        : orderedItems.filter(item => item.timeframe === activeTab);
+  const overdueCount = orderedItems.filter(isOverdue).length;
+  
+  // Moves less than eight weeks out get their early tasks brought forward
+  const compressedTimeline = !!checklistData && orderedItems.some(item =>
+    item.timeframe === '8-weeks' && item.dueDate !== null &&
+    differenceInCalendarDays(parseDay(checklistData.checklist.moveDate), parseDay(item.dueDate)) < 56
+  );
+
+  // Swap an item with its neighbour in the same timeframe
+  const handleMoveItem = (item: ChecklistItem, direction: -1 | 1) => {
+    const siblings = orderedItems.filter(other => other.timeframe === item.timeframe);
+    const neighbour = siblings[siblings.indexOf(item) + direction];
+    if (!neighbour || !selectedChecklistId) return;
+    
+    const itemIds = orderedItems.map(other =>
+      other.id === item.id ? neighbour.id : other.id === neighbour.id ? item.id : other.id
+    );
+    reorderMutation.mutate({ checklistId: selectedChecklistId, itemIds });
+  };
+
+  const isFirstInTimeframe = (item: ChecklistItem) =>
+    orderedItems.find(other => other.timeframe === item.timeframe)?.id === item.id;
+  const isLastInTimeframe = (item: ChecklistItem) =>
+    [...orderedItems].reverse().find(other => other.timeframe === item.timeframe)?.id === item.id;
 
   // Get completion statistics
   const stats = React.useMemo(() => {
@@ -222,6 +427,22 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
               </PopoverContent>
             </Popover>
           </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">How are you moving?</label>
+            <Select value={moveTier} onValueChange={setMoveTier}>
+              <SelectTrigger>
+                <SelectValue placeholder="Not sure yet" />
+              </SelectTrigger>
+              <SelectContent>
+                {moveTiers.map(tier => (
+                  <SelectItem key={tier.value} value={tier.value}>{tier.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              We'll add tasks for your kind of move{estimateId ? ', plus any for the special items and services in your estimate' : ''}.
+            </p>
+          </div>
         </CardContent>
         <CardFooter>
           <Button 
@@ -249,12 +470,45 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
           <div>
             <CardTitle>Moving Checklist</CardTitle>
             <CardDescription>
-              {checklistData?.checklist && (
-                <span>Moving on {format(new Date(checklistData.checklist.moveDate), 'MMMM d, yyyy')}</span>
+              {checklistData?.checklist && access !== 'owner' && (
+                <span>
+                  Moving on {format(parseDay(checklistData.checklist.moveDate), 'MMMM d, yyyy')}
+                  {selectedChecklist && ` · Shared by ${selectedChecklist.ownerUsername}`}
+                  {access === 'viewer' && ' · View only'}
+                </span>
+              )}
+              {checklistData?.checklist && access === 'owner' && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <button className="inline-flex items-center gap-1 hover:underline" disabled={rescheduleMutation.isPending}>
+                      Moving on {format(parseDay(checklistData.checklist.moveDate), 'MMMM d, yyyy')}
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={parseDay(checklistData.checklist.moveDate)}
+                      onSelect={(date) => date && rescheduleMutation.mutate({
+                        checklistId: checklistData.checklist.id,
+                        moveDate: format(date, 'yyyy-MM-dd'),
+                      })}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
               )}
             </CardDescription>
           </div>
           <div className="flex items-center space-x-4">
+            <Button variant="outline" size="sm" onClick={() => setSharing(true)}>
+              <Users className="mr-1 h-4 w-4" /> {members.length > 1 ? `Shared (${members.length})` : 'Share'}
+            </Button>
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={() => setAddingItem(true)}>
+                <Plus className="mr-1 h-4 w-4" /> Add task
+              </Button>
+            )}
             <div className="text-right">
               <div className="text-sm font-medium">Progress</div>
               <div className="text-2xl font-bold">{stats.percentage}%</div>
@@ -271,10 +525,23 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
         </div>
       </CardHeader>
       <CardContent>
+        {compressedTimeline && (
+          <p className="mb-3 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            Your move is less than eight weeks away, so the planning tasks are spread over the time you have left.
+          </p>
+        )}
         <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab}>
           <div className="pb-3">
             <TabsList className="w-full flex">
               <TabsTrigger value="all" className="flex-1">All Tasks</TabsTrigger>
+              {dueViews.map((view) => (
+                <TabsTrigger key={view.value} value={view.value} className="flex-1">
+                  {view.label}
+                  {view.value === 'overdue' && overdueCount > 0 && (
+                    <Badge variant="destructive" className="ml-1 px-1.5 py-0 text-xs">{overdueCount}</Badge>
+                  )}
+                </TabsTrigger>
+              ))}
               {timeframes.map((timeframe) => (
                 <TabsTrigger key={timeframe.value} value={timeframe.value} className="flex-1 hidden md:flex">
                   {timeframe.label}
@@ -283,20 +550,34 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
             </TabsList>
           </div>
 
-          <TabsContent value="all" className="mt-0">
-            <ScrollArea className="h-[400px] pr-4">
-              <div className="space-y-2">
-                {filteredItems.map((item) => (
-                  <ChecklistItemCard
-                    key={item.id}
-                    item={item}
-                    onToggle={handleToggleItem}
-                    timeframeLabel={timeframes.find(t => t.value === item.timeframe)?.label || item.timeframe}
-                  />
-                ))}
-              </div>
-            </ScrollArea>
-          </TabsContent>
+          {[{ value: 'all', empty: '' }, ...dueViews].map((view) => (
+            <TabsContent key={view.value} value={view.value} className="mt-0">
+              <ScrollArea className="h-[400px] pr-4">
+                <div className="space-y-2">
+                  {view.empty && filteredItems.length === 0 && (
+                    <p className="py-8 text-center text-sm text-muted-foreground">{view.empty}</p>
+                  )}
+                  {filteredItems.map((item) => (
+                    <ChecklistItemCard
+                      key={item.id}
+                      item={item}
+                      onToggle={handleToggleItem}
+                      onEdit={setEditingItem}
+                      onDelete={setDeletingItem}
+                      onMove={handleMoveItem}
+                      onAssign={handleAssignItem}
+                      readOnly={!canEdit}
+                      assignees={assignees}
+                      memberName={memberName}
+                      canMoveUp={!isFirstInTimeframe(item)}
+                      canMoveDown={!isLastInTimeframe(item)}
+                      timeframeLabel={timeframes.find(t => t.value === item.timeframe)?.label || item.timeframe}
+                    />
+                  ))}
+                </div>
+              </ScrollArea>
+            </TabsContent>
+          ))}
 
           {timeframes.map((timeframe) => (
             <TabsContent key={timeframe.value} value={timeframe.value} className="mt-0">
@@ -307,6 +588,15 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
                       key={item.id}
                       item={item}
                       onToggle={handleToggleItem}
+                      onEdit={setEditingItem}
+                      onDelete={setDeletingItem}
+                      onMove={handleMoveItem}
+                      onAssign={handleAssignItem}
+                      readOnly={!canEdit}
+                      assignees={assignees}
+                      memberName={memberName}
+                      canMoveUp={!isFirstInTimeframe(item)}
+                      canMoveDown={!isLastInTimeframe(item)}
                       timeframeLabel={timeframe.label}
                       showTimeframe={false}
                     />
@@ -321,33 +611,221 @@ export function MovingChecklist({ estimateId }: { estimateId?: number }) {
         <div className="text-sm text-muted-foreground">
           {stats.completed} of {stats.total} tasks completed
         </div>
-        {checklists && checklists.length > 1 && (
-          <select 
-            value={selectedChecklistId || ''} 
-            onChange={(e) => setSelectedChecklistId(Number(e.target.value))}
-            className="text-sm border rounded p-1"
-          >
-            {checklists.map(checklist => (
-              <option key={checklist.id} value={checklist.id}>
-                Move on {format(new Date(checklist.moveDate), 'MMM d, yyyy')}
-              </option>
-            ))}
-          </select>
-        )}
+        <div className="flex items-center gap-2">
+          {selectedChecklistId && <ChecklistCalendarMenu checklistId={selectedChecklistId} />}
+          {checklists && checklists.length > 1 && (
+            <select 
+              value={selectedChecklistId || ''} 
+              onChange={(e) => setSelectedChecklistId(Number(e.target.value))}
+              className="text-sm border rounded p-1"
+            >
+              {checklists.map(checklist => (
+                <option key={checklist.id} value={checklist.id}>
+                  Move on {format(parseDay(checklist.moveDate), 'MMM d, yyyy')}
+                  {checklist.access !== 'owner' && ` (shared by ${checklist.ownerUsername})`}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
       </CardFooter>
+
+      {selectedChecklistId && (
+        <ChecklistShareDialog
+          checklistId={selectedChecklistId}
+          access={access}
+          members={members}
+          open={sharing}
+          onOpenChange={setSharing}
+        />
+      )}
+
+      {selectedChecklistId && (
+        <ChecklistItemDialog
+          checklistId={selectedChecklistId}
+          item={editingItem}
+          defaultTimeframe={timeframes.some(t => t.value === activeTab) ? activeTab : '8-weeks'}
+          open={addingItem || editingItem !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setAddingItem(false);
+              setEditingItem(null);
+            }
+          }}
+        />
+      )}
+
+      <AlertDialog open={deletingItem !== null} onOpenChange={(open) => !open && setDeletingItem(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this task?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingItem?.task}" will be removed from your checklist.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              disabled={deleteItemMutation.isPending}
+              onClick={(e) => { e.preventDefault(); deletingItem && deleteItemMutation.mutate(deletingItem.id); }}
+            >
+              {deleteItemMutation.isPending ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
 
+// Dialog for adding a task to a checklist or editing an existing one
+function ChecklistItemDialog({
+  checklistId,
+  item,
+  defaultTimeframe,
+  open,
+  onOpenChange,
+}: {
+  checklistId: number;
+  item: ChecklistItem | null;
+  defaultTimeframe: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ChecklistItemInput>({
+    resolver: zodResolver(checklistItemInputSchema),
+    values: {
+      task: item?.task ?? '',
+      description: item?.description ?? '',
+      category: (item?.category ?? 'planning') as ChecklistItemInput['category'],
+      timeframe: (item?.timeframe ?? defaultTimeframe) as ChecklistItemInput['timeframe'],
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ChecklistItemInput) => {
+      const res = item
+        ? await apiRequest('PATCH', `/api/checklist-items/${item.id}`, data)
+        : await apiRequest('POST', `/api/checklists/${checklistId}/items`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/checklists', checklistId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/checklist-items/upcoming'] });
+      onOpenChange(false);
+      toast({ title: item ? 'Task updated' : 'Task added' });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: item ? 'Error updating task' : 'Error adding task',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const errors = form.formState.errors;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{item ? 'Edit task' : 'Add a task'}</DialogTitle>
+        </DialogHeader>
+
+        <form id="checklist-item-form" onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="checklist-item-task">Task</Label>
+            <Input id="checklist-item-task" {...form.register('task')} />
+            {errors.task && <p className="text-red-500 text-xs">{errors.task.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="checklist-item-description">Details (optional)</Label>
+            <Textarea id="checklist-item-description" {...form.register('description')} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>When</Label>
+              <Controller
+                control={form.control}
+                name="timeframe"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeframes.map(timeframe => (
+                        <SelectItem key={timeframe.value} value={timeframe.value}>{timeframe.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Controller
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CHECKLIST_CATEGORIES.map(category => (
+                        <SelectItem key={category} value={category}>{categoryLabel(category)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              />
+            </div>
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button type="submit" form="checklist-item-form" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : item ? 'Save changes' : 'Add task'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Component for displaying an individual checklist item
 function ChecklistItemCard({ 
   item, 
   onToggle, 
+  onEdit,
+  onDelete,
+  onMove,
+  onAssign,
+  readOnly,
+  assignees,
+  memberName,
+  canMoveUp,
+  canMoveDown,
   timeframeLabel,
   showTimeframe = true
 }: { 
   item: ChecklistItem; 
   onToggle: (id: number, currentStatus: boolean) => void; 
+  onEdit: (item: ChecklistItem) => void;
+  onDelete: (item: ChecklistItem) => void;
+  onMove: (item: ChecklistItem, direction: -1 | 1) => void;
+  onAssign: (id: number, assignedTo: number | null) => void;
+  readOnly: boolean;
+  assignees: ChecklistCollaborator[];
+  memberName: (userId: number) => string;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
   timeframeLabel: string;
   showTimeframe?: boolean;
 }) {
@@ -371,6 +849,7 @@ function ChecklistItemCard({
         <Checkbox 
           checked={item.completed}
           onCheckedChange={() => onToggle(item.id, item.completed)}
+          disabled={readOnly}
           className="mt-1"
         />
         <div className="flex-1 space-y-1">
@@ -381,6 +860,22 @@ function ChecklistItemCard({
             )}>
               {item.task}
             </h4>
+            {!readOnly && (
+              <div className="flex items-center">
+                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Move up" disabled={!canMoveUp} onClick={() => onMove(item, -1)}>
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Move down" disabled={!canMoveDown} onClick={() => onMove(item, 1)}>
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Edit task" onClick={() => onEdit(item)}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" aria-label="Delete task" onClick={() => onDelete(item)}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            )}
           </div>
           {item.description && (
             <p className={cn(
@@ -397,11 +892,44 @@ function ChecklistItemCard({
                 {timeframeLabel}
               </Badge>
             )}
+            {item.dueDate && (
+              <Badge
+                variant={isOverdue(item) ? 'destructive' : 'outline'}
+                className="flex items-center gap-1 text-xs"
+              >
+                <CalendarIcon2 className="h-3 w-3" />
+                {isOverdue(item) ? 'Overdue since' : 'Due'} {format(parseDay(item.dueDate), 'MMM d')}
+              </Badge>
+            )}
             <Badge variant="secondary" className="flex items-center gap-1 text-xs">
               {categoryIcons[item.category] || <Tag className="h-3 w-3" />}
-              {item.category.charAt(0).toUpperCase() + item.category.slice(1)}
+              {categoryLabel(item.category)}
             </Badge>
+            {!readOnly && assignees.length > 1 ? (
+              <Select
+                value={item.assignedTo ? String(item.assignedTo) : 'none'}
+                onValueChange={(value) => onAssign(item.id, value === 'none' ? null : Number(value))}
+              >
+                <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs" aria-label="Assign task">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unassigned</SelectItem>
+                  {assignees.map(member => (
+                    <SelectItem key={member.userId} value={String(member.userId)}>{member.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : item.assignedTo && (
+              <Badge variant="outline" className="text-xs">Assigned to {memberName(item.assignedTo)}</Badge>
+            )}
           </div>
+          {item.completed && item.completedBy && (
+            <p className="text-xs text-muted-foreground">
+              Done by {memberName(item.completedBy)}
+              {item.completedAt && ` on ${format(new Date(item.completedAt), 'MMM d')}`}
+            </p>
+          )}
         </div>
       </div>
     </div>
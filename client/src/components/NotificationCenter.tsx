@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AlertTriangle,
+  Bell,
+  CheckCheck,
+  Clock,
+  Eye,
+  HandCoins,
+  Loader2,
+  Trophy,
+  Truck,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest } from "@/lib/queryClient";
+import type { Notification, NotificationList, NotificationType } from "@shared/schema";
+
+const TYPE_ICONS: Record<NotificationType, LucideIcon> = {
+  "task-due": Clock,
+  "task-overdue": AlertTriangle,
+  "move-soon": Truck,
+  "bid-received": HandCoins,
+  "estimate-shared": Eye,
+  "checklist-shared": Users,
+  "achievement-unlocked": Trophy,
+};
+
+// How often the badge checks for new notifications
+const UNREAD_POLL_MS = 60 * 1000;
+
+// Bell with the unread count; opens the latest notifications
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ["/api/notifications/unread-count"],
+    refetchInterval: UNREAD_POLL_MS,
+  });
+
+  const { data: list, isLoading } = useQuery<NotificationList>({
+    queryKey: ["/api/notifications"],
+    enabled: open,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications/unread-count"] });
+  };
+
+  const readMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: refresh,
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: refresh,
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) readMutation.mutate(notification.id);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const unreadCount = list?.unreadCount ?? unread?.count ?? 0;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold text-white">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <h3 className="text-sm font-semibold">Notifications</h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unreadCount === 0 || readAllMutation.isPending}
+            onClick={() => readAllMutation.mutate()}
+          >
+            <CheckCheck className="mr-1 h-3 w-3" /> Mark all read
+          </Button>
+        </div>
+
+        {isLoading || !list ? (
+          <div className="flex justify-center p-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : list.notifications.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-y-auto">
+            {list.notifications.map(notification => (
+              <NotificationRow key={notification.id} notification={notification} onOpen={openNotification} />
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function NotificationRow({
+  notification,
+  onOpen,
+}: {
+  notification: Notification;
+  onOpen: (notification: Notification) => void;
+}) {
+  const Icon = TYPE_ICONS[notification.type as NotificationType] ?? Bell;
+  const unread = !notification.readAt;
+
+  return (
+    <li>
+      <button
+        className={`flex w-full gap-3 px-4 py-3 text-left hover:bg-gray-50 ${unread ? "bg-primary/5" : ""}`}
+        onClick={() => onOpen(notification)}
+      >
+        <Icon className={`mt-0.5 h-4 w-4 flex-shrink-0 ${notification.type === "task-overdue" ? "text-red-500" : "text-primary"}`} />
+        <div className="min-w-0 flex-grow">
+          <p className={`text-sm ${unread ? "font-semibold" : ""}`}>{notification.title}</p>
+          {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+          <p className="mt-1 text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+          </p>
+        </div>
+        {unread && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+      </button>
+    </li>
+  );
+}
@@ -0,0 +1,379 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CheckCircle, Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  MAX_QUOTE_COMPANIES,
+  type CompanyTier,
+  type MoveCalculationResponse,
+  type MoveEstimate,
+  type QuoteRequestDetail,
+  type QuoteRequestStatus,
+} from "@shared/schema";
+
+type CompanyMatch = MoveCalculationResponse["companies"][number];
+
+export const TIER_LABELS: Record<CompanyTier, string> = {
+  diy: "DIY truck rental",
+  hybrid: "Hybrid (container)",
+  fullService: "Full-service movers",
+};
+
+export const QUOTE_STATUS_LABELS: Record<QuoteRequestStatus, string> = {
+  draft: "Draft",
+  sent: "Waiting for bids",
+  bid: "Bids received",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+const ESTIMATE_COSTS: Record<CompanyTier, keyof MoveEstimate> = {
+  diy: "costDiy",
+  hybrid: "costHybrid",
+  fullService: "costFullService",
+};
+
+interface QuoteRequestDialogProps {
+  estimate: MoveEstimate;
+  tier?: CompanyTier;
+  companyIds?: number[]; // Preselected companies
+  open?: boolean; // Controlled when the caller opens the dialog itself
+  onOpenChange?: (open: boolean) => void;
+  children?: React.ReactNode; // Trigger
+}
+
+// Send a saved estimate to companies that serve the move and ask them to bid
+export function QuoteRequestDialog({ estimate, tier: initialTier = "fullService", companyIds: initialCompanyIds = [], open: controlledOpen, onOpenChange, children }: QuoteRequestDialogProps) {
+  const [uncontrolledOpen, setUncontrolledOpen] = useState(false);
+  const open = controlledOpen ?? uncontrolledOpen;
+  const setOpen = onOpenChange ?? setUncontrolledOpen;
+
+  const [tier, setTier] = useState<CompanyTier>(initialTier);
+  const [companyIds, setCompanyIds] = useState<number[]>(initialCompanyIds);
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Only companies that can do this move are offered
+  const { data: matches, isLoading } = useQuery<CompanyMatch[]>({
+    queryKey: ["/api/moving-companies/match", estimate.id],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/moving-companies/match", {
+        origin: estimate.origin,
+        destination: estimate.destination,
+        homeSize: estimate.homeSize,
+        moveDate: estimate.moveDate,
+      });
+      return response.json();
+    },
+    enabled: open,
+  });
+
+  const candidates = matches?.filter(company => company.tiers.includes(tier)) ?? [];
+  const selected = companyIds.filter(id => candidates.some(company => company.id === id));
+
+  const toggleCompany = (companyId: number, checked: boolean) => {
+    setCompanyIds(checked ? [...selected, companyId] : selected.filter(id => id !== companyId));
+  };
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const draft = await apiRequest("POST", "/api/quote-requests", {
+        estimateId: estimate.id,
+        tier,
+        companyIds: selected,
+        notes: notes.trim() || null,
+      });
+      const { id } = await draft.json();
+      const response = await apiRequest("POST", `/api/quote-requests/${id}/send`);
+      return response.json();
+    },
+    onSuccess: (request: QuoteRequestDetail) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-requests"] });
+      setOpen(false);
+      toast({
+        title: "Quote request sent",
+        description: `Movers have until ${format(parseISO(request.expiresAt!), "MMM d")} to bid. Compare bids in your profile.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error requesting quotes",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      {children && <DialogTrigger asChild>{children}</DialogTrigger>}
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request quotes</DialogTitle>
+          <DialogDescription>
+            {estimate.origin.split(',')[0]} to {estimate.destination.split(',')[0]} on {estimate.moveDate}.
+            Companies reply with binding or non-binding bids.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type of move</Label>
+            <Select value={tier} onValueChange={(value) => setTier(value as CompanyTier)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TIER_LABELS) as CompanyTier[]).map(value => (
+                  <SelectItem key={value} value={value}>
+                    {TIER_LABELS[value]} (est. ${(estimate[ESTIMATE_COSTS[value]] as number).toLocaleString()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Companies (up to {MAX_QUOTE_COMPANIES})</Label>
+            {isLoading ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              </div>
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No companies offer this type of move on your route yet.</p>
+            ) : (
+              <ul className="border rounded-md divide-y">
+                {candidates.map(company => {
+                  const checked = selected.includes(company.id);
+                  return (
+                    <li key={company.id} className="flex items-center gap-3 px-3 py-2">
+                      <Checkbox
+                        id={`quote-company-${company.id}`}
+                        checked={checked}
+                        disabled={!checked && selected.length >= MAX_QUOTE_COMPANIES}
+                        onCheckedChange={(value) => toggleCompany(company.id, value === true)}
+                      />
+                      <label htmlFor={`quote-company-${company.id}`} className="flex-grow text-sm cursor-pointer">
+                        <span className="font-medium">{company.name}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {company.reviewCount > 0 ? `${company.rating.toFixed(1)} stars` : "New"}
+                          {company.estimatedCosts[tier] !== undefined && ` · ~$${company.estimatedCosts[tier]!.toLocaleString()}`}
+                          {!company.available && " · Limited availability"}
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`quote-notes-${estimate.id}`}>Notes for movers (optional)</Label>
+            <Textarea
+              id={`quote-notes-${estimate.id}`}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={1000}
+              placeholder="Stairs, elevators, parking, fragile items..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => requestMutation.mutate()} disabled={selected.length === 0 || requestMutation.isPending}>
+            {requestMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Sending...
+              </>
+            ) : (
+              <>
+                <Send className="mr-2 h-4 w-4" /> Send to {selected.length} {selected.length === 1 ? "company" : "companies"}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The customer's quote requests, with bids side by side
+export function QuoteRequestList() {
+  const { data: requests, isLoading } = useQuery<QuoteRequestDetail[]>({
+    queryKey: ["/api/quote-requests"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!requests || requests.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No quote requests yet. Request quotes from your estimate results or a saved estimate.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {requests.map(request => (
+        <QuoteRequestCard key={request.id} request={request} />
+      ))}
+    </div>
+  );
+}
+
+function QuoteRequestCard({ request }: { request: QuoteRequestDetail }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const status = request.status as QuoteRequestStatus;
+  const tier = request.tier as CompanyTier;
+  const estimatedCost = request.estimate[ESTIMATE_COSTS[tier]] as number;
+  const open = status === "sent" || status === "bid";
+
+  const actionMutation = useMutation({
+    mutationFn: async (path: string) => {
+      const response = await apiRequest("POST", `/api/quote-requests/${request.id}/${path}`);
+      return response.json();
+    },
+    onSuccess: (updated: QuoteRequestDetail) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/quote-requests"] });
+      toast({
+        title: updated.status === "accepted" ? "Bid accepted" : "Quote request closed",
+        description: updated.status === "accepted"
+          ? "The mover has been booked for your move date."
+          : "Movers can no longer bid on this request.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating quote request",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Cheapest pending bid, highlighted when comparing
+  const pending = request.bids.filter(bid => bid.status === "pending");
+  const cheapest = pending.length > 0 ? Math.min(...pending.map(bid => bid.total)) : null;
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="font-medium">
+            {TIER_LABELS[tier]}: {request.estimate.origin.split(',')[0]} to {request.estimate.destination.split(',')[0]}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Moving {request.estimate.moveDate} · estimated ${estimatedCost.toLocaleString()}
+            {request.expiresAt && open && ` · bids close ${format(parseISO(request.expiresAt), "MMM d")}`}
+          </div>
+        </div>
+        <Badge variant={status === "accepted" ? "default" : "outline"}>{QUOTE_STATUS_LABELS[status]}</Badge>
+      </div>
+
+      {request.bids.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Sent to {request.companies.map(company => company.name).join(", ")}.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Company</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">vs estimate</TableHead>
+              <TableHead>Valid until</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {request.bids.map(bid => {
+              const difference = bid.total - estimatedCost;
+              return (
+                <TableRow key={bid.id} className={cn(bid.status !== "pending" && bid.status !== "accepted" && "opacity-60")}>
+                  <TableCell>
+                    <div className="font-medium">{bid.companyName}</div>
+                    <ul className="text-xs text-muted-foreground">
+                      {bid.lineItems.map((item, index) => (
+                        <li key={index}>{item.label}: ${item.amount.toLocaleString()}</li>
+                      ))}
+                    </ul>
+                    {bid.message && <p className="text-xs italic mt-1">{bid.message}</p>}
+                  </TableCell>
+                  <TableCell>{bid.type === "binding" ? "Binding" : "Non-binding"}</TableCell>
+                  <TableCell className={cn("text-right font-semibold", bid.total === cheapest && "text-green-600")}>
+                    ${bid.total.toLocaleString()}
+                  </TableCell>
+                  <TableCell className={cn("text-right text-sm", difference > 0 ? "text-amber-600" : "text-green-600")}>
+                    {difference > 0 ? "+" : "-"}${Math.abs(difference).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-sm">{format(parseISO(bid.expiresAt), "MMM d")}</TableCell>
+                  <TableCell className="text-right">
+                    {bid.status === "pending" && status === "bid" ? (
+                      <Button
+                        size="sm"
+                        disabled={actionMutation.isPending}
+                        onClick={() => actionMutation.mutate(`bids/${bid.id}/accept`)}
+                      >
+                        Accept
+                      </Button>
+                    ) : bid.status === "accepted" ? (
+                      <span className="inline-flex items-center text-sm text-green-600">
+                        <CheckCircle className="mr-1 h-4 w-4" /> Accepted
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground capitalize">{bid.status}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {open && (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={actionMutation.isPending}
+            onClick={() => actionMutation.mutate("decline")}
+          >
+            {request.bids.length > 0 ? "Decline all bids" : "Cancel request"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Bell, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  notificationPreferencesInputSchema,
+  type NotificationChannelName,
+  type NotificationPreferencesInput,
+} from "@shared/schema";
+
+const CHANNEL_LABELS: Record<NotificationChannelName, string> = {
+  inApp: "In the app",
+  email: "Email",
+  webhook: "Webhook",
+};
+
+// Empty inputs are saved as "not set"
+const optional = { setValueAs: (value: string) => (value === "" ? null : value) };
+
+// When reminders about due tasks and moving day arrive, and where they go
+export function ReminderSettingsCard() {
+  const { data: preferences, isLoading } = useQuery<NotificationPreferencesInput>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Bell className="h-5 w-5" /> Reminders
+        </CardTitle>
+        <CardDescription>
+          We'll remind you before tasks on your checklists are due, when they fall overdue, and as moving day gets close.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !preferences ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ReminderSettingsForm preferences={preferences} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReminderSettingsForm({ preferences }: { preferences: NotificationPreferencesInput }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const form = useForm<NotificationPreferencesInput>({
+    resolver: zodResolver(notificationPreferencesInputSchema),
+    defaultValues: preferences,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: NotificationPreferencesInput) => {
+      const response = await apiRequest("PUT", "/api/notification-preferences", data);
+      return response.json();
+    },
+    onSuccess: (saved: NotificationPreferencesInput) => {
+      queryClient.setQueryData(["/api/notification-preferences"], saved);
+      form.reset(saved);
+      toast({ title: "Reminder settings saved" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving reminder settings",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = form.handleSubmit((data) => saveMutation.mutate(data));
+  const errors = form.formState.errors;
+  const channels = form.watch("channels");
+  const timeZone = form.watch("timeZone");
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label>Send reminders</Label>
+        <Controller
+          control={form.control}
+          name="channels"
+          render={({ field }) => (
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannelName[]).map(channel => (
+                <label key={channel} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={field.value.includes(channel)}
+                    onCheckedChange={(checked) => field.onChange(
+                      checked === true ? [...field.value, channel] : field.value.filter(c => c !== channel)
+                    )}
+                  />
+                  {CHANNEL_LABELS[channel]}
+                </label>
+              ))}
+            </div>
+          )}
+        />
+      </div>
+
+      {channels.includes("email") && (
+        <div className="space-y-2">
+          <Label htmlFor="reminder-email">Email address</Label>
+          <Input id="reminder-email" type="email" {...form.register("email", optional)} />
+          {errors.email && <p className="text-red-500 text-xs">{errors.email.message}</p>}
+        </div>
+      )}
+
+      {channels.includes("webhook") && (
+        <div className="space-y-2">
+          <Label htmlFor="reminder-webhook">Webhook address</Label>
+          <Input id="reminder-webhook" type="url" placeholder="https://" {...form.register("webhookUrl", optional)} />
+          <p className="text-xs text-muted-foreground">Reminders are posted to it as JSON.</p>
+          {errors.webhookUrl && <p className="text-red-500 text-xs">{errors.webhookUrl.message}</p>}
+        </div>
+      )}
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="reminder-task-days">Days before a task is due</Label>
+          <Input id="reminder-task-days" type="number" min={0} max={14} {...form.register("taskReminderDays", { valueAsNumber: true })} />
+          {errors.taskReminderDays && <p className="text-red-500 text-xs">Choose 0 to 14 days</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reminder-move-days">Days before moving day</Label>
+          <Input id="reminder-move-days" type="number" min={0} max={30} {...form.register("moveReminderDays", { valueAsNumber: true })} />
+          {errors.moveReminderDays && <p className="text-red-500 text-xs">Choose 0 to 30 days</p>}
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="reminder-quiet-start">Quiet from</Label>
+          <Input id="reminder-quiet-start" type="time" {...form.register("quietHoursStart", optional)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reminder-quiet-end">Until</Label>
+          <Input id="reminder-quiet-end" type="time" {...form.register("quietHoursEnd", optional)} />
+          {errors.quietHoursEnd && <p className="text-red-500 text-xs">{errors.quietHoursEnd.message}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="reminder-time-zone">Time zone</Label>
+          <Input id="reminder-time-zone" {...form.register("timeZone")} />
+          {errors.timeZone && <p className="text-red-500 text-xs">{errors.timeZone.message}</p>}
+          {timeZone !== browserTimeZone && (
+            <Button
+              type="button"
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => form.setValue("timeZone", browserTimeZone, { shouldDirty: true })}
+            >
+              Use {browserTimeZone}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Button type="submit" disabled={saveMutation.isPending || !form.formState.isDirty}>
+        {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save reminder settings
+      </Button>
+    </form>
+  );
+}
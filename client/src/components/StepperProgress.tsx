@@ -6,8 +6,9 @@ export function StepperProgress({ currentStep }: StepperProgressProps) {
   const steps = [
     { number: 1, label: "Locations" },
     { number: 2, label: "Home Size" },
-    { number: 3, label: "Move Date" },
-    { number: 4, label: "Results" },
+    { number: 3, label: "Inventory" },
+    { number: 4, label: "Move Date" },
+    { number: 5, label: "Results" },
   ];
 
   return (
@@ -6,22 +6,27 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { Award, Gift, Smile, Heart, Coffee, Home, Music, Box, CheckCircle, Star, Crown, Medal } from 'lucide-react';
+import { Award, Gift, Smile, Heart, Coffee, Home, Music, Box, CheckCircle, Star, Crown, Medal, ListChecks, type LucideIcon } from 'lucide-react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useLocation } from 'wouter';
 import { apiRequest } from '@/lib/queryClient';
+import type { AchievementStatus, ProgressActivity, ProgressUpdate, UserProgress } from '@shared/schema';
 import { AnimatePresence, motion } from 'framer-motion';
 import confetti from 'canvas-confetti';
 
-// Types for our gamification elements
-interface Achievement {
-  id: string;
-  title: string;
-  description: string;
-  icon: React.ReactNode;
-  unlocked: boolean;
-  points: number;
-}
+// Icons for the icon keys the server gives achievements
+const ACHIEVEMENT_ICONS: Record<string, { icon: LucideIcon; color: string }> = {
+  'home': { icon: Home, color: 'text-blue-500' },
+  'box': { icon: Box, color: 'text-green-500' },
+  'check-circle': { icon: CheckCircle, color: 'text-purple-500' },
+  'medal': { icon: Medal, color: 'text-red-500' },
+  'list-checks': { icon: ListChecks, color: 'text-indigo-500' },
+  'star': { icon: Star, color: 'text-yellow-500' },
+  'crown': { icon: Crown, color: 'text-amber-500' },
+  'heart': { icon: Heart, color: 'text-pink-500' },
+};
 
+// Types for our gamification elements
 interface Tip {
   id: string;
   title: string;
@@ -38,175 +43,111 @@ interface MiniGame {
   component: React.ReactNode;
 }
 
-interface UserProgress {
-  points: number;
-  level: number;
-  achievements: string[]; // IDs of unlocked achievements
-  streak: number; // Days in a row user has engaged
-  lastInteraction: string; // ISO date string
-}
+// Shown until the user's progress has loaded, or when logged out
+const EMPTY_PROGRESS: Pick<UserProgress, 'points' | 'level' | 'streak'> = {
+  points: 0,
+  level: 1,
+  streak: 0,
+};
 
 export function StressReliefGame() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
-  
-  // State for the various parts of our gamification system
-  const [userProgress, setUserProgress] = useState<UserProgress>({
-    points: 0,
-    level: 1,
-    achievements: [],
-    streak: 0,
-    lastInteraction: new Date().toISOString(),
-  });
+  const [, navigate] = useLocation();
   
   const [selectedGame, setSelectedGame] = useState<string | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
   
-  // Fetch user progress data using our implemented API
-  const { data: progressData, isLoading: progressLoading } = useQuery<UserProgress>({
+  // Progress and achievements are worked out by the server; this only shows them
+  const { data: progressData } = useQuery<UserProgress>({
     queryKey: ['/api/user-progress'],
     enabled: !!user, // Only run if user is logged in
   });
+  const userProgress = progressData ?? EMPTY_PROGRESS;
   
-  // Mutation for updating user progress
-  const updateProgressMutation = useMutation({
-    mutationFn: async (data: Partial<UserProgress>) => {
-      const res = await apiRequest('PATCH', '/api/user-progress', data);
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/user-progress'] });
-    },
-    onError: (error: Error) => {
+  const { data: achievements = [] } = useQuery<AchievementStatus[]>({
+    queryKey: ['/api/achievements'],
+    enabled: !!user,
+  });
+  
+  // Show what the server awarded
+  const applyUpdate = (update: ProgressUpdate) => {
+    const previousLevel = userProgress.level;
+    queryClient.setQueryData(['/api/user-progress'], update.progress);
+    queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+    
+    if (update.unlocked.length > 0) {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
+    }
+    for (const achievement of update.unlocked) {
       toast({
-        title: "Error updating progress",
-        description: error.message,
-        variant: "destructive",
+        title: `Achievement Unlocked: ${achievement.title}`,
+        description: `${achievement.description} (+${achievement.points} points)`,
+        variant: "default",
       });
     }
-  });
+    
+    if (update.progress.level > previousLevel) {
+      toast({
+        title: `Level Up! You're now level ${update.progress.level}`,
+        description: "Keep going! You're making great progress.",
+        variant: "default",
+      });
+      triggerConfetti();
+    }
+  };
   
-  // Mutation for unlocking achievements
-  const unlockAchievementMutation = useMutation({
-    mutationFn: async ({ achievementId, points }: { achievementId: string, points: number }) => {
-      const res = await apiRequest('POST', '/api/unlock-achievement', { achievementId, points });
-      return res.json();
+  // Count today's visit towards the streak
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/user-progress/check-in');
+      return res.json() as Promise<ProgressUpdate>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/user-progress'] });
+    onSuccess: applyUpdate,
+  });
+  
+  useEffect(() => {
+    if (user) checkInMutation.mutate();
+  }, [user?.id]);
+  
+  const activityMutation = useMutation({
+    mutationFn: async (activity: ProgressActivity) => {
+      const res = await apiRequest('POST', '/api/user-progress/activities', { activity });
+      return res.json() as Promise<ProgressUpdate>;
     },
     onError: (error: Error) => {
       toast({
-        title: "Error unlocking achievement",
+        title: "Error updating progress",
         description: error.message,
         variant: "destructive",
       });
     }
   });
   
-  // Update local state when data is loaded
-  useEffect(() => {
-    if (progressData) {
-      setUserProgress(progressData);
+  // Tell the server an activity was done; it decides the points
+  const recordActivity = (activity: ProgressActivity, title: string) => {
+    if (!user) {
+      toast({
+        title: "Login Required",
+        description: "Please login to track achievements and progress.",
+        variant: "default",
+      });
+      return;
     }
-  }, [progressData]);
-  
-  // Check and update streak
-  useEffect(() => {
-    if (!user) return;
     
-    const checkStreak = () => {
-      const lastDate = new Date(userProgress.lastInteraction);
-      const today = new Date();
-      
-      // Check if last interaction was yesterday or today
-      const oneDayMs = 24 * 60 * 60 * 1000;
-      const dayDifference = Math.floor((today.getTime() - lastDate.getTime()) / oneDayMs);
-      
-      let newStreak = userProgress.streak;
-      let updated = false;
-      
-      if (dayDifference === 1 || dayDifference === 0) {
-        // If last interaction was yesterday or today and we haven't already counted today
-        const lastDateStr = lastDate.toDateString();
-        const todayStr = today.toDateString();
-        
-        if (lastDateStr !== todayStr) {
-          newStreak += 1;
-          updated = true;
-        }
-      } else if (dayDifference > 1) {
-        // Streak broken
-        newStreak = 1;
-        updated = true;
-      }
-      
-      if (updated) {
-        const updatedProgress = {
-          ...userProgress,
-          streak: newStreak,
-          lastInteraction: today.toISOString(),
-        };
-        
-        setUserProgress(updatedProgress);
-        updateProgressMutation.mutate(updatedProgress);
+    activityMutation.mutate(activity, {
+      onSuccess: (update) => {
+        toast({
+          title,
+          description: update.pointsAwarded > 0
+            ? `Great job! You've earned ${update.pointsAwarded} points for reducing stress.`
+            : "Great job! You've earned all the points for this today, so come back tomorrow.",
+          variant: "default",
+        });
+        applyUpdate(update);
       }
-    };
-    
-    checkStreak();
-  }, [user]);
-  
-  // List of achievements
-  const achievements: Achievement[] = [
-    {
-      id: 'complete_profile',
-      title: 'Profile Master',
-      description: 'Complete your user profile',
-      icon: <Home className="w-6 h-6 text-blue-500" />,
-      unlocked: userProgress.achievements.includes('complete_profile'),
-      points: 10,
-    },
-    {
-      id: 'first_estimate',
-      title: 'Cost Explorer',
-      description: 'Create your first moving cost estimate',
-      icon: <Box className="w-6 h-6 text-green-500" />,
-      unlocked: userProgress.achievements.includes('first_estimate'),
-      points: 15,
-    },
-    {
-      id: 'first_checklist',
-      title: 'Organizer',
-      description: 'Create your first moving checklist',
-      icon: <CheckCircle className="w-6 h-6 text-purple-500" />,
-      unlocked: userProgress.achievements.includes('first_checklist'),
-      points: 15,
-    },
-    {
-      id: 'streak_3',
-      title: 'Consistency Champion',
-      description: 'Visit the app 3 days in a row',
-      icon: <Star className="w-6 h-6 text-yellow-500" />,
-      unlocked: userProgress.streak >= 3,
-      points: 20,
-    },
-    {
-      id: 'streak_7',
-      title: 'Week Warrior',
-      description: 'Visit the app 7 days in a row',
-      icon: <Crown className="w-6 h-6 text-amber-500" />,
-      unlocked: userProgress.streak >= 7,
-      points: 50,
-    },
-    {
-      id: 'complete_5_tasks',
-      title: 'Task Master',
-      description: 'Complete 5 tasks from your moving checklist',
-      icon: <Medal className="w-6 h-6 text-red-500" />,
-      unlocked: userProgress.achievements.includes('complete_5_tasks'),
-      points: 25,
-    },
-  ];
+    });
+  };
   
   // Stress reduction tips
   const tips: Tip[] = [
@@ -240,57 +181,6 @@ export function StressReliefGame() {
     },
   ];
   
-  // Function to unlock an achievement
-  const unlockAchievement = (achievementId: string) => {
-    if (!user) {
-      toast({
-        title: "Login Required",
-        description: "Please login to track achievements and progress.",
-        variant: "default",
-      });
-      return;
-    }
-    
-    if (userProgress.achievements.includes(achievementId)) {
-      toast({
-        title: "Achievement already unlocked",
-        description: "You've already earned this achievement.",
-        variant: "default",
-      });
-      return;
-    }
-    
-    const achievement = achievements.find(a => a.id === achievementId);
-    if (!achievement) return;
-    
-    // Use our new achievement unlock API
-    unlockAchievementMutation.mutate(
-      { achievementId, points: achievement.points },
-      {
-        onSuccess: (data) => {
-          // Show achievement notification
-          toast({
-            title: `Achievement Unlocked: ${achievement.title}`,
-            description: `${achievement.description} (+${achievement.points} points)`,
-            variant: "default",
-          });
-          
-          // Check if user leveled up
-          if (data.progress && data.progress.level > userProgress.level) {
-            toast({
-              title: `Level Up! You're now level ${data.progress.level}`,
-              description: "Keep going! You're making great progress.",
-              variant: "default", 
-            });
-            
-            // Trigger confetti effect
-            triggerConfetti();
-          }
-        }
-      }
-    );
-  };
-  
   // Function to trigger confetti celebration
   const triggerConfetti = () => {
     setShowConfetti(true);
@@ -364,24 +254,7 @@ export function StressReliefGame() {
               setSessionComplete(true);
               setBreathingPhase('rest');
               
-              // Award points for completing the exercise
-              const updatedProgress = {
-                ...userProgress,
-                points: userProgress.points + 5,
-              };
-              setUserProgress(updatedProgress);
-              updateProgressMutation.mutate(updatedProgress);
-              
-              toast({
-                title: "Exercise Complete",
-                description: "Great job! You've earned 5 points for reducing stress.",
-                variant: "default",
-              });
-              
-              // Check if this unlocked any achievements
-              if (!userProgress.achievements.includes('breathing_master') && cycles >= 4) {
-                unlockAchievement('breathing_master');
-              }
+              recordActivity('breathing', "Exercise Complete");
             } else {
               setBreathingPhase('inhale');
               setTimerSeconds(4);
@@ -507,25 +380,7 @@ export function StressReliefGame() {
           if (efficiency >= 70) {
             setGameWon(true);
             
-            // Award points based on efficiency
-            const pointsEarned = Math.round(10 + (efficiency - 70) / 3);
-            
-            const updatedProgress = {
-              ...userProgress,
-              points: userProgress.points + pointsEarned,
-            };
-            setUserProgress(updatedProgress);
-            updateProgressMutation.mutate(updatedProgress);
-            
-            toast({
-              title: `Packing Complete: ${efficiency}% Efficient!`,
-              description: `You've earned ${pointsEarned} points for your packing skills.`,
-              variant: "default",
-            });
-            
-            if (efficiency === 100 && !userProgress.achievements.includes('perfect_packer')) {
-              unlockAchievement('perfect_packer');
-            }
+            recordActivity('packing-puzzle', `Packing Complete: ${efficiency}% Efficient!`);
           } else {
             toast({
               title: "Not Quite Optimal",
@@ -676,7 +531,7 @@ export function StressReliefGame() {
               <div className="flex items-center gap-1">
                 <Medal className="w-4 h-4 text-blue-500" />
                 <span className="font-semibold">
-                  {userProgress.achievements.length} / {achievements.length}
+                  {achievements.filter(achievement => achievement.unlocked).length} / {achievements.length}
                 </span>
               </div>
             </div>
@@ -729,20 +584,8 @@ export function StressReliefGame() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => {
-                      toast({
-                        title: `Tip Applied: ${tip.title}`,
-                        description: "Great job! You've earned 1 point for reducing stress.",
-                        variant: "default",
-                      });
-                      
-                      const updatedProgress = {
-                        ...userProgress,
-                        points: userProgress.points + 1,
-                      };
-                      setUserProgress(updatedProgress);
-                      updateProgressMutation.mutate(updatedProgress);
-                    }}
+                    disabled={activityMutation.isPending}
+                    onClick={() => recordActivity('tip', `Tip Applied: ${tip.title}`)}
                   >
                     I Did This! (+1 pt)
                   </Button>
@@ -795,50 +638,66 @@ export function StressReliefGame() {
         
         {/* Achievements content */}
         <TabsContent value="achievements" className="mt-0">
+          {!user && (
+            <p className="text-center text-gray-600 py-8">
+              Log in to earn achievements as you plan your move.
+            </p>
+          )}
           <div className="grid md:grid-cols-3 gap-4">
-            {achievements.map(achievement => (
-              <Card
-                key={achievement.id}
-                className={`${
-                  achievement.unlocked
-                    ? 'border-green-200 bg-gradient-to-br from-white to-green-50'
-                    : 'opacity-75 border-gray-200 bg-gray-50'
-                }`}
-              >
-                <CardHeader className="pb-2">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      {achievement.icon}
-                      <CardTitle className="text-base">{achievement.title}</CardTitle>
-                    </div>
-                    <Badge variant={achievement.unlocked ? "default" : "outline"} className="ml-2">
-                      {achievement.unlocked ? "Unlocked" : "Locked"}
-                    </Badge>
-                  </div>
-                </CardHeader>
-                <CardContent className="pt-2">
-                  <p className="text-sm text-gray-600">{achievement.description}</p>
-                </CardContent>
-                <CardFooter className="border-t bg-gray-50">
-                  <div className="w-full flex items-center justify-between">
-                    <div className="flex items-center">
-                      <Award className="w-4 h-4 text-amber-500 mr-1" />
-                      <span className="text-sm">{achievement.points} pts</span>
+            {achievements.map(achievement => {
+              const { icon: Icon, color } = ACHIEVEMENT_ICONS[achievement.icon] ?? { icon: Award, color: 'text-amber-500' };
+              return (
+                <Card
+                  key={achievement.id}
+                  className={`${
+                    achievement.unlocked
+                      ? 'border-green-200 bg-gradient-to-br from-white to-green-50'
+                      : 'opacity-75 border-gray-200 bg-gray-50'
+                  }`}
+                >
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Icon className={`w-6 h-6 ${color}`} />
+                        <CardTitle className="text-base">{achievement.title}</CardTitle>
+                      </div>
+                      <Badge variant={achievement.unlocked ? "default" : "outline"} className="ml-2">
+                        {achievement.unlocked ? "Unlocked" : "Locked"}
+                      </Badge>
                     </div>
-                    {!achievement.unlocked && achievement.id === 'complete_profile' && (
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        className="text-xs"
-                        onClick={() => unlockAchievement('complete_profile')}
-                      >
-                        Complete Profile
-                      </Button>
+                  </CardHeader>
+                  <CardContent className="pt-2">
+                    <p className="text-sm text-gray-600">{achievement.description}</p>
+                    {!achievement.unlocked && achievement.target > 1 && (
+                      <div className="mt-3">
+                        <Progress value={(achievement.current / achievement.target) * 100} className="w-full" />
+                        <p className="text-xs text-gray-500 mt-1">
+                          {achievement.current} / {achievement.target}
+                        </p>
+                      </div>
                     )}
-                  </div>
-                </CardFooter>
-              </Card>
-            ))}
+                  </CardContent>
+                  <CardFooter className="border-t bg-gray-50">
+                    <div className="w-full flex items-center justify-between">
+                      <div className="flex items-center">
+                        <Award className="w-4 h-4 text-amber-500 mr-1" />
+                        <span className="text-sm">{achievement.points} pts</span>
+                      </div>
+                      {!achievement.unlocked && achievement.id === 'complete_profile' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-xs"
+                          onClick={() => navigate('/?tab=profile')}
+                        >
+                          Set Up Reminders
+                        </Button>
+                      )}
+                    </div>
+                  </CardFooter>
+                </Card>
+              );
+            })}
           </div>
         </TabsContent>
       </Tabs>
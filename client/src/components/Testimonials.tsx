@@ -1,24 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PublicCompanyReview } from "@shared/schema";
+
 export function Testimonials() {
-  const testimonials = [
-    {
-      name: "Jennifer D.",
-      location: "Los Angeles, CA",
-      rating: 5,
-      text: "The cost calculator was so accurate! I was expecting a much higher quote from movers but MoveEase helped me find an affordable option that worked perfectly for my budget."
-    },
-    {
-      name: "Michael T.",
-      location: "Chicago, IL",
-      rating: 5,
-      text: "I appreciated being able to compare different moving options side by side. It made the decision much easier and I ended up saving almost $300 by going with the hybrid option."
-    },
-    {
-      name: "Sarah L.",
-      location: "Austin, TX",
-      rating: 4.5,
-      text: "The step-by-step process was so simple to follow. I was dreading figuring out my moving costs but this tool made it painless. Highly recommend to anyone planning a move!"
-    }
-  ];
+  // Recent highly rated reviews from customers who saved an estimate
+  const { data: reviews } = useQuery<PublicCompanyReview[]>({
+    queryKey: ["/api/reviews/featured"],
+  });
+
+  if (!reviews || reviews.length === 0) return null;
+
+  const testimonials = reviews.map(review => ({
+    name: review.reviewer,
+    location: review.location ? `Moved to ${review.location} with ${review.companyName}` : `Moved with ${review.companyName}`,
+    rating: review.overall,
+    text: review.text,
+  }));
 
   return (
     <section className="mb-16">
@@ -50,7 +46,7 @@ export function Testimonials() {
             </blockquote>
             <div className="flex items-center">
               <div className="w-10 h-10 rounded-full bg-gray-200 flex items-center justify-center text-gray-500 font-medium">
-                {testimonial.name.split(' ').map(n => n[0]).join('')}
+                {testimonial.name.split(' ').map(n => n[0]).join('').toUpperCase()}
               </div>
               <div className="ml-3">
                 <p className="font-medium text-sm">{testimonial.name}</p>
@@ -0,0 +1,91 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { UpcomingChecklistItem } from "@shared/schema";
+
+// Open tasks due this week, or overdue, from all of the user's checklists
+export function UpcomingTasks() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: tasks, isLoading } = useQuery<UpcomingChecklistItem[]>({
+    queryKey: ["/api/checklist-items/upcoming", today],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/checklist-items/upcoming?days=7&today=${today}`);
+      return response.json();
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: async (task: UpcomingChecklistItem) => {
+      const response = await apiRequest("PATCH", `/api/checklist-items/${task.id}`, { completed: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checklist-items/upcoming"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checklists"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating task",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Users with several moves need to know which one a task is for
+  const multipleMoves = new Set(tasks?.map(task => task.checklistId)).size > 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Coming up</CardTitle>
+        <CardDescription>Checklist tasks due in the next 7 days, and any that are overdue</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : !tasks || tasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <ul className="divide-y">
+            {tasks.map(task => (
+              <li key={task.id} className="flex items-center gap-3 py-2">
+                <Checkbox
+                  checked={false}
+                  disabled={completeMutation.isPending}
+                  onCheckedChange={() => completeMutation.mutate(task)}
+                  aria-label={`Mark "${task.task}" done`}
+                />
+                <div className="flex-grow text-sm">
+                  <div className="font-medium">{task.task}</div>
+                  {multipleMoves && (
+                    <div className="text-xs text-muted-foreground">
+                      Move on {format(parseDay(task.moveDate), "MMM d, yyyy")}
+                    </div>
+                  )}
+                </div>
+                <Badge variant={task.overdue ? "destructive" : "outline"}>
+                  {task.overdue ? "Overdue" : task.dueDate === today ? "Today" : format(parseDay(task.dueDate), "EEE, MMM d")}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function parseDay(value: string) {
+  return new Date(`${value.slice(0, 10)}T00:00`);
+}
@@ -1,8 +1,13 @@
+import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { getQueryFn } from "@/lib/queryClient";
-import { MoveEstimate } from "@shared/schema";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { downloadFile, getQueryFn } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_COMPARED_ESTIMATES, MoveEstimate } from "@shared/schema";
 import { 
   Card, 
   CardContent, 
@@ -11,25 +16,40 @@ import {
   CardHeader, 
   CardTitle 
 } from "@/components/ui/card";
-import { Loader2, MapPin, Calendar, Package, ArrowRight } from "lucide-react";
+import { Loader2, MapPin, Calendar, Package, ArrowRight, Star, Send, History, Columns, Share2, FileDown } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
+import { ReviewFormDialog } from "./CompanyReviews";
+import { QuoteRequestDialog, QuoteRequestList } from "./QuoteRequests";
+import { EstimateActionsMenu } from "./EstimateActions";
+import { EstimateHistoryDialog } from "./EstimateHistory";
+import { EstimateComparisonDialog } from "./EstimateComparison";
+import { ShareEstimateDialog } from "./EstimateShare";
+import { AccountDataCard } from "./AccountData";
+import { UpcomingTasks } from "./UpcomingTasks";
+import { ReminderSettingsCard } from "./ReminderSettings";
 
 export function UserProfile() {
   const { user, logoutMutation } = useAuth();
+  const [showArchived, setShowArchived] = useState(false);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
   
   const { 
     data: estimates, 
     isLoading: estimatesLoading,
     isError
   } = useQuery<MoveEstimate[]>({
-    queryKey: ["/api/my-estimates"],
+    queryKey: [showArchived ? "/api/my-estimates?archived=true" : "/api/my-estimates"],
     queryFn: getQueryFn({ on401: "throw" }),
     enabled: !!user,
   });
 
   if (!user) return null;
 
+  // Estimates deleted or archived since they were picked drop out of the comparison
+  const selectedIds = compareIds.filter(id => estimates?.some(estimate => estimate.id === id));
+
   const handleLogout = () => {
     logoutMutation.mutate();
   };
@@ -56,8 +76,23 @@ export function UserProfile() {
         </Button>
       </div>
 
+      <UpcomingTasks />
+
       <div className="space-y-4">
-        <h3 className="text-xl font-semibold">Your Saved Estimates</h3>
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-semibold">{showArchived ? "Archived Estimates" : "Your Saved Estimates"}</h3>
+          <div className="flex items-center gap-4">
+            {selectedIds.length > 0 && (
+              <Button size="sm" disabled={selectedIds.length < 2} onClick={() => setCompareOpen(true)}>
+                <Columns className="mr-1 h-4 w-4" /> Compare ({selectedIds.length})
+              </Button>
+            )}
+            <div className="flex items-center gap-2">
+              <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="show-archived" className="text-sm text-muted-foreground">Show archived</Label>
+            </div>
+          </div>
+        </div>
         
         {estimatesLoading ? (
           <div className="flex justify-center p-8">
@@ -72,26 +107,54 @@ export function UserProfile() {
         ) : estimates && estimates.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {estimates.map((estimate) => (
-              <EstimateCard key={estimate.id} estimate={estimate} />
+              <EstimateCard
+                key={estimate.id}
+                estimate={estimate}
+                selected={selectedIds.includes(estimate.id)}
+                selectable={selectedIds.length < MAX_COMPARED_ESTIMATES}
+                onSelectedChange={(selected) => setCompareIds(
+                  selected ? [...selectedIds, estimate.id] : selectedIds.filter(id => id !== estimate.id)
+                )}
+              />
             ))}
           </div>
         ) : (
           <Card>
             <CardContent className="pt-6">
               <p className="text-center text-muted-foreground">
-                You don't have any saved estimates yet. Try creating one by calculating a move!
+                {showArchived
+                  ? "You haven't archived any estimates."
+                  : "You don't have any saved estimates yet. Try creating one by calculating a move!"}
               </p>
             </CardContent>
           </Card>
         )}
       </div>
+
+      <EstimateComparisonDialog estimateIds={selectedIds} open={compareOpen} onOpenChange={setCompareOpen} />
+
+      <div className="space-y-4">
+        <h3 className="text-xl font-semibold">Your Quote Requests</h3>
+        <QuoteRequestList />
+      </div>
+
+      <ReminderSettingsCard />
+
+      <AccountDataCard />
     </div>
   );
 }
 
-function EstimateCard({ estimate }: { estimate: MoveEstimate }) {
+interface EstimateCardProps {
+  estimate: MoveEstimate;
+  selected: boolean; // Picked for comparison
+  selectable: boolean; // False once the comparison is full
+  onSelectedChange: (selected: boolean) => void;
+}
+
+function EstimateCard({ estimate, selected, selectable, onSelectedChange }: EstimateCardProps) {
   return (
-    <Card className="hover:shadow-md transition-shadow">
+    <Card className={`hover:shadow-md transition-shadow ${estimate.archivedAt ? "opacity-75" : ""}`}>
       <CardHeader className="pb-2">
         <div className="flex justify-between items-start">
           <CardTitle className="text-lg">
@@ -102,9 +165,12 @@ function EstimateCard({ estimate }: { estimate: MoveEstimate }) {
               {estimate.destination.split(',')[0]}
             </div>
           </CardTitle>
-          <Badge variant="outline">
-            {estimate.distance} miles
-          </Badge>
+          <div className="flex items-center gap-1">
+            <Badge variant="outline">
+              {estimate.distance} miles
+            </Badge>
+            <EstimateActionsMenu estimate={estimate} />
+          </div>
         </div>
         <CardDescription className="flex items-center gap-1 mt-1">
           <Calendar className="h-3 w-3" />
@@ -127,13 +193,70 @@ function EstimateCard({ estimate }: { estimate: MoveEstimate }) {
           )}
         </div>
       </CardContent>
-      <CardFooter className="pt-1 text-xs text-muted-foreground border-t">
-        Created {formatDate(estimate.createdAt)}
+      <CardFooter className="pt-1 text-xs text-muted-foreground border-t flex justify-between items-center">
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <Checkbox
+              checked={selected}
+              disabled={!selected && !selectable}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+            />
+            Compare
+          </label>
+          <span>Created {formatDate(estimate.createdAt)}</span>
+        </div>
+        <div className="flex items-center">
+          <EstimateHistoryDialog estimate={estimate}>
+            <Button variant="ghost" size="sm" className="h-7 text-xs">
+              <History className="mr-1 h-3 w-3" /> History
+            </Button>
+          </EstimateHistoryDialog>
+          <ShareEstimateDialog estimate={estimate}>
+            <Button variant="ghost" size="sm" className="h-7 text-xs">
+              <Share2 className="mr-1 h-3 w-3" /> Share
+            </Button>
+          </ShareEstimateDialog>
+          <DownloadReportButton estimate={estimate} />
+          <QuoteRequestDialog estimate={estimate}>
+            <Button variant="ghost" size="sm" className="h-7 text-xs">
+              <Send className="mr-1 h-3 w-3" /> Request quotes
+            </Button>
+          </QuoteRequestDialog>
+          <ReviewFormDialog estimateId={estimate.id}>
+            <Button variant="ghost" size="sm" className="h-7 text-xs">
+              <Star className="mr-1 h-3 w-3" /> Review a mover
+            </Button>
+          </ReviewFormDialog>
+        </div>
       </CardFooter>
     </Card>
   );
 }
 
+function DownloadReportButton({ estimate }: { estimate: MoveEstimate }) {
+  const [downloading, setDownloading] = useState(false);
+  const { toast } = useToast();
+
+  const handleDownload = () => {
+    setDownloading(true);
+    downloadFile(`/api/estimates/${estimate.id}/report`, `moving-estimate-${estimate.id}.pdf`)
+      .catch((error) => {
+        toast({
+          title: "Error downloading report",
+          description: error.message || "Please try again later",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setDownloading(false));
+  };
+
+  return (
+    <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleDownload} disabled={downloading}>
+      {downloading ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <FileDown className="mr-1 h-3 w-3" />} PDF
+    </Button>
+  );
+}
+
 function PricingItem({ label, price }: { label: string; price: number }) {
   return (
     <div className="text-center p-1 rounded bg-muted/50">
@@ -0,0 +1,97 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import {
+  CHECKLIST_ACCESS_REVOKED_CODE,
+  type ChecklistEvent,
+  type ChecklistItem,
+  type ChecklistSyncMessage,
+  type MoveChecklist,
+} from "@shared/schema";
+
+// Reconnect delays double from one second up to half a minute
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+type ChecklistData = { checklist: MoveChecklist; items: ChecklistItem[] };
+
+// Keep an open checklist up to date with changes made by anyone it's shared with.
+// After a dropped connection the server replays what was missed, or asks for a reload.
+export function useChecklistSync(checklistId: number | null) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!checklistId) return;
+
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retries = 0;
+    let stopped = false;
+    // Where this client is in the server's event stream
+    let stream: string | null = null;
+    let seq = 0;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const position = stream ? `?stream=${stream}&after=${seq}` : "";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/checklists/${checklistId}${position}`);
+
+      socket.onmessage = (message) => {
+        const data = JSON.parse(message.data) as ChecklistSyncMessage;
+        if (data.type === "ready" || data.type === "resync") {
+          retries = 0;
+          stream = data.stream;
+          seq = data.seq;
+          if (data.type === "resync") {
+            queryClient.invalidateQueries({ queryKey: ["/api/checklists", checklistId] });
+          }
+          return;
+        }
+        seq = data.seq;
+        applyChecklistEvent(queryClient, data);
+      };
+
+      socket.onclose = (event) => {
+        if (stopped) return;
+        if (event.code === CHECKLIST_ACCESS_REVOKED_CODE) {
+          queryClient.invalidateQueries({ queryKey: ["/api/checklists"] });
+          return;
+        }
+        retryTimer = setTimeout(connect, Math.min(MIN_RETRY_MS * 2 ** retries, MAX_RETRY_MS));
+        retries++;
+      };
+    };
+
+    connect();
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [checklistId, queryClient]);
+}
+
+function applyChecklistEvent(queryClient: QueryClient, event: ChecklistEvent) {
+  const key = ["/api/checklists", event.checklistId];
+  queryClient.invalidateQueries({ queryKey: ["/api/checklist-items/upcoming"] });
+
+  if (event.type === "checklist.updated") {
+    // Due dates, members or assignments may all have changed
+    queryClient.invalidateQueries({ queryKey: key });
+    queryClient.invalidateQueries({ queryKey: ["/api/checklists"], exact: true });
+    return;
+  }
+
+  queryClient.setQueryData<ChecklistData>(key, (data) => {
+    if (!data) return data;
+    switch (event.type) {
+      case "item.created":
+        return data.items.some(item => item.id === event.item.id)
+          ? data
+          : { ...data, items: [...data.items, event.item] };
+      case "item.updated":
+        return { ...data, items: data.items.map(item => (item.id === event.item.id ? event.item : item)) };
+      case "item.deleted":
+        return { ...data, items: data.items.filter(item => item.id !== event.itemId) };
+    }
+  });
+}
@@ -1,13 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
+import type { UserRole } from "@shared/schema";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  role,
 }: {
   path: string;
   component: () => React.JSX.Element;
+  role?: UserRole | UserRole[]; // Any of these roles may see the page
 }) {
   const { user, isLoading } = useAuth();
 
@@ -29,5 +32,15 @@ export function ProtectedRoute({
     );
   }
 
+  // Signed in without the right role: back to the home page rather than the login screen
+  const roles = role === undefined ? null : Array.isArray(role) ? role : [role];
+  if (roles && !roles.includes(user.role as UserRole)) {
+    return (
+      <Route path={path}>
+        <Redirect to="/" />
+      </Route>
+    );
+  }
+
   return <Route path={path} component={Component} />;
-}
\ No newline at end of file
+}
@@ -1,3 +1,4 @@
+import { useLocation, useSearch } from "wouter";
 import { Header } from "@/components/Header";
 import { HeroSection } from "@/components/HeroSection";
 import { MovingCalculator } from "@/components/MovingCalculator";
@@ -12,15 +13,21 @@ import { MovingCostHeatmap } from "@/components/MovingCostHeatmap";
 import { useAuth } from "@/hooks/use-auth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
+// The open tab is kept in ?tab= so links, e.g. from notifications, can go straight to it
+const TABS = ["calculator", "heatmap", "checklist", "stress-relief", "profile"];
+
 export default function Home() {
   const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const requestedTab = new URLSearchParams(useSearch()).get("tab");
+  const tab = requestedTab && TABS.includes(requestedTab) ? requestedTab : "calculator";
 
   return (
     <div className="min-h-screen bg-gray-50 font-sans text-gray-900">
       <Header />
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {user ? (
-          <Tabs defaultValue="calculator" className="mb-8">
+          <Tabs value={tab} onValueChange={(value) => navigate(`/?tab=${value}`)} className="mb-8">
             <TabsList className="mb-6">
               <TabsTrigger value="calculator">Moving Calculator</TabsTrigger>
               <TabsTrigger value="heatmap">Cost Heatmap</TabsTrigger>
@@ -0,0 +1,1344 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowDown, ArrowUp, Flag, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { ADDITIONAL_ITEMS, HOME_SIZES } from "@/lib/constants";
+import { CHECKLIST_CATEGORIES, CHECKLIST_TIMEFRAMES } from "@shared/schema";
+import type {
+  AdminChecklist,
+  AdminEstimate,
+  AdminUser,
+  ChecklistTemplate,
+  ChecklistTemplateConditions,
+  ChecklistTimeframe,
+  CompanyTier,
+  EstimateMetrics,
+  ModeratedCompanyReview,
+  MovingCompany,
+  Paginated,
+  PricingVersion,
+  ReviewStatus,
+  SortOrder,
+  UserRole,
+} from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  customer: "Customer",
+  mover: "Mover",
+  admin: "Admin",
+};
+
+// Builds a list endpoint URL, leaving out filters that aren't set
+function adminUrl(path: string, params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") search.set(key, String(value));
+  }
+  return `${path}?${search}`;
+}
+
+const TIMEFRAME_LABELS: Record<ChecklistTimeframe, string> = {
+  "8-weeks": "8 weeks before",
+  "4-weeks": "4 weeks before",
+  "2-weeks": "2 weeks before",
+  "1-week": "1 week before",
+  "moving-day": "Moving day",
+  "after-move": "After moving",
+};
+
+const TIER_LABELS: Record<CompanyTier, string> = {
+  diy: "DIY",
+  hybrid: "Hybrid",
+  fullService: "Full service",
+};
+
+const SERVICE_OPTIONS = ["packing", "storage", "cleaning"] as const;
+
+function homeSizeLabel(homeSize: string): string {
+  return HOME_SIZES.find(size => size.value === homeSize)?.label ?? homeSize;
+}
+
+export default function AdminPage() {
+  return (
+    <div className="min-h-screen bg-gray-50 font-sans text-gray-900">
+      <Header />
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">Admin</h2>
+          <p className="text-muted-foreground">Track quotes, manage accounts and checklists, moderate companies and reviews and set pricing</p>
+        </div>
+
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="estimates">Estimates</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="checklists">Checklists</TabsTrigger>
+            <TabsTrigger value="templates">Checklist Templates</TabsTrigger>
+            <TabsTrigger value="companies">Companies</TabsTrigger>
+            <TabsTrigger value="moderation">Review Moderation</TabsTrigger>
+            <TabsTrigger value="pricing">Pricing</TabsTrigger>
+          </TabsList>
+          <TabsContent value="overview">
+            <Overview />
+          </TabsContent>
+          <TabsContent value="estimates">
+            <EstimatesTable />
+          </TabsContent>
+          <TabsContent value="users">
+            <UsersTable />
+          </TabsContent>
+          <TabsContent value="checklists">
+            <ChecklistsTable />
+          </TabsContent>
+          <TabsContent value="templates">
+            <ChecklistTemplates />
+          </TabsContent>
+          <TabsContent value="companies">
+            <CompanyModeration />
+          </TabsContent>
+          <TabsContent value="moderation">
+            <ReviewModeration />
+          </TabsContent>
+          <TabsContent value="pricing">
+            <PricingVersions />
+          </TabsContent>
+        </Tabs>
+      </main>
+      <Footer />
+    </div>
+  );
+}
+
+function Overview() {
+  const [days, setDays] = useState("30");
+
+  const { data: metrics, isLoading } = useQuery<EstimateMetrics>({
+    queryKey: [`/api/admin/metrics?days=${days}`],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <Label>Period</Label>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="365">Last year</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !metrics ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid sm:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Quotes</CardDescription>
+                <CardTitle className="text-3xl">{metrics.totalQuotes.toLocaleString()}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Saved estimates</CardDescription>
+                <CardTitle className="text-3xl">{metrics.totalSaved.toLocaleString()}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Saved per quote</CardDescription>
+                <CardTitle className="text-3xl">{(metrics.conversionRate * 100).toFixed(1)}%</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Quotes per day</CardTitle>
+              <CardDescription>
+                {format(new Date(`${metrics.from}T00:00`), "MMM d, yyyy")} to {format(new Date(`${metrics.to}T00:00`), "MMM d, yyyy")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={metrics.quotesPerDay}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="date" tickFormatter={(date: string) => format(new Date(`${date}T00:00`), "MMM d")} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip labelFormatter={(date) => format(new Date(`${date}T00:00`), "MMM d, yyyy")} />
+                    <Legend />
+                    <Bar dataKey="quotes" name="Quotes" fill="#2563EB" />
+                    <Bar dataKey="saved" name="Saved" fill="#10B981" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Average quote by home size</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {metrics.averageCostByHomeSize.length === 0 ? (
+                <p className="text-center text-muted-foreground">No quotes in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Home size</TableHead>
+                      <TableHead className="text-right">Quotes</TableHead>
+                      <TableHead className="text-right">DIY</TableHead>
+                      <TableHead className="text-right">Hybrid</TableHead>
+                      <TableHead className="text-right">Full service</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {metrics.averageCostByHomeSize.map(row => (
+                      <TableRow key={row.homeSize}>
+                        <TableCell className="font-medium">{homeSizeLabel(row.homeSize)}</TableCell>
+                        <TableCell className="text-right">{row.count}</TableCell>
+                        <TableCell className="text-right">${row.costDiy.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">${row.costHybrid.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">${row.costFullService.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+type EstimateSort = "createdAt" | "distance" | "costDiy" | "costFullService";
+
+function EstimatesTable() {
+  const [homeSize, setHomeSize] = useState("all");
+  const [saved, setSaved] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [sort, setSort] = useState<EstimateSort>("createdAt");
+  const [order, setOrder] = useState<SortOrder>("desc");
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<Paginated<AdminEstimate>>({
+    queryKey: [adminUrl("/api/admin/estimates", {
+      homeSize: homeSize === "all" ? undefined : homeSize,
+      saved: saved === "all" ? undefined : saved,
+      from,
+      to,
+      sort,
+      order,
+      page,
+      pageSize: PAGE_SIZE,
+    })],
+  });
+
+  const handleSort = (column: EstimateSort) => {
+    setOrder(column === sort && order === "desc" ? "asc" : "desc");
+    setSort(column);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>Home size</Label>
+          <Select value={homeSize} onValueChange={(value) => { setHomeSize(value); setPage(1); }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sizes</SelectItem>
+              {HOME_SIZES.map(size => (
+                <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Type</Label>
+          <Select value={saved} onValueChange={(value) => { setSaved(value); setPage(1); }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All estimates</SelectItem>
+              <SelectItem value="true">Saved</SelectItem>
+              <SelectItem value="false">Anonymous quotes</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="estimates-from">Created from</Label>
+          <Input id="estimates-from" type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPage(1); }} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="estimates-to">to</Label>
+          <Input id="estimates-to" type="date" value={to} onChange={(e) => { setTo(e.target.value); setPage(1); }} />
+        </div>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <Table className="bg-white border rounded-lg">
+            <TableHeader>
+              <TableRow>
+                <SortableHead column="createdAt" sort={sort} order={order} onSort={handleSort}>Created</SortableHead>
+                <TableHead>Route</TableHead>
+                <TableHead>Home size</TableHead>
+                <SortableHead column="distance" sort={sort} order={order} onSort={handleSort} className="text-right">Distance</SortableHead>
+                <SortableHead column="costDiy" sort={sort} order={order} onSort={handleSort} className="text-right">DIY</SortableHead>
+                <SortableHead column="costFullService" sort={sort} order={order} onSort={handleSort} className="text-right">Full service</SortableHead>
+                <TableHead>Saved by</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">No estimates match these filters.</TableCell>
+                </TableRow>
+              ) : data.items.map(estimate => (
+                <TableRow key={estimate.id}>
+                  <TableCell className="whitespace-nowrap">{format(new Date(estimate.createdAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="max-w-xs truncate" title={`${estimate.origin} → ${estimate.destination}`}>
+                    {estimate.origin} → {estimate.destination}
+                  </TableCell>
+                  <TableCell>{homeSizeLabel(estimate.homeSize)}</TableCell>
+                  <TableCell className="text-right">{estimate.distance.toLocaleString()} mi</TableCell>
+                  <TableCell className="text-right">${estimate.costDiy.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">${estimate.costFullService.toLocaleString()}</TableCell>
+                  <TableCell>{estimate.username ?? <span className="text-muted-foreground">Anonymous</span>}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <TablePagination page={page} totalPages={data.totalPages} onPageChange={setPage} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function UsersTable() {
+  const [role, setRole] = useState("all");
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<"id" | "username">("id");
+  const [order, setOrder] = useState<SortOrder>("desc");
+  const [page, setPage] = useState(1);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<Paginated<AdminUser>>({
+    queryKey: [adminUrl("/api/admin/users", {
+      role: role === "all" ? undefined : role,
+      search: search.trim(),
+      sort,
+      order,
+      page,
+      pageSize: PAGE_SIZE,
+    })],
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: UserRole }) => {
+      const response = await apiRequest("PATCH", `/api/admin/users/${id}`, { role });
+      return response.json();
+    },
+    onSuccess: (user: AdminUser) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/admin/users") });
+      toast({ title: "Role updated", description: `${user.username} is now ${ROLE_LABELS[user.role as UserRole].toLowerCase()}.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating role",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSort = (column: "id" | "username") => {
+    setOrder(column === sort && order === "desc" ? "asc" : "desc");
+    setSort(column);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="users-search">Username</Label>
+          <Input id="users-search" value={search} onChange={(e) => { setSearch(e.target.value); setPage(1); }} placeholder="Search" />
+        </div>
+        <div className="space-y-1">
+          <Label>Role</Label>
+          <Select value={role} onValueChange={(value) => { setRole(value); setPage(1); }}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All roles</SelectItem>
+              {(Object.keys(ROLE_LABELS) as UserRole[]).map(value => (
+                <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <Table className="bg-white border rounded-lg">
+            <TableHeader>
+              <TableRow>
+                <SortableHead column="id" sort={sort} order={order} onSort={handleSort}>ID</SortableHead>
+                <SortableHead column="username" sort={sort} order={order} onSort={handleSort}>Username</SortableHead>
+                <TableHead>Company</TableHead>
+                <TableHead className="w-40">Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No accounts match these filters.</TableCell>
+                </TableRow>
+              ) : data.items.map(user => (
+                <TableRow key={user.id}>
+                  <TableCell>{user.id}</TableCell>
+                  <TableCell className="font-medium">{user.username}</TableCell>
+                  <TableCell>{user.companyName ?? <span className="text-muted-foreground">None</span>}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      disabled={roleMutation.isPending}
+                      onValueChange={(value) => roleMutation.mutate({ id: user.id, role: value as UserRole })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as UserRole[]).map(value => (
+                          <SelectItem key={value} value={value}>{ROLE_LABELS[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <TablePagination page={page} totalPages={data.totalPages} onPageChange={setPage} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function ChecklistsTable() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [sort, setSort] = useState<"createdAt" | "moveDate">("createdAt");
+  const [order, setOrder] = useState<SortOrder>("desc");
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<Paginated<AdminChecklist>>({
+    queryKey: [adminUrl("/api/admin/checklists", { from, to, sort, order, page, pageSize: PAGE_SIZE })],
+  });
+
+  const handleSort = (column: "createdAt" | "moveDate") => {
+    setOrder(column === sort && order === "desc" ? "asc" : "desc");
+    setSort(column);
+    setPage(1);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="checklists-from">Moving from</Label>
+          <Input id="checklists-from" type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPage(1); }} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="checklists-to">to</Label>
+          <Input id="checklists-to" type="date" value={to} onChange={(e) => { setTo(e.target.value); setPage(1); }} />
+        </div>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <Table className="bg-white border rounded-lg">
+            <TableHeader>
+              <TableRow>
+                <SortableHead column="createdAt" sort={sort} order={order} onSort={handleSort}>Created</SortableHead>
+                <TableHead>Owner</TableHead>
+                <SortableHead column="moveDate" sort={sort} order={order} onSort={handleSort}>Move date</SortableHead>
+                <TableHead className="text-right">Progress</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No checklists match these filters.</TableCell>
+                </TableRow>
+              ) : data.items.map(checklist => (
+                <TableRow key={checklist.id}>
+                  <TableCell>{format(new Date(checklist.createdAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="font-medium">{checklist.username}</TableCell>
+                  <TableCell>{format(new Date(`${checklist.moveDate.slice(0, 10)}T00:00`), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-right">
+                    {checklist.completedCount} of {checklist.itemCount} tasks
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <TablePagination page={page} totalPages={data.totalPages} onPageChange={setPage} />
+        </>
+      )}
+    </div>
+  );
+}
+
+// Which moves a template applies to, in a few words
+function describeConditions(conditions: ChecklistTemplateConditions): string {
+  const parts: string[] = [];
+  if (conditions.additionalItems) {
+    parts.push(conditions.additionalItems.map(item => ADDITIONAL_ITEMS.find(option => option.value === item)?.label ?? item).join(" or "));
+  }
+  if (conditions.services) parts.push(`${conditions.services.join(" or ")} service`);
+  if (conditions.tiers) parts.push(conditions.tiers.map(tier => TIER_LABELS[tier]).join(" or "));
+  if (conditions.minDistance !== undefined && conditions.maxDistance !== undefined) {
+    parts.push(`${conditions.minDistance}-${conditions.maxDistance} miles`);
+  } else if (conditions.minDistance !== undefined) {
+    parts.push(`${conditions.minDistance}+ miles`);
+  } else if (conditions.maxDistance !== undefined) {
+    parts.push(`up to ${conditions.maxDistance} miles`);
+  }
+  return parts.length > 0 ? parts.join(" · ") : "Every move";
+}
+
+function ChecklistTemplates() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: templates, isLoading } = useQuery<ChecklistTemplate[]>({
+    queryKey: ["/api/admin/checklist-templates"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/admin/checklist-templates/${id}`, { active });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/checklist-templates"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error updating template",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/admin/checklist-templates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/checklist-templates"] });
+      toast({ title: "Template deleted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error deleting template",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !templates) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  // The order new checklists get them in
+  const ordered = [...templates].sort((a, b) =>
+    CHECKLIST_TIMEFRAMES.indexOf(a.timeframe as ChecklistTimeframe) - CHECKLIST_TIMEFRAMES.indexOf(b.timeframe as ChecklistTimeframe) ||
+    a.position - b.position || a.id - b.id
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          New checklists get every active template whose conditions fit the move. Changes don't affect existing checklists.
+        </p>
+        <ChecklistTemplateDialog>
+          <Button>
+            <Plus className="mr-1 h-4 w-4" /> New Template
+          </Button>
+        </ChecklistTemplateDialog>
+      </div>
+
+      <Table className="bg-white border rounded-lg">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Task</TableHead>
+            <TableHead>When</TableHead>
+            <TableHead>Applies to</TableHead>
+            <TableHead>Active</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ordered.map(template => (
+            <TableRow key={template.id} className={cn(!template.active && "text-muted-foreground")}>
+              <TableCell>
+                <div className="font-medium">{template.task}</div>
+                <div className="text-xs text-muted-foreground capitalize">{template.category.replace("-", " ")}</div>
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {TIMEFRAME_LABELS[template.timeframe as ChecklistTimeframe] ?? template.timeframe}
+              </TableCell>
+              <TableCell className="text-sm">{describeConditions(template.conditions)}</TableCell>
+              <TableCell>
+                <Checkbox
+                  checked={template.active}
+                  disabled={updateMutation.isPending}
+                  onCheckedChange={(checked) => updateMutation.mutate({ id: template.id, active: checked === true })}
+                  aria-label="Active"
+                />
+              </TableCell>
+              <TableCell className="text-right whitespace-nowrap">
+                <ChecklistTemplateDialog template={template}>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Edit template">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </ChecklistTemplateDialog>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-600"
+                  aria-label="Delete template"
+                  disabled={deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(template.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function ChecklistTemplateDialog({ template, children }: { template?: ChecklistTemplate; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [task, setTask] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState<string>(CHECKLIST_CATEGORIES[0]);
+  const [timeframe, setTimeframe] = useState<string>(CHECKLIST_TIMEFRAMES[0]);
+  const [position, setPosition] = useState("0");
+  const [additionalItems, setAdditionalItems] = useState<string[]>([]);
+  const [services, setServices] = useState<string[]>([]);
+  const [tiers, setTiers] = useState<CompanyTier[]>([]);
+  const [minDistance, setMinDistance] = useState("");
+  const [maxDistance, setMaxDistance] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      const conditions = template?.conditions ?? {};
+      setTask(template?.task ?? "");
+      setDescription(template?.description ?? "");
+      setCategory(template?.category ?? CHECKLIST_CATEGORIES[0]);
+      setTimeframe(template?.timeframe ?? CHECKLIST_TIMEFRAMES[0]);
+      setPosition(String(template?.position ?? 0));
+      setAdditionalItems(conditions.additionalItems ?? []);
+      setServices(conditions.services ?? []);
+      setTiers(conditions.tiers ?? []);
+      setMinDistance(conditions.minDistance?.toString() ?? "");
+      setMaxDistance(conditions.maxDistance?.toString() ?? "");
+    }
+    setOpen(value);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Conditions left empty don't restrict the template
+      const conditions: ChecklistTemplateConditions = {
+        ...(additionalItems.length > 0 && { additionalItems }),
+        ...(services.length > 0 && { services: services as ChecklistTemplateConditions["services"] }),
+        ...(tiers.length > 0 && { tiers }),
+        ...(minDistance.trim() && { minDistance: parseInt(minDistance) }),
+        ...(maxDistance.trim() && { maxDistance: parseInt(maxDistance) }),
+      };
+      const body = {
+        task: task.trim(),
+        description: description.trim() || null,
+        category,
+        timeframe,
+        position: parseInt(position) || 0,
+        conditions,
+      };
+      const response = template
+        ? await apiRequest("PATCH", `/api/admin/checklist-templates/${template.id}`, body)
+        : await apiRequest("POST", "/api/admin/checklist-templates", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/checklist-templates"] });
+      setOpen(false);
+      toast({ title: template ? "Template updated" : "Template created" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error saving template",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = <T extends string>(values: T[], value: T, checked: boolean) =>
+    checked ? [...values, value] : values.filter(existing => existing !== value);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit checklist template" : "New checklist template"}</DialogTitle>
+          <DialogDescription>
+            Leave a condition empty to include the task whatever the move. Tasks with conditions are only
+            added to checklists linked to an estimate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-task">Task</Label>
+            <Input id="template-task" value={task} onChange={(e) => setTask(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea id="template-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>When</Label>
+              <Select value={timeframe} onValueChange={setTimeframe}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHECKLIST_TIMEFRAMES.map(value => (
+                    <SelectItem key={value} value={value}>{TIMEFRAME_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHECKLIST_CATEGORIES.map(value => (
+                    <SelectItem key={value} value={value} className="capitalize">{value.replace("-", " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-position">Position</Label>
+              <Input id="template-position" type="number" min={0} value={position} onChange={(e) => setPosition(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Special items (any of)</Label>
+            <div className="flex flex-wrap gap-4">
+              {ADDITIONAL_ITEMS.filter(item => item.value !== "none").map(item => (
+                <label key={item.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={additionalItems.includes(item.value)}
+                    onCheckedChange={(checked) => setAdditionalItems(toggle(additionalItems, item.value, checked === true))}
+                  />
+                  {item.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Services (any of)</Label>
+            <div className="flex flex-wrap gap-4">
+              {SERVICE_OPTIONS.map(service => (
+                <label key={service} className="flex items-center gap-2 text-sm capitalize">
+                  <Checkbox
+                    checked={services.includes(service)}
+                    onCheckedChange={(checked) => setServices(toggle(services, service, checked === true))}
+                  />
+                  {service}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Moving with (any of)</Label>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(TIER_LABELS) as CompanyTier[]).map(tier => (
+                <label key={tier} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={tiers.includes(tier)}
+                    onCheckedChange={(checked) => setTiers(toggle(tiers, tier, checked === true))}
+                  />
+                  {TIER_LABELS[tier]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-min-distance">At least (miles)</Label>
+              <Input id="template-min-distance" type="number" min={0} value={minDistance} onChange={(e) => setMinDistance(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="template-max-distance">At most (miles)</Label>
+              <Input id="template-max-distance" type="number" min={0} value={maxDistance} onChange={(e) => setMaxDistance(e.target.value)} />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => saveMutation.mutate()} disabled={!task.trim() || saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+              </>
+            ) : template ? (
+              "Save Changes"
+            ) : (
+              "Create Template"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Companies movers register wait here until an admin publishes them
+function CompanyModeration() {
+  const [published, setPublished] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: companies, isLoading } = useQuery<MovingCompany[]>({
+    queryKey: [`/api/admin/moving-companies?published=${published}`],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, published }: { id: number; published: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/admin/moving-companies/${id}`, { published });
+      return response.json();
+    },
+    onSuccess: (company: MovingCompany) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/admin/moving-companies") });
+      queryClient.invalidateQueries({ queryKey: ["/api/moving-companies"] });
+      toast({ title: company.published ? "Company published" : "Company unpublished" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error moderating company",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Label>Show</Label>
+        <Select value={String(published)} onValueChange={(value) => setPublished(value === "true")}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="false">Waiting</SelectItem>
+            <SelectItem value="true">Published</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !companies ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : companies.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">Nothing to review.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <ul className="space-y-3">
+          {companies.map(company => (
+            <li key={company.id} className="border rounded-lg bg-white p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="font-medium">{company.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {company.tiers.map(tier => TIER_LABELS[tier]).join(", ")} ·{" "}
+                    {company.serviceStates.includes("*") ? "Nationwide" : company.serviceStates.join(", ")} ·{" "}
+                    registered {formatDistanceToNow(new Date(company.createdAt), { addSuffix: true })}
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant={company.published ? "destructive" : "default"}
+                  disabled={moderateMutation.isPending}
+                  onClick={() => moderateMutation.mutate({ id: company.id, published: !company.published })}
+                >
+                  {company.published ? "Unpublish" : "Publish"}
+                </Button>
+              </div>
+              <p className="text-sm text-gray-700 mt-2">{company.description}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ReviewModeration() {
+  const [status, setStatus] = useState<ReviewStatus>("flagged");
+  const [page, setPage] = useState(1);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<Paginated<ModeratedCompanyReview>>({
+    queryKey: [`/api/admin/reviews?status=${status}&page=${page}&pageSize=${PAGE_SIZE}`],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: "published" | "hidden" }) => {
+      const response = await apiRequest("PATCH", `/api/admin/reviews/${id}`, { status });
+      return response.json();
+    },
+    onSuccess: (review: ModeratedCompanyReview) => {
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/admin/reviews") });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews/featured"] });
+      toast({ title: review.status === "published" ? "Review published" : "Review hidden" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error moderating review",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Label>Show</Label>
+        <Select value={status} onValueChange={(value) => { setStatus(value as ReviewStatus); setPage(1); }}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="flagged">Flagged</SelectItem>
+            <SelectItem value="hidden">Hidden</SelectItem>
+            <SelectItem value="published">Published</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !data ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : data.total === 0 ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">Nothing to review.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <ul className="space-y-3">
+            {data.items.map(review => (
+              <li key={review.id} className="border rounded-lg bg-white p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-medium">
+                      {review.companyName} <span className="text-muted-foreground font-normal">by {review.reviewer}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {review.overall.toFixed(1)} stars · {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {review.status !== "published" && (
+                      <Button
+                        size="sm"
+                        disabled={moderateMutation.isPending}
+                        onClick={() => moderateMutation.mutate({ id: review.id, status: "published" })}
+                      >
+                        Publish
+                      </Button>
+                    )}
+                    {review.status !== "hidden" && (
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={moderateMutation.isPending}
+                        onClick={() => moderateMutation.mutate({ id: review.id, status: "hidden" })}
+                      >
+                        Hide
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-sm text-gray-700 mt-2">{review.text}</p>
+                {review.flags.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {review.flags.map(flag => (
+                      <li key={flag.userId} className="flex items-start text-xs text-red-600">
+                        <Flag className="mr-1 h-3 w-3 mt-0.5 flex-shrink-0" /> {flag.reason}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <TablePagination page={page} totalPages={data.totalPages} onPageChange={setPage} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function PricingVersions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: versions, isLoading } = useQuery<PricingVersion[]>({
+    queryKey: ["/api/pricing/versions"],
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (version: string) => {
+      const response = await apiRequest("POST", `/api/pricing/versions/${encodeURIComponent(version)}/activate`);
+      return response.json();
+    },
+    onSuccess: (version: PricingVersion) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/versions"] });
+      toast({ title: "Pricing updated", description: `New quotes now use version ${version.version}.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error activating pricing version",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !versions) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const active = versions.find(version => version.active);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <NewPricingVersionDialog base={active}>
+          <Button>
+            <Plus className="mr-1 h-4 w-4" /> New Version
+          </Button>
+        </NewPricingVersionDialog>
+      </div>
+
+      <Table className="bg-white border rounded-lg">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Created</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map(version => (
+            <TableRow key={version.id}>
+              <TableCell className="font-medium">{version.version}</TableCell>
+              <TableCell>{version.description}</TableCell>
+              <TableCell>{formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}</TableCell>
+              <TableCell className="text-right">
+                {version.active ? (
+                  <Badge>Active</Badge>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={activateMutation.isPending}
+                    onClick={() => activateMutation.mutate(version.version)}
+                  >
+                    Activate
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Start a new version from the active rates, edited as JSON
+function NewPricingVersionDialog({ base, children }: { base?: PricingVersion; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const [version, setVersion] = useState("");
+  const [description, setDescription] = useState("");
+  const [rates, setRates] = useState("");
+  const [activate, setActivate] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) {
+      setVersion("");
+      setDescription("");
+      setRates(base ? JSON.stringify(base.rates, null, 2) : "");
+      setActivate(false);
+    }
+    setOpen(value);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/pricing/versions", {
+        version: version.trim(),
+        description: description.trim() || null,
+        rates: JSON.parse(rates),
+        active: activate,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pricing/versions"] });
+      setOpen(false);
+      toast({ title: "Pricing version created" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error creating pricing version",
+        description: error instanceof SyntaxError ? "The rates aren't valid JSON" : error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New pricing version</DialogTitle>
+          <DialogDescription>
+            Saved estimates keep the version they were priced with, so existing quotes don't change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pricing-version">Version</Label>
+              <Input id="pricing-version" value={version} onChange={(e) => setVersion(e.target.value)} placeholder="2025.1" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pricing-description">Description</Label>
+              <Input id="pricing-description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pricing-rates">Rates</Label>
+            <Textarea
+              id="pricing-rates"
+              value={rates}
+              onChange={(e) => setRates(e.target.value)}
+              className="font-mono text-xs h-72"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={activate} onCheckedChange={(checked) => setActivate(checked === true)} />
+            Use for new quotes right away
+          </label>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={() => createMutation.mutate()} disabled={!version.trim() || !rates.trim() || createMutation.isPending}>
+            {createMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving...
+              </>
+            ) : (
+              "Create Version"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Column header that sorts by its column; clicking the active column flips the order
+function SortableHead<T extends string>({
+  column,
+  sort,
+  order,
+  onSort,
+  className,
+  children,
+}: {
+  column: T;
+  sort: T;
+  order: SortOrder;
+  onSort: (column: T) => void;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  const Icon = order === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead className={className}>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => onSort(column)}>
+        {children}
+        {column === sort && <Icon className="h-3 w-3" />}
+      </button>
+    </TableHead>
+  );
+}
+
+function TablePagination({
+  page,
+  totalPages,
+  onPageChange,
+}: {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}) {
+  if (totalPages <= 1) return null;
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            className={cn(page <= 1 && "pointer-events-none opacity-50")}
+            onClick={(e) => { e.preventDefault(); onPageChange(page - 1); }}
+          />
+        </PaginationItem>
+        <PaginationItem className="px-3 text-sm text-muted-foreground">
+          Page {page} of {totalPages}
+        </PaginationItem>
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            className={cn(page >= totalPages && "pointer-events-none opacity-50")}
+            onClick={(e) => { e.preventDefault(); onPageChange(page + 1); }}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
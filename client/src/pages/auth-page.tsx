@@ -12,6 +12,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Redirect } from "wouter";
@@ -184,6 +185,7 @@ function RegisterForm({ isLoading, onSubmit }: { isLoading: boolean, onSubmit: (
     defaultValues: {
       username: "",
       password: "",
+      role: "customer",
     },
   });
 
@@ -216,6 +218,21 @@ function RegisterForm({ isLoading, onSubmit }: { isLoading: boolean, onSubmit: (
             </FormItem>
           )}
         />
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem className="flex items-center space-x-2 space-y-0">
+              <FormControl>
+                <Checkbox
+                  checked={field.value === "mover"}
+                  onCheckedChange={(checked) => field.onChange(checked === true ? "mover" : "customer")}
+                />
+              </FormControl>
+              <FormLabel className="font-normal">I'm a moving company and want to bid on moves</FormLabel>
+            </FormItem>
+          )}
+        />
         <Button type="submit" className="w-full" disabled={isLoading}>
           {isLoading ? (
             <>
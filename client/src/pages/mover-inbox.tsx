@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useFieldArray, useForm, Controller } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { addDays, format, parseISO } from "date-fns";
+import { ArrowRight, Building, Inbox, Loader2, MapPin, Package, Pencil, Plus, Trash2 } from "lucide-react";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { TIER_LABELS } from "@/components/QuoteRequests";
+import { CompanyProfileForm } from "@/components/CompanyProfileForm";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { HOME_SIZES } from "@/lib/constants";
+import {
+  bidSubmissionSchema,
+  type BidSubmission,
+  type CompanyTier,
+  type MoverQuoteRequest,
+  type MovingCompany,
+} from "@shared/schema";
+
+// How each request status reads from the mover's side
+const INBOX_STATUS_LABELS: Record<string, string> = {
+  sent: "Awaiting your bid",
+  bid: "Bidding open",
+  accepted: "Closed",
+  declined: "Closed by customer",
+  expired: "Expired",
+};
+
+export default function MoverInbox() {
+  const { user } = useAuth();
+
+  const { data: requests, isLoading } = useQuery<MoverQuoteRequest[]>({
+    queryKey: ["/api/mover/quote-requests"],
+    enabled: !!user?.companyId,
+  });
+
+  const { data: company } = useQuery<MovingCompany>({
+    queryKey: [`/api/moving-companies/${user?.companyId}`],
+    enabled: !!user?.companyId,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 font-sans text-gray-900">
+      <Header />
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold">Quote inbox</h2>
+          <p className="text-muted-foreground">Quote requests customers have sent to your company</p>
+        </div>
+
+        {company && <CompanyCard company={company} />}
+
+        {!user?.companyId ? (
+          <Card>
+            <CardHeader>
+              <CardTitle>Register your company</CardTitle>
+              <CardDescription>Customers can send you quote requests once an admin has published your company in the directory.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CompanyProfileForm />
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !requests || requests.length === 0 ? (
+          <Card>
+            <CardContent className="pt-6 flex flex-col items-center text-muted-foreground">
+              <Inbox className="h-8 w-8 mb-2" />
+              <p>No quote requests yet.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {requests.map(request => (
+              <InboxCard key={request.id} request={request} />
+            ))}
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+}
+
+function CompanyCard({ company }: { company: MovingCompany }) {
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Building className="h-4 w-4 text-primary" /> {company.name}
+            {!company.published && <Badge variant="outline">Waiting for an admin to publish</Badge>}
+          </CardTitle>
+          <Dialog open={editing} onOpenChange={setEditing}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Pencil className="mr-1 h-3 w-3" /> Edit profile
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Company profile</DialogTitle>
+                <DialogDescription>How your company appears in the directory and recommendations</DialogDescription>
+              </DialogHeader>
+              <CompanyProfileForm company={company} onSaved={() => setEditing(false)} />
+            </DialogContent>
+          </Dialog>
+        </div>
+        <CardDescription>{company.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm text-muted-foreground flex flex-wrap gap-x-6 gap-y-1">
+        <span>{company.tiers.map(tier => TIER_LABELS[tier]).join(", ")}</span>
+        <span>{company.serviceStates.includes("*") ? "Nationwide" : company.serviceStates.join(", ")}</span>
+        <span>{company.dailyCapacity} jobs per day</span>
+        <span>{company.reviewCount > 0 ? `${company.rating.toFixed(1)} stars from ${company.reviewCount} reviews` : "No reviews yet"}</span>
+      </CardContent>
+    </Card>
+  );
+}
+
+function InboxCard({ request }: { request: MoverQuoteRequest }) {
+  const { move, bid } = request;
+  const open = request.status === "sent" || request.status === "bid";
+  const canBid = open && (!bid || bid.status === "pending");
+  const itemCount = request.inventory.reduce((sum, item) => sum + item.quantity, 0);
+  const cubicFeet = request.inventory.reduce((sum, item) => sum + item.cubicFeet * item.quantity, 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start">
+          <CardTitle className="text-lg">
+            <div className="flex items-center gap-1 text-primary">
+              <MapPin className="h-4 w-4" />
+              {move.origin.split(',')[0]}
+              <ArrowRight className="h-3 w-3 mx-1" />
+              {move.destination.split(',')[0]}
+            </div>
+          </CardTitle>
+          <Badge variant="outline">{INBOX_STATUS_LABELS[request.status] ?? request.status}</Badge>
+        </div>
+        <CardDescription>
+          {TIER_LABELS[request.tier as CompanyTier]} · {move.distance} miles · moving {move.moveDate}
+          {move.flexibility && move.flexibility !== "exact" && ` (${move.flexibility})`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pb-2 space-y-2 text-sm">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Package className="h-3 w-3" />
+          {move.estimateMode === "inventory"
+            ? <span>{itemCount} items, {cubicFeet.toLocaleString()} cu ft</span>
+            : <span>{HOME_SIZES.find(size => size.value === move.homeSize)?.label ?? move.homeSize} home</span>}
+          {move.additionalItems && move.additionalItems !== "none" && (
+            <Badge variant="secondary" className="text-xs">{move.additionalItems}</Badge>
+          )}
+        </div>
+        {move.services && move.services.length > 0 && (
+          <p className="text-muted-foreground">Also wants: {move.services.join(", ")}</p>
+        )}
+        {request.notes && <p className="italic">"{request.notes}"</p>}
+        {bid && (
+          <p>
+            Your {bid.type === "binding" ? "binding" : "non-binding"} bid: <span className="font-semibold">${bid.total.toLocaleString()}</span>
+            <span className="text-muted-foreground"> · {bid.status}, valid until {format(parseISO(bid.expiresAt), "MMM d")}</span>
+          </p>
+        )}
+      </CardContent>
+      <CardFooter className="pt-1 text-xs text-muted-foreground border-t flex justify-between items-center">
+        <span>{request.expiresAt && open ? `Bids close ${format(parseISO(request.expiresAt), "MMM d")}` : ""}</span>
+        {canBid && (
+          <BidDialog request={request}>
+            <Button size="sm" className="h-7 text-xs">{bid ? "Revise bid" : "Submit bid"}</Button>
+          </BidDialog>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
+
+function BidDialog({ request, children }: { request: MoverQuoteRequest; children: React.ReactNode }) {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<BidSubmission>({
+    resolver: zodResolver(bidSubmissionSchema),
+    defaultValues: request.bid
+      ? {
+          type: request.bid.type as BidSubmission["type"],
+          lineItems: request.bid.lineItems,
+          message: request.bid.message ?? "",
+          expiresAt: request.bid.expiresAt,
+        }
+      : {
+          type: "nonBinding",
+          lineItems: [{ label: "Labor", amount: 0 }, { label: "Transportation", amount: 0 }],
+          message: "",
+          expiresAt: request.expiresAt ?? format(addDays(new Date(), 14), "yyyy-MM-dd"),
+        },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "lineItems" });
+  const lineItems = form.watch("lineItems");
+  const total = lineItems.reduce((sum, item) => sum + (Number(item.amount) || 0), 0);
+
+  const bidMutation = useMutation({
+    mutationFn: async (data: BidSubmission) => {
+      const response = await apiRequest("PUT", `/api/mover/quote-requests/${request.id}/bid`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mover/quote-requests"] });
+      setOpen(false);
+      toast({ title: "Bid submitted", description: "The customer can now compare it with other offers." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error submitting bid",
+        description: error.message || "Please try again later",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = form.handleSubmit((data) => bidMutation.mutate(data));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{request.bid ? "Revise your bid" : "Submit a bid"}</DialogTitle>
+          <DialogDescription>
+            {request.move.origin} to {request.move.destination} on {request.move.moveDate}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Controller
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <RadioGroup value={field.value} onValueChange={field.onChange} className="grid grid-cols-2 gap-2">
+                <Label className="flex items-start gap-2 border rounded-md p-3 cursor-pointer">
+                  <RadioGroupItem value="binding" className="mt-0.5" />
+                  <span>
+                    <span className="font-medium block">Binding</span>
+                    <span className="text-xs text-muted-foreground">The final price, whatever the move weighs</span>
+                  </span>
+                </Label>
+                <Label className="flex items-start gap-2 border rounded-md p-3 cursor-pointer">
+                  <RadioGroupItem value="nonBinding" className="mt-0.5" />
+                  <span>
+                    <span className="font-medium block">Non-binding</span>
+                    <span className="text-xs text-muted-foreground">An estimate that may change on moving day</span>
+                  </span>
+                </Label>
+              </RadioGroup>
+            )}
+          />
+
+          <div className="space-y-2">
+            <Label>Line items</Label>
+            {fields.map((field, index) => (
+              <div key={field.id} className="flex gap-2">
+                <Input {...form.register(`lineItems.${index}.label`)} placeholder="Charge" className="flex-grow" />
+                <Input
+                  type="number"
+                  step="1"
+                  {...form.register(`lineItems.${index}.amount`, { valueAsNumber: true })}
+                  className="w-28"
+                  aria-label="Amount in dollars"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  disabled={fields.length === 1}
+                  onClick={() => remove(index)}
+                  aria-label="Remove line item"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {form.formState.errors.lineItems && (
+              <p className="text-red-500 text-xs">Every line item needs a description and a whole-dollar amount</p>
+            )}
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={fields.length >= 30}
+                onClick={() => append({ label: "", amount: 0 })}
+              >
+                <Plus className="mr-1 h-3 w-3" /> Add line item
+              </Button>
+              <span className="font-semibold">Total ${total.toLocaleString()}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`bid-expires-${request.id}`}>Price valid until</Label>
+            <Input id={`bid-expires-${request.id}`} type="date" {...form.register("expiresAt")} />
+            {form.formState.errors.expiresAt && (
+              <p className="text-red-500 text-xs">{form.formState.errors.expiresAt.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`bid-message-${request.id}`}>Message to the customer (optional)</Label>
+            <Textarea id={`bid-message-${request.id}`} {...form.register("message")} maxLength={1000} />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={bidMutation.isPending}>
+              {bidMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Submitting...
+                </>
+              ) : (
+                "Submit Bid"
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { format } from "date-fns";
+import { AlertCircle, ArrowRight, Calendar, Loader2, MapPin, Package } from "lucide-react";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ADDITIONAL_ITEMS, FLEXIBILITY_OPTIONS, HOME_SIZES } from "@/lib/constants";
+import type { InventoryRoom, SharedEstimate } from "@shared/schema";
+
+// Room names from GET /api/inventory/catalog
+interface CatalogRoom {
+  id: InventoryRoom;
+  label: string;
+}
+
+// Read-only view of an estimate someone shared a link to; works without logging in
+export default function SharedEstimatePage() {
+  const { token } = useParams<{ token: string }>();
+
+  const { data: estimate, isLoading, error } = useQuery<SharedEstimate>({
+    queryKey: [`/api/shared/${token}`],
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 font-sans text-gray-900">
+      <Header />
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : error || !estimate ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex mb-2 gap-2 items-center">
+                <AlertCircle className="h-6 w-6 text-red-500" />
+                <h2 className="text-xl font-bold">
+                  {error?.message.startsWith("410") ? "This link has expired" : "Estimate not found"}
+                </h2>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Ask the person who shared it for a new link.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <SharedEstimateDetails estimate={estimate} />
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+}
+
+function SharedEstimateDetails({ estimate }: { estimate: SharedEstimate }) {
+  const { data: rooms } = useQuery<CatalogRoom[]>({
+    queryKey: ["/api/inventory/catalog"],
+    enabled: estimate.inventory.length > 0,
+  });
+
+  const roomLabel = (room: string) => rooms?.find(entry => entry.id === room)?.label ?? room;
+  const services = estimate.services ?? [];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <CardTitle className="flex items-center gap-1 text-primary text-2xl">
+              <MapPin className="h-5 w-5" />
+              {estimate.origin.split(',')[0]}
+              <ArrowRight className="h-4 w-4 mx-1" />
+              {estimate.destination.split(',')[0]}
+            </CardTitle>
+            <Badge variant="outline">{estimate.distance} miles</Badge>
+          </div>
+          <CardDescription className="space-y-1">
+            <span className="flex items-center gap-1">
+              <Calendar className="h-3 w-3" />
+              Moving on {formatDate(estimate.moveDate)}
+              {estimate.flexibility && ` · ${FLEXIBILITY_OPTIONS.find(option => option.value === estimate.flexibility)?.label ?? estimate.flexibility}`}
+            </span>
+            <span className="flex items-center gap-1">
+              <Package className="h-3 w-3" />
+              {HOME_SIZES.find(size => size.value === estimate.homeSize)?.label ?? estimate.homeSize} home
+              {estimate.additionalItems && estimate.additionalItems !== "none" &&
+                ` · ${ADDITIONAL_ITEMS.find(item => item.value === estimate.additionalItems)?.label ?? estimate.additionalItems}`}
+              {services.length > 0 && ` · ${services.join(", ")}`}
+            </span>
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <PriceCard label="DIY Move" price={estimate.costDiy} />
+            <PriceCard label="Hybrid Move" price={estimate.costHybrid} />
+            <PriceCard label="Full Service" price={estimate.costFullService} />
+          </div>
+          <p className="mt-4 text-xs text-muted-foreground">
+            Estimated {formatDate(estimate.createdAt)}
+            {estimate.expiresAt && `. This link works until ${formatDate(estimate.expiresAt)}.`}
+          </p>
+        </CardContent>
+      </Card>
+
+      {estimate.inventory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Inventory</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {estimate.inventory.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{roomLabel(item.room)}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
+
+function PriceCard({ label, price }: { label: string; price: number }) {
+  return (
+    <div className="text-center p-4 rounded-md bg-muted/50">
+      <div className="text-sm text-muted-foreground mb-1">{label}</div>
+      <div className="text-2xl font-bold">${price.toLocaleString()}</div>
+    </div>
+  );
+}
+
+function formatDate(value: string) {
+  const date = new Date(value.length === 10 ? `${value}T00:00` : value);
+  return isNaN(date.getTime()) ? value : format(date, "MMM d, yyyy");
+}
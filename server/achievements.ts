@@ -0,0 +1,220 @@
+import type {
+  AchievementStatus,
+  ProgressActivity,
+  ProgressUpdate,
+  UserProgress,
+} from "@shared/schema";
+import { getAccessibleChecklists } from "./collaboration";
+import { notifyUser } from "./notifications";
+import { storage } from "./storage";
+
+// What achievements are measured by
+type AchievementStat =
+  | "savedEstimates"
+  | "checklists"
+  | "completedTasks"
+  | "streak"
+  | "reminderSettings"
+  | "breathingSessions";
+
+interface AchievementDefinition {
+  id: string; // Stored in user_progress.achievements, so never renamed
+  title: string;
+  description: string;
+  icon: string;
+  points: number;
+  stat: AchievementStat;
+  target: number; // Unlocked once the stat reaches this
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: "complete_profile", title: "Profile Master", description: "Set up your reminders on your profile", icon: "home", points: 10, stat: "reminderSettings", target: 1 },
+  { id: "first_estimate", title: "Cost Explorer", description: "Save your first moving cost estimate", icon: "box", points: 15, stat: "savedEstimates", target: 1 },
+  { id: "first_checklist", title: "Organizer", description: "Create your first moving checklist", icon: "check-circle", points: 15, stat: "checklists", target: 1 },
+  { id: "complete_5_tasks", title: "Task Master", description: "Complete 5 suggested tasks from your moving checklists", icon: "medal", points: 25, stat: "completedTasks", target: 5 },
+  { id: "complete_25_tasks", title: "Checklist Crusher", description: "Complete 25 suggested tasks from your moving checklists", icon: "list-checks", points: 50, stat: "completedTasks", target: 25 },
+  { id: "streak_3", title: "Consistency Champion", description: "Visit the app 3 days in a row", icon: "star", points: 20, stat: "streak", target: 3 },
+  { id: "streak_7", title: "Week Warrior", description: "Visit the app 7 days in a row", icon: "crown", points: 50, stat: "streak", target: 7 },
+  { id: "breathing_master", title: "Zen Mover", description: "Finish 5 breathing exercises", icon: "heart", points: 15, stat: "breathingSessions", target: 5 },
+];
+
+// Points for each stress relief activity, paid out a few times a day at most
+const ACTIVITY_POINTS: Record<ProgressActivity, number> = {
+  tip: 1,
+  breathing: 5,
+  "packing-puzzle": 10,
+};
+const ACTIVITY_DAILY_LIMIT = 5;
+
+const POINTS_PER_LEVEL = 100;
+
+// A user's progress, created the first time it's asked for
+export async function getProgress(userId: number): Promise<UserProgress> {
+  const progress = await storage.getUserProgress(userId);
+  if (progress) return progress;
+
+  return storage.createUserProgress({
+    userId,
+    points: 0,
+    level: 1,
+    achievements: [],
+    streak: 0,
+    lastInteraction: new Date().toISOString(),
+  });
+}
+
+export async function getAchievements(userId: number): Promise<AchievementStatus[]> {
+  const progress = await getProgress(userId);
+  const stats = statReader(userId, progress);
+  const statuses: AchievementStatus[] = [];
+  for (const achievement of ACHIEVEMENTS) {
+    statuses.push(toStatus(achievement, progress, await stats(achievement.stat)));
+  }
+  return statuses;
+}
+
+// Unlock whatever the user has earned. Called after anything that can earn an
+// achievement; failures are logged so they never break what the user was doing.
+export async function checkAchievements(userId: number): Promise<AchievementStatus[]> {
+  try {
+    return await forUser(userId, () => unlockEarned(userId));
+  } catch (error) {
+    console.error(`Error checking achievements for user ${userId}:`, error);
+    return [];
+  }
+}
+
+// Count today's visit towards the streak. Days are UTC days.
+export async function checkIn(userId: number, now = new Date()): Promise<ProgressUpdate> {
+  await forUser(userId, async () => {
+    const progress = await getProgress(userId);
+    const last = progress.lastInteraction.slice(0, 10);
+    const today = now.toISOString().slice(0, 10);
+    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+    let streak = progress.streak;
+    if (last === yesterday) {
+      streak += 1;
+    } else if (last !== today || streak === 0) {
+      streak = 1;
+    }
+    await storage.updateUserProgress(userId, { streak, lastInteraction: now.toISOString() });
+  });
+
+  const unlocked = await checkAchievements(userId);
+  return { progress: await getProgress(userId), pointsAwarded: sumPoints(unlocked), unlocked };
+}
+
+// Award an activity's points unless today's limit for it is used up
+export async function recordActivity(userId: number, activity: ProgressActivity, now = new Date()): Promise<ProgressUpdate> {
+  const pointsAwarded = await forUser(userId, async () => {
+    const reason = `activity:${activity}`;
+    const today = now.toISOString().slice(0, 10);
+    const awards = await storage.getPointAwards(userId, reason);
+    if (awards.filter(award => award.createdAt.startsWith(today)).length >= ACTIVITY_DAILY_LIMIT) {
+      return 0;
+    }
+    await awardPoints(userId, reason, ACTIVITY_POINTS[activity]);
+    return ACTIVITY_POINTS[activity];
+  });
+
+  const unlocked = await checkAchievements(userId);
+  return { progress: await getProgress(userId), pointsAwarded: pointsAwarded + sumPoints(unlocked), unlocked };
+}
+
+async function unlockEarned(userId: number): Promise<AchievementStatus[]> {
+  let progress = await getProgress(userId);
+  const stats = statReader(userId, progress);
+  const unlocked: AchievementStatus[] = [];
+
+  for (const achievement of ACHIEVEMENTS) {
+    if (progress.achievements.includes(achievement.id)) continue;
+    const current = await stats(achievement.stat);
+    if (current < achievement.target) continue;
+
+    await storage.updateUserProgress(userId, { achievements: [...progress.achievements, achievement.id] });
+    progress = await awardPoints(userId, `achievement:${achievement.id}`, achievement.points);
+    unlocked.push(toStatus(achievement, progress, current));
+
+    await notifyUser(userId, {
+      type: "achievement-unlocked",
+      title: `Achievement unlocked: ${achievement.title}`,
+      body: `${achievement.description}. +${achievement.points} points`,
+      link: "/?tab=stress-relief",
+    });
+  }
+  return unlocked;
+}
+
+// Record the award and add it to the user's total
+async function awardPoints(userId: number, reason: string, points: number): Promise<UserProgress> {
+  await storage.createPointAward({ userId, reason, points });
+  const progress = await getProgress(userId);
+  const total = progress.points + points;
+  return (await storage.updateUserProgress(userId, {
+    points: total,
+    level: Math.floor(total / POINTS_PER_LEVEL) + 1,
+  }))!;
+}
+
+// Stats are looked up when first needed and then reused
+function statReader(userId: number, progress: UserProgress): (stat: AchievementStat) => Promise<number> {
+  const cache = new Map<AchievementStat, Promise<number>>();
+  return (stat) => {
+    let value = cache.get(stat);
+    if (!value) {
+      value = readStat(userId, progress, stat);
+      cache.set(stat, value);
+    }
+    return value;
+  };
+}
+
+async function readStat(userId: number, progress: UserProgress, stat: AchievementStat): Promise<number> {
+  switch (stat) {
+    case "savedEstimates":
+      return (await storage.getUserEstimates(userId)).length;
+    case "checklists":
+      return (await storage.getUserChecklists(userId)).length;
+    case "completedTasks": {
+      // Only completions the server saw the user make count; imported tasks have no one
+      // recorded as completing them. The user's own tasks don't count, as they could add
+      // and tick off as many as they like.
+      let count = 0;
+      for (const checklist of await getAccessibleChecklists(userId)) {
+        const items = await storage.getChecklistItems(checklist.id);
+        count += items.filter(item => item.completed && !item.custom && item.completedBy === userId).length;
+      }
+      return count;
+    }
+    case "streak":
+      return progress.streak;
+    case "reminderSettings":
+      return (await storage.getNotificationPreferences(userId)) ? 1 : 0;
+    case "breathingSessions":
+      return (await storage.getPointAwards(userId, "activity:breathing")).length;
+  }
+}
+
+function toStatus(achievement: AchievementDefinition, progress: UserProgress, current: number): AchievementStatus {
+  const { stat, ...definition } = achievement;
+  const unlocked = progress.achievements.includes(achievement.id);
+  return { ...definition, unlocked, current: unlocked ? achievement.target : Math.min(current, achievement.target) };
+}
+
+function sumPoints(achievements: AchievementStatus[]): number {
+  return achievements.reduce((sum, achievement) => sum + achievement.points, 0);
+}
+
+// Progress changes for one user run one at a time, so nothing is unlocked or paid twice
+const userQueues = new Map<number, Promise<unknown>>();
+
+function forUser<T>(userId: number, task: () => Promise<T>): Promise<T> {
+  const previous = userQueues.get(userId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  userQueues.set(userId, next);
+  next.catch(() => undefined).finally(() => {
+    if (userQueues.get(userId) === next) userQueues.delete(userId);
+  });
+  return next;
+}
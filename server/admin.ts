@@ -0,0 +1,132 @@
+import {
+  moveCalculationRequestSchema,
+  type AdminChecklist,
+  type AdminEstimate,
+  type AdminEstimateQuery,
+  type AdminUser,
+  type EstimateMetrics,
+  type MoveChecklist,
+  type MoveEstimate,
+  type Paginated,
+  type Pagination,
+  type User,
+} from "@shared/schema";
+import { formatMoveDate, parseMoveDate } from "./pricing";
+import { storage, type EstimateQuery } from "./storage";
+
+const HOME_SIZE_ORDER: string[] = moveCalculationRequestSchema.shape.homeSize.options;
+
+export function toPage<T>(items: T[], total: number, { page, pageSize }: Pagination): Paginated<T> {
+  return {
+    items,
+    page,
+    pageSize,
+    total,
+    totalPages: Math.ceil(total / pageSize),
+  };
+}
+
+// Estimates store full timestamps, so the inclusive `to` day becomes an exclusive bound
+export function toEstimateQuery({ page, pageSize, from, to, ...filters }: AdminEstimateQuery): EstimateQuery {
+  const dayAfter = to ? parseMoveDate(to) : undefined;
+  dayAfter?.setUTCDate(dayAfter.getUTCDate() + 1);
+
+  return {
+    ...filters,
+    createdFrom: from,
+    createdBefore: dayAfter ? formatMoveDate(dayAfter) : undefined,
+    limit: pageSize,
+    offset: (page - 1) * pageSize,
+  };
+}
+
+export async function toAdminEstimates(estimates: MoveEstimate[]): Promise<AdminEstimate[]> {
+  const usernames = await lookupUsernames(estimates.map(estimate => estimate.userId));
+  return estimates.map(estimate => ({
+    ...estimate,
+    username: estimate.userId !== null ? usernames.get(estimate.userId) ?? null : null,
+  }));
+}
+
+export async function toAdminUsers(users: User[]): Promise<AdminUser[]> {
+  return Promise.all(users.map(async ({ password, ...user }) => {
+    const company = user.companyId !== null ? await storage.getMovingCompany(user.companyId) : undefined;
+    return { ...user, companyName: company?.name ?? null };
+  }));
+}
+
+export async function toAdminChecklists(checklists: MoveChecklist[]): Promise<AdminChecklist[]> {
+  const usernames = await lookupUsernames(checklists.map(checklist => checklist.userId));
+  return Promise.all(checklists.map(async checklist => {
+    const items = await storage.getChecklistItems(checklist.id);
+    return {
+      ...checklist,
+      username: usernames.get(checklist.userId) ?? "Deleted user",
+      itemCount: items.length,
+      completedCount: items.filter(item => item.completed).length,
+    };
+  }));
+}
+
+// Daily quote volume and average prices over the last `days` days, today included.
+// Every calculation stores an anonymous estimate and saving stores a copy on the
+// account, so averages only count the anonymous quotes.
+export async function summarizeEstimateMetrics(days: number, now = new Date()): Promise<EstimateMetrics> {
+  const to = formatMoveDate(now);
+  const start = new Date(now);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  const from = formatMoveDate(start);
+
+  const estimates = await storage.getMoveEstimates({ createdFrom: from, order: "asc" });
+
+  const perDay = new Map<string, { date: string; quotes: number; saved: number }>();
+  for (let day = new Date(start); formatMoveDate(day) <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = formatMoveDate(day);
+    perDay.set(date, { date, quotes: 0, saved: 0 });
+  }
+
+  const bySize = new Map<string, { count: number; costDiy: number; costHybrid: number; costFullService: number }>();
+  for (const estimate of estimates) {
+    const day = perDay.get(estimate.createdAt.slice(0, 10));
+    if (estimate.userId !== null) {
+      if (day) day.saved++;
+      continue;
+    }
+    if (day) day.quotes++;
+
+    const totals = bySize.get(estimate.homeSize) ?? { count: 0, costDiy: 0, costHybrid: 0, costFullService: 0 };
+    totals.count++;
+    totals.costDiy += estimate.costDiy;
+    totals.costHybrid += estimate.costHybrid;
+    totals.costFullService += estimate.costFullService;
+    bySize.set(estimate.homeSize, totals);
+  }
+
+  const quotesPerDay = Array.from(perDay.values());
+  const totalQuotes = quotesPerDay.reduce((sum, day) => sum + day.quotes, 0);
+  const totalSaved = quotesPerDay.reduce((sum, day) => sum + day.saved, 0);
+
+  return {
+    from,
+    to,
+    quotesPerDay,
+    averageCostByHomeSize: Array.from(bySize.entries())
+      .sort(([a], [b]) => HOME_SIZE_ORDER.indexOf(a) - HOME_SIZE_ORDER.indexOf(b))
+      .map(([homeSize, totals]) => ({
+        homeSize,
+        count: totals.count,
+        costDiy: Math.round(totals.costDiy / totals.count),
+        costHybrid: Math.round(totals.costHybrid / totals.count),
+        costFullService: Math.round(totals.costFullService / totals.count),
+      })),
+    totalQuotes,
+    totalSaved,
+    conversionRate: totalQuotes > 0 ? Math.round((totalSaved / totalQuotes) * 1000) / 1000 : 0,
+  };
+}
+
+async function lookupUsernames(userIds: (number | null)[]): Promise<Map<number, string>> {
+  const ids = Array.from(new Set(userIds.filter((id): id is number => id !== null)));
+  const users = await Promise.all(ids.map(id => storage.getUser(id)));
+  return new Map(users.filter((user): user is User => !!user).map(user => [user.id, user.username]));
+}
@@ -1,11 +1,12 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, RequestHandler, Response } from "express";
 import session from "express-session";
+import type { IncomingMessage } from "http";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, UserRole, registrationRoleSchema } from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -15,6 +16,9 @@ declare global {
 
 const scryptAsync = promisify(scrypt);
 
+// Kept so requests that don't go through Express, like WebSocket upgrades, can be authenticated
+let sessionParser: RequestHandler | undefined;
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -40,7 +44,8 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -67,9 +72,12 @@ export function setupAuth(app: Express) {
       return res.status(400).send("Username already exists");
     }
 
+    // Customers and movers can sign up themselves; anything else falls back to customer
+    const role = registrationRoleSchema.safeParse(req.body.role);
     const user = await storage.createUser({
-      ...req.body,
+      username: req.body.username,
       password: await hashPassword(req.body.password),
+      role: role.success ? role.data : "customer",
     });
 
     req.login(user, (err) => {
@@ -93,4 +101,61 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
-}
\ No newline at end of file
+}
+
+// Route guard for signed-in users with one of the given roles
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!roles.includes(req.user!.role as UserRole)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+    next();
+  };
+}
+
+// Admins can manage any company; movers only the one they act for
+export function canManageCompany(user: SelectUser, companyId: number): boolean {
+  return user.role === "admin" || (user.role === "mover" && user.companyId === companyId);
+}
+
+// Route guard for routes with a company :id param
+export const requireCompanyAccess: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  if (!canManageCompany(req.user!, parseInt(req.params.id))) {
+    return res.status(403).json({ message: "Unauthorized access to this moving company" });
+  }
+  next();
+};
+
+// Create or promote the admin account named by ADMIN_USERNAME and ADMIN_PASSWORD,
+// so a fresh install has someone who can appoint other admins
+export async function ensureAdminAccount(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  const existing = await storage.getUserByUsername(username);
+  if (!existing) {
+    await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+  } else if (existing.role !== "admin") {
+    await storage.updateUser(existing.id, { role: "admin" });
+  }
+}
+
+// The logged-in user behind a raw HTTP request, e.g. a WebSocket upgrade
+export function getSessionUser(req: IncomingMessage): Promise<SelectUser | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionParser) return resolve(undefined);
+    sessionParser(req as Request, {} as Response, (err?: unknown) => {
+      if (err) return reject(err);
+      const { passport: login } = (req as Request).session as { passport?: { user?: number } };
+      if (login?.user === undefined) return resolve(undefined);
+      storage.getUser(login.user).then(resolve, reject);
+    });
+  });
+}
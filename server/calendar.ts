@@ -0,0 +1,152 @@
+import { randomBytes } from "crypto";
+import type { CalendarFeed, ChecklistItem, MoveChecklist } from "@shared/schema";
+import { ensureDueDates } from "./checklists";
+import { getAccessibleChecklists } from "./collaboration";
+import { storage } from "./storage";
+
+const PRODUCT_ID = "-//MoveEase//Moving Checklist//EN";
+const UID_DOMAIN = "move-ease";
+
+// Calendar apps poll subscriptions; this asks for roughly every few hours
+const REFRESH_INTERVAL = "PT4H";
+
+// Thrown when a feed token doesn't match any user's current feed
+export class CalendarFeedNotFoundError extends Error {
+  constructor() {
+    super("Calendar not found");
+    this.name = "CalendarFeedNotFoundError";
+  }
+}
+
+interface CalendarChecklist {
+  checklist: MoveChecklist;
+  items: ChecklistItem[];
+}
+
+// The user's feed, created the first time they ask for it
+export async function getCalendarFeed(userId: number): Promise<CalendarFeed> {
+  return (await storage.getCalendarFeed(userId)) ?? resetCalendarFeed(userId);
+}
+
+// A new token; calendars subscribed with the old address stop updating
+export async function resetCalendarFeed(userId: number): Promise<CalendarFeed> {
+  return storage.saveCalendarFeed(userId, randomBytes(24).toString("base64url"));
+}
+
+export async function renderChecklistCalendar(checklist: MoveChecklist): Promise<string> {
+  const items = await ensureDueDates(checklist);
+  return renderCalendar(`Move on ${checklist.moveDate.slice(0, 10)}`, [{ checklist, items }]);
+}
+
+// Every checklist the feed's owner can see, shared ones included, rendered fresh on
+// each poll so it follows completed tasks and changed move dates
+export async function renderCalendarFeed(token: string): Promise<string> {
+  const feed = await storage.getCalendarFeedByToken(token);
+  if (!feed) throw new CalendarFeedNotFoundError();
+
+  const checklists: CalendarChecklist[] = [];
+  for (const checklist of await getAccessibleChecklists(feed.userId)) {
+    checklists.push({ checklist, items: await ensureDueDates(checklist) });
+  }
+  return renderCalendar("Moving checklist", checklists);
+}
+
+// RFC 5545. Each task is both a VTODO, for apps with task lists, and an all-day
+// VEVENT on its due date, since many calendar apps ignore VTODOs.
+function renderCalendar(name: string, checklists: CalendarChecklist[]): string {
+  const stamp = formatTimestamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${REFRESH_INTERVAL}`,
+    `X-PUBLISHED-TTL:${REFRESH_INTERVAL}`,
+  ];
+
+  for (const { checklist, items } of checklists) {
+    const moveDay = formatDate(checklist.moveDate);
+    if (moveDay) {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:checklist-${checklist.id}-move@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${moveDay}`,
+        `DTEND;VALUE=DATE:${nextDay(moveDay)}`,
+        "SUMMARY:Moving day",
+        "END:VEVENT",
+      );
+    }
+
+    for (const item of items) {
+      const due = item.dueDate && formatDate(item.dueDate);
+      if (!due) continue;
+
+      const details = [
+        `SUMMARY:${escapeText(item.task)}`,
+        ...(item.description ? [`DESCRIPTION:${escapeText(item.description)}`] : []),
+        `CATEGORIES:${escapeText(item.category)}`,
+      ];
+      lines.push(
+        "BEGIN:VTODO",
+        `UID:checklist-item-${item.id}-todo@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DUE;VALUE=DATE:${due}`,
+        ...details,
+        `STATUS:${item.completed ? "COMPLETED" : "NEEDS-ACTION"}`,
+        `PERCENT-COMPLETE:${item.completed ? 100 : 0}`,
+        "END:VTODO",
+        "BEGIN:VEVENT",
+        `UID:checklist-item-${item.id}-event@${UID_DOMAIN}`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${due}`,
+        `DTEND;VALUE=DATE:${nextDay(due)}`,
+        ...details.map(line => (item.completed && line.startsWith("SUMMARY:") ? line.replace("SUMMARY:", "SUMMARY:Done: ") : line)),
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// yyyy-MM-dd (or an ISO timestamp) to the DATE form, yyyyMMdd
+function formatDate(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  return match ? `${match[1]}${match[2]}${match[3]}` : null;
+}
+
+function nextDay(date: string): string {
+  const day = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)) + 1));
+  return day.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
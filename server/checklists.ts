@@ -0,0 +1,210 @@
+import {
+  CHECKLIST_TIMEFRAMES,
+  type ChecklistItem,
+  type ChecklistTemplateConditions,
+  type ChecklistTimeframe,
+  type InsertChecklistTemplate,
+  type MoveChecklist,
+  type MoveEstimate,
+  type UpcomingChecklistItem,
+} from "@shared/schema";
+import { canAccessChecklist, getAccessibleChecklists } from "./collaboration";
+import { storage } from "./storage";
+
+// When each timeframe's tasks are due, in days relative to the move date
+const TIMEFRAME_OFFSETS: Record<ChecklistTimeframe, number> = {
+  "8-weeks": -56,
+  "4-weeks": -28,
+  "2-weeks": -14,
+  "1-week": -7,
+  "moving-day": 0,
+  "after-move": 7,
+};
+
+// The full timeline starts eight weeks out. When the move is sooner, the tasks due
+// before it are spread over the days that are left instead of all being overdue.
+const TIMELINE_DAYS = 56;
+
+// What new checklists are built from until an admin changes the templates
+const DEFAULT_CHECKLIST_TEMPLATES: Omit<InsertChecklistTemplate, "position">[] = [
+  // 8 weeks before (planning phase)
+  { task: "Create a moving budget", description: "Estimate all costs involved in your move including packing supplies, movers, transportation, etc.", category: "planning", timeframe: "8-weeks" },
+  { task: "Research moving companies", description: "Get quotes from at least 3 different moving companies for comparison.", category: "planning", timeframe: "8-weeks" },
+  { task: "Create a home inventory", description: "Document all your belongings and decide what to keep, sell, donate, or discard.", category: "planning", timeframe: "8-weeks" },
+  { task: "Book specialist piano movers", description: "Pianos need trained movers and special equipment; ask about insurance for the move.", category: "planning", timeframe: "8-weeks", conditions: { additionalItems: ["piano"] } },
+  { task: "Reserve a moving truck", description: "Book early, especially for weekends and the end of the month. Check the truck size fits your home.", category: "planning", timeframe: "8-weeks", conditions: { tiers: ["diy"] } },
+  { task: "Check your movers are licensed for interstate moves", description: "Interstate movers need a USDOT number; look it up on the FMCSA website before you book.", category: "planning", timeframe: "8-weeks", conditions: { tiers: ["hybrid", "fullService"], minDistance: 250 } },
+
+  // 4 weeks before (preparation phase)
+  { task: "Start packing non-essential items", description: "Begin with items you rarely use like seasonal decorations, books, and extra kitchen items.", category: "packing", timeframe: "4-weeks" },
+  { task: "Notify important parties about your move", description: "Update your address with banks, insurance companies, subscription services, etc.", category: "admin", timeframe: "4-weeks" },
+  { task: "Schedule utility disconnection and connection", description: "Arrange for utilities to be disconnected at your current home and connected at your new home.", category: "admin", timeframe: "4-weeks" },
+  { task: "Reserve a storage unit", description: "Pick a unit size from your inventory and confirm access hours around your moving day.", category: "planning", timeframe: "4-weeks", conditions: { services: ["storage"] } },
+  { task: "Line up helpers for moving day", description: "Ask friends or book loading help, and plan food and drinks for everyone.", category: "planning", timeframe: "4-weeks", conditions: { tiers: ["diy"] } },
+  { task: "Look up your new state's rules", description: "Check vehicle registration, driver's license and tax deadlines for new residents.", category: "admin", timeframe: "4-weeks", conditions: { minDistance: 250 } },
+
+  // 2 weeks before (action phase)
+  { task: "Confirm moving arrangements", description: "Verify date, time, and details with your moving company or rental truck service.", category: "admin", timeframe: "2-weeks" },
+  { task: "Pack most of your belongings", description: "Leave out only essential items that you'll need in the final days.", category: "packing", timeframe: "2-weeks" },
+  { task: "Clean out the refrigerator and pantry", description: "Use up perishable food items or plan to give them away before the move.", category: "cleaning", timeframe: "2-weeks" },
+  { task: "Gather moving equipment", description: "Get a dolly, furniture blankets, straps and a tool kit, or add them to your truck rental.", category: "packing", timeframe: "2-weeks", conditions: { tiers: ["diy"] } },
+  { task: "Plan your route and overnight stops", description: "Book hotels along the way and check any truck restrictions on your route.", category: "planning", timeframe: "2-weeks", conditions: { minDistance: 250 } },
+  { task: "Book move-out cleaning", description: "Schedule cleaners for after the truck is loaded so the home is ready for handover.", category: "cleaning", timeframe: "2-weeks", conditions: { services: ["cleaning"] } },
+
+  // 1 week before (final prep)
+  { task: "Pack an essentials box", description: "Include items you'll need immediately upon arrival: toiletries, medications, change of clothes, basic kitchen supplies, etc.", category: "packing", timeframe: "1-week" },
+  { task: "Disassemble furniture", description: "Take apart larger furniture pieces that won't fit through doors or are easier to move disassembled.", category: "packing", timeframe: "1-week" },
+  { task: "Confirm arrival time at new residence", description: "Make sure you can access your new home when you arrive and that utilities are connected.", category: "admin", timeframe: "1-week" },
+  { task: "Label boxes going into storage", description: "Mark storage boxes clearly and keep a list of what's in each so you can find things later.", category: "packing", timeframe: "1-week", conditions: { services: ["storage"] } },
+  { task: "Prepare the piano for moving", description: "Close and lock the lid, and clear a path from the piano to the door.", category: "packing", timeframe: "1-week", conditions: { additionalItems: ["piano"] } },
+
+  // Moving day
+  { task: "Conduct final walkthrough of old home", description: "Check all rooms, closets, cabinets, and storage areas to ensure nothing is left behind.", category: "moving-day", timeframe: "moving-day" },
+  { task: "Document condition of rental property", description: "Take photos of your cleaned rental property to document its condition for your deposit return.", category: "moving-day", timeframe: "moving-day" },
+  { task: "Supervise movers", description: "Be available to answer questions and direct movers throughout the loading process.", category: "moving-day", timeframe: "moving-day" },
+  { task: "Pick up the truck and check it over", description: "Photograph any existing damage and note the fuel level and mileage before you drive off.", category: "moving-day", timeframe: "moving-day", conditions: { tiers: ["diy"] } },
+
+  // After the move
+  { task: "Unpack essential items", description: "Focus on setting up the kitchen, bathroom, and bedroom areas first.", category: "unpacking", timeframe: "after-move" },
+  { task: "Update your address", description: "File a change of address with the post office and update your driver's license.", category: "admin", timeframe: "after-move" },
+  { task: "Meet your neighbors", description: "Introduce yourself to neighbors and begin getting familiar with the neighborhood.", category: "settling-in", timeframe: "after-move" },
+  { task: "Schedule a piano tuning", description: "Moving knocks a piano out of tune; wait a couple of weeks for it to settle first.", category: "settling-in", timeframe: "after-move", conditions: { additionalItems: ["piano"] } },
+  { task: "Register your vehicle in your new state", description: "Most states give new residents 30 to 60 days to switch registration and license.", category: "admin", timeframe: "after-move", conditions: { minDistance: 250 } },
+];
+
+// What the templates' conditions are checked against
+interface ChecklistMove {
+  additionalItems?: string | null;
+  services?: string[] | null;
+  distance?: number;
+  tier?: string | null;
+}
+
+// Null for timeframes we don't know (e.g. from an old import) or an unreadable move date.
+// `today` is when the timeline starts, for compressing it.
+export function checklistDueDate(moveDate: string, timeframe: string, today = toDateString(new Date())): string | null {
+  if (!(timeframe in TIMEFRAME_OFFSETS)) return null;
+  const date = parseDate(moveDate);
+  if (!date) return null;
+
+  let offset = TIMEFRAME_OFFSETS[timeframe as ChecklistTimeframe];
+  const start = parseDate(today);
+  const daysLeft = start ? Math.round((date.getTime() - start.getTime()) / DAY_MS) : TIMELINE_DAYS;
+  if (offset < 0 && daysLeft < TIMELINE_DAYS) {
+    offset = Math.round(offset * Math.max(daysLeft, 0) / TIMELINE_DAYS);
+  }
+  return addDays(date, offset);
+}
+
+export function templateApplies(conditions: ChecklistTemplateConditions, move: ChecklistMove): boolean {
+  if (conditions.additionalItems && !conditions.additionalItems.includes(move.additionalItems ?? "none")) return false;
+  if (conditions.services && !conditions.services.some(service => move.services?.includes(service))) return false;
+  if (conditions.tiers && !(move.tier && (conditions.tiers as string[]).includes(move.tier))) return false;
+  if (conditions.minDistance !== undefined && !(move.distance !== undefined && move.distance >= conditions.minDistance)) return false;
+  if (conditions.maxDistance !== undefined && !(move.distance !== undefined && move.distance <= conditions.maxDistance)) return false;
+  return true;
+}
+
+// Create a new checklist's tasks from the active templates that fit its move. Without
+// a linked estimate only templates with no estimate conditions apply.
+export async function buildChecklistItems(checklist: MoveChecklist, estimate?: MoveEstimate): Promise<ChecklistItem[]> {
+  const move: ChecklistMove = {
+    additionalItems: estimate?.additionalItems,
+    services: estimate?.services,
+    distance: estimate?.distance,
+    tier: checklist.tier,
+  };
+  const templates = (await storage.getChecklistTemplates())
+    .filter(template => template.active && templateApplies(template.conditions, move))
+    .sort((a, b) => timeframeIndex(a.timeframe) - timeframeIndex(b.timeframe));
+
+  const today = toDateString(new Date());
+  const items: ChecklistItem[] = [];
+  for (let position = 0; position < templates.length; position++) {
+    const { task, description, category, timeframe } = templates[position];
+    items.push(await storage.createChecklistItem({
+      checklistId: checklist.id,
+      task,
+      description,
+      category,
+      timeframe,
+      completed: false,
+      position,
+      dueDate: checklistDueDate(checklist.moveDate, timeframe, today),
+    }));
+  }
+  return items;
+}
+
+export async function ensureDefaultChecklistTemplates(): Promise<void> {
+  const existing = await storage.getChecklistTemplates();
+  if (existing.length > 0) return;
+
+  for (let position = 0; position < DEFAULT_CHECKLIST_TEMPLATES.length; position++) {
+    await storage.createChecklistTemplate({ ...DEFAULT_CHECKLIST_TEMPLATES[position], position });
+  }
+}
+
+// Move a checklist to a new date; every task's due date follows, including tasks the user added
+export async function rescheduleChecklist(checklist: MoveChecklist, moveDate: string, today?: string): Promise<MoveChecklist> {
+  const items = await storage.getChecklistItems(checklist.id);
+  const dueDates: Record<number, string | null> = {};
+  for (const item of items) {
+    dueDates[item.id] = checklistDueDate(moveDate, item.timeframe, today);
+  }
+  return (await storage.rescheduleMoveChecklist(checklist.id, moveDate, dueDates))!;
+}
+
+// Checklists created before due dates were stored get them the first time they're read
+export async function ensureDueDates(checklist: MoveChecklist): Promise<ChecklistItem[]> {
+  const items = await storage.getChecklistItems(checklist.id);
+  if (items.every(item => item.dueDate !== null || checklistDueDate(checklist.moveDate, item.timeframe) === null)) {
+    return items;
+  }
+  await rescheduleChecklist(checklist, checklist.moveDate, checklist.createdAt);
+  return storage.getChecklistItems(checklist.id);
+}
+
+// Open tasks due in the next `days` days across every checklist the user can work on, with
+// overdue ones first. Tasks assigned to someone else are theirs to worry about.
+export async function getUpcomingTasks(userId: number, days: number, today = toDateString(new Date())): Promise<UpcomingChecklistItem[]> {
+  const checklists = (await getAccessibleChecklists(userId)).filter(checklist => canAccessChecklist(checklist.access, "edit"));
+  for (const checklist of checklists) {
+    await ensureDueDates(checklist);
+  }
+
+  const items = await storage.getDueChecklistItems(checklists.map(checklist => checklist.id), addDays(parseDate(today)!, days));
+  return items.filter(item => item.assignedTo === null || item.assignedTo === userId).map(item => ({
+    ...item,
+    dueDate: item.dueDate!,
+    moveDate: checklists.find(checklist => checklist.id === item.checklistId)!.moveDate,
+    overdue: item.dueDate! < today,
+  }));
+}
+
+function timeframeIndex(timeframe: string): number {
+  const index = CHECKLIST_TIMEFRAMES.indexOf(timeframe as ChecklistTimeframe);
+  return index === -1 ? CHECKLIST_TIMEFRAMES.length : index;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC midnights so adding days never trips over daylight saving
+function parseDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  const date = match
+    ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function addDays(date: Date, days: number): string {
+  return new Date(date.getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// The server's local calendar date
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
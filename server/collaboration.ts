@@ -0,0 +1,142 @@
+import type {
+  ChecklistAccess,
+  ChecklistCollaborator,
+  ChecklistMember,
+  ChecklistRole,
+  MoveChecklist,
+  UserChecklist,
+} from "@shared/schema";
+import { notifyUser } from "./notifications";
+import { storage } from "./storage";
+
+// What a user can do with a checklist
+export type ChecklistPermission = "view" | "edit" | "manage";
+
+// Who can do what; the owner can do everything
+const PERMISSIONS: Record<ChecklistPermission, ChecklistAccess[]> = {
+  view: ["viewer", "editor", "owner"],
+  edit: ["editor", "owner"], // Add, change, complete, assign and reorder tasks
+  manage: ["owner"], // Change the move date and who the checklist is shared with
+};
+
+// Thrown when a checklist can't be shared or a task assigned as asked
+export class ChecklistMemberError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChecklistMemberError";
+  }
+}
+
+// Null when the user can't see the checklist at all
+export async function getChecklistAccess(checklist: MoveChecklist, userId: number): Promise<ChecklistAccess | null> {
+  if (checklist.userId === userId) return "owner";
+  const member = await storage.getChecklistMember(checklist.id, userId);
+  return member ? (member.role as ChecklistRole) : null;
+}
+
+export function canAccessChecklist(access: ChecklistAccess | null, permission: ChecklistPermission): boolean {
+  return access !== null && PERMISSIONS[permission].includes(access);
+}
+
+// The user's own checklists followed by the ones shared with them
+export async function getAccessibleChecklists(userId: number): Promise<UserChecklist[]> {
+  const user = await storage.getUser(userId);
+  const checklists: UserChecklist[] = (await storage.getUserChecklists(userId)).map(checklist => ({
+    ...checklist,
+    access: "owner",
+    ownerUsername: user?.username ?? "",
+  }));
+
+  for (const checklist of await storage.getSharedChecklists(userId)) {
+    const access = await getChecklistAccess(checklist, userId);
+    const owner = await storage.getUser(checklist.userId);
+    checklists.push({ ...checklist, access: access!, ownerUsername: owner?.username ?? "" });
+  }
+  return checklists;
+}
+
+// The owner first, then members in the order they were invited
+export async function getChecklistCollaborators(checklist: MoveChecklist): Promise<ChecklistCollaborator[]> {
+  const owner = await storage.getUser(checklist.userId);
+  const collaborators: ChecklistCollaborator[] = [
+    { userId: checklist.userId, username: owner?.username ?? "", access: "owner" },
+  ];
+  for (const member of await storage.getChecklistMembers(checklist.id)) {
+    collaborators.push(await toCollaborator(member));
+  }
+  return collaborators;
+}
+
+export async function inviteChecklistMember(
+  checklist: MoveChecklist,
+  invitedBy: number,
+  username: string,
+  role: ChecklistRole,
+): Promise<ChecklistCollaborator> {
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    throw new ChecklistMemberError(`There's no user called ${username}`);
+  }
+  if (user.id === checklist.userId) {
+    throw new ChecklistMemberError("You can't invite the checklist's owner");
+  }
+  if (await storage.getChecklistMember(checklist.id, user.id)) {
+    throw new ChecklistMemberError(`${user.username} already has access to this checklist`);
+  }
+
+  const member = await storage.createChecklistMember({ checklistId: checklist.id, userId: user.id, role, invitedBy });
+  const inviter = await storage.getUser(invitedBy);
+  await notifyUser(user.id, {
+    type: "checklist-shared",
+    title: `${inviter?.username ?? "Someone"} shared a moving checklist with you`,
+    body: canAccessChecklist(role, "edit") ? "You can add, assign and tick off tasks." : "You can follow along as tasks get done.",
+    link: "/?tab=checklist",
+  });
+  return toCollaborator(member);
+}
+
+// Undefined when the user isn't a member
+export async function changeChecklistMemberRole(
+  checklist: MoveChecklist,
+  userId: number,
+  role: ChecklistRole,
+): Promise<ChecklistCollaborator | undefined> {
+  const member = await storage.getChecklistMember(checklist.id, userId);
+  if (!member) return undefined;
+
+  const updated = await storage.updateChecklistMember(member.id, { role });
+  if (!canAccessChecklist(role, "edit")) {
+    await unassignTasks(checklist.id, userId);
+  }
+  return toCollaborator(updated!);
+}
+
+// Whether the user was a member
+export async function removeChecklistMember(checklist: MoveChecklist, userId: number): Promise<boolean> {
+  const member = await storage.getChecklistMember(checklist.id, userId);
+  if (!member) return false;
+
+  await storage.deleteChecklistMember(member.id);
+  await unassignTasks(checklist.id, userId);
+  return true;
+}
+
+// Only people who can tick a task off can have it assigned to them
+export async function assertAssignable(checklist: MoveChecklist, userId: number): Promise<void> {
+  if (!canAccessChecklist(await getChecklistAccess(checklist, userId), "edit")) {
+    throw new ChecklistMemberError("Tasks can only be assigned to people who can edit this checklist");
+  }
+}
+
+async function unassignTasks(checklistId: number, userId: number): Promise<void> {
+  for (const item of await storage.getChecklistItems(checklistId)) {
+    if (item.assignedTo === userId) {
+      await storage.updateChecklistItem(item.id, { assignedTo: null });
+    }
+  }
+}
+
+async function toCollaborator(member: ChecklistMember): Promise<ChecklistCollaborator> {
+  const user = await storage.getUser(member.userId);
+  return { userId: member.userId, username: user?.username ?? "", access: member.role as ChecklistRole };
+}
@@ -0,0 +1,294 @@
+import type {
+  CompanyCapacity,
+  CompanyTier,
+  InsertMovingCompany,
+  MoveCalculationRequest,
+  MoveCalculationResponse,
+  MovingCompany,
+  TierRates,
+} from "@shared/schema";
+import type { RouteEstimate } from "./geo";
+import { formatMoveDate, parseMoveDate } from "./pricing";
+import { storage } from "./storage";
+
+export interface CompanyMatchInput {
+  route: RouteEstimate;
+  moveDate: string; // yyyy-MM-dd
+  homeSize: MoveCalculationRequest["homeSize"];
+  costs: TierRates; // The calculator's estimate, scaled by each company's multipliers
+}
+
+export type CompanyMatch = MoveCalculationResponse["companies"][number];
+
+// How far past the move date to look for an opening when a company is booked
+const AVAILABILITY_LOOKAHEAD_DAYS = 7;
+
+const HOME_SIZE_ORDER: MoveCalculationRequest["homeSize"][] = ["studio", "1bedroom", "2bedroom", "3bedroom"];
+
+const HOME_SIZE_LABELS: Record<MoveCalculationRequest["homeSize"], string> = {
+  studio: "studio",
+  "1bedroom": "1 bedroom",
+  "2bedroom": "2 bedroom",
+  "3bedroom": "3+ bedroom",
+};
+
+const TIER_LABELS: Record<CompanyTier, string> = {
+  diy: "truck rental",
+  hybrid: "container",
+  fullService: "full-service",
+};
+
+// Score weights; a company with a perfect rating, the lowest prices, an opening on
+// the requested date and local expertise scores 100
+const SCORE_WEIGHTS = {
+  rating: 40,
+  price: 25,
+  availability: 30,
+  local: 5,
+};
+
+// Ratings are pulled toward a neutral prior so a single 5-star review
+// doesn't outrank hundreds of 4.8s, and new companies aren't ranked last
+const PRIOR_RATING = 3.5;
+const PRIOR_REVIEW_WEIGHT = 5;
+
+// Companies seeded into an empty directory
+export const DEFAULT_MOVING_COMPANIES: InsertMovingCompany[] = [
+  {
+    name: "FastMove Pros",
+    description: "Local company with 15+ years experience",
+    serviceStates: ["NY", "NJ", "CT", "PA"],
+    interstate: true,
+    tiers: ["fullService"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 3,
+    pricingMultipliers: { diy: 1, hybrid: 1, fullService: 1.05 },
+  },
+  {
+    name: "SmartBox Moving",
+    description: "Container-based moving service",
+    serviceStates: ["*"],
+    interstate: true,
+    tiers: ["hybrid"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 10,
+    pricingMultipliers: { diy: 1, hybrid: 0.95, fullService: 1 },
+  },
+  {
+    name: "Premium Movers Inc.",
+    description: "Full-service moving specialists",
+    serviceStates: ["*"],
+    interstate: true,
+    tiers: ["fullService"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 1,
+    pricingMultipliers: { diy: 1, hybrid: 1, fullService: 1.25 },
+  },
+  {
+    name: "Budget Moving Co.",
+    description: "Affordable moving solutions",
+    serviceStates: ["TX", "OK", "LA", "AR", "NM"],
+    interstate: true,
+    tiers: ["hybrid", "fullService"],
+    maxHomeSize: "2bedroom",
+    dailyCapacity: 4,
+    pricingMultipliers: { diy: 1, hybrid: 0.85, fullService: 0.85 },
+  },
+  {
+    name: "Coastline Relocation",
+    description: "West coast movers for homes of every size",
+    serviceStates: ["CA", "OR", "WA", "NV", "AZ"],
+    interstate: true,
+    tiers: ["hybrid", "fullService"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 5,
+    pricingMultipliers: { diy: 1, hybrid: 1.05, fullService: 1.1 },
+  },
+  {
+    name: "Heartland Haulers",
+    description: "Midwest movers with fair, flat pricing",
+    serviceStates: ["IL", "IN", "OH", "MI", "WI", "MN", "IA", "MO", "KS", "NE"],
+    interstate: true,
+    tiers: ["diy", "fullService"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 4,
+    pricingMultipliers: { diy: 0.95, hybrid: 1, fullService: 0.9 },
+  },
+  {
+    name: "Southern Comfort Moving",
+    description: "Careful local moves across the Southeast",
+    serviceStates: ["FL", "GA", "SC", "NC", "AL", "TN"],
+    interstate: false,
+    tiers: ["fullService"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 3,
+    pricingMultipliers: { diy: 1, hybrid: 1, fullService: 0.95 },
+  },
+  {
+    name: "Rent-A-Rig",
+    description: "Self-move truck rentals with one-way drop-off",
+    serviceStates: ["*"],
+    interstate: true,
+    tiers: ["diy"],
+    maxHomeSize: "3bedroom",
+    dailyCapacity: 25,
+    pricingMultipliers: { diy: 1, hybrid: 1, fullService: 1 },
+  },
+];
+
+// Seed the directory with a few companies so quotes always have recommendations
+export async function ensureDefaultMovingCompanies(): Promise<void> {
+  const existing = await storage.getMovingCompanies();
+  if (existing.length > 0) return;
+
+  for (const company of DEFAULT_MOVING_COMPANIES) {
+    await storage.createMovingCompany(company);
+  }
+}
+
+// Rank every company in the directory for a move, best first
+export async function matchCompanies(input: CompanyMatchInput, limit?: number): Promise<CompanyMatch[]> {
+  const companies = (await storage.getMovingCompanies()).filter(company => company.published);
+  const from = input.moveDate;
+  const to = shiftDate(input.moveDate, AVAILABILITY_LOOKAHEAD_DAYS);
+
+  const calendars = new Map<number, CompanyCapacity[]>();
+  for (const company of companies) {
+    calendars.set(company.id, await storage.getCompanyCapacity(company.id, from, to));
+  }
+
+  const matches = rankCompanies(input, companies, calendars);
+  return limit !== undefined ? matches.slice(0, limit) : matches;
+}
+
+// Score companies that can do the move and explain each score.
+// Companies that can't serve the route or home size are left out entirely.
+export function rankCompanies(
+  input: CompanyMatchInput,
+  companies: MovingCompany[],
+  calendars: Map<number, CompanyCapacity[]>
+): CompanyMatch[] {
+  const originState = input.route.origin.state;
+  const destinationState = input.route.destination.state;
+  const interstate = originState !== destinationState;
+
+  const eligible = companies.filter(company =>
+    servesState(company, originState) &&
+    servesState(company, destinationState) &&
+    (!interstate || company.interstate) &&
+    HOME_SIZE_ORDER.indexOf(input.homeSize) <= HOME_SIZE_ORDER.indexOf(company.maxHomeSize as MoveCalculationRequest["homeSize"])
+  );
+
+  // Prices are compared against the other eligible companies, not an absolute scale
+  const averageMultipliers = eligible.map(company => averageMultiplier(company));
+  const cheapest = Math.min(...averageMultipliers);
+  const priciest = Math.max(...averageMultipliers);
+  const overallAverage = averageMultipliers.reduce((sum, m) => sum + m, 0) / (averageMultipliers.length || 1);
+
+  const matches = eligible.map(company => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    // Rating
+    const weightedRating = (company.rating * company.reviewCount + PRIOR_RATING * PRIOR_REVIEW_WEIGHT) /
+      (company.reviewCount + PRIOR_REVIEW_WEIGHT);
+    score += (weightedRating / 5) * SCORE_WEIGHTS.rating;
+    reasons.push(company.reviewCount > 0
+      ? `Rated ${company.rating.toFixed(1)} from ${company.reviewCount} reviews`
+      : "No reviews yet");
+
+    // Price
+    const multiplier = averageMultiplier(company);
+    const priceScore = priciest > cheapest ? (priciest - multiplier) / (priciest - cheapest) : 1;
+    score += priceScore * SCORE_WEIGHTS.price;
+    const relative = Math.round((multiplier / overallAverage - 1) * 100);
+    if (relative <= -3) {
+      reasons.push(`Prices about ${-relative}% below similar movers`);
+    } else if (relative >= 3) {
+      reasons.push(`Premium pricing, about ${relative}% above similar movers`);
+    } else {
+      reasons.push("Prices in line with similar movers");
+    }
+
+    // Availability
+    const calendar = calendars.get(company.id) ?? [];
+    const nextAvailableDate = findNextAvailableDate(company, calendar, input.moveDate);
+    const available = nextAvailableDate === input.moveDate;
+    if (available) {
+      score += SCORE_WEIGHTS.availability;
+      reasons.push("Available on your move date");
+    } else if (nextAvailableDate) {
+      const daysLate = daysBetween(input.moveDate, nextAvailableDate);
+      score += SCORE_WEIGHTS.availability * (1 - daysLate / (AVAILABILITY_LOOKAHEAD_DAYS + 1)) / 2;
+      reasons.push(`Booked on your date; next opening ${nextAvailableDate}`);
+    } else {
+      reasons.push(`No openings within ${AVAILABILITY_LOOKAHEAD_DAYS} days of your date`);
+    }
+
+    // Coverage
+    if (!company.serviceStates.includes("*")) {
+      score += SCORE_WEIGHTS.local;
+      reasons.push(interstate
+        ? `Serves both ${originState} and ${destinationState}`
+        : `Local specialist in ${originState}`);
+    } else {
+      reasons.push("Nationwide coverage");
+    }
+
+    reasons.push(`Offers ${company.tiers.map(tier => TIER_LABELS[tier]).join(" and ")} moves up to ${HOME_SIZE_LABELS[company.maxHomeSize as MoveCalculationRequest["homeSize"]]} homes`);
+
+    const estimatedCosts: CompanyMatch["estimatedCosts"] = {};
+    for (const tier of company.tiers) {
+      estimatedCosts[tier] = Math.round(input.costs[tier] * company.pricingMultipliers[tier]);
+    }
+
+    return {
+      id: company.id,
+      name: company.name,
+      rating: company.rating,
+      reviewCount: company.reviewCount,
+      description: company.description,
+      available,
+      nextAvailableDate,
+      tiers: company.tiers,
+      estimatedCosts,
+      score: Math.round(score),
+      reasons,
+    };
+  });
+
+  return matches.sort((a, b) => b.score - a.score || b.rating - a.rating);
+}
+
+function servesState(company: MovingCompany, state: string): boolean {
+  return company.serviceStates.includes("*") || company.serviceStates.includes(state);
+}
+
+// Average multiplier over the tiers a company actually offers
+function averageMultiplier(company: MovingCompany): number {
+  const multipliers = company.tiers.map(tier => company.pricingMultipliers[tier]);
+  return multipliers.reduce((sum, m) => sum + m, 0) / multipliers.length;
+}
+
+// First date on or after the move date with spare capacity, within the lookahead window
+function findNextAvailableDate(company: MovingCompany, calendar: CompanyCapacity[], moveDate: string): string | null {
+  for (let offset = 0; offset <= AVAILABILITY_LOOKAHEAD_DAYS; offset++) {
+    const date = shiftDate(moveDate, offset);
+    const day = calendar.find(entry => entry.date === date);
+    const capacity = day ? day.capacity : company.dailyCapacity;
+    const booked = day ? day.booked : 0;
+    if (booked < capacity) return date;
+  }
+  return null;
+}
+
+function shiftDate(date: string, days: number): string {
+  const parsed = parseMoveDate(date);
+  if (!parsed) return date;
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return formatMoveDate(parsed);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+}
@@ -0,0 +1,113 @@
+import type {
+  ComparedEstimate,
+  EstimateComparison,
+  EstimateInventoryItem,
+  InsertMoveEstimate,
+  MoveEstimate,
+  QuoteRequestStatus,
+  TierCosts,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Once movers have the details, changing them would invalidate their bids
+const LOCKING_QUOTE_STATUSES: QuoteRequestStatus[] = ["sent", "bid", "accepted"];
+
+// Thrown when quote requests depend on an estimate staying as it is
+export class EstimateLockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EstimateLockedError";
+  }
+}
+
+// The calculator inputs an estimate was priced from, so a partial edit can be
+// merged over them and validated as a whole calculation request
+export function toCalculationInputs(estimate: MoveEstimate, inventory: EstimateInventoryItem[]) {
+  return {
+    origin: estimate.origin,
+    destination: estimate.destination,
+    homeSize: estimate.homeSize,
+    additionalItems: estimate.additionalItems ?? undefined,
+    moveDate: estimate.moveDate,
+    flexibility: estimate.flexibility ?? undefined,
+    services: estimate.services ?? undefined,
+    estimateMode: estimate.estimateMode ?? undefined,
+    inventory: inventory.map(({ itemId, room, quantity }) => ({ itemId, room, quantity })),
+  };
+}
+
+// A new, unarchived estimate with the same inputs and prices
+export function toEstimateCopy({ id, createdAt, archivedAt, ...estimate }: MoveEstimate): InsertMoveEstimate {
+  return estimate;
+}
+
+export async function assertEstimateEditable(estimate: MoveEstimate): Promise<void> {
+  const requests = await getEstimateQuoteRequests(estimate);
+  if (requests.some(request => LOCKING_QUOTE_STATUSES.includes(request.status as QuoteRequestStatus))) {
+    throw new EstimateLockedError("Movers are quoting on this estimate, so it can't be changed. Duplicate it to try different details.");
+  }
+}
+
+// Quote requests and company reviews keep pointing at their estimate, whatever
+// state they're in
+export async function assertEstimateDeletable(estimate: MoveEstimate): Promise<void> {
+  const requests = await getEstimateQuoteRequests(estimate);
+  if (requests.length > 0) {
+    throw new EstimateLockedError("This estimate has quote requests, so it can't be deleted. Archive it instead.");
+  }
+  if (await storage.countCompanyReviews({ estimateId: estimate.id }) > 0) {
+    throw new EstimateLockedError("A company was reviewed for this move, so the estimate can't be deleted. Archive it instead.");
+  }
+}
+
+// Side-by-side view of estimates with each tier's price measured against the
+// cheapest of them
+export function compareEstimates(estimates: MoveEstimate[]): EstimateComparison {
+  const costs = estimates.map(estimate => ({
+    diy: estimate.costDiy,
+    hybrid: estimate.costHybrid,
+    fullService: estimate.costFullService,
+  }));
+
+  // Ties go to the estimate listed first
+  const cheapestIndex = (tier: keyof TierCosts) =>
+    costs.reduce((best, cost, index) => (cost[tier] < costs[best][tier] ? index : best), 0);
+  const cheapest = {
+    diy: cheapestIndex("diy"),
+    hybrid: cheapestIndex("hybrid"),
+    fullService: cheapestIndex("fullService"),
+  };
+
+  const compared: ComparedEstimate[] = estimates.map((estimate, index) => ({
+    id: estimate.id,
+    origin: estimate.origin,
+    destination: estimate.destination,
+    distance: estimate.distance,
+    moveDate: estimate.moveDate,
+    homeSize: estimate.homeSize,
+    additionalItems: estimate.additionalItems ?? "none",
+    services: estimate.services ?? [],
+    pricingVersion: estimate.pricingVersion,
+    costs: costs[index],
+    deltas: {
+      diy: costs[index].diy - costs[cheapest.diy].diy,
+      hybrid: costs[index].hybrid - costs[cheapest.hybrid].hybrid,
+      fullService: costs[index].fullService - costs[cheapest.fullService].fullService,
+    },
+  }));
+
+  return {
+    estimates: compared,
+    cheapest: {
+      diy: estimates[cheapest.diy].id,
+      hybrid: estimates[cheapest.hybrid].id,
+      fullService: estimates[cheapest.fullService].id,
+    },
+  };
+}
+
+async function getEstimateQuoteRequests(estimate: MoveEstimate) {
+  if (estimate.userId === null) return [];
+  const requests = await storage.getUserQuoteRequests(estimate.userId);
+  return requests.filter(request => request.estimateId === estimate.id);
+}
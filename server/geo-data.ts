@@ -0,0 +1,213 @@
+// Bundled geographic reference data for offline geocoding.
+// Coordinates are approximate centroids; ZIP prefixes are the first three
+// digits of the USPS ZIP codes that belong to each city or state.
+
+export interface CityCentroid {
+  name: string;
+  state: string;
+  lat: number;
+  lon: number;
+  zipPrefixes: string[];
+}
+
+export interface StateCentroid {
+  code: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+// Major US cities, including every market shown on the cost heatmap
+export const CITY_CENTROIDS: CityCentroid[] = [
+  { name: "New York", state: "NY", lat: 40.7128, lon: -74.0060, zipPrefixes: ["100", "101", "102", "103", "104", "110", "111", "112", "113", "114", "116"] },
+  { name: "Los Angeles", state: "CA", lat: 34.0522, lon: -118.2437, zipPrefixes: ["900", "901"] },
+  { name: "Chicago", state: "IL", lat: 41.8781, lon: -87.6298, zipPrefixes: ["606", "607", "608"] },
+  { name: "Houston", state: "TX", lat: 29.7604, lon: -95.3698, zipPrefixes: ["770", "772"] },
+  { name: "Phoenix", state: "AZ", lat: 33.4484, lon: -112.0740, zipPrefixes: ["850", "852", "853"] },
+  { name: "Philadelphia", state: "PA", lat: 39.9526, lon: -75.1652, zipPrefixes: ["190", "191"] },
+  { name: "San Antonio", state: "TX", lat: 29.4241, lon: -98.4936, zipPrefixes: ["780", "782"] },
+  { name: "San Diego", state: "CA", lat: 32.7157, lon: -117.1611, zipPrefixes: ["919", "920", "921"] },
+  { name: "Dallas", state: "TX", lat: 32.7767, lon: -96.7970, zipPrefixes: ["750", "751", "752", "753"] },
+  { name: "San Jose", state: "CA", lat: 37.3382, lon: -121.8863, zipPrefixes: ["950", "951"] },
+  { name: "Austin", state: "TX", lat: 30.2672, lon: -97.7431, zipPrefixes: ["786", "787"] },
+  { name: "Jacksonville", state: "FL", lat: 30.3322, lon: -81.6557, zipPrefixes: ["320", "322"] },
+  { name: "Columbus", state: "OH", lat: 39.9612, lon: -82.9988, zipPrefixes: ["430", "431", "432"] },
+  { name: "Indianapolis", state: "IN", lat: 39.7684, lon: -86.1581, zipPrefixes: ["460", "461", "462"] },
+  { name: "Charlotte", state: "NC", lat: 35.2271, lon: -80.8431, zipPrefixes: ["280", "281", "282"] },
+  { name: "Seattle", state: "WA", lat: 47.6062, lon: -122.3321, zipPrefixes: ["980", "981"] },
+  { name: "Denver", state: "CO", lat: 39.7392, lon: -104.9903, zipPrefixes: ["800", "801", "802"] },
+  { name: "Washington", state: "DC", lat: 38.9072, lon: -77.0369, zipPrefixes: ["200", "202", "203", "204", "205"] },
+  { name: "Boston", state: "MA", lat: 42.3601, lon: -71.0589, zipPrefixes: ["021", "022"] },
+  { name: "Nashville", state: "TN", lat: 36.1627, lon: -86.7816, zipPrefixes: ["370", "371", "372"] },
+  { name: "Atlanta", state: "GA", lat: 33.7490, lon: -84.3880, zipPrefixes: ["300", "301", "303", "311"] },
+  { name: "Miami", state: "FL", lat: 25.7617, lon: -80.1918, zipPrefixes: ["330", "331", "332"] },
+  { name: "Portland", state: "OR", lat: 45.5231, lon: -122.6765, zipPrefixes: ["970", "971", "972"] },
+  { name: "Detroit", state: "MI", lat: 42.3314, lon: -83.0458, zipPrefixes: ["480", "481", "482"] },
+  { name: "Minneapolis", state: "MN", lat: 44.9778, lon: -93.2650, zipPrefixes: ["553", "554", "555"] },
+  { name: "Las Vegas", state: "NV", lat: 36.1699, lon: -115.1398, zipPrefixes: ["889", "890", "891"] },
+  { name: "New Orleans", state: "LA", lat: 29.9511, lon: -90.0715, zipPrefixes: ["700", "701"] },
+  { name: "Cincinnati", state: "OH", lat: 39.1031, lon: -84.5120, zipPrefixes: ["450", "451", "452"] },
+  { name: "Kansas City", state: "MO", lat: 39.0997, lon: -94.5786, zipPrefixes: ["640", "641"] },
+  { name: "Salt Lake City", state: "UT", lat: 40.7608, lon: -111.8910, zipPrefixes: ["840", "841"] },
+  { name: "Pittsburgh", state: "PA", lat: 40.4406, lon: -79.9959, zipPrefixes: ["150", "151", "152"] },
+  { name: "Raleigh", state: "NC", lat: 35.7796, lon: -78.6382, zipPrefixes: ["275", "276"] },
+  { name: "Baltimore", state: "MD", lat: 39.2904, lon: -76.6122, zipPrefixes: ["210", "211", "212"] },
+  { name: "St. Louis", state: "MO", lat: 38.6270, lon: -90.1994, zipPrefixes: ["630", "631"] },
+  { name: "Sacramento", state: "CA", lat: 38.5816, lon: -121.4944, zipPrefixes: ["956", "957", "958"] },
+  { name: "Tucson", state: "AZ", lat: 32.2226, lon: -110.9747, zipPrefixes: ["856", "857"] },
+  { name: "Omaha", state: "NE", lat: 41.2565, lon: -95.9979, zipPrefixes: ["680", "681"] },
+  { name: "Oklahoma City", state: "OK", lat: 35.4676, lon: -97.5164, zipPrefixes: ["730", "731"] },
+  { name: "Albuquerque", state: "NM", lat: 35.0844, lon: -106.6504, zipPrefixes: ["870", "871"] },
+  { name: "Memphis", state: "TN", lat: 35.1495, lon: -90.0490, zipPrefixes: ["380", "381"] },
+  { name: "Louisville", state: "KY", lat: 38.2542, lon: -85.7585, zipPrefixes: ["400", "401", "402"] },
+  { name: "Buffalo", state: "NY", lat: 42.8864, lon: -78.8784, zipPrefixes: ["140", "141", "142"] },
+  { name: "Richmond", state: "VA", lat: 37.5407, lon: -77.4360, zipPrefixes: ["230", "231", "232"] },
+  { name: "Boise", state: "ID", lat: 43.6150, lon: -116.2023, zipPrefixes: ["836", "837"] },
+  { name: "Des Moines", state: "IA", lat: 41.5868, lon: -93.6091, zipPrefixes: ["500", "501", "502", "503"] },
+  { name: "Charleston", state: "SC", lat: 32.7765, lon: -79.9311, zipPrefixes: ["294"] },
+  { name: "Jackson", state: "MS", lat: 32.2988, lon: -90.1848, zipPrefixes: ["390", "391", "392"] },
+  { name: "Birmingham", state: "AL", lat: 33.5207, lon: -86.8103, zipPrefixes: ["350", "351", "352"] },
+  { name: "Providence", state: "RI", lat: 41.8240, lon: -71.4128, zipPrefixes: ["028", "029"] },
+  { name: "Hartford", state: "CT", lat: 41.7658, lon: -72.6830, zipPrefixes: ["060", "061"] },
+  { name: "Concord", state: "NH", lat: 43.2081, lon: -71.5372, zipPrefixes: ["032", "033"] },
+  { name: "Burlington", state: "VT", lat: 44.4759, lon: -73.2121, zipPrefixes: ["054"] },
+  { name: "Augusta", state: "ME", lat: 44.3106, lon: -69.7795, zipPrefixes: ["043"] },
+  { name: "Honolulu", state: "HI", lat: 21.3069, lon: -157.8583, zipPrefixes: ["967", "968"] },
+  { name: "Anchorage", state: "AK", lat: 61.2181, lon: -149.9003, zipPrefixes: ["995", "996"] },
+  { name: "San Francisco", state: "CA", lat: 37.7749, lon: -122.4194, zipPrefixes: ["940", "941"] },
+  { name: "Oakland", state: "CA", lat: 37.8044, lon: -122.2712, zipPrefixes: ["945", "946"] },
+  { name: "Fort Worth", state: "TX", lat: 32.7555, lon: -97.3308, zipPrefixes: ["760", "761"] },
+  { name: "El Paso", state: "TX", lat: 31.7619, lon: -106.4850, zipPrefixes: ["798", "799"] },
+  { name: "Orlando", state: "FL", lat: 28.5383, lon: -81.3792, zipPrefixes: ["327", "328"] },
+  { name: "Tampa", state: "FL", lat: 27.9506, lon: -82.4572, zipPrefixes: ["335", "336"] },
+  { name: "Milwaukee", state: "WI", lat: 43.0389, lon: -87.9065, zipPrefixes: ["530", "532"] },
+  { name: "Madison", state: "WI", lat: 43.0731, lon: -89.4012, zipPrefixes: ["535", "537"] },
+  { name: "Cleveland", state: "OH", lat: 41.4993, lon: -81.6944, zipPrefixes: ["440", "441"] },
+  { name: "Newark", state: "NJ", lat: 40.7357, lon: -74.1724, zipPrefixes: ["070", "071"] },
+  { name: "Spokane", state: "WA", lat: 47.6588, lon: -117.4260, zipPrefixes: ["990", "992"] },
+  { name: "Little Rock", state: "AR", lat: 34.7465, lon: -92.2896, zipPrefixes: ["720", "721", "722"] },
+  { name: "Wichita", state: "KS", lat: 37.6872, lon: -97.3301, zipPrefixes: ["670", "672"] },
+  { name: "Cheyenne", state: "WY", lat: 41.1400, lon: -104.8202, zipPrefixes: ["820"] },
+  { name: "Billings", state: "MT", lat: 45.7833, lon: -108.5007, zipPrefixes: ["590", "591"] },
+  { name: "Fargo", state: "ND", lat: 46.8772, lon: -96.7898, zipPrefixes: ["580", "581"] },
+  { name: "Sioux Falls", state: "SD", lat: 43.5446, lon: -96.7311, zipPrefixes: ["570", "571"] },
+  { name: "Wilmington", state: "DE", lat: 39.7391, lon: -75.5398, zipPrefixes: ["197", "198"] },
+  { name: "Charleston", state: "WV", lat: 38.3498, lon: -81.6326, zipPrefixes: ["250", "251", "253"] },
+];
+
+// Population-weighted state centroids, used when only the state is known
+export const STATE_CENTROIDS: StateCentroid[] = [
+  { code: "AL", name: "Alabama", lat: 32.806, lon: -86.791 },
+  { code: "AK", name: "Alaska", lat: 61.370, lon: -152.404 },
+  { code: "AZ", name: "Arizona", lat: 33.729, lon: -111.431 },
+  { code: "AR", name: "Arkansas", lat: 34.970, lon: -92.373 },
+  { code: "CA", name: "California", lat: 36.116, lon: -119.682 },
+  { code: "CO", name: "Colorado", lat: 39.060, lon: -105.311 },
+  { code: "CT", name: "Connecticut", lat: 41.598, lon: -72.755 },
+  { code: "DE", name: "Delaware", lat: 39.319, lon: -75.507 },
+  { code: "DC", name: "District of Columbia", lat: 38.897, lon: -77.026 },
+  { code: "FL", name: "Florida", lat: 27.766, lon: -81.687 },
+  { code: "GA", name: "Georgia", lat: 33.040, lon: -83.643 },
+  { code: "HI", name: "Hawaii", lat: 21.094, lon: -157.498 },
+  { code: "ID", name: "Idaho", lat: 44.240, lon: -114.479 },
+  { code: "IL", name: "Illinois", lat: 40.349, lon: -88.986 },
+  { code: "IN", name: "Indiana", lat: 39.849, lon: -86.258 },
+  { code: "IA", name: "Iowa", lat: 42.012, lon: -93.211 },
+  { code: "KS", name: "Kansas", lat: 38.527, lon: -96.726 },
+  { code: "KY", name: "Kentucky", lat: 37.668, lon: -84.670 },
+  { code: "LA", name: "Louisiana", lat: 31.169, lon: -91.868 },
+  { code: "ME", name: "Maine", lat: 44.694, lon: -69.382 },
+  { code: "MD", name: "Maryland", lat: 39.064, lon: -76.802 },
+  { code: "MA", name: "Massachusetts", lat: 42.230, lon: -71.530 },
+  { code: "MI", name: "Michigan", lat: 43.327, lon: -84.536 },
+  { code: "MN", name: "Minnesota", lat: 45.694, lon: -93.900 },
+  { code: "MS", name: "Mississippi", lat: 32.742, lon: -89.679 },
+  { code: "MO", name: "Missouri", lat: 38.456, lon: -92.288 },
+  { code: "MT", name: "Montana", lat: 46.922, lon: -110.454 },
+  { code: "NE", name: "Nebraska", lat: 41.125, lon: -98.268 },
+  { code: "NV", name: "Nevada", lat: 38.313, lon: -117.055 },
+  { code: "NH", name: "New Hampshire", lat: 43.452, lon: -71.564 },
+  { code: "NJ", name: "New Jersey", lat: 40.299, lon: -74.521 },
+  { code: "NM", name: "New Mexico", lat: 34.841, lon: -106.248 },
+  { code: "NY", name: "New York", lat: 42.166, lon: -74.948 },
+  { code: "NC", name: "North Carolina", lat: 35.630, lon: -79.806 },
+  { code: "ND", name: "North Dakota", lat: 47.529, lon: -99.784 },
+  { code: "OH", name: "Ohio", lat: 40.388, lon: -82.765 },
+  { code: "OK", name: "Oklahoma", lat: 35.565, lon: -96.929 },
+  { code: "OR", name: "Oregon", lat: 44.572, lon: -122.071 },
+  { code: "PA", name: "Pennsylvania", lat: 40.591, lon: -77.210 },
+  { code: "RI", name: "Rhode Island", lat: 41.681, lon: -71.512 },
+  { code: "SC", name: "South Carolina", lat: 33.857, lon: -80.945 },
+  { code: "SD", name: "South Dakota", lat: 44.300, lon: -99.439 },
+  { code: "TN", name: "Tennessee", lat: 35.748, lon: -86.692 },
+  { code: "TX", name: "Texas", lat: 31.054, lon: -97.563 },
+  { code: "UT", name: "Utah", lat: 40.150, lon: -111.862 },
+  { code: "VT", name: "Vermont", lat: 44.046, lon: -72.711 },
+  { code: "VA", name: "Virginia", lat: 37.769, lon: -78.170 },
+  { code: "WA", name: "Washington", lat: 47.401, lon: -121.490 },
+  { code: "WV", name: "West Virginia", lat: 38.491, lon: -80.954 },
+  { code: "WI", name: "Wisconsin", lat: 44.269, lon: -89.616 },
+  { code: "WY", name: "Wyoming", lat: 42.756, lon: -107.302 },
+];
+
+// USPS ZIP prefix ranges (inclusive) mapped to states
+export const ZIP_PREFIX_RANGES: Array<[number, number, string]> = [
+  [5, 5, "NY"],
+  [10, 27, "MA"],
+  [28, 29, "RI"],
+  [30, 38, "NH"],
+  [39, 49, "ME"],
+  [50, 54, "VT"],
+  [55, 55, "MA"],
+  [56, 59, "VT"],
+  [60, 69, "CT"],
+  [70, 89, "NJ"],
+  [100, 149, "NY"],
+  [150, 196, "PA"],
+  [197, 199, "DE"],
+  [200, 200, "DC"],
+  [201, 201, "VA"],
+  [202, 205, "DC"],
+  [206, 219, "MD"],
+  [220, 246, "VA"],
+  [247, 268, "WV"],
+  [270, 289, "NC"],
+  [290, 299, "SC"],
+  [300, 319, "GA"],
+  [320, 349, "FL"],
+  [350, 369, "AL"],
+  [370, 385, "TN"],
+  [386, 397, "MS"],
+  [398, 399, "GA"],
+  [400, 427, "KY"],
+  [430, 459, "OH"],
+  [460, 479, "IN"],
+  [480, 499, "MI"],
+  [500, 528, "IA"],
+  [530, 549, "WI"],
+  [550, 567, "MN"],
+  [570, 577, "SD"],
+  [580, 588, "ND"],
+  [590, 599, "MT"],
+  [600, 629, "IL"],
+  [630, 658, "MO"],
+  [660, 679, "KS"],
+  [680, 693, "NE"],
+  [700, 714, "LA"],
+  [716, 729, "AR"],
+  [730, 749, "OK"],
+  [750, 799, "TX"],
+  [800, 816, "CO"],
+  [820, 831, "WY"],
+  [832, 838, "ID"],
+  [840, 847, "UT"],
+  [850, 865, "AZ"],
+  [870, 884, "NM"],
+  [885, 885, "TX"],
+  [889, 898, "NV"],
+  [900, 961, "CA"],
+  [967, 968, "HI"],
+  [970, 979, "OR"],
+  [980, 994, "WA"],
+  [995, 999, "AK"],
+];
@@ -0,0 +1,196 @@
+import {
+  CITY_CENTROIDS,
+  STATE_CENTROIDS,
+  ZIP_PREFIX_RANGES,
+  type CityCentroid,
+  type StateCentroid,
+} from "./geo-data";
+
+export type GeoConfidence = "high" | "medium" | "low";
+
+export interface GeocodeResult {
+  label: string;
+  state: string;
+  lat: number;
+  lon: number;
+  precision: "zip" | "city" | "state";
+  confidence: GeoConfidence;
+}
+
+export interface RouteEstimate {
+  distance: number; // Estimated road distance in miles
+  straightLineDistance: number; // Great-circle distance in miles
+  confidence: GeoConfidence;
+  origin: GeocodeResult;
+  destination: GeocodeResult;
+}
+
+// Thrown when an address can't be matched to anything in the bundled dataset
+export class GeocodingError extends Error {
+  constructor(public address: string) {
+    super(`Could not locate address: ${address}`);
+    this.name = "GeocodingError";
+  }
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Nominal distances used when both addresses resolve to the same centroid
+const SAME_CITY_MILES = 10;
+const SAME_STATE_MILES = 75;
+
+const CONFIDENCE_RANK: Record<GeoConfidence, number> = { low: 0, medium: 1, high: 2 };
+
+// Resolve a free-form address to coordinates using the bundled dataset.
+// Lookup order: ZIP prefix, city name (optionally constrained by state), state.
+export function geocodeAddress(address: string): GeocodeResult | undefined {
+  const normalized = address.toLowerCase().replace(/\s+/g, " ").trim();
+  const zip = extractZip(address);
+  const state = (zip && stateForZip(zip)) || extractState(address);
+
+  // A ZIP prefix that belongs to a known city is the most precise match
+  if (zip) {
+    const prefix = zip.slice(0, 3);
+    const city = CITY_CENTROIDS.find(c => c.zipPrefixes.includes(prefix));
+    if (city) {
+      return fromCity(city, "zip", "high");
+    }
+  }
+
+  // Otherwise look for a known city name in the address text
+  const candidates = CITY_CENTROIDS
+    .filter(c => containsWord(normalized, c.name.toLowerCase()))
+    .filter(c => !state || c.state === state)
+    .sort((a, b) => b.name.length - a.name.length);
+
+  if (candidates.length > 0) {
+    const best = candidates[0];
+    // Without a state we can only guess which city of that name was meant
+    const ambiguous = !state && candidates.some(c => c.name === best.name && c.state !== best.state);
+    return fromCity(best, "city", state && !ambiguous ? "high" : "medium");
+  }
+
+  if (state) {
+    const stateCentroid = STATE_CENTROIDS.find(s => s.code === state);
+    if (stateCentroid) {
+      return fromState(stateCentroid);
+    }
+  }
+
+  return undefined;
+}
+
+// Estimate the driving distance between two addresses.
+// Throws a GeocodingError if either address can't be resolved.
+export function estimateRoute(origin: string, destination: string): RouteEstimate {
+  const from = geocodeAddress(origin);
+  if (!from) throw new GeocodingError(origin);
+
+  const to = geocodeAddress(destination);
+  if (!to) throw new GeocodingError(destination);
+
+  const straightLineDistance = greatCircleMiles(from.lat, from.lon, to.lat, to.lon);
+
+  let distance: number;
+  if (straightLineDistance < 1) {
+    // Same centroid: we know the area but not the exact addresses
+    const stateLevel = from.precision === "state" || to.precision === "state";
+    distance = stateLevel ? SAME_STATE_MILES : SAME_CITY_MILES;
+  } else {
+    distance = Math.round(straightLineDistance * circuityFactor(straightLineDistance));
+  }
+
+  const confidence = CONFIDENCE_RANK[from.confidence] <= CONFIDENCE_RANK[to.confidence]
+    ? from.confidence
+    : to.confidence;
+
+  return {
+    distance,
+    straightLineDistance: Math.round(straightLineDistance),
+    confidence,
+    origin: from,
+    destination: to,
+  };
+}
+
+// Calculate the great-circle distance between two coordinates in miles (Haversine formula)
+export function greatCircleMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = (lat2 - lat1) * (Math.PI / 180);
+  const dLon = (lon2 - lon1) * (Math.PI / 180);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_MILES * c;
+}
+
+// Roads are never straight; short trips detour proportionally more than interstate ones
+function circuityFactor(miles: number): number {
+  if (miles < 50) return 1.35;
+  if (miles < 300) return 1.25;
+  return 1.18;
+}
+
+function fromCity(city: CityCentroid, precision: "zip" | "city", confidence: GeoConfidence): GeocodeResult {
+  return {
+    label: `${city.name}, ${city.state}`,
+    state: city.state,
+    lat: city.lat,
+    lon: city.lon,
+    precision,
+    confidence,
+  };
+}
+
+function fromState(state: StateCentroid): GeocodeResult {
+  return {
+    label: state.name,
+    state: state.code,
+    lat: state.lat,
+    lon: state.lon,
+    precision: "state",
+    confidence: "low",
+  };
+}
+
+// Use the last 5-digit group so street numbers aren't mistaken for ZIP codes
+function extractZip(address: string): string | undefined {
+  const matches = address.match(/\b\d{5}(?:-\d{4})?\b/g);
+  if (!matches) return undefined;
+  return matches[matches.length - 1].slice(0, 5);
+}
+
+function stateForZip(zip: string): string | undefined {
+  const prefix = parseInt(zip.slice(0, 3), 10);
+  const range = ZIP_PREFIX_RANGES.find(([start, end]) => prefix >= start && prefix <= end);
+  return range?.[2];
+}
+
+// Look for a state code or name in the trailing parts of the address
+function extractState(address: string): string | undefined {
+  const parts = address.split(",").map(p => p.trim()).filter(Boolean);
+
+  for (const part of parts.slice(1).reverse()) {
+    const codeMatch = part.match(/\b([A-Za-z]{2})\b(?:\s+\d{5}(?:-\d{4})?)?$/);
+    if (codeMatch) {
+      const code = codeMatch[1].toUpperCase();
+      if (STATE_CENTROIDS.some(s => s.code === code)) {
+        return code;
+      }
+    }
+
+    const lowerPart = part.toLowerCase();
+    const byName = STATE_CENTROIDS.find(s => containsWord(lowerPart, s.name.toLowerCase()));
+    if (byName) {
+      return byName.code;
+    }
+  }
+
+  return undefined;
+}
+
+function containsWord(haystack: string, needle: string): boolean {
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z])${escaped}([^a-z]|$)`).test(haystack);
+}
@@ -0,0 +1,128 @@
+import type {
+  InventoryCatalogItem,
+  InventoryRoom,
+  InventorySelection,
+  InsertEstimateInventoryItem,
+} from "@shared/schema";
+
+export interface InventoryTotals {
+  cubicFeet: number;
+  weight: number; // Pounds
+  itemCount: number;
+}
+
+// Thrown when an inventory can't be priced, e.g. it references an unknown item
+export class InventoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryError";
+  }
+}
+
+export const INVENTORY_ROOM_LABELS: Record<InventoryRoom, string> = {
+  livingRoom: "Living room",
+  bedroom: "Bedroom",
+  kitchen: "Kitchen",
+  diningRoom: "Dining room",
+  office: "Office",
+  bathroom: "Bathroom",
+  garage: "Garage",
+  outdoor: "Outdoor",
+};
+
+// Typical volumes and weights used by movers' cube sheets.
+// Pianos, artwork and gym equipment are priced as special items instead.
+export const INVENTORY_CATALOG: InventoryCatalogItem[] = [
+  // Living room
+  { id: "sofa-3-seat", name: "Sofa (3 seat)", room: "livingRoom", cubicFeet: 50, weight: 350 },
+  { id: "loveseat", name: "Loveseat", room: "livingRoom", cubicFeet: 35, weight: 245 },
+  { id: "sectional", name: "Sectional sofa", room: "livingRoom", cubicFeet: 90, weight: 630 },
+  { id: "armchair", name: "Armchair", room: "livingRoom", cubicFeet: 20, weight: 140 },
+  { id: "coffee-table", name: "Coffee table", room: "livingRoom", cubicFeet: 10, weight: 70 },
+  { id: "tv-stand", name: "TV stand", room: "livingRoom", cubicFeet: 15, weight: 105 },
+  { id: "tv", name: "Television", room: "livingRoom", cubicFeet: 10, weight: 50 },
+  { id: "bookcase", name: "Bookcase", room: "livingRoom", cubicFeet: 20, weight: 140 },
+  { id: "floor-lamp", name: "Floor lamp", room: "livingRoom", cubicFeet: 3, weight: 20 },
+  { id: "rug-large", name: "Rug (large)", room: "livingRoom", cubicFeet: 10, weight: 50 },
+
+  // Bedroom
+  { id: "bed-king", name: "King bed", room: "bedroom", cubicFeet: 70, weight: 490 },
+  { id: "bed-queen", name: "Queen bed", room: "bedroom", cubicFeet: 60, weight: 420 },
+  { id: "bed-full", name: "Full bed", room: "bedroom", cubicFeet: 50, weight: 350 },
+  { id: "bed-twin", name: "Twin bed", room: "bedroom", cubicFeet: 40, weight: 280 },
+  { id: "dresser", name: "Dresser", room: "bedroom", cubicFeet: 30, weight: 210 },
+  { id: "nightstand", name: "Nightstand", room: "bedroom", cubicFeet: 5, weight: 35 },
+  { id: "wardrobe", name: "Wardrobe", room: "bedroom", cubicFeet: 40, weight: 280 },
+  { id: "crib", name: "Crib", room: "bedroom", cubicFeet: 10, weight: 70 },
+
+  // Kitchen
+  { id: "refrigerator", name: "Refrigerator", room: "kitchen", cubicFeet: 45, weight: 300 },
+  { id: "microwave", name: "Microwave", room: "kitchen", cubicFeet: 2, weight: 40 },
+  { id: "kitchen-cart", name: "Kitchen cart", room: "kitchen", cubicFeet: 8, weight: 56 },
+  { id: "box-dishes", name: "Box of dishes", room: "kitchen", cubicFeet: 5, weight: 50 },
+  { id: "box-kitchen", name: "Box of kitchenware", room: "kitchen", cubicFeet: 3, weight: 30 },
+
+  // Dining room
+  { id: "dining-table", name: "Dining table", room: "diningRoom", cubicFeet: 30, weight: 210 },
+  { id: "dining-chair", name: "Dining chair", room: "diningRoom", cubicFeet: 5, weight: 35 },
+  { id: "china-cabinet", name: "China cabinet", room: "diningRoom", cubicFeet: 50, weight: 350 },
+  { id: "sideboard", name: "Sideboard", room: "diningRoom", cubicFeet: 30, weight: 210 },
+
+  // Office
+  { id: "desk", name: "Desk", room: "office", cubicFeet: 30, weight: 210 },
+  { id: "office-chair", name: "Office chair", room: "office", cubicFeet: 8, weight: 40 },
+  { id: "filing-cabinet", name: "Filing cabinet", room: "office", cubicFeet: 10, weight: 100 },
+  { id: "computer", name: "Computer and monitor", room: "office", cubicFeet: 5, weight: 35 },
+  { id: "box-books", name: "Box of books", room: "office", cubicFeet: 2, weight: 40 },
+
+  // Bathroom
+  { id: "bathroom-cabinet", name: "Bathroom cabinet", room: "bathroom", cubicFeet: 5, weight: 35 },
+  { id: "box-bathroom", name: "Box of toiletries and linens", room: "bathroom", cubicFeet: 3, weight: 20 },
+
+  // Garage
+  { id: "washer", name: "Washing machine", room: "garage", cubicFeet: 25, weight: 175 },
+  { id: "dryer", name: "Dryer", room: "garage", cubicFeet: 25, weight: 125 },
+  { id: "tool-chest", name: "Tool chest", room: "garage", cubicFeet: 15, weight: 150 },
+  { id: "bicycle", name: "Bicycle", room: "garage", cubicFeet: 10, weight: 35 },
+  { id: "lawn-mower", name: "Lawn mower", room: "garage", cubicFeet: 15, weight: 80 },
+  { id: "storage-shelf", name: "Storage shelving", room: "garage", cubicFeet: 15, weight: 70 },
+
+  // Outdoor
+  { id: "patio-table", name: "Patio table", room: "outdoor", cubicFeet: 20, weight: 80 },
+  { id: "patio-chair", name: "Patio chair", room: "outdoor", cubicFeet: 5, weight: 20 },
+  { id: "grill", name: "Grill", room: "outdoor", cubicFeet: 15, weight: 100 },
+];
+
+// Resolve selections against the catalogue into rows to store with an estimate.
+// Throws an InventoryError for unknown items so a bad payload can't be priced at zero.
+export function resolveInventory(selections: InventorySelection[]): Omit<InsertEstimateInventoryItem, "estimateId">[] {
+  return selections.map(selection => {
+    const item = INVENTORY_CATALOG.find(i => i.id === selection.itemId);
+    if (!item) {
+      throw new InventoryError(`Unknown inventory item: ${selection.itemId}`);
+    }
+
+    return {
+      itemId: item.id,
+      name: item.name,
+      room: selection.room,
+      quantity: selection.quantity,
+      cubicFeet: item.cubicFeet,
+      weight: item.weight,
+    };
+  });
+}
+
+// Total volume and weight of resolved (or saved) inventory rows
+export function summarizeInventory(
+  items: Pick<InsertEstimateInventoryItem, "quantity" | "cubicFeet" | "weight">[]
+): InventoryTotals {
+  return items.reduce(
+    (totals, item) => ({
+      cubicFeet: totals.cubicFeet + item.cubicFeet * item.quantity,
+      weight: totals.weight + item.weight * item.quantity,
+      itemCount: totals.itemCount + item.quantity,
+    }),
+    { cubicFeet: 0, weight: 0, itemCount: 0 }
+  );
+}
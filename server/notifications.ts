@@ -0,0 +1,214 @@
+import type {
+  Notification,
+  NotificationChannelName,
+  NotificationPreferencesInput,
+  NotificationType,
+  User,
+} from "@shared/schema";
+import dns, { type LookupAddress, type LookupOptions } from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { sendMail } from "./mail";
+import { storage } from "./storage";
+
+// The app's public address, used to turn in-app links into full addresses for email,
+// webhooks and calendar subscriptions. Never taken from a request's Host header.
+export const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+// Webhooks that don't answer in time count as failed
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+// Webhooks may only reach the public internet, so users can't make the server call
+// into its own network. Set ALLOW_PRIVATE_WEBHOOKS=true to test against local services.
+const ALLOW_PRIVATE_WEBHOOKS = process.env.ALLOW_PRIVATE_WEBHOOKS === "true";
+
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv4");
+}
+for (const [address, prefix] of [
+  ["::", 127], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv6");
+}
+
+// Thrown when a webhook address leads somewhere other than the public internet
+export class WebhookAddressError extends Error {
+  constructor(host: string) {
+    super(`Webhooks can't be sent to ${host}; use a public internet address`);
+    this.name = "WebhookAddressError";
+  }
+}
+
+// Something to tell a user about
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null; // A path in the app
+}
+
+// A way of reaching users. Each delivery is one user's messages, sent together;
+// a channel throws when it couldn't deliver them.
+export interface NotificationChannel {
+  name: NotificationChannelName;
+  deliver(user: User, preferences: NotificationPreferencesInput, messages: NotificationMessage[]): Promise<void>;
+}
+
+const inAppChannel: NotificationChannel = {
+  name: "inApp",
+  async deliver(user, _preferences, messages) {
+    for (const message of messages) {
+      await notifyUser(user.id, message);
+    }
+  },
+};
+
+// One email per delivery, listing every message
+const emailChannel: NotificationChannel = {
+  name: "email",
+  async deliver(user, preferences, messages) {
+    if (!preferences.email) throw new Error("No email address");
+
+    const lines = messages.map(message => {
+      const link = message.link ? `\n${APP_URL}${message.link}` : "";
+      return `${message.title}\n${message.body}${link}`;
+    });
+    await sendMail({
+      to: preferences.email,
+      subject: messages.length === 1 ? messages[0].title : `${messages.length} moving reminders`,
+      text: `Hi ${user.username},\n\n${lines.join("\n\n")}\n\nYou can change how you get reminders on your profile.\n`,
+    });
+  },
+};
+
+// Posts the messages as JSON, e.g. to a chat integration
+const webhookChannel: NotificationChannel = {
+  name: "webhook",
+  async deliver(user, preferences, messages) {
+    if (!preferences.webhookUrl) throw new Error("No webhook address");
+
+    const status = await postWebhook(preferences.webhookUrl, JSON.stringify({
+      user: { id: user.id, username: user.username },
+      notifications: messages.map(message => ({
+        ...message,
+        url: message.link ? `${APP_URL}${message.link}` : null,
+      })),
+      sentAt: new Date().toISOString(),
+    }));
+    if (status < 200 || status >= 300) throw new Error(`Webhook responded with ${status}`);
+  },
+};
+
+const channels = new Map<NotificationChannelName, NotificationChannel>([
+  [inAppChannel.name, inAppChannel],
+  [emailChannel.name, emailChannel],
+  [webhookChannel.name, webhookChannel],
+]);
+
+// Check a webhook address before it's saved, so users hear about one that can't be
+// used straight away. Addresses that don't resolve yet are left to fail on delivery.
+export async function checkWebhookUrl(webhookUrl: string): Promise<void> {
+  if (ALLOW_PRIVATE_WEBHOOKS) return;
+
+  const host = webhookHost(new URL(webhookUrl));
+  if (net.isIP(host)) {
+    if (isPrivateAddress(host)) throw new WebhookAddressError(host);
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true });
+  } catch {
+    return;
+  }
+  if (addresses.some(({ address }) => isPrivateAddress(address))) throw new WebhookAddressError(host);
+}
+
+// Put a message in the user's notification center. Events like bids and unlocked
+// achievements always go there; only reminders follow the user's channel choices.
+export async function notifyUser(userId: number, message: NotificationMessage): Promise<Notification> {
+  return storage.createNotification({ userId, ...message });
+}
+
+// Replaces the channel with the same name, e.g. to send email through a provider's API
+export function registerNotificationChannel(channel: NotificationChannel): void {
+  channels.set(channel.name, channel);
+}
+
+// Send the messages through each channel the user has turned on. Returns the channels
+// that delivered them; failures are logged rather than thrown.
+export async function deliverNotifications(
+  user: User,
+  preferences: NotificationPreferencesInput,
+  messages: NotificationMessage[],
+): Promise<NotificationChannelName[]> {
+  const delivered: NotificationChannelName[] = [];
+  for (const name of preferences.channels) {
+    const channel = channels.get(name);
+    if (!channel) continue;
+    try {
+      await channel.deliver(user, preferences, messages);
+      delivered.push(name);
+    } catch (error) {
+      console.error(`Error delivering notifications to user ${user.id} by ${name}:`, error);
+    }
+  }
+  return delivered;
+}
+
+// POST without following redirects, checking the address actually connected to,
+// so neither a redirect nor a DNS change can point the request at a private network
+function postWebhook(webhookUrl: string, body: string): Promise<number> {
+  const url = new URL(webhookUrl);
+  const host = webhookHost(url);
+  if (!ALLOW_PRIVATE_WEBHOOKS && net.isIP(host) && isPrivateAddress(host)) {
+    return Promise.reject(new WebhookAddressError(host));
+  }
+
+  const request = url.protocol === "https:" ? https.request : http.request;
+  return new Promise((resolve, reject) => {
+    const req = request(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Content-Length": Buffer.byteLength(body) },
+      lookup: ALLOW_PRIVATE_WEBHOOKS ? undefined : publicLookup,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    }, (response) => {
+      response.resume();
+      response.on("end", () => resolve(response.statusCode ?? 0));
+      response.on("error", reject);
+    });
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+// dns.lookup that fails for hosts with any private address
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void,
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new WebhookAddressError(hostname), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+// IPv6 hosts come bracketed in URLs
+function webhookHost(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
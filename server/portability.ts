@@ -0,0 +1,323 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import type { AnyZodObject, ZodError } from "zod";
+import {
+  ACCOUNT_EXPORT_VERSION,
+  accountExportManifestSchema,
+  exportedChecklistItemSchema,
+  exportedChecklistSchema,
+  exportedEstimateSchema,
+  exportedInventoryItemSchema,
+  exportedProgressSchema,
+  type AccountExportManifest,
+  type ExportedChecklist,
+  type ExportedChecklistItem,
+  type ExportedEstimate,
+  type ExportedInventoryItem,
+  type ExportedProgress,
+  type ImportRowError,
+  type ImportSummary,
+  type User,
+} from "@shared/schema";
+import { checkAchievements } from "./achievements";
+import { checklistDueDate } from "./checklists";
+import { recordRevision } from "./revisions";
+import { storage } from "./storage";
+
+// Files in an export, without extension; each is written as both .csv and .json
+const FILES = {
+  estimates: "estimates",
+  inventory: "estimate-inventory",
+  checklists: "checklists",
+  checklistItems: "checklist-items",
+  progress: "progress",
+} as const;
+
+// The schema each file's rows are validated with, which also fixes the CSV columns
+const SCHEMAS: Record<keyof typeof FILES, AnyZodObject> = {
+  estimates: exportedEstimateSchema,
+  inventory: exportedInventoryItemSchema,
+  checklists: exportedChecklistSchema,
+  checklistItems: exportedChecklistItemSchema,
+  progress: exportedProgressSchema,
+};
+
+const MANIFEST_FILE = "manifest.json";
+
+// Files read from an archive; anything else in it is never decompressed
+const ARCHIVE_FILES = new Set([MANIFEST_FILE, ...Object.values(FILES).map(name => `${name}.json`)]);
+
+// Limits on what an archive may decompress to, checked before inflating anything
+const MAX_ARCHIVE_ENTRIES = 100;
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024;
+
+// Thrown when an archive can't be imported; nothing has been written when it is
+export class ImportValidationError extends Error {
+  constructor(message: string, public errors: ImportRowError[] = []) {
+    super(message);
+    this.name = "ImportValidationError";
+  }
+}
+
+// Thrown when importing would mix the archive with data the account already has
+export class AccountNotEmptyError extends Error {
+  constructor() {
+    super("Data can only be imported into a new account without estimates or checklists");
+    this.name = "AccountNotEmptyError";
+  }
+}
+
+interface AccountData {
+  estimates: ExportedEstimate[];
+  inventory: ExportedInventoryItem[];
+  checklists: ExportedChecklist[];
+  checklistItems: ExportedChecklistItem[];
+  progress: ExportedProgress[]; // At most one row
+}
+
+export async function exportAccountData(user: User): Promise<Uint8Array> {
+  const estimates = await storage.getUserEstimates(user.id);
+  const checklists = await storage.getUserChecklists(user.id);
+  const progress = await storage.getUserProgress(user.id);
+
+  const data: AccountData = {
+    // Written as stored; an estimate the calculator can no longer price is reported on import
+    estimates: estimates.map(({ userId, ...estimate }) => estimate as ExportedEstimate),
+    inventory: (await Promise.all(estimates.map(estimate => storage.getEstimateInventory(estimate.id))))
+      .flat()
+      .map(({ id, ...item }) => item),
+    checklists: checklists.map(({ userId, ...checklist }) => checklist),
+    checklistItems: (await Promise.all(checklists.map(checklist => storage.getChecklistItems(checklist.id))))
+      .flat()
+      .map(({ id, assignedTo, completedBy, ...item }) => item),
+    progress: progress ? [(({ id, userId, createdAt, ...rest }) => rest)(progress)] : [],
+  };
+
+  const manifest: AccountExportManifest = {
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    username: user.username,
+  };
+
+  const files: Record<string, Uint8Array> = { [MANIFEST_FILE]: strToU8(JSON.stringify(manifest, null, 2)) };
+  for (const [key, name] of Object.entries(FILES) as [keyof AccountData, string][]) {
+    files[`${name}.json`] = strToU8(JSON.stringify(data[key], null, 2));
+    files[`${name}.csv`] = strToU8(toCsv(Object.keys(SCHEMAS[key].shape), data[key]));
+  }
+  return zipSync(files);
+}
+
+// Every row of every file is validated before anything is written, so an
+// archive either imports completely or not at all
+export async function importAccountData(userId: number, archive: Uint8Array): Promise<ImportSummary> {
+  const existingEstimates = await storage.getUserEstimates(userId);
+  const existingChecklists = await storage.getUserChecklists(userId);
+  if (existingEstimates.length > 0 || existingChecklists.length > 0) {
+    throw new AccountNotEmptyError();
+  }
+
+  const data = readArchive(archive);
+  await checkPricingVersions(data.estimates);
+
+  const estimateIds = new Map<number, number>();
+  for (const { id, createdAt, ...estimate } of data.estimates) {
+    const created = await storage.createMoveEstimate({ ...estimate, userId });
+    estimateIds.set(id, created.id);
+    await storage.setEstimateInventory(
+      created.id,
+      data.inventory.filter(item => item.estimateId === id).map(({ estimateId, ...item }) => item),
+    );
+    await recordRevision(created);
+  }
+
+  const checklistIds = new Map<number, number>();
+  for (const { id, createdAt, ...checklist } of data.checklists) {
+    const created = await storage.createMoveChecklist({
+      ...checklist,
+      userId,
+      estimateId: checklist.estimateId ? estimateIds.get(checklist.estimateId)! : null,
+    });
+    checklistIds.set(id, created.id);
+  }
+  // Due dates are worked out again from the move date rather than trusted from the file
+  for (const { createdAt, ...item } of data.checklistItems) {
+    const checklist = data.checklists.find(checklist => checklist.id === item.checklistId)!;
+    await storage.createChecklistItem({
+      ...item,
+      checklistId: checklistIds.get(item.checklistId)!,
+      dueDate: checklistDueDate(checklist.moveDate, item.timeframe),
+    });
+  }
+
+  // The progress file is only there for the user's own records. Imported tasks have no
+  // completedBy, so ticking them off in the file earns nothing here.
+  const achievements = await checkAchievements(userId);
+
+  return {
+    estimates: data.estimates.length,
+    inventoryItems: data.inventory.length,
+    checklists: data.checklists.length,
+    checklistItems: data.checklistItems.length,
+    achievements: achievements.length,
+  };
+}
+
+function readArchive(archive: Uint8Array): AccountData {
+  let entries: Record<string, Uint8Array>;
+  let entryCount = 0;
+  let totalBytes = 0;
+  try {
+    entries = unzipSync(archive, {
+      filter(file) {
+        if (++entryCount > MAX_ARCHIVE_ENTRIES) {
+          throw new ImportValidationError(`The archive has more than ${MAX_ARCHIVE_ENTRIES} files`);
+        }
+        if (!ARCHIVE_FILES.has(file.name.split("/").pop()!)) return false;
+
+        totalBytes += file.originalSize;
+        if (file.originalSize > MAX_FILE_BYTES || totalBytes > MAX_ARCHIVE_BYTES) {
+          throw new ImportValidationError("The archive is too large to import");
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImportValidationError) throw error;
+    throw new ImportValidationError("The file isn't a zip archive");
+  }
+
+  // Exports may have been re-zipped inside a folder
+  const files = new Map(Object.entries(entries).map(([path, content]) => [path.split("/").pop()!, content]));
+  const errors: ImportRowError[] = [];
+
+  const manifest = readJson(files, MANIFEST_FILE, errors);
+  if (manifest !== undefined) {
+    const parsed = accountExportManifestSchema.safeParse(manifest);
+    if (!parsed.success) {
+      errors.push({ file: MANIFEST_FILE, row: 0, errors: issueMessages(parsed.error) });
+    }
+  }
+
+  const data: AccountData = {
+    estimates: readRows(files, FILES.estimates, SCHEMAS.estimates, errors),
+    inventory: readRows(files, FILES.inventory, SCHEMAS.inventory, errors),
+    checklists: readRows(files, FILES.checklists, SCHEMAS.checklists, errors),
+    checklistItems: readRows(files, FILES.checklistItems, SCHEMAS.checklistItems, errors),
+    progress: readRows(files, FILES.progress, SCHEMAS.progress, errors),
+  };
+
+  // Row numbers below index the valid rows, which only match the file once every row is valid
+  if (errors.length > 0) {
+    throw new ImportValidationError("The archive has errors, so nothing was imported", errors);
+  }
+
+  // Rows that point at other rows must point at ones in the archive
+  const estimateIds = uniqueIds(data.estimates, FILES.estimates, errors);
+  const checklistIds = uniqueIds(data.checklists, FILES.checklists, errors);
+  data.inventory.forEach((item, index) => {
+    if (!estimateIds.has(item.estimateId)) {
+      errors.push({ file: `${FILES.inventory}.json`, row: index + 1, errors: [`Estimate ${item.estimateId} isn't in ${FILES.estimates}.json`] });
+    }
+  });
+  data.checklists.forEach((checklist, index) => {
+    if (checklist.estimateId && !estimateIds.has(checklist.estimateId)) {
+      errors.push({ file: `${FILES.checklists}.json`, row: index + 1, errors: [`Estimate ${checklist.estimateId} isn't in ${FILES.estimates}.json`] });
+    }
+  });
+  data.checklistItems.forEach((item, index) => {
+    if (!checklistIds.has(item.checklistId)) {
+      errors.push({ file: `${FILES.checklistItems}.json`, row: index + 1, errors: [`Checklist ${item.checklistId} isn't in ${FILES.checklists}.json`] });
+    }
+  });
+  if (data.progress.length > 1) {
+    errors.push({ file: `${FILES.progress}.json`, row: 0, errors: ["Only one progress row is allowed"] });
+  }
+
+  if (errors.length > 0) {
+    throw new ImportValidationError("The archive has errors, so nothing was imported", errors);
+  }
+  return data;
+}
+
+// Estimates are repriced with the version they were quoted with, so it has to exist here
+async function checkPricingVersions(estimates: ExportedEstimate[]): Promise<void> {
+  const versions = new Set((await storage.getPricingVersions()).map(version => version.version));
+  const errors: ImportRowError[] = [];
+  estimates.forEach((estimate, index) => {
+    if (estimate.pricingVersion && !versions.has(estimate.pricingVersion)) {
+      errors.push({ file: `${FILES.estimates}.json`, row: index + 1, errors: [`pricingVersion: Pricing version ${estimate.pricingVersion} doesn't exist`] });
+    }
+  });
+  if (errors.length > 0) {
+    throw new ImportValidationError("The archive has errors, so nothing was imported", errors);
+  }
+}
+
+function readJson(files: Map<string, Uint8Array>, file: string, errors: ImportRowError[]): unknown {
+  const content = files.get(file);
+  if (!content) {
+    errors.push({ file, row: 0, errors: ["File is missing"] });
+    return undefined;
+  }
+  try {
+    return JSON.parse(strFromU8(content));
+  } catch {
+    errors.push({ file, row: 0, errors: ["File isn't valid JSON"] });
+    return undefined;
+  }
+}
+
+// Tables with nothing to import may be left out of the archive
+function readRows<T>(files: Map<string, Uint8Array>, name: string, schema: AnyZodObject, errors: ImportRowError[]): T[] {
+  const file = `${name}.json`;
+  if (!files.has(file)) return [];
+
+  const rows = readJson(files, file, errors);
+  if (rows === undefined) return [];
+  if (!Array.isArray(rows)) {
+    errors.push({ file, row: 0, errors: ["Expected a list of rows"] });
+    return [];
+  }
+
+  const valid: T[] = [];
+  rows.forEach((row, index) => {
+    const parsed = schema.safeParse(row);
+    if (parsed.success) {
+      valid.push(parsed.data as T);
+    } else {
+      errors.push({ file, row: index + 1, errors: issueMessages(parsed.error) });
+    }
+  });
+  return valid;
+}
+
+function uniqueIds(rows: { id: number }[], name: string, errors: ImportRowError[]): Set<number> {
+  const ids = new Set<number>();
+  rows.forEach((row, index) => {
+    if (ids.has(row.id)) {
+      errors.push({ file: `${name}.json`, row: index + 1, errors: [`Duplicate id ${row.id}`] });
+    }
+    ids.add(row.id);
+  });
+  return ids;
+}
+
+function issueMessages(error: ZodError): string[] {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+}
+
+// Lists are joined with semicolons
+function toCsv(columns: string[], rows: object[]): string {
+  const lines = [columns.map(csvCell).join(",")];
+  for (const row of rows) {
+    const values = row as Record<string, unknown>;
+    lines.push(columns.map(column => csvCell(values[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = Array.isArray(value) ? value.join(";") : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
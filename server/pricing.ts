@@ -0,0 +1,718 @@
+import fs from "fs";
+import {
+  moveCalculationRequestSchema,
+  pricingRatesSchema,
+  type CostCategory,
+  type CostLineItem,
+  type MoveCalculationRequest,
+  type PricingRates,
+  type PricingVersion,
+  type InsertPricingVersion,
+  type TierRates,
+} from "@shared/schema";
+import { storage } from "./storage";
+import type { InventoryTotals } from "./inventory";
+
+export type Tier = keyof TierRates;
+export const TIERS: Tier[] = ["diy", "hybrid", "fullService"];
+
+export interface PricingInput {
+  distance: number;
+  homeSize: MoveCalculationRequest["homeSize"];
+  additionalItems: MoveCalculationRequest["additionalItems"];
+  services: MoveCalculationRequest["services"];
+  moveDate?: string; // yyyy-MM-dd; demand pricing is skipped without it
+  inventory?: InventoryTotals; // Sizes the move by volume instead of by home size
+}
+
+// Truck and crew needed for an inventory-based estimate
+export interface VolumeSizing {
+  truck: string;
+  truckCount: number;
+  laborHours: number;
+  equipment: TierRates; // Per truck
+}
+
+// A single priced component contributed by a rule, per tier
+export interface PricingAdjustment {
+  rule: string;
+  category: CostCategory;
+  label: string;
+  amounts: TierRates;
+  details?: Partial<Record<Tier, string>>;
+}
+
+export interface PricingContext {
+  input: PricingInput;
+  rates: PricingRates;
+  adjustments: PricingAdjustment[];
+}
+
+// Rules run in order; each one may read what earlier rules contributed
+export interface PricingRule {
+  name: string;
+  apply(context: PricingContext): PricingAdjustment[];
+}
+
+export interface PricingResult {
+  version: string;
+  costs: TierRates;
+  breakdown: Record<Tier, CostLineItem[]>;
+  adjustments: PricingAdjustment[];
+}
+
+export interface DateOption {
+  date: string;
+  demandMultiplier: number;
+  costs: TierRates;
+}
+
+export interface CheapestDateResult {
+  dateOptions: DateOption[];
+  cheapestDate: {
+    date: string;
+    costs: TierRates;
+    savings: TierRates;
+  };
+}
+
+// How many days either side of the requested date each flexibility option allows
+export const FLEXIBILITY_WINDOW_DAYS: Record<MoveCalculationRequest["flexibility"], number> = {
+  exact: 0,
+  "1-2days": 2,
+  "1week": 7,
+  flexible: 14,
+};
+
+// Thrown when saved details aren't options the calculator offers, e.g. an unknown home size
+export class InvalidPricingInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPricingInputError";
+  }
+}
+
+// Rates stored before prices were itemized (2024.1): one flat amount per home size,
+// and no labor, fuel, insurance or tax rates
+export interface LegacyPricingRates
+  extends Omit<PricingRates, "homeSizes" | "laborRate" | "fuelPerMile" | "insuranceRate" | "taxRate"> {
+  homeSizes: Record<PricingInput["homeSize"], TierRates>;
+}
+
+// Thrown when a quote asks for a pricing version that doesn't exist
+export class PricingVersionNotFoundError extends Error {
+  constructor(public version: string) {
+    super(`Pricing version not found: ${version}`);
+    this.name = "PricingVersionNotFoundError";
+  }
+}
+
+// Default rates, itemized so every tier can be broken down into real components
+export const DEFAULT_PRICING_VERSION: InsertPricingVersion = {
+  version: "2024.4",
+  description: "Inventory-based truck, labor and materials sizing",
+  active: true,
+  rates: {
+    homeSizes: {
+      studio: {
+        equipment: { diy: 80, hybrid: 350, fullService: 200 },
+        laborHours: { diy: 0, hybrid: 0, fullService: 8 },
+        materials: { diy: 40, hybrid: 60, fullService: 90 },
+      },
+      "1bedroom": {
+        equipment: { diy: 100, hybrid: 400, fullService: 250 },
+        laborHours: { diy: 0, hybrid: 0, fullService: 12 },
+        materials: { diy: 50, hybrid: 75, fullService: 120 },
+      },
+      "2bedroom": {
+        equipment: { diy: 120, hybrid: 450, fullService: 300 },
+        laborHours: { diy: 0, hybrid: 0, fullService: 18 },
+        materials: { diy: 60, hybrid: 90, fullService: 150 },
+      },
+      "3bedroom": {
+        equipment: { diy: 150, hybrid: 550, fullService: 350 },
+        laborHours: { diy: 0, hybrid: 0, fullService: 24 },
+        materials: { diy: 80, hybrid: 110, fullService: 200 },
+      },
+    },
+    laborRate: { diy: 0, hybrid: 0, fullService: 45 },
+    distanceBands: [
+      { upToMiles: 100, perMile: { diy: 0.6, hybrid: 1.5, fullService: 2.0 } },
+      { upToMiles: 1000, perMile: { diy: 0.25, hybrid: 1.2, fullService: 1.8 } },
+      { upToMiles: null, perMile: { diy: 0.2, hybrid: 1.0, fullService: 1.6 } },
+    ],
+    fuelPerMile: { diy: 0.3, hybrid: 0.1, fullService: 0.3 },
+    items: {
+      none: { diy: 0, hybrid: 0, fullService: 0 },
+      piano: { diy: 100, hybrid: 200, fullService: 300 },
+      artwork: { diy: 50, hybrid: 100, fullService: 200 },
+      gym: { diy: 75, hybrid: 150, fullService: 250 },
+      multiple: { diy: 150, hybrid: 300, fullService: 400 },
+    },
+    services: {
+      packing: { diy: 100, hybrid: 200, fullService: 0 }, // Already included in full service
+      storage: { diy: 150, hybrid: 150, fullService: 150 },
+      cleaning: { diy: 200, hybrid: 200, fullService: 200 },
+    },
+    insuranceRate: { diy: 0, hybrid: 0.02, fullService: 0.04 },
+    taxRate: 0.06,
+    demand: {
+      // Summer is peak moving season; winter is quiet
+      monthMultipliers: [0.9, 0.9, 1.0, 1.0, 1.1, 1.2, 1.2, 1.15, 1.05, 1.0, 0.95, 0.95],
+      weekendMultiplier: 1.1,
+      monthEndMultiplier: 1.1,
+      monthEndDays: 3,
+    },
+    volume: {
+      trucks: [
+        { name: "10 ft truck", capacityCubicFeet: 380, maxWeight: 2800, equipment: { diy: 80, hybrid: 350, fullService: 200 } },
+        { name: "15 ft truck", capacityCubicFeet: 760, maxWeight: 6000, equipment: { diy: 100, hybrid: 400, fullService: 250 } },
+        { name: "20 ft truck", capacityCubicFeet: 1015, maxWeight: 7500, equipment: { diy: 120, hybrid: 450, fullService: 300 } },
+        { name: "26 ft truck", capacityCubicFeet: 1700, maxWeight: 10000, equipment: { diy: 150, hybrid: 550, fullService: 350 } },
+      ],
+      cubicFeetPerLaborHour: 50,
+      poundsPerLaborHour: 350,
+      minimumLaborHours: 4,
+      materialsPerCubicFoot: { diy: 0.07, hybrid: 0.1, fullService: 0.17 },
+    },
+  },
+};
+
+// Order and per-tier naming of line items in the breakdown
+const CATEGORY_ORDER: CostCategory[] = [
+  "truck",
+  "fuel",
+  "labor",
+  "materials",
+  "specialItems",
+  "services",
+  "demand",
+  "insurance",
+  "taxes",
+];
+
+const CATEGORY_LABELS: Record<CostCategory, string | Record<Tier, string>> = {
+  truck: { diy: "Truck rental", hybrid: "Moving container", fullService: "Moving truck" },
+  fuel: "Fuel",
+  labor: "Labor",
+  materials: "Packing materials",
+  specialItems: "Special items",
+  services: "Additional services",
+  demand: "Date demand adjustment",
+  insurance: "Insurance",
+  taxes: "Taxes",
+};
+
+// Categories that sales tax applies to
+const TAXABLE_CATEGORIES: CostCategory[] = ["truck", "materials"];
+
+// Categories whose price depends on how busy movers are on the move date
+const DEMAND_CATEGORIES: CostCategory[] = ["truck", "labor"];
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+const equipmentRule: PricingRule = {
+  name: "equipment",
+  apply({ input, rates }) {
+    const sizing = sizeMoveByVolume(input, rates);
+    if (sizing) {
+      return [{
+        rule: "equipment",
+        category: "truck",
+        label: "Equipment",
+        amounts: perTier(tier => sizing.equipment[tier] * sizing.truckCount),
+        details: perTier(() => `${sizing.truckCount} × ${sizing.truck}`),
+      }];
+    }
+
+    return [{
+      rule: "equipment",
+      category: "truck",
+      label: "Equipment",
+      amounts: { ...rates.homeSizes[input.homeSize].equipment },
+    }];
+  },
+};
+
+const mileageRule: PricingRule = {
+  name: "mileage",
+  apply({ input, rates }) {
+    // Each band prices only the miles that fall inside it
+    const amounts = zeroAmounts();
+    let previousLimit = 0;
+
+    for (const band of rates.distanceBands) {
+      const limit = band.upToMiles ?? Infinity;
+      const milesInBand = Math.max(0, Math.min(input.distance, limit) - previousLimit);
+      for (const tier of TIERS) {
+        amounts[tier] += milesInBand * band.perMile[tier];
+      }
+      previousLimit = limit;
+      if (input.distance <= limit) break;
+    }
+
+    // Every truck in a multi-truck move covers the full distance
+    const truckCount = sizeMoveByVolume(input, rates)?.truckCount ?? 1;
+
+    return [{
+      rule: "mileage",
+      category: "truck",
+      label: "Mileage",
+      amounts: perTier(tier => amounts[tier] * truckCount),
+      details: perTier(() => truckCount > 1 ? `${input.distance} miles × ${truckCount} trucks` : `${input.distance} miles`),
+    }];
+  },
+};
+
+const fuelRule: PricingRule = {
+  name: "fuel",
+  apply({ input, rates }) {
+    const truckCount = sizeMoveByVolume(input, rates)?.truckCount ?? 1;
+    const miles = input.distance * truckCount;
+    return [{
+      rule: "fuel",
+      category: "fuel",
+      label: "Fuel",
+      amounts: perTier(tier => miles * rates.fuelPerMile[tier]),
+      details: perTier(tier => `${miles} miles × $${rates.fuelPerMile[tier].toFixed(2)}/mile`),
+    }];
+  },
+};
+
+const laborRule: PricingRule = {
+  name: "labor",
+  apply({ input, rates }) {
+    const sizing = sizeMoveByVolume(input, rates);
+    // With an inventory, only tiers that charge for labor send a crew
+    const hours = sizing
+      ? perTier(tier => rates.laborRate[tier] > 0 ? sizing.laborHours : 0)
+      : rates.homeSizes[input.homeSize].laborHours;
+    return [{
+      rule: "labor",
+      category: "labor",
+      label: "Labor",
+      amounts: perTier(tier => hours[tier] * rates.laborRate[tier]),
+      details: perTier(tier => `${hours[tier]} hrs × $${rates.laborRate[tier]}/hr`),
+    }];
+  },
+};
+
+const materialsRule: PricingRule = {
+  name: "materials",
+  apply({ input, rates }) {
+    if (rates.volume && input.inventory) {
+      const { materialsPerCubicFoot } = rates.volume;
+      const cubicFeet = input.inventory.cubicFeet;
+      return [{
+        rule: "materials",
+        category: "materials",
+        label: "Packing materials",
+        amounts: perTier(tier => cubicFeet * materialsPerCubicFoot[tier]),
+        details: perTier(() => `${cubicFeet} cu ft`),
+      }];
+    }
+
+    return [{
+      rule: "materials",
+      category: "materials",
+      label: "Packing materials",
+      amounts: { ...rates.homeSizes[input.homeSize].materials },
+    }];
+  },
+};
+
+const specialItemsRule: PricingRule = {
+  name: "special-items",
+  apply({ input, rates }) {
+    if (input.additionalItems === "none") return [];
+    return [{
+      rule: "special-items",
+      category: "specialItems",
+      label: `Special items (${input.additionalItems})`,
+      amounts: { ...rates.items[input.additionalItems] },
+      details: perTier(() => input.additionalItems),
+    }];
+  },
+};
+
+const servicesRule: PricingRule = {
+  name: "services",
+  apply({ input, rates }) {
+    return input.services.map(service => ({
+      rule: "services",
+      category: "services" as const,
+      label: `${service.charAt(0).toUpperCase()}${service.slice(1)} service`,
+      amounts: { ...rates.services[service] },
+      details: perTier(() => service),
+    }));
+  },
+};
+
+// Scale equipment and labor by how busy the move date is
+const demandRule: PricingRule = {
+  name: "demand",
+  apply({ input, rates, adjustments }) {
+    if (!rates.demand || !input.moveDate) return [];
+
+    const { multiplier, reasons } = demandMultiplier(input.moveDate, rates);
+    if (multiplier === 1) return [];
+
+    const base = sumAdjustments(adjustments.filter(a => DEMAND_CATEGORIES.includes(a.category)));
+    const detail = `${reasons.join(", ")} (×${multiplier.toFixed(2)})`;
+
+    return [{
+      rule: "demand",
+      category: "demand",
+      label: multiplier > 1 ? "Peak demand surcharge" : "Off-peak discount",
+      amounts: perTier(tier => base[tier] * (multiplier - 1)),
+      details: perTier(() => detail),
+    }];
+  },
+};
+
+// Insurance is priced on everything that came before it
+const insuranceRule: PricingRule = {
+  name: "insurance",
+  apply({ rates, adjustments }) {
+    const subtotal = sumAdjustments(adjustments);
+    return [{
+      rule: "insurance",
+      category: "insurance",
+      label: "Insurance",
+      amounts: perTier(tier => subtotal[tier] * rates.insuranceRate[tier]),
+      details: perTier(tier => `${Math.round(rates.insuranceRate[tier] * 100)}% of $${subtotal[tier]}`),
+    }];
+  },
+};
+
+const taxRule: PricingRule = {
+  name: "taxes",
+  apply({ rates, adjustments }) {
+    const taxable = sumAdjustments(adjustments.filter(a => TAXABLE_CATEGORIES.includes(a.category)));
+    return [{
+      rule: "taxes",
+      category: "taxes",
+      label: "Sales tax",
+      amounts: perTier(tier => taxable[tier] * rates.taxRate),
+      details: perTier(tier => `${(rates.taxRate * 100).toFixed(1)}% of $${taxable[tier]} taxable`),
+    }];
+  },
+};
+
+export const PRICING_RULES: PricingRule[] = [
+  equipmentRule,
+  mileageRule,
+  fuelRule,
+  laborRule,
+  materialsRule,
+  specialItemsRule,
+  servicesRule,
+  demandRule,
+  insuranceRule,
+  taxRule,
+];
+
+// Run the rule pipeline against a specific set of rates.
+// Amounts are rounded per adjustment so the breakdown sums exactly to the totals.
+export function evaluatePricing(
+  input: PricingInput,
+  pricingVersion: PricingVersion,
+  rules: PricingRule[] = PRICING_RULES
+): PricingResult {
+  const context: PricingContext = {
+    input,
+    rates: upgradePricingRates(pricingVersion.rates),
+    adjustments: [],
+  };
+
+  for (const rule of rules) {
+    const adjustments = rule.apply(context).map(adjustment => ({
+      ...adjustment,
+      amounts: roundAmounts(adjustment.amounts),
+    }));
+    context.adjustments.push(...adjustments);
+  }
+
+  return {
+    version: pricingVersion.version,
+    costs: sumAdjustments(context.adjustments),
+    breakdown: buildBreakdown(context.adjustments),
+    adjustments: context.adjustments,
+  };
+}
+
+// Read stored rates in the current shape. Legacy rates price exactly as they used
+// to: the flat home size amount becomes the equipment line and everything added
+// since costs nothing.
+export function upgradePricingRates(rates: PricingRates | LegacyPricingRates): PricingRates {
+  if (!isLegacyPricingRates(rates)) return rates;
+
+  const homeSize = (amounts: TierRates) => ({
+    equipment: { ...amounts },
+    laborHours: zeroAmounts(),
+    materials: zeroAmounts(),
+  });
+  return {
+    ...rates,
+    homeSizes: {
+      studio: homeSize(rates.homeSizes.studio),
+      "1bedroom": homeSize(rates.homeSizes["1bedroom"]),
+      "2bedroom": homeSize(rates.homeSizes["2bedroom"]),
+      "3bedroom": homeSize(rates.homeSizes["3bedroom"]),
+    },
+    laborRate: zeroAmounts(),
+    fuelPerMile: zeroAmounts(),
+    insuranceRate: zeroAmounts(),
+    taxRate: 0,
+  };
+}
+
+function isLegacyPricingRates(rates: PricingRates | LegacyPricingRates): rates is LegacyPricingRates {
+  return "diy" in rates.homeSizes.studio;
+}
+
+// Pick the truck and crew hours for an inventory. Uses the smallest truck that holds
+// the whole load, or several of the largest one when nothing does. Returns undefined
+// when there's no inventory or the rates predate volume pricing, so callers fall
+// back to the home size buckets.
+export function sizeMoveByVolume(input: PricingInput, rates: PricingRates): VolumeSizing | undefined {
+  const volume = rates.volume;
+  const inventory = input.inventory;
+  if (!volume || !inventory || inventory.itemCount === 0) return undefined;
+
+  const fitting = volume.trucks.find(t =>
+    t.capacityCubicFeet >= inventory.cubicFeet && t.maxWeight >= inventory.weight
+  );
+  const truck = fitting ?? volume.trucks[volume.trucks.length - 1];
+  const truckCount = fitting ? 1 : Math.max(
+    Math.ceil(inventory.cubicFeet / truck.capacityCubicFeet),
+    Math.ceil(inventory.weight / truck.maxWeight)
+  );
+
+  const laborHours = Math.max(
+    volume.minimumLaborHours,
+    Math.ceil(Math.max(
+      inventory.cubicFeet / volume.cubicFeetPerLaborHour,
+      inventory.weight / volume.poundsPerLaborHour
+    ))
+  );
+
+  return { truck: truck.name, truckCount, laborHours, equipment: truck.equipment };
+}
+
+// Group adjustments into one line item per category for each tier
+function buildBreakdown(adjustments: PricingAdjustment[]): Record<Tier, CostLineItem[]> {
+  return perTier(tier => CATEGORY_ORDER.flatMap(category => {
+    const matching = adjustments.filter(a => a.category === category);
+    const amount = matching.reduce((sum, a) => sum + a.amounts[tier], 0);
+    if (amount === 0) return [];
+
+    const label = CATEGORY_LABELS[category];
+    const details = matching
+      .filter(a => a.amounts[tier] !== 0)
+      .map(a => a.details?.[tier])
+      .filter((detail): detail is string => !!detail);
+
+    return [{
+      category,
+      label: typeof label === "string" ? label : label[tier],
+      amount,
+      ...(details.length > 0 ? { detail: details.join(", ") } : {}),
+    }];
+  }));
+}
+
+// Combined demand multiplier for a date, with the reasons that contributed to it
+export function demandMultiplier(moveDate: string, rates: PricingRates): { multiplier: number, reasons: string[] } {
+  const demand = rates.demand;
+  const date = parseMoveDate(moveDate);
+  if (!demand || !date) return { multiplier: 1, reasons: [] };
+
+  const reasons: string[] = [];
+  let multiplier = 1;
+
+  const month = date.getUTCMonth();
+  const monthMultiplier = demand.monthMultipliers[month];
+  if (monthMultiplier !== 1) {
+    multiplier *= monthMultiplier;
+    reasons.push(`${monthMultiplier > 1 ? "peak" : "off-peak"} season (${MONTH_NAMES[month]})`);
+  }
+
+  const dayOfWeek = date.getUTCDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) {
+    multiplier *= demand.weekendMultiplier;
+    reasons.push("weekend");
+  }
+
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), month + 1, 0)).getUTCDate();
+  if (daysInMonth - date.getUTCDate() < demand.monthEndDays) {
+    multiplier *= demand.monthEndMultiplier;
+    reasons.push("month-end");
+  }
+
+  return { multiplier: Math.round(multiplier * 1000) / 1000, reasons };
+}
+
+// Price every date in the flexibility window and find the cheapest one.
+// Dates before `today` are skipped; the hybrid tier decides which date is cheapest.
+export function findCheapestMoveDate(
+  input: PricingInput & { moveDate: string },
+  flexibility: MoveCalculationRequest["flexibility"],
+  pricingVersion: PricingVersion,
+  today: string = formatMoveDate(new Date())
+): CheapestDateResult {
+  const requested = evaluatePricing(input, pricingVersion);
+  const windowDays = FLEXIBILITY_WINDOW_DAYS[flexibility];
+  const requestedDate = parseMoveDate(input.moveDate);
+
+  const dateOptions: DateOption[] = [];
+  if (requestedDate) {
+    for (let offset = -windowDays; offset <= windowDays; offset++) {
+      const candidate = new Date(requestedDate);
+      candidate.setUTCDate(candidate.getUTCDate() + offset);
+      const date = formatMoveDate(candidate);
+      if (date < today && offset !== 0) continue;
+
+      const result = offset === 0 ? requested : evaluatePricing({ ...input, moveDate: date }, pricingVersion);
+      dateOptions.push({
+        date,
+        demandMultiplier: demandMultiplier(date, pricingVersion.rates).multiplier,
+        costs: result.costs,
+      });
+    }
+  } else {
+    dateOptions.push({ date: input.moveDate, demandMultiplier: 1, costs: requested.costs });
+  }
+
+  // Ties go to the date closest to the one requested
+  const cheapest = dateOptions.reduce((best, option) => {
+    if (option.costs.hybrid !== best.costs.hybrid) {
+      return option.costs.hybrid < best.costs.hybrid ? option : best;
+    }
+    const distance = (d: string) => Math.abs(Date.parse(d) - Date.parse(input.moveDate));
+    return distance(option.date) < distance(best.date) ? option : best;
+  });
+
+  return {
+    dateOptions,
+    cheapestDate: {
+      date: cheapest.date,
+      costs: cheapest.costs,
+      savings: perTier(tier => requested.costs[tier] - cheapest.costs[tier]),
+    },
+  };
+}
+
+const PRICING_OPTION_LABELS: Record<string, string> = {
+  homeSize: "home size",
+  additionalItems: "special items choice",
+  services: "services choice",
+};
+
+// Check the calculator options of a saved estimate or revision before pricing it
+export function parsePricingOptions(options: {
+  homeSize: string;
+  additionalItems?: string | null;
+  services?: string[] | null;
+}): Pick<PricingInput, "homeSize" | "additionalItems" | "services"> {
+  const result = moveCalculationRequestSchema.pick({ homeSize: true, additionalItems: true, services: true }).safeParse({
+    homeSize: options.homeSize,
+    additionalItems: options.additionalItems ?? undefined,
+    services: options.services ?? undefined,
+  });
+  if (!result.success) {
+    const fields = Array.from(new Set(result.error.issues.map(issue => PRICING_OPTION_LABELS[String(issue.path[0])])));
+    throw new InvalidPricingInputError(`This estimate can't be priced: the calculator doesn't offer its ${fields.join(" or ")}`);
+  }
+  return result.data;
+}
+
+// Look up a pricing version by tag, or the currently active one
+export async function resolvePricingVersion(version?: string | null): Promise<PricingVersion> {
+  if (version) {
+    const found = await storage.getPricingVersion(version);
+    if (!found) throw new PricingVersionNotFoundError(version);
+    return found;
+  }
+
+  const active = await storage.getActivePricingVersion();
+  if (active) return active;
+
+  return ensureDefaultPricingVersion();
+}
+
+// Price a move with the active rates, or with a specific version to reproduce an old quote
+export async function priceMove(input: PricingInput, version?: string | null): Promise<PricingResult> {
+  const pricingVersion = await resolvePricingVersion(version);
+  return evaluatePricing(input, pricingVersion);
+}
+
+// Seed the first pricing version if storage has none yet.
+// PRICING_RATES_FILE may point to a JSON file of the same shape as DEFAULT_PRICING_VERSION.
+export async function ensureDefaultPricingVersion(): Promise<PricingVersion> {
+  const existing = await storage.getActivePricingVersion();
+  if (existing) return existing;
+
+  const seed = process.env.PRICING_RATES_FILE
+    ? loadPricingVersionFile(process.env.PRICING_RATES_FILE)
+    : DEFAULT_PRICING_VERSION;
+
+  const current = await storage.getPricingVersion(seed.version);
+  if (current) return current;
+
+  return storage.createPricingVersion({ ...seed, active: true });
+}
+
+function loadPricingVersionFile(filePath: string): InsertPricingVersion {
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  return {
+    version: String(raw.version),
+    description: raw.description ?? null,
+    active: true,
+    rates: pricingRatesSchema.parse(raw.rates),
+  };
+}
+
+// Move dates are calendar dates, so they're handled in UTC to avoid timezone drift
+export function parseMoveDate(moveDate: string): Date | undefined {
+  const match = moveDate.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return undefined;
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+}
+
+export function formatMoveDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function perTier<T>(fn: (tier: Tier) => T): Record<Tier, T> {
+  return {
+    diy: fn("diy"),
+    hybrid: fn("hybrid"),
+    fullService: fn("fullService"),
+  };
+}
+
+function sumAdjustments(adjustments: PricingAdjustment[]): TierRates {
+  const totals = zeroAmounts();
+  for (const adjustment of adjustments) {
+    for (const tier of TIERS) {
+      totals[tier] += adjustment.amounts[tier];
+    }
+  }
+  return totals;
+}
+
+function zeroAmounts(): TierRates {
+  return { diy: 0, hybrid: 0, fullService: 0 };
+}
+
+function roundAmounts(amounts: TierRates): TierRates {
+  return {
+    diy: Math.round(amounts.diy),
+    hybrid: Math.round(amounts.hybrid),
+    fullService: Math.round(amounts.fullService),
+  };
+}
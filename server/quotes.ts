@@ -0,0 +1,298 @@
+import type {
+  BidSubmission,
+  CompanyTier,
+  CustomerQuoteBid,
+  MoverQuoteRequest,
+  QuoteBid,
+  QuoteRequest,
+  QuoteRequestDetail,
+  QuoteRequestStatus,
+} from "@shared/schema";
+import { notifyUser } from "./notifications";
+import { formatMoveDate, parseMoveDate } from "./pricing";
+import { storage } from "./storage";
+
+// How long movers have to bid once a request is sent, unless the move is sooner
+const QUOTE_REQUEST_TTL_DAYS = 14;
+
+// Allowed status changes; accepted, declined and expired requests are final
+const QUOTE_TRANSITIONS: Record<QuoteRequestStatus, QuoteRequestStatus[]> = {
+  draft: ["sent", "declined"],
+  sent: ["bid", "declined", "expired"],
+  bid: ["accepted", "declined", "expired"],
+  accepted: [],
+  declined: [],
+  expired: [],
+};
+
+// How each transition reads in an error message
+const TRANSITION_LABELS: Record<QuoteRequestStatus, string> = {
+  draft: "moved back to draft",
+  sent: "sent",
+  bid: "bid on",
+  accepted: "accepted",
+  declined: "declined",
+  expired: "expired",
+};
+
+// Thrown when a request or bid can't be saved as given, e.g. it names an unknown company
+export class QuoteRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteRequestError";
+  }
+}
+
+// Thrown when an action isn't allowed in the request's or bid's current status
+export class QuoteStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuoteStateError";
+  }
+}
+
+export function canTransition(from: QuoteRequestStatus, to: QuoteRequestStatus): boolean {
+  return QUOTE_TRANSITIONS[from].includes(to);
+}
+
+function assertTransition(request: QuoteRequest, to: QuoteRequestStatus): void {
+  const from = request.status as QuoteRequestStatus;
+  if (!canTransition(from, to)) {
+    throw new QuoteStateError(`This ${from} quote request can't be ${TRANSITION_LABELS[to]}`);
+  }
+}
+
+// Check that every company exists and offers the requested service level
+export async function validateQuoteCompanies(companyIds: number[], tier: CompanyTier): Promise<void> {
+  if (new Set(companyIds).size !== companyIds.length) {
+    throw new QuoteRequestError("Each company can only be chosen once");
+  }
+
+  for (const companyId of companyIds) {
+    const company = await storage.getMovingCompany(companyId);
+    if (!company || !company.published) {
+      throw new QuoteRequestError(`Unknown moving company: ${companyId}`);
+    }
+    if (!company.tiers.includes(tier)) {
+      throw new QuoteRequestError(`${company.name} doesn't offer this type of move`);
+    }
+  }
+}
+
+// Send a draft to its companies. Movers have until the expiry date to bid,
+// which is two weeks out or the day before the move, whichever comes first.
+export async function sendQuoteRequest(request: QuoteRequest, now: Date = new Date()): Promise<QuoteRequest> {
+  assertTransition(request, "sent");
+  if (request.companyIds.length === 0) {
+    throw new QuoteRequestError("Choose at least one company to send the request to");
+  }
+  await validateQuoteCompanies(request.companyIds, request.tier as CompanyTier);
+
+  const estimate = await storage.getMoveEstimate(request.estimateId);
+  const moveDate = estimate ? parseMoveDate(estimate.moveDate) : undefined;
+  const today = formatMoveDate(now);
+  if (!moveDate || formatMoveDate(moveDate) <= today) {
+    throw new QuoteRequestError("Quotes can only be requested for a future move date");
+  }
+
+  const deadline = new Date(now);
+  deadline.setUTCDate(deadline.getUTCDate() + QUOTE_REQUEST_TTL_DAYS);
+  const dayBeforeMove = new Date(moveDate);
+  dayBeforeMove.setUTCDate(dayBeforeMove.getUTCDate() - 1);
+  const expiresAt = formatMoveDate(deadline < dayBeforeMove ? deadline : dayBeforeMove);
+
+  const updated = await storage.updateQuoteRequest(request.id, {
+    status: "sent",
+    sentAt: now.toISOString(),
+    expiresAt,
+  });
+  return updated ?? request;
+}
+
+// Create or revise a company's bid. Revising is only possible while the bid is pending.
+export async function submitBid(
+  request: QuoteRequest,
+  companyId: number,
+  userId: number,
+  submission: BidSubmission,
+  now: Date = new Date()
+): Promise<QuoteBid> {
+  if (request.status !== "sent" && request.status !== "bid") {
+    throw new QuoteStateError(`This quote request is ${request.status} and no longer takes bids`);
+  }
+  if (submission.expiresAt < formatMoveDate(now)) {
+    throw new QuoteRequestError("A bid can't expire in the past");
+  }
+
+  const total = submission.lineItems.reduce((sum, item) => sum + item.amount, 0);
+  if (total <= 0) {
+    throw new QuoteRequestError("The bid total must be more than zero");
+  }
+
+  const bids = await storage.getQuoteBids(request.id);
+  const existing = bids.find(bid => bid.companyId === companyId);
+  let bid: QuoteBid | undefined;
+  if (existing) {
+    if (existing.status !== "pending") {
+      throw new QuoteStateError(`Your bid is already ${existing.status}`);
+    }
+    bid = await storage.updateQuoteBid(existing.id, { ...submission, userId, total });
+  } else {
+    bid = await storage.createQuoteBid({
+      ...submission,
+      quoteRequestId: request.id,
+      companyId,
+      userId,
+      total,
+      status: "pending",
+    });
+  }
+
+  if (request.status === "sent") {
+    assertTransition(request, "bid");
+    await storage.updateQuoteRequest(request.id, { status: "bid" });
+  }
+
+  const company = await storage.getMovingCompany(companyId);
+  const name = company?.name ?? "A moving company";
+  await notifyUser(request.userId, {
+    type: "bid-received",
+    title: existing ? `${name} updated its bid` : `New bid from ${name}`,
+    body: `They quoted $${total.toLocaleString("en-US")} for your move.`,
+    link: "/?tab=profile",
+  });
+  return bid!;
+}
+
+// Accept one pending bid. Every other pending bid is declined and the
+// winning company's calendar is booked for the move date.
+export async function acceptBid(request: QuoteRequest, bidId: number): Promise<QuoteRequest> {
+  assertTransition(request, "accepted");
+
+  const bids = await storage.getQuoteBids(request.id);
+  const bid = bids.find(b => b.id === bidId);
+  if (!bid) {
+    throw new QuoteRequestError("That bid isn't part of this quote request");
+  }
+  if (bid.status !== "pending") {
+    throw new QuoteStateError(`This bid is ${bid.status} and can't be accepted`);
+  }
+
+  await storage.updateQuoteBid(bid.id, { status: "accepted" });
+  for (const other of bids) {
+    if (other.id !== bid.id && other.status === "pending") {
+      await storage.updateQuoteBid(other.id, { status: "declined" });
+    }
+  }
+
+  await bookMoveDate(bid.companyId, request.estimateId);
+
+  const updated = await storage.updateQuoteRequest(request.id, { status: "accepted", acceptedBidId: bid.id });
+  return updated ?? request;
+}
+
+// Decline every bid and close the request
+export async function declineQuoteRequest(request: QuoteRequest): Promise<QuoteRequest> {
+  assertTransition(request, "declined");
+  await closePendingBids(request.id, "declined");
+  const updated = await storage.updateQuoteRequest(request.id, { status: "declined" });
+  return updated ?? request;
+}
+
+// Expiry is applied lazily whenever a request is read: bids past their own
+// expiry date lapse, and so does an open request past its deadline
+export async function refreshQuoteExpiry(request: QuoteRequest, now: Date = new Date()): Promise<QuoteRequest> {
+  const today = formatMoveDate(now);
+
+  if ((request.status === "sent" || request.status === "bid") && request.expiresAt && request.expiresAt < today) {
+    await closePendingBids(request.id, "expired");
+    const updated = await storage.updateQuoteRequest(request.id, { status: "expired" });
+    return updated ?? request;
+  }
+
+  for (const bid of await storage.getQuoteBids(request.id)) {
+    if (bid.status === "pending" && bid.expiresAt < today) {
+      await storage.updateQuoteBid(bid.id, { status: "expired" });
+    }
+  }
+  return request;
+}
+
+// Everything a customer needs to compare the bids on one of their requests
+export async function toQuoteRequestDetail(request: QuoteRequest): Promise<QuoteRequestDetail | undefined> {
+  const estimate = await storage.getMoveEstimate(request.estimateId);
+  if (!estimate) return undefined;
+
+  const companies = [];
+  for (const companyId of request.companyIds) {
+    const company = await storage.getMovingCompany(companyId);
+    if (company) companies.push({ id: company.id, name: company.name });
+  }
+
+  const bids: CustomerQuoteBid[] = [];
+  for (const { userId, ...bid } of await storage.getQuoteBids(request.id)) {
+    const company = await storage.getMovingCompany(bid.companyId);
+    bids.push({
+      ...bid,
+      companyName: company?.name ?? "",
+      companyRating: company?.rating ?? 0,
+      companyReviewCount: company?.reviewCount ?? 0,
+    });
+  }
+
+  return { ...request, estimate, companies, bids };
+}
+
+// A request as one company sees it in its inbox
+export async function toMoverQuoteRequest(request: QuoteRequest, companyId: number): Promise<MoverQuoteRequest | undefined> {
+  const estimate = await storage.getMoveEstimate(request.estimateId);
+  if (!estimate) return undefined;
+
+  const inventory = await storage.getEstimateInventory(estimate.id);
+  const bids = await storage.getQuoteBids(request.id);
+  const { userId, companyIds, acceptedBidId, ...rest } = request;
+
+  return {
+    ...rest,
+    move: {
+      origin: estimate.origin,
+      destination: estimate.destination,
+      distance: estimate.distance,
+      homeSize: estimate.homeSize,
+      additionalItems: estimate.additionalItems,
+      moveDate: estimate.moveDate,
+      flexibility: estimate.flexibility,
+      services: estimate.services,
+      estimateMode: estimate.estimateMode,
+    },
+    inventory: inventory.map(({ name, room, quantity, cubicFeet, weight }) => ({ name, room, quantity, cubicFeet, weight })),
+    bid: bids.find(bid => bid.companyId === companyId) ?? null,
+  };
+}
+
+async function closePendingBids(quoteRequestId: number, status: "declined" | "expired"): Promise<void> {
+  for (const bid of await storage.getQuoteBids(quoteRequestId)) {
+    if (bid.status === "pending") {
+      await storage.updateQuoteBid(bid.id, { status });
+    }
+  }
+}
+
+// Take one job's worth of capacity on the move date
+async function bookMoveDate(companyId: number, estimateId: number): Promise<void> {
+  const [company, estimate] = await Promise.all([
+    storage.getMovingCompany(companyId),
+    storage.getMoveEstimate(estimateId),
+  ]);
+  const moveDate = estimate ? parseMoveDate(estimate.moveDate) : undefined;
+  if (!company || !moveDate) return;
+
+  const date = formatMoveDate(moveDate);
+  const [day] = await storage.getCompanyCapacity(companyId, date, date);
+  await storage.setCompanyCapacity({
+    companyId,
+    date,
+    capacity: day ? day.capacity : company.dailyCapacity,
+    booked: (day ? day.booked : 0) + 1,
+  });
+}
@@ -0,0 +1,153 @@
+import { randomBytes } from "crypto";
+import { STATUS_CODES, type IncomingMessage, type Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  CHECKLIST_ACCESS_REVOKED_CODE,
+  type ChecklistEvent,
+  type ChecklistEventPayload,
+  type ChecklistSyncStatus,
+} from "@shared/schema";
+import { getSessionUser } from "./auth";
+import { canAccessChecklist, getChecklistAccess } from "./collaboration";
+import { storage } from "./storage";
+
+// One channel per checklist: /ws/checklists/:id, optionally ?stream=…&after=<seq> to catch up
+const SYNC_PATH = /^\/ws\/checklists\/(\d+)$/;
+
+// Missed events are kept this long for clients that reconnect, up to a limit per checklist
+const REPLAY_WINDOW_MS = 60 * 60 * 1000;
+const REPLAY_LIMIT = 200;
+
+// Connections that stop answering pings are dropped
+const HEARTBEAT_MS = 30 * 1000;
+
+// Clients only listen, so anything bigger than a control frame is refused
+const MAX_PAYLOAD_BYTES = 1024;
+
+// Sequence numbers restart with the server, so clients check they're still on the same stream
+const STREAM_ID = randomBytes(6).toString("hex");
+
+interface SyncClient {
+  socket: WebSocket;
+  userId: number;
+  alive: boolean;
+}
+
+interface ChecklistChannel {
+  seq: number;
+  events: ChecklistEvent[]; // Recent ones, oldest first
+  clients: Set<SyncClient>;
+}
+
+const channels = new Map<number, ChecklistChannel>();
+
+function getChannel(checklistId: number): ChecklistChannel {
+  let channel = channels.get(checklistId);
+  if (!channel) {
+    channel = { seq: 0, events: [], clients: new Set() };
+    channels.set(checklistId, channel);
+  }
+  return channel;
+}
+
+export function attachChecklistSync(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const match = SYNC_PATH.exec(url.pathname);
+    if (!match) return; // Someone else's, e.g. Vite's hot reload
+
+    const checklistId = Number(match[1]);
+    authorizeUpgrade(req, checklistId).then(
+      (result) => {
+        if ("status" in result) return rejectUpgrade(socket, result.status);
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          join(ws, checklistId, result.userId, url.searchParams.get("stream"), Number(url.searchParams.get("after")));
+        });
+      },
+      (error) => {
+        console.error("Error opening checklist sync:", error);
+        rejectUpgrade(socket, 500);
+      },
+    );
+  });
+
+  const heartbeat = setInterval(() => {
+    const cutoff = new Date(Date.now() - REPLAY_WINDOW_MS).toISOString();
+    // Channels themselves are kept: a fresh one would number events from 1 again
+    channels.forEach((channel) => {
+      channel.clients.forEach((client) => {
+        if (!client.alive) return client.socket.terminate();
+        client.alive = false;
+        client.socket.ping();
+      });
+      channel.events = channel.events.filter(event => event.at >= cutoff);
+    });
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+// Tell everyone watching a checklist about a change, including whoever made it
+export function publishChecklistEvent(checklistId: number, userId: number, payload: ChecklistEventPayload): void {
+  const channel = getChannel(checklistId);
+  const event: ChecklistEvent = { ...payload, checklistId, seq: ++channel.seq, userId, at: new Date().toISOString() };
+
+  channel.events.push(event);
+  if (channel.events.length > REPLAY_LIMIT) channel.events.shift();
+
+  const message = JSON.stringify(event);
+  channel.clients.forEach((client) => {
+    if (client.socket.readyState === WebSocket.OPEN) client.socket.send(message);
+  });
+}
+
+// Disconnect a user who can no longer see the checklist
+export function closeChecklistConnections(checklistId: number, userId: number): void {
+  channels.get(checklistId)?.clients.forEach((client) => {
+    if (client.userId === userId) client.socket.close(CHECKLIST_ACCESS_REVOKED_CODE, "No longer shared");
+  });
+}
+
+async function authorizeUpgrade(req: IncomingMessage, checklistId: number): Promise<{ userId: number } | { status: number }> {
+  const user = await getSessionUser(req);
+  if (!user) return { status: 401 };
+
+  const checklist = await storage.getMoveChecklist(checklistId);
+  if (!checklist) return { status: 404 };
+  if (!canAccessChecklist(await getChecklistAccess(checklist, user.id), "view")) return { status: 403 };
+  return { userId: user.id };
+}
+
+function rejectUpgrade(socket: Duplex, status: number): void {
+  socket.write(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Replay what the client missed since `after`, or ask it to reload when that isn't possible
+function join(socket: WebSocket, checklistId: number, userId: number, stream: string | null, after: number): void {
+  const channel = getChannel(checklistId);
+  const client: SyncClient = { socket, userId, alive: true };
+  channel.clients.add(client);
+  socket.on("pong", () => { client.alive = true; });
+  socket.on("close", () => channel.clients.delete(client));
+  // Bad frames from the client end up here; ws closes the connection itself
+  socket.on("error", (error) => {
+    console.error(`Checklist sync connection error for user ${userId}:`, error.message);
+    channel.clients.delete(client);
+  });
+
+  const missed = channel.events.filter(event => event.seq > after);
+  const caughtUp = stream === STREAM_ID && Number.isInteger(after) && after <= channel.seq &&
+    (after === channel.seq || missed[0]?.seq === after + 1);
+  if (caughtUp) {
+    missed.forEach(event => socket.send(JSON.stringify(event)));
+  }
+
+  const status: ChecklistSyncStatus = caughtUp
+    ? { type: "ready", stream: STREAM_ID, seq: channel.seq }
+    : { type: "resync", stream: STREAM_ID, seq: channel.seq };
+  socket.send(JSON.stringify(status));
+}
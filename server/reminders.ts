@@ -0,0 +1,216 @@
+import type { NotificationPreferencesInput, User } from "@shared/schema";
+import { ensureDueDates } from "./checklists";
+import { deliverNotifications, type NotificationMessage } from "./notifications";
+import { storage } from "./storage";
+
+// How often the scheduler looks for reminders to send
+const SCAN_INTERVAL_MS = 15 * 60 * 1000;
+
+// Tasks are only nagged about for a week after they fall overdue, so an old
+// checklist doesn't produce a pile of reminders at once
+const OVERDUE_REMINDER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What users get until they change their preferences
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferencesInput = {
+  channels: ["inApp"],
+  email: null,
+  webhookUrl: null,
+  taskReminderDays: 1,
+  moveReminderDays: 7,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timeZone: "UTC",
+};
+
+// A reminder is only sent once per key; see sentReminders
+interface Reminder {
+  key: string;
+  message: NotificationMessage;
+}
+
+export interface ReminderRunSummary {
+  sent: number;
+  deferred: number; // Held back by quiet hours until a later run
+  failed: number; // No channel delivered them; they're tried again next run
+}
+
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferencesInput> {
+  const preferences = await storage.getNotificationPreferences(userId);
+  if (!preferences) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  const { id, userId: _userId, updatedAt, ...input } = preferences;
+  return input;
+}
+
+let currentRun: Promise<ReminderRunSummary> | null = null;
+
+// Send every reminder that's due. Overlapping calls share one run so nothing is sent twice.
+export function runReminders(now = new Date()): Promise<ReminderRunSummary> {
+  currentRun ??= collectAndSend(now).finally(() => {
+    currentRun = null;
+  });
+  return currentRun;
+}
+
+// Runs shortly after start-up and then every SCAN_INTERVAL_MS
+export function startReminderScheduler(): void {
+  const run = () => {
+    runReminders().catch((error) => console.error("Error sending reminders:", error));
+  };
+  setTimeout(run, 60 * 1000).unref();
+  setInterval(run, SCAN_INTERVAL_MS).unref();
+}
+
+async function collectAndSend(now: Date): Promise<ReminderRunSummary> {
+  const preferences = new Map<number, NotificationPreferencesInput>();
+  const reminders = new Map<number, Reminder[]>();
+
+  const collect = async (userId: number, build: (prefs: NotificationPreferencesInput, today: string) => Reminder[]) => {
+    let prefs = preferences.get(userId);
+    if (!prefs) {
+      prefs = await getNotificationPreferences(userId);
+      preferences.set(userId, prefs);
+    }
+    const found = build(prefs, localDate(now, prefs.timeZone));
+    if (found.length > 0) reminders.set(userId, [...(reminders.get(userId) ?? []), ...found]);
+  };
+
+  // Tasks go to the owner and editors, except tasks assigned to someone else; everyone
+  // the checklist is shared with hears about moving day
+  for (const checklist of await storage.getMoveChecklists({})) {
+    const items = (await ensureDueDates(checklist)).filter(item => !item.completed && item.dueDate);
+    const recipients = [{ userId: checklist.userId, canEdit: true }];
+    for (const member of await storage.getChecklistMembers(checklist.id)) {
+      recipients.push({ userId: member.userId, canEdit: member.role === "editor" });
+    }
+
+    for (const recipient of recipients) {
+      await collect(recipient.userId, (prefs, today) => {
+        const found: Reminder[] = [];
+        if (recipient.canEdit) {
+          for (const item of items) {
+            if (item.assignedTo !== null && item.assignedTo !== recipient.userId) continue;
+            const reminder = taskReminder(item.id, item.task, item.dueDate!, daysUntil(item.dueDate!, today), prefs);
+            if (reminder) found.push(reminder);
+          }
+        }
+        const days = daysUntil(checklist.moveDate, today);
+        if (days !== null && days >= 0 && days <= prefs.moveReminderDays) {
+          found.push({ key: `move-soon:checklist-${checklist.id}:${checklist.moveDate}`, message: moveMessage(days, "/?tab=checklist") });
+        }
+        return found;
+      });
+    }
+  }
+
+  // Saved estimates that never got a checklist still have a moving day
+  for (const estimate of await storage.getMoveEstimates({ saved: true, archived: false })) {
+    if (!estimate.userId || await storage.getChecklistByEstimate(estimate.id)) continue;
+    await collect(estimate.userId, (prefs, today) => {
+      const days = daysUntil(estimate.moveDate, today);
+      if (days === null || days < 0 || days > prefs.moveReminderDays) return [];
+      return [{ key: `move-soon:estimate-${estimate.id}:${estimate.moveDate}`, message: moveMessage(days, "/?tab=profile") }];
+    });
+  }
+
+  const summary: ReminderRunSummary = { sent: 0, deferred: 0, failed: 0 };
+  for (const [userId, found] of Array.from(reminders)) {
+    const unsent: Reminder[] = [];
+    for (const reminder of found) {
+      if (!(await storage.hasSentReminder(userId, reminder.key))) unsent.push(reminder);
+    }
+    if (unsent.length === 0) continue;
+
+    const prefs = preferences.get(userId)!;
+    if (inQuietHours(now, prefs)) {
+      summary.deferred += unsent.length;
+      continue;
+    }
+
+    const user = await storage.getUser(userId);
+    const delivered = user ? await deliverReminders(user, prefs, unsent) : false;
+    if (delivered) {
+      summary.sent += unsent.length;
+    } else {
+      summary.failed += unsent.length;
+    }
+  }
+  return summary;
+}
+
+// Reminders count as sent once any channel has them, so a broken webhook
+// doesn't mean getting the same email every fifteen minutes
+async function deliverReminders(user: User, prefs: NotificationPreferencesInput, reminders: Reminder[]): Promise<boolean> {
+  const delivered = await deliverNotifications(user, prefs, reminders.map(reminder => reminder.message));
+  if (delivered.length === 0) return false;
+
+  for (const reminder of reminders) {
+    await storage.recordSentReminder(user.id, reminder.key);
+  }
+  return true;
+}
+
+function taskReminder(
+  itemId: number,
+  task: string,
+  dueDate: string,
+  days: number | null,
+  prefs: NotificationPreferencesInput,
+): Reminder | null {
+  if (days === null) return null;
+  if (days < 0) {
+    if (-days > OVERDUE_REMINDER_DAYS) return null;
+    return {
+      key: `task-overdue:${itemId}:${dueDate}`,
+      message: { type: "task-overdue", title: `Overdue: ${task}`, body: `This was due on ${dueDate}.`, link: "/?tab=checklist" },
+    };
+  }
+  if (days > prefs.taskReminderDays) return null;
+  return {
+    key: `task-due:${itemId}:${dueDate}`,
+    message: { type: "task-due", title: `${dueIn(days)}: ${task}`, body: `This is due on ${dueDate}.`, link: "/?tab=checklist" },
+  };
+}
+
+function moveMessage(days: number, link: string): NotificationMessage {
+  return {
+    type: "move-soon",
+    title: days === 0 ? "It's moving day!" : `Moving day is ${days === 1 ? "tomorrow" : `in ${days} days`}`,
+    body: "Check your moving checklist for what's left to do.",
+    link,
+  };
+}
+
+function dueIn(days: number): string {
+  if (days === 0) return "Due today";
+  return days === 1 ? "Due tomorrow" : `Due in ${days} days`;
+}
+
+// Whole days from today to a yyyy-MM-dd date (or a timestamp starting with one)
+function daysUntil(date: string, today: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date);
+  if (!match) return null;
+  const target = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Math.round((target - Date.parse(`${today}T00:00:00Z`)) / DAY_MS);
+}
+
+// The yyyy-MM-dd date it is in the time zone
+function localDate(now: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now);
+}
+
+// Quiet hours can run past midnight, e.g. 22:00 to 07:00
+function inQuietHours(now: Date, prefs: NotificationPreferencesInput): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = prefs;
+  if (!start || !end || start === end) return false;
+
+  const time = new Intl.DateTimeFormat("en-GB", {
+    timeZone: prefs.timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+  return start < end ? time >= start && time < end : time >= start || time < end;
+}
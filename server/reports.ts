@@ -0,0 +1,338 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import type { ChecklistItem, CostLineItem, MoveEstimate } from "@shared/schema";
+import { estimateRoute } from "./geo";
+import { INVENTORY_ROOM_LABELS, summarizeInventory } from "./inventory";
+import { parsePricingOptions, priceMove, TIERS, type PricingInput, type Tier } from "./pricing";
+import { matchCompanies, type CompanyMatch } from "./companies";
+import { storage } from "./storage";
+
+const TIER_NAMES: Record<Tier, string> = {
+  diy: "DIY Move",
+  hybrid: "Hybrid Move",
+  fullService: "Full Service",
+};
+
+const HOME_SIZE_NAMES: Record<string, string> = {
+  studio: "Studio",
+  "1bedroom": "1 Bedroom",
+  "2bedroom": "2 Bedroom",
+  "3bedroom": "3+ Bedroom",
+};
+
+// Checklist timeframes in the order they happen
+const TIMEFRAME_NAMES: Record<string, string> = {
+  "8-weeks": "8 weeks before",
+  "4-weeks": "4 weeks before",
+  "2-weeks": "2 weeks before",
+  "1-week": "1 week before",
+  "moving-day": "Moving day",
+  "after-move": "After moving",
+};
+
+// Letter size, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const HEADER_HEIGHT = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// The app's primary color, hsl(240 83.3% 57.3%)
+const BRAND = rgb(0.22, 0.22, 0.93);
+const TEXT = rgb(0.1, 0.1, 0.12);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.85, 0.86, 0.88);
+
+// Everything that goes into the report, gathered before any drawing happens
+export interface EstimateReport {
+  estimate: MoveEstimate;
+  inventory: { name: string; room: string; quantity: number }[];
+  breakdown: Record<Tier, CostLineItem[]>;
+  companies: CompanyMatch[];
+  checklist: ChecklistItem[];
+  generatedAt: Date;
+}
+
+export async function buildEstimateReport(estimate: MoveEstimate): Promise<EstimateReport> {
+  const inventory = await storage.getEstimateInventory(estimate.id);
+  const options = parsePricingOptions(estimate);
+
+  // Re-priced with the version the estimate was quoted with, so the line items
+  // add up to the saved totals
+  const pricingInput: PricingInput = {
+    distance: estimate.distance,
+    ...options,
+    moveDate: estimate.moveDate,
+    inventory: estimate.estimateMode === "inventory" && inventory.length > 0 ? summarizeInventory(inventory) : undefined,
+  };
+  const pricing = await priceMove(pricingInput, estimate.pricingVersion);
+
+  const companies = await matchCompanies({
+    route: estimateRoute(estimate.origin, estimate.destination),
+    moveDate: estimate.moveDate,
+    homeSize: options.homeSize,
+    costs: { diy: estimate.costDiy, hybrid: estimate.costHybrid, fullService: estimate.costFullService },
+  }, 4);
+
+  const checklist = await storage.getChecklistByEstimate(estimate.id);
+  const items = checklist ? await storage.getChecklistItems(checklist.id) : [];
+
+  return {
+    estimate,
+    inventory: inventory.map(({ name, room, quantity }) => ({ name, room, quantity })),
+    breakdown: pricing.breakdown,
+    companies,
+    checklist: items,
+    generatedAt: new Date(),
+  };
+}
+
+export async function renderEstimateReport(report: EstimateReport): Promise<Uint8Array> {
+  const { estimate } = report;
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Moving estimate: ${estimate.origin} to ${estimate.destination}`);
+  doc.setProducer("MoveEase");
+  doc.setCreationDate(report.generatedAt);
+
+  const writer = new ReportWriter(doc, await doc.embedFont(StandardFonts.Helvetica), await doc.embedFont(StandardFonts.HelveticaBold));
+
+  writer.title(`${estimate.origin} to ${estimate.destination}`);
+  writer.paragraph(`Prepared ${formatDate(report.generatedAt.toISOString())}`, { color: MUTED });
+  writer.space(8);
+
+  writer.heading("Your move");
+  writer.field("Moving from", estimate.origin);
+  writer.field("Moving to", estimate.destination);
+  writer.field("Distance", `${estimate.distance.toLocaleString()} miles`);
+  writer.field("Move date", formatDate(estimate.moveDate));
+  writer.field("Home size", HOME_SIZE_NAMES[estimate.homeSize] ?? estimate.homeSize);
+  writer.field("Special items", estimate.additionalItems && estimate.additionalItems !== "none" ? estimate.additionalItems : "None");
+  writer.field("Services", estimate.services && estimate.services.length > 0 ? estimate.services.join(", ") : "None");
+  if (estimate.pricingVersion) writer.field("Pricing version", estimate.pricingVersion);
+
+  writer.heading("Estimated cost");
+  writer.columns(
+    TIERS.map(tier => TIER_NAMES[tier]),
+    [formatMoney(estimate.costDiy), formatMoney(estimate.costHybrid), formatMoney(estimate.costFullService)],
+  );
+
+  writer.heading("Cost breakdown");
+  for (const tier of TIERS) {
+    writer.subheading(TIER_NAMES[tier]);
+    for (const item of report.breakdown[tier]) {
+      writer.lineItem(item.label, formatMoney(item.amount), item.detail);
+    }
+  }
+
+  if (report.inventory.length > 0) {
+    writer.heading("Inventory");
+    for (const item of report.inventory) {
+      const room = INVENTORY_ROOM_LABELS[item.room as keyof typeof INVENTORY_ROOM_LABELS] ?? item.room;
+      writer.lineItem(item.name, `x${item.quantity}`, room);
+    }
+  }
+
+  if (report.companies.length > 0) {
+    writer.heading("Recommended movers");
+    for (const company of report.companies) {
+      const rating = company.reviewCount > 0 ? `${company.rating.toFixed(1)} stars (${company.reviewCount} reviews)` : "New";
+      writer.lineItem(company.name, rating, company.reasons.join("; "));
+    }
+  }
+
+  if (report.checklist.length > 0) {
+    writer.heading("Checklist timeline");
+    for (const [timeframe, label] of Object.entries(TIMEFRAME_NAMES)) {
+      const items = report.checklist.filter(item => item.timeframe === timeframe);
+      if (items.length === 0) continue;
+      writer.subheading(label);
+      for (const item of items) {
+        writer.checkbox(item.task, item.completed);
+      }
+    }
+  }
+
+  writer.space(12);
+  writer.paragraph(
+    "Prices are estimates based on the details above and may change with your mover's survey, the final inventory and the date you book.",
+    { color: MUTED, size: 8 },
+  );
+
+  writer.finish(`Estimate #${estimate.id}`);
+  return doc.save();
+}
+
+// Lays text out top to bottom, starting a new page whenever the next block won't fit
+class ReportWriter {
+  private page!: PDFPage;
+  private y = 0;
+
+  constructor(private doc: PDFDocument, private font: PDFFont, private bold: PDFFont) {
+    this.addPage();
+  }
+
+  title(text: string) {
+    this.text(text, { font: this.bold, size: 18 });
+  }
+
+  heading(text: string) {
+    this.space(14);
+    this.ensureSpace(40);
+    this.text(text, { font: this.bold, size: 13, color: BRAND });
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y + 2 },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y + 2 },
+      thickness: 0.5,
+      color: RULE,
+    });
+    this.space(6);
+  }
+
+  subheading(text: string) {
+    this.space(4);
+    this.ensureSpace(30);
+    this.text(text, { font: this.bold, size: 10 });
+  }
+
+  paragraph(text: string, options: { color?: ReturnType<typeof rgb>; size?: number } = {}) {
+    this.text(text, options);
+  }
+
+  field(label: string, value: string) {
+    const size = 10;
+    const lines = this.wrap(value, this.font, size, CONTENT_WIDTH - 120);
+    this.ensureSpace(lines.length * 14);
+    this.page.drawText(clean(label), { x: MARGIN, y: this.y - size, size, font: this.font, color: MUTED });
+    for (const line of lines) {
+      this.page.drawText(line, { x: MARGIN + 120, y: this.y - size, size, font: this.font, color: TEXT });
+      this.y -= 14;
+    }
+  }
+
+  // Evenly spaced label/value pairs on one row
+  columns(labels: string[], values: string[]) {
+    this.ensureSpace(40);
+    const width = CONTENT_WIDTH / labels.length;
+    labels.forEach((label, index) => {
+      const x = MARGIN + index * width;
+      this.page.drawText(clean(label), { x, y: this.y - 10, size: 10, font: this.font, color: MUTED });
+      this.page.drawText(clean(values[index]), { x, y: this.y - 30, size: 16, font: this.bold, color: TEXT });
+    });
+    this.y -= 38;
+  }
+
+  // Label on the left, amount right-aligned, optional detail underneath
+  lineItem(label: string, amount: string, detail?: string) {
+    const size = 10;
+    const amountText = clean(amount);
+    const amountWidth = this.font.widthOfTextAtSize(amountText, size);
+    const labelLines = this.wrap(label, this.font, size, CONTENT_WIDTH - amountWidth - 20);
+    const detailLines = detail ? this.wrap(detail, this.font, 8, CONTENT_WIDTH - amountWidth - 20) : [];
+    this.ensureSpace(labelLines.length * 13 + detailLines.length * 10);
+
+    this.page.drawText(amountText, { x: PAGE_WIDTH - MARGIN - amountWidth, y: this.y - size, size, font: this.font, color: TEXT });
+    for (const line of labelLines) {
+      this.page.drawText(line, { x: MARGIN + 8, y: this.y - size, size, font: this.font, color: TEXT });
+      this.y -= 13;
+    }
+    for (const line of detailLines) {
+      this.page.drawText(line, { x: MARGIN + 8, y: this.y - 8, size: 8, font: this.font, color: MUTED });
+      this.y -= 10;
+    }
+  }
+
+  checkbox(text: string, checked: boolean) {
+    const size = 10;
+    const lines = this.wrap(text, this.font, size, CONTENT_WIDTH - 24);
+    this.ensureSpace(lines.length * 13);
+    this.page.drawRectangle({
+      x: MARGIN + 8,
+      y: this.y - size,
+      width: 8,
+      height: 8,
+      borderColor: MUTED,
+      borderWidth: 0.75,
+      color: checked ? BRAND : undefined,
+    });
+    for (const line of lines) {
+      this.page.drawText(line, { x: MARGIN + 24, y: this.y - size, size, font: this.font, color: checked ? MUTED : TEXT });
+      this.y -= 13;
+    }
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  // Page numbers can only be written once the page count is known
+  finish(reference: string) {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const footer = clean(`${reference} - Page ${index + 1} of ${pages.length}`);
+      const width = this.font.widthOfTextAtSize(footer, 8);
+      page.drawText(footer, { x: (PAGE_WIDTH - width) / 2, y: MARGIN / 2, size: 8, font: this.font, color: MUTED });
+    });
+  }
+
+  private text(text: string, { font = this.font, size = 10, color = TEXT }: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> }) {
+    const lineHeight = size * 1.35;
+    for (const line of this.wrap(text, font, size, CONTENT_WIDTH)) {
+      this.ensureSpace(lineHeight);
+      this.page.drawText(line, { x: MARGIN, y: this.y - size, size, font, color });
+      this.y -= lineHeight;
+    }
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height < MARGIN) this.addPage();
+  }
+
+  private addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - HEADER_HEIGHT, width: PAGE_WIDTH, height: HEADER_HEIGHT, color: BRAND });
+    this.page.drawText("MoveEase", { x: MARGIN, y: PAGE_HEIGHT - 26, size: 14, font: this.bold, color: rgb(1, 1, 1) });
+    this.page.drawText("Moving cost estimate", {
+      x: PAGE_WIDTH - MARGIN - this.font.widthOfTextAtSize("Moving cost estimate", 10),
+      y: PAGE_HEIGHT - 25,
+      size: 10,
+      font: this.font,
+      color: rgb(1, 1, 1),
+    });
+    this.y = PAGE_HEIGHT - HEADER_HEIGHT - 30;
+  }
+
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = [];
+    let line = "";
+    for (const word of clean(text).split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    return line ? [...lines, line] : [""];
+  }
+}
+
+// The standard PDF fonts only cover Latin-1
+function clean(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/→/g, "->")
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+}
+
+function formatMoney(amount: number): string {
+  const sign = amount < 0 ? "-" : "";
+  return `${sign}$${Math.abs(amount).toLocaleString("en-US")}`;
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
@@ -0,0 +1,165 @@
+import type {
+  CompanyReview,
+  ModeratedCompanyReview,
+  PublicCompanyReview,
+  ReviewStatus,
+  ReviewSubmission,
+  ReviewSummary,
+} from "@shared/schema";
+import { geocodeAddress } from "./geo";
+import { storage } from "./storage";
+
+// Reviews reported by this many different customers are held for moderation
+export const REVIEW_FLAG_THRESHOLD = 3;
+
+// Thrown when a customer isn't allowed to review a company for the given move
+export class ReviewEligibilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewEligibilityError";
+  }
+}
+
+// Thrown when a customer has already reviewed the company
+export class DuplicateReviewError extends Error {
+  constructor(public companyId: number) {
+    super("You have already reviewed this company");
+    this.name = "DuplicateReviewError";
+  }
+}
+
+// Create a review for a company. The review must be tied to one of the customer's
+// own saved estimates, and each customer can review a company once.
+export async function submitReview(
+  userId: number,
+  companyId: number,
+  submission: ReviewSubmission
+): Promise<CompanyReview> {
+  const estimate = await storage.getMoveEstimate(submission.estimateId);
+  if (!estimate || estimate.userId !== userId) {
+    throw new ReviewEligibilityError("Reviews must be linked to one of your saved estimates");
+  }
+
+  const existing = await storage.countCompanyReviews({ companyId, userId });
+  if (existing > 0) {
+    throw new DuplicateReviewError(companyId);
+  }
+
+  const overall = roundRating((submission.punctuality + submission.care + submission.priceAccuracy) / 3);
+  const review = await storage.createCompanyReview({
+    ...submission,
+    companyId,
+    userId,
+    overall,
+    status: "published",
+    flags: [],
+  });
+
+  await refreshCompanyRating(companyId);
+  return review;
+}
+
+// Record a customer's report against a review. Each customer counts once, and
+// enough reports pull a published review out of the aggregates until it's moderated.
+export async function flagReview(review: CompanyReview, userId: number, reason: string): Promise<CompanyReview> {
+  if (review.flags.some(flag => flag.userId === userId)) {
+    return review;
+  }
+
+  const flags = [...review.flags, { userId, reason, createdAt: new Date().toISOString() }];
+  const status: ReviewStatus = review.status === "published" && flags.length >= REVIEW_FLAG_THRESHOLD
+    ? "flagged"
+    : review.status as ReviewStatus;
+
+  const updated = await storage.updateCompanyReview(review.id, { flags, status });
+  if (status !== review.status) {
+    await refreshCompanyRating(review.companyId);
+  }
+  return updated ?? review;
+}
+
+// Publish or hide a review. Publishing clears the reports that were reviewed so
+// the same reports can't pull it straight back into moderation.
+export async function moderateReview(review: CompanyReview, status: "published" | "hidden"): Promise<CompanyReview> {
+  const updated = await storage.updateCompanyReview(review.id, {
+    status,
+    flags: status === "published" ? [] : review.flags,
+  });
+  if (status !== review.status) {
+    await refreshCompanyRating(review.companyId);
+  }
+  return updated ?? review;
+}
+
+// Recompute the cached rating and review count from published reviews
+export async function refreshCompanyRating(companyId: number): Promise<void> {
+  const summary = await getReviewSummary(companyId);
+  await storage.updateCompanyRating(companyId, summary.average, summary.count);
+}
+
+// Summary of a company's published reviews, from per-star totals rather than
+// loading every review
+export async function getReviewSummary(companyId: number): Promise<ReviewSummary> {
+  const totals = await storage.getReviewStarTotals({ companyId, status: "published" });
+
+  const distribution: ReviewSummary["distribution"] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  let reviewCount = 0;
+  const sums = { overall: 0, punctuality: 0, care: 0, priceAccuracy: 0 };
+  for (const group of totals) {
+    distribution[group.stars] += group.count;
+    reviewCount += group.count;
+    sums.overall += group.overall;
+    sums.punctuality += group.punctuality;
+    sums.care += group.care;
+    sums.priceAccuracy += group.priceAccuracy;
+  }
+
+  const mean = (sum: number) => reviewCount > 0 ? roundRating(sum / reviewCount) : 0;
+
+  return {
+    average: mean(sums.overall),
+    count: reviewCount,
+    punctuality: mean(sums.punctuality),
+    care: mean(sums.care),
+    priceAccuracy: mean(sums.priceAccuracy),
+    distribution,
+  };
+}
+
+// Strip moderation data and attach the reviewer's name and destination
+export async function toPublicReviews(reviews: CompanyReview[]): Promise<PublicCompanyReview[]> {
+  return Promise.all(reviews.map(async ({ userId, estimateId, flags, ...review }) => {
+    const [user, estimate, company] = await Promise.all([
+      storage.getUser(userId),
+      storage.getMoveEstimate(estimateId),
+      storage.getMovingCompany(review.companyId),
+    ]);
+
+    return {
+      ...review,
+      reviewer: user?.username ?? "Former customer",
+      companyName: company?.name ?? "",
+      location: estimate ? geocodeAddress(estimate.destination)?.label ?? null : null,
+    };
+  }));
+}
+
+// Attach names for the moderation queue; reports are kept
+export async function toModeratedReviews(reviews: CompanyReview[]): Promise<ModeratedCompanyReview[]> {
+  return Promise.all(reviews.map(async review => {
+    const [user, company] = await Promise.all([
+      storage.getUser(review.userId),
+      storage.getMovingCompany(review.companyId),
+    ]);
+
+    return {
+      ...review,
+      reviewer: user?.username ?? "Former customer",
+      companyName: company?.name ?? "",
+    };
+  }));
+}
+
+function roundRating(value: number): number {
+  return Math.round(value * 10) / 10;
+}
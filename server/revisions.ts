@@ -0,0 +1,153 @@
+import type {
+  EstimateRevision,
+  EstimateRevisionDiff,
+  EstimateRevisionInputs,
+  MoveEstimate,
+  RevisionCosts,
+  RevisionFactor,
+} from "@shared/schema";
+import { summarizeInventory } from "./inventory";
+import { parsePricingOptions, priceMove, type PricingInput } from "./pricing";
+import { storage } from "./storage";
+
+// How each recorded field reads in a diff
+const FIELD_LABELS: Record<EstimateRevisionDiff["changes"][number]["field"], string> = {
+  origin: "Moving from",
+  destination: "Moving to",
+  distance: "Distance",
+  homeSize: "Home size",
+  additionalItems: "Special items",
+  moveDate: "Move date",
+  flexibility: "Date flexibility",
+  services: "Services",
+  estimateMode: "Estimate type",
+  inventory: "Inventory",
+  pricingVersion: "Pricing version",
+};
+
+// Price-relevant inputs and the recorded fields each one covers, in the order a
+// diff applies them; the pricing version goes last so input changes are priced
+// with the rates the customer was first quoted
+const FACTORS: { factor: RevisionFactor; label: string; fields: (keyof EstimateRevisionInputs)[] }[] = [
+  { factor: "route", label: "Route", fields: ["origin", "destination", "distance"] },
+  { factor: "homeSize", label: "Home size", fields: ["homeSize"] },
+  { factor: "inventory", label: "Inventory", fields: ["estimateMode", "inventory"] },
+  { factor: "additionalItems", label: "Special items", fields: ["additionalItems"] },
+  { factor: "services", label: "Services", fields: ["services"] },
+  { factor: "moveDate", label: "Move date", fields: ["moveDate"] },
+];
+
+const COST_FIELDS: (keyof RevisionCosts)[] = ["costDiy", "costHybrid", "costFullService"];
+
+export async function toRevisionInputs(estimate: MoveEstimate): Promise<EstimateRevisionInputs> {
+  const inventory = await storage.getEstimateInventory(estimate.id);
+  return {
+    origin: estimate.origin,
+    destination: estimate.destination,
+    distance: estimate.distance,
+    homeSize: estimate.homeSize,
+    additionalItems: estimate.additionalItems ?? "none",
+    moveDate: estimate.moveDate,
+    flexibility: estimate.flexibility ?? "exact",
+    services: estimate.services ?? [],
+    estimateMode: estimate.estimateMode ?? "homeSize",
+    inventory: inventory.length > 0 ? summarizeInventory(inventory) : null,
+  };
+}
+
+// Append the estimate's current inputs and prices to its log
+export async function recordRevision(estimate: MoveEstimate): Promise<EstimateRevision> {
+  const revisions = await storage.getEstimateRevisions(estimate.id);
+  return storage.createEstimateRevision({
+    estimateId: estimate.id,
+    revision: revisions.length + 1,
+    inputs: await toRevisionInputs(estimate),
+    pricingVersion: estimate.pricingVersion,
+    costDiy: estimate.costDiy,
+    costHybrid: estimate.costHybrid,
+    costFullService: estimate.costFullService,
+  });
+}
+
+// Estimates saved before revisions were recorded start their log from how they are now
+export async function ensureRevisionHistory(estimate: MoveEstimate): Promise<EstimateRevision[]> {
+  const revisions = await storage.getEstimateRevisions(estimate.id);
+  if (revisions.length > 0) return revisions;
+  return [await recordRevision(estimate)];
+}
+
+// Field-by-field differences plus what each input change did to the price. Starting
+// from the older revision, each changed factor is swapped in and the move priced
+// again; the difference at each step is that factor's share of the change.
+export async function diffRevisions(from: EstimateRevision, to: EstimateRevision): Promise<EstimateRevisionDiff> {
+  const changes: EstimateRevisionDiff["changes"] = [];
+  for (const field of Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[]) {
+    const before = field === "pricingVersion" ? from.pricingVersion : from.inputs[field];
+    const after = field === "pricingVersion" ? to.pricingVersion : to.inputs[field];
+    if (!sameValue(before, after)) {
+      changes.push({ field, label: FIELD_LABELS[field], from: before, to: after });
+    }
+  }
+
+  const attribution: EstimateRevisionDiff["attribution"] = [];
+  let inputs = { ...from.inputs };
+  let previous = await priceRevision(inputs, from.pricingVersion);
+  const baseline = previous;
+
+  for (const { factor, label, fields } of FACTORS) {
+    if (fields.every(field => sameValue(from.inputs[field], to.inputs[field]))) continue;
+
+    for (const field of fields) {
+      inputs = { ...inputs, [field]: to.inputs[field] };
+    }
+    const next = await priceRevision(inputs, from.pricingVersion);
+    attribution.push({ factor, label, costChange: subtractCosts(next, previous) });
+    previous = next;
+  }
+
+  if (from.pricingVersion !== to.pricingVersion) {
+    const next = await priceRevision(inputs, to.pricingVersion);
+    attribution.push({ factor: "pricingVersion", label: "Pricing version", costChange: subtractCosts(next, previous) });
+    previous = next;
+  }
+
+  // Re-pricing the older revision may not land on its recorded prices if rules
+  // changed under the same version; report that gap rather than hide it
+  const costChange = subtractCosts(to, from);
+  const other = subtractCosts(costChange, subtractCosts(previous, baseline));
+  if (COST_FIELDS.some(field => other[field] !== 0)) {
+    attribution.push({ factor: "other", label: "Other adjustments", costChange: other });
+  }
+
+  return {
+    estimateId: to.estimateId,
+    from,
+    to,
+    changes,
+    costChange,
+    attribution,
+  };
+}
+
+async function priceRevision(inputs: EstimateRevisionInputs, version: string | null): Promise<RevisionCosts> {
+  const pricingInput: PricingInput = {
+    distance: inputs.distance,
+    ...parsePricingOptions(inputs),
+    moveDate: inputs.moveDate,
+    inventory: inputs.estimateMode === "inventory" && inputs.inventory ? inputs.inventory : undefined,
+  };
+  const { costs } = await priceMove(pricingInput, version);
+  return { costDiy: costs.diy, costHybrid: costs.hybrid, costFullService: costs.fullService };
+}
+
+function subtractCosts(a: RevisionCosts, b: RevisionCosts): RevisionCosts {
+  return {
+    costDiy: a.costDiy - b.costDiy,
+    costHybrid: a.costHybrid - b.costHybrid,
+    costFullService: a.costFullService - b.costFullService,
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -1,32 +1,170 @@
-import type { Express, Request, Response } from "express";
+import express, { type Express, type Request, type Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
   moveCalculationRequestSchema, 
+  type MoveCalculationRequest,
   type MoveCalculationResponse,
-  insertMoveEstimateSchema,
-  insertMoveChecklistSchema,
-  insertChecklistItemSchema,
-  insertUserProgressSchema,
-  type UserProgress
+  estimateComparisonQuerySchema,
+  shareLinkRequestSchema,
+  checklistCreationSchema,
+  checklistTemplateInputSchema,
+  checklistTemplateUpdateSchema,
+  checklistItemInputSchema,
+  checklistItemUpdateSchema,
+  checklistItemOrderSchema,
+  checklistRescheduleSchema,
+  upcomingChecklistItemsQuerySchema,
+  checklistInvitationSchema,
+  checklistMemberUpdateSchema,
+  notificationPreferencesInputSchema,
+  notificationListQuerySchema,
+  progressActivitySchema,
+  movingCompanyProfileSchema,
+  companyModerationSchema,
+  insertCompanyCapacitySchema,
+  reviewSubmissionSchema,
+  reviewFlagSchema,
+  reviewModerationSchema,
+  reviewStatusSchema,
+  insertPricingVersionSchema,
+  userAdminUpdateSchema,
+  adminEstimateQuerySchema,
+  adminUserQuerySchema,
+  adminChecklistQuerySchema,
+  adminMetricsQuerySchema,
+  paginationSchema,
+  quoteRequestSubmissionSchema,
+  quoteRequestUpdateSchema,
+  bidSubmissionSchema,
+  type CompanyTier,
+  type MoveEstimate,
+  type InsertEstimateInventoryItem,
+  type UserProgress,
+  type CalendarFeed,
+  type CalendarSubscription,
+  type NotificationList
 } from "@shared/schema";
-import { ZodError } from "zod";
+import { z, ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { ADDITIONAL_ITEM_COSTS, BASE_COSTS, COST_PER_MILE, SAMPLE_COMPANIES } from "../client/src/lib/constants";
-import { setupAuth } from "./auth";
+import { canManageCompany, ensureAdminAccount, requireCompanyAccess, requireRole, setupAuth } from "./auth";
+import { estimateRoute, geocodeAddress, GeocodingError } from "./geo";
+import {
+  ensureDefaultPricingVersion,
+  evaluatePricing,
+  findCheapestMoveDate,
+  parsePricingOptions,
+  priceMove,
+  resolvePricingVersion,
+  sizeMoveByVolume,
+  InvalidPricingInputError,
+  PricingVersionNotFoundError
+} from "./pricing";
+import {
+  INVENTORY_CATALOG,
+  INVENTORY_ROOM_LABELS,
+  InventoryError,
+  resolveInventory,
+  summarizeInventory
+} from "./inventory";
+import { ensureDefaultMovingCompanies, matchCompanies } from "./companies";
+import {
+  DuplicateReviewError,
+  ReviewEligibilityError,
+  flagReview,
+  getReviewSummary,
+  moderateReview,
+  submitReview,
+  toModeratedReviews,
+  toPublicReviews
+} from "./reviews";
+import {
+  QuoteRequestError,
+  QuoteStateError,
+  acceptBid,
+  declineQuoteRequest,
+  refreshQuoteExpiry,
+  sendQuoteRequest,
+  submitBid,
+  toMoverQuoteRequest,
+  toQuoteRequestDetail,
+  validateQuoteCompanies
+} from "./quotes";
+import {
+  summarizeEstimateMetrics,
+  toAdminChecklists,
+  toAdminEstimates,
+  toAdminUsers,
+  toEstimateQuery,
+  toPage
+} from "./admin";
+import {
+  EstimateLockedError,
+  assertEstimateDeletable,
+  assertEstimateEditable,
+  compareEstimates,
+  toCalculationInputs,
+  toEstimateCopy
+} from "./estimates";
+import { diffRevisions, ensureRevisionHistory, recordRevision } from "./revisions";
+import { APP_URL, checkWebhookUrl, WebhookAddressError } from "./notifications";
+import { buildEstimateReport, renderEstimateReport } from "./reports";
+import { AccountNotEmptyError, exportAccountData, importAccountData, ImportValidationError } from "./portability";
+import { createShareLink, openSharedEstimate, ShareLinkExpiredError, ShareLinkNotFoundError } from "./shares";
+import {
+  CalendarFeedNotFoundError,
+  getCalendarFeed,
+  renderCalendarFeed,
+  renderChecklistCalendar,
+  resetCalendarFeed
+} from "./calendar";
+import {
+  buildChecklistItems,
+  checklistDueDate,
+  ensureDefaultChecklistTemplates,
+  ensureDueDates,
+  getUpcomingTasks,
+  rescheduleChecklist
+} from "./checklists";
+import {
+  assertAssignable,
+  canAccessChecklist,
+  changeChecklistMemberRole,
+  ChecklistMemberError,
+  getAccessibleChecklists,
+  getChecklistAccess,
+  getChecklistCollaborators,
+  inviteChecklistMember,
+  removeChecklistMember
+} from "./collaboration";
+import { attachChecklistSync, closeChecklistConnections, publishChecklistEvent } from "./realtime";
+import { getNotificationPreferences, runReminders } from "./reminders";
+import { checkAchievements, checkIn, getAchievements, getProgress, recordActivity } from "./achievements";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication
   setupAuth(app);
   
+  // Make sure there is always an active pricing version to quote with
+  await ensureDefaultPricingVersion();
+  await ensureDefaultMovingCompanies();
+  await ensureDefaultChecklistTemplates();
+  await ensureAdminAccount();
+  
   // API endpoint to calculate moving costs
   app.post('/api/calculate-moving-costs', async (req: Request, res: Response) => {
     try {
       // Validate request data
       const data = moveCalculationRequestSchema.parse(req.body);
       
+      // Look up the itemized inventory when quoting by volume
+      if (data.estimateMode === 'inventory' && data.inventory.length === 0) {
+        throw new InventoryError('Add at least one item to your inventory');
+      }
+      const inventory = data.estimateMode === 'inventory' ? resolveInventory(data.inventory) : [];
+      
       // Calculate moving costs
-      const calculationResult = await calculateMovingCosts(data);
+      const calculationResult = await calculateMovingCosts(data, inventory);
       
       // Save the estimate to storage
       const estimate = await storage.createMoveEstimate({
@@ -41,7 +179,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         costDiy: calculationResult.costs.diy,
         costHybrid: calculationResult.costs.hybrid,
         costFullService: calculationResult.costs.fullService,
+        pricingVersion: calculationResult.pricingVersion,
+        estimateMode: calculationResult.estimateMode,
       });
+      await storage.setEstimateInventory(estimate.id, inventory);
       
       res.json(calculationResult);
     } catch (error) {
@@ -51,6 +192,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: 'Validation error',
           errors: validationError.details
         });
+      } else if (error instanceof GeocodingError || error instanceof InventoryError) {
+        res.status(400).json({ message: error.message });
       } else {
         console.error('Error calculating moving costs:', error);
         res.status(500).json({ message: 'Internal server error' });
@@ -58,17 +201,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // API endpoint to retrieve all moving estimates
-  app.get('/api/moving-estimates', async (req: Request, res: Response) => {
-    try {
-      const estimates = await storage.getAllMoveEstimates();
-      res.json(estimates);
-    } catch (error) {
-      console.error('Error retrieving moving estimates:', error);
-      res.status(500).json({ message: 'Internal server error' });
-    }
-  });
-
   // API endpoint to retrieve user's moving estimates
   app.get('/api/my-estimates', async (req, res) => {
     // Check if user is authenticated
@@ -78,7 +210,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const userId = req.user!.id;
-      const estimates = await storage.getUserEstimates(userId);
+      const archived = req.query.archived === 'true';
+      const estimates = await storage.getMoveEstimates({ userId, archived });
       res.json(estimates);
     } catch (error) {
       console.error('Error retrieving user estimates:', error);
@@ -86,7 +219,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // API endpoint to save a move estimate for logged in user
+  // API endpoint to save a move estimate for logged in user. The quote is worked out
+  // again with the active pricing version; costs and distance sent by the client are ignored.
   app.post('/api/save-estimate', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
@@ -96,15 +230,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user!.id;
       
       // Validate request data
-      const validatedData = insertMoveEstimateSchema.omit({ createdAt: true }).parse(req.body);
+      const data = moveCalculationRequestSchema.parse(req.body);
       
-      // Add the user ID to the estimate
-      const estimateWithUser = {
-        ...validatedData,
-        userId
-      };
+      if (data.estimateMode === 'inventory' && data.inventory.length === 0) {
+        throw new InventoryError('Add at least one item to your inventory');
+      }
+      const inventory = resolveInventory(data.inventory);
+      const calculationResult = await calculateMovingCosts(data, data.estimateMode === 'inventory' ? inventory : []);
       
-      const estimate = await storage.createMoveEstimate(estimateWithUser);
+      const estimate = await storage.createMoveEstimate({
+        userId,
+        origin: data.origin,
+        destination: data.destination,
+        distance: calculationResult.distance,
+        homeSize: data.homeSize,
+        additionalItems: data.additionalItems,
+        moveDate: data.moveDate,
+        flexibility: data.flexibility,
+        services: data.services,
+        costDiy: calculationResult.costs.diy,
+        costHybrid: calculationResult.costs.hybrid,
+        costFullService: calculationResult.costs.fullService,
+        pricingVersion: calculationResult.pricingVersion,
+        estimateMode: calculationResult.estimateMode,
+      });
+      await storage.setEstimateInventory(estimate.id, inventory);
+      await recordRevision(estimate);
+      await checkAchievements(userId);
       res.status(201).json(estimate);
     } catch (error) {
       if (error instanceof ZodError) {
@@ -113,6 +265,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: 'Validation error',
           errors: validationError.details
         });
+      } else if (error instanceof GeocodingError || error instanceof InventoryError) {
+        res.status(400).json({ message: error.message });
       } else {
         console.error('Error saving estimate:', error);
         res.status(500).json({ message: 'Internal server error' });
@@ -120,45 +274,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Checklist API endpoints
+  // Estimate lifecycle API endpoints
   
-  // Create a new moving checklist
-  app.post('/api/checklists', async (req, res) => {
+  // Compare two to four of the user's estimates side by side
+  app.get('/api/estimates/compare', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const userId = req.user!.id;
+      const { ids } = estimateComparisonQuerySchema.parse(req.query);
+      const estimates = await Promise.all(ids.map(id => storage.getMoveEstimate(id)));
       
-      // Validate request data
-      const validatedData = insertMoveChecklistSchema.omit({ createdAt: true }).parse(req.body);
+      if (estimates.some(estimate => !estimate)) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
       
-      // Make sure we have all required fields
-      if (!validatedData.moveDate) {
-        return res.status(400).json({ message: 'Move date is required' });
+      if (estimates.some(estimate => estimate!.userId !== req.user!.id)) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
       }
       
-      // Add the user ID to the checklist
-      const checklistWithUser = {
-        moveDate: validatedData.moveDate,
-        estimateId: validatedData.estimateId || null,
-        userId
-      };
+      res.json(compareEstimates(estimates as MoveEstimate[]));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error comparing estimates:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Change an estimate's inputs and price it again with the active pricing version
+  app.patch('/api/estimates/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      const checklist = await storage.createMoveChecklist(checklistWithUser);
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
+      
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
       
-      // Generate initial checklist items based on move date
-      const moveDate = new Date(checklist.moveDate);
-      await generateDefaultChecklistItems(checklist.id, moveDate);
+      await assertEstimateEditable(estimate);
+      await ensureRevisionHistory(estimate);
       
-      // Get the generated items
-      const items = await storage.getChecklistItems(checklist.id);
+      // Fields left out of the request keep their saved values
+      const current = toCalculationInputs(estimate, await storage.getEstimateInventory(estimate.id));
+      const data = moveCalculationRequestSchema.parse({ ...current, ...req.body });
       
-      res.status(201).json({
-        checklist,
-        items
+      if (data.estimateMode === 'inventory' && data.inventory.length === 0) {
+        throw new InventoryError('Add at least one item to your inventory');
+      }
+      const inventory = resolveInventory(data.inventory);
+      const calculationResult = await calculateMovingCosts(data, data.estimateMode === 'inventory' ? inventory : []);
+      
+      const updated = await storage.updateMoveEstimate(estimate.id, req.user!.id, {
+        origin: data.origin,
+        destination: data.destination,
+        distance: calculationResult.distance,
+        homeSize: data.homeSize,
+        additionalItems: data.additionalItems,
+        moveDate: data.moveDate,
+        flexibility: data.flexibility,
+        services: data.services,
+        costDiy: calculationResult.costs.diy,
+        costHybrid: calculationResult.costs.hybrid,
+        costFullService: calculationResult.costs.fullService,
+        pricingVersion: calculationResult.pricingVersion,
+        estimateMode: calculationResult.estimateMode,
       });
+      await storage.setEstimateInventory(estimate.id, inventory);
+      await recordRevision(updated!);
+      
+      // Checklists for this move keep their due dates in step with it
+      if (updated!.moveDate !== estimate.moveDate) {
+        const checklists = await storage.getUserChecklists(req.user!.id);
+        for (const checklist of checklists.filter(checklist => checklist.estimateId === estimate.id)) {
+          const rescheduled = await rescheduleChecklist(checklist, updated!.moveDate);
+          publishChecklistEvent(checklist.id, req.user!.id, { type: 'checklist.updated', checklist: rescheduled });
+        }
+      }
+      
+      res.json(updated);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -166,203 +374,260 @@ export async function registerRoutes(app: Express): Promise<Server> {
           message: 'Validation error',
           errors: validationError.details
         });
+      } else if (error instanceof GeocodingError || error instanceof InventoryError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof EstimateLockedError) {
+        res.status(409).json({ message: error.message });
       } else {
-        console.error('Error creating checklist:', error);
+        console.error('Error updating estimate:', error);
         res.status(500).json({ message: 'Internal server error' });
       }
     }
   });
   
-  // Get all checklists for the current user
-  app.get('/api/checklists', async (req, res) => {
+  // Delete an estimate along with its inventory
+  app.delete('/api/estimates/:id', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const userId = req.user!.id;
-      const checklists = await storage.getUserChecklists(userId);
-      res.json(checklists);
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
+      
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
+      
+      await assertEstimateDeletable(estimate);
+      await storage.deleteMoveEstimate(estimate.id, req.user!.id);
+      res.status(204).end();
     } catch (error) {
-      console.error('Error retrieving checklists:', error);
-      res.status(500).json({ message: 'Internal server error' });
+      if (error instanceof EstimateLockedError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error deleting estimate:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
     }
   });
   
-  // Get a specific checklist with its items
-  app.get('/api/checklists/:id', async (req, res) => {
+  // Copy an estimate, inventory included, as a new estimate
+  app.post('/api/estimates/:id/duplicate', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const checklistId = parseInt(req.params.id);
-      const checklist = await storage.getMoveChecklist(checklistId);
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      if (!checklist) {
-        return res.status(404).json({ message: 'Checklist not found' });
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
       }
       
-      // Check if this checklist belongs to the current user
-      if (checklist.userId !== req.user!.id) {
-        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
       }
       
-      const items = await storage.getChecklistItems(checklistId);
+      const copy = await storage.createMoveEstimate(toEstimateCopy(estimate));
+      const inventory = await storage.getEstimateInventory(estimate.id);
+      await storage.setEstimateInventory(copy.id, inventory.map(({ id, estimateId, ...item }) => item));
+      await recordRevision(copy);
       
-      res.json({
-        checklist,
-        items
-      });
+      res.status(201).json(copy);
     } catch (error) {
-      console.error('Error retrieving checklist:', error);
+      console.error('Error duplicating estimate:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
   
-  // Get a checklist for a specific estimate
-  app.get('/api/estimates/:id/checklist', async (req, res) => {
+  // Hide an estimate from the profile without deleting it
+  app.post('/api/estimates/:id/archive', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const estimateId = parseInt(req.params.id);
-      const checklist = await storage.getChecklistByEstimate(estimateId);
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      if (!checklist) {
-        return res.status(404).json({ message: 'No checklist found for this estimate' });
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
       }
       
-      // Check if this checklist belongs to the current user
-      if (checklist.userId !== req.user!.id) {
-        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
       }
       
-      const items = await storage.getChecklistItems(checklist.id);
-      
-      res.json({
-        checklist,
-        items
+      const archived = await storage.updateMoveEstimate(estimate.id, req.user!.id, {
+        archivedAt: estimate.archivedAt ?? new Date().toISOString(),
       });
+      res.json(archived);
     } catch (error) {
-      console.error('Error retrieving estimate checklist:', error);
+      console.error('Error archiving estimate:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
   
-  // Update a checklist item (mark as complete/incomplete)
-  app.patch('/api/checklist-items/:id', async (req, res) => {
+  // Bring an archived estimate back
+  app.post('/api/estimates/:id/unarchive', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const itemId = parseInt(req.params.id);
-      const { completed } = req.body;
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      if (typeof completed !== 'boolean') {
-        return res.status(400).json({ message: 'The completed property must be a boolean' });
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
       }
       
-      const updatedItem = await storage.updateChecklistItem(itemId, completed);
-      
-      if (!updatedItem) {
-        return res.status(404).json({ message: 'Checklist item not found' });
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
       }
       
-      res.json(updatedItem);
+      const restored = await storage.updateMoveEstimate(estimate.id, req.user!.id, { archivedAt: null });
+      res.json(restored);
     } catch (error) {
-      console.error('Error updating checklist item:', error);
+      console.error('Error unarchiving estimate:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
-
-  // Moving cost heatmap API endpoint
-  app.get('/api/moving-costs-map', async (req, res) => {
+  
+  // Every price the estimate has had, oldest first
+  app.get('/api/estimates/:id/revisions', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
     try {
-      const origin = req.query.origin as string || 'New York, NY';
-      const homeSize = req.query.homeSize as string || '2bedroom';
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      // Generate the state-by-state cost data
-      const costData = generateStateMovingCosts(origin, homeSize);
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
       
-      res.json(costData);
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
+      
+      res.json(await ensureRevisionHistory(estimate));
     } catch (error) {
-      console.error('Error generating moving costs map data:', error);
-      res.status(500).json({ message: 'Error generating moving costs map data' });
+      console.error('Error retrieving estimate revisions:', error);
+      res.status(500).json({ message: 'Internal server error' });
     }
   });
-
-  // User progress API endpoints for gamification
   
-  // Get user progress
-  app.get('/api/user-progress', async (req, res) => {
+  // What changed between two revisions and how much each change moved the price;
+  // defaults to the latest revision against the one before it
+  app.get('/api/estimates/:id/revisions/diff', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const userId = req.user!.id;
-      let progress = await storage.getUserProgress(userId);
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      // If no progress exists yet, create a new one for the user
-      if (!progress) {
-        progress = await storage.createUserProgress({
-          userId,
-          points: 0,
-          level: 1,
-          achievements: [],
-          streak: 0,
-          lastInteraction: new Date().toISOString()
-        });
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
+      
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
+      
+      const revisions = await ensureRevisionHistory(estimate);
+      const latest = revisions[revisions.length - 1].revision;
+      const query = z.object({
+        from: z.coerce.number().int().positive().optional(),
+        to: z.coerce.number().int().positive().default(latest),
+      }).parse(req.query);
+      
+      const to = revisions.find(revision => revision.revision === query.to);
+      const from = revisions.find(revision => revision.revision === (query.from ?? Math.max(query.to - 1, 1)));
+      
+      if (!from || !to) {
+        return res.status(404).json({ message: 'Revision not found' });
       }
       
-      res.json(progress);
+      res.json(await diffRevisions(from, to));
     } catch (error) {
-      console.error('Error retrieving user progress:', error);
-      res.status(500).json({ message: 'Internal server error' });
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof PricingVersionNotFoundError) {
+        res.status(404).json({ message: error.message });
+      } else if (error instanceof InvalidPricingInputError) {
+        res.status(422).json({ message: error.message });
+      } else {
+        console.error('Error diffing estimate revisions:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
     }
   });
   
-  // Update user progress
-  app.patch('/api/user-progress', async (req, res) => {
+  // Printable PDF of an estimate with its cost breakdown, recommended movers and checklist
+  app.get('/api/estimates/:id/report', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const userId = req.user!.id;
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      // Validate request data
-      const validatedData = insertUserProgressSchema
-        .partial()
-        .omit({ userId: true, createdAt: true })
-        .parse(req.body);
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
       
-      // Get existing progress or create new
-      let progress = await storage.getUserProgress(userId);
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
       
-      if (!progress) {
-        // Create new progress with default values
-        progress = await storage.createUserProgress({
-          userId,
-          points: validatedData.points || 0,
-          level: validatedData.level || 1,
-          achievements: validatedData.achievements || [],
-          streak: validatedData.streak || 0,
-          lastInteraction: validatedData.lastInteraction || new Date().toISOString()
-        });
+      const pdf = await renderEstimateReport(await buildEstimateReport(estimate));
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="moving-estimate-${estimate.id}.pdf"`);
+      res.send(Buffer.from(pdf));
+    } catch (error) {
+      if (error instanceof GeocodingError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof PricingVersionNotFoundError) {
+        res.status(404).json({ message: error.message });
+      } else if (error instanceof InvalidPricingInputError) {
+        res.status(422).json({ message: error.message });
       } else {
-        // Update existing progress
-        progress = await storage.updateUserProgress(userId, validatedData);
+        console.error('Error generating estimate report:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Estimate sharing API endpoints
+  
+  // Create a read-only link to an estimate, optionally expiring after some days
+  app.post('/api/estimates/:id/shares', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
       }
       
-      if (!progress) {
-        return res.status(404).json({ message: 'Failed to update user progress' });
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
       }
       
-      res.json(progress);
+      const { expiresInDays } = shareLinkRequestSchema.parse(req.body ?? {});
+      const share = await createShareLink(estimate, req.user!.id, expiresInDays);
+      res.status(201).json(share);
     } catch (error) {
       if (error instanceof ZodError) {
         const validationError = fromZodError(error);
@@ -371,505 +636,2177 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: validationError.details
         });
       } else {
-        console.error('Error updating user progress:', error);
+        console.error('Error creating share link:', error);
         res.status(500).json({ message: 'Internal server error' });
       }
     }
   });
   
-  // Unlock a new achievement
-  app.post('/api/unlock-achievement', async (req, res) => {
+  // The estimate's links with how often each has been opened, newest first
+  app.get('/api/estimates/:id/shares', async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: 'Not authenticated' });
     }
     
     try {
-      const userId = req.user!.id;
-      const { achievementId, points } = req.body;
+      const estimate = await storage.getMoveEstimate(parseInt(req.params.id));
       
-      if (!achievementId || typeof achievementId !== 'string') {
-        return res.status(400).json({ message: 'Achievement ID is required' });
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
       }
       
-      // Get existing progress
-      let progress = await storage.getUserProgress(userId);
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
       
-      if (!progress) {
-        // Create new progress if it doesn't exist
-        progress = await storage.createUserProgress({
-          userId,
-          points: points || 0,
-          level: 1,
-          achievements: [achievementId],
-          streak: 0,
-          lastInteraction: new Date().toISOString()
-        });
+      res.json(await storage.getEstimateShares(estimate.id));
+    } catch (error) {
+      console.error('Error retrieving share links:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Stop a link from working; its view count is kept
+  app.post('/api/shares/:id/revoke', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const share = await storage.getEstimateShare(parseInt(req.params.id));
+      
+      if (!share) {
+        return res.status(404).json({ message: 'Share link not found' });
+      }
+      
+      if (share.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this share link' });
+      }
+      
+      const updated = share.revokedAt
+        ? share
+        : await storage.updateEstimateShare(share.id, { revokedAt: new Date().toISOString() });
+      res.json(updated);
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Public view of a shared estimate; no login needed
+  app.get('/api/shared/:token', async (req, res) => {
+    try {
+      res.json(await openSharedEstimate(req.params.token));
+    } catch (error) {
+      if (error instanceof ShareLinkNotFoundError) {
+        res.status(404).json({ message: error.message });
+      } else if (error instanceof ShareLinkExpiredError) {
+        res.status(410).json({ message: error.message });
       } else {
-        // Check if achievement already unlocked
-        if (progress.achievements.includes(achievementId)) {
-          return res.json({
-            success: false,
-            message: 'Achievement already unlocked',
-            progress
-          });
-        }
-        
-        // Add achievement and points
-        const updatedAchievements = [...progress.achievements, achievementId];
-        const updatedPoints = progress.points + (points || 0);
-        
-        // Calculate new level (every 100 points is a new level)
-        const updatedLevel = Math.floor(updatedPoints / 100) + 1;
-        
-        // Update progress
-        progress = await storage.updateUserProgress(userId, {
-          achievements: updatedAchievements,
-          points: updatedPoints,
-          level: updatedLevel,
-          lastInteraction: new Date().toISOString()
-        });
+        console.error('Error opening shared estimate:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Inventory API endpoints
+  
+  // Item catalogue for the inventory builder, grouped by room
+  app.get('/api/inventory/catalog', (req, res) => {
+    const rooms = Object.entries(INVENTORY_ROOM_LABELS).map(([id, label]) => ({
+      id,
+      label,
+      items: INVENTORY_CATALOG.filter(item => item.room === id),
+    }));
+    res.json(rooms);
+  });
+  
+  // Inventory saved with an estimate, with totals
+  app.get('/api/estimates/:id/inventory', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const estimateId = parseInt(req.params.id);
+      const estimate = await storage.getMoveEstimate(estimateId);
+      
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
       }
       
-      if (!progress) {
-        return res.status(404).json({ message: 'Failed to update user progress' });
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
       }
       
+      const items = await storage.getEstimateInventory(estimateId);
       res.json({
-        success: true,
-        message: 'Achievement unlocked',
-        progress
+        estimateId,
+        items,
+        totals: summarizeInventory(items),
       });
     } catch (error) {
-      console.error('Error unlocking achievement:', error);
+      console.error('Error retrieving estimate inventory:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
-
-// Helper function to calculate moving costs
-async function calculateMovingCosts(data: any): Promise<MoveCalculationResponse> {
-  // Calculate distance between origin and destination
-  // In a real app, we would use a mapping API like Google Maps Distance Matrix
-  // For the demo, we'll use a random distance between 10 and 500 miles
-  const distance = calculateDistance(data.origin, data.destination);
-  
-  // Calculate base costs based on home size
-  const baseCosts = BASE_COSTS[data.homeSize];
-  
-  // Add distance costs
-  const costDiy = Math.round(baseCosts.diy + (distance * COST_PER_MILE.diy));
-  const costHybrid = Math.round(baseCosts.hybrid + (distance * COST_PER_MILE.hybrid));
-  const costFullService = Math.round(baseCosts.fullService + (distance * COST_PER_MILE.fullService));
-  
-  // Add costs for additional items
-  const additionalCosts = ADDITIONAL_ITEM_COSTS[data.additionalItems];
-  const diy = costDiy + additionalCosts.diy;
-  const hybrid = costHybrid + additionalCosts.hybrid;
-  const fullService = costFullService + additionalCosts.fullService;
-  
-  // Add extra costs for services
-  const servicesCost = calculateServicesCost(data.services);
-  
-  // Cost breakdown percentages
-  const totalCost = hybrid; // Using hybrid as the reference cost
-  const transportationCost = Math.round(totalCost * 0.45);
-  const laborCost = Math.round(totalCost * 0.30);
-  const materialsCost = Math.round(totalCost * 0.15);
-  const otherCost = Math.round(totalCost * 0.10);
-  
-  // Get recommended companies
-  // In a real app, this would query a database of moving companies based on location
-  const companies = SAMPLE_COMPANIES.map(company => ({
-    ...company,
-    available: Math.random() > 0.3 // Randomize availability for demo
-  }));
-
-  return {
-    distance,
-    origin: data.origin,
-    destination: data.destination,
-    homeSize: data.homeSize,
-    moveDate: data.moveDate,
-    costs: {
-      diy: diy + servicesCost.diy,
-      hybrid: hybrid + servicesCost.hybrid,
-      fullService: fullService + servicesCost.fullService,
-    },
-    breakdown: {
-      transportation: transportationCost,
-      labor: laborCost,
-      materials: materialsCost,
-      other: otherCost,
-    },
-    companies: companies.slice(0, 2), // Return only 2 companies
-  };
-}
-
-// Helper function to calculate distance between two addresses
-function calculateDistance(origin: string, destination: string): number {
-  // In a real app, we would use a mapping API
-  // For the demo, we'll generate a sensible random distance
-  
-  // Check if origin and destination contain some of the same location information
-  const originLower = origin.toLowerCase();
-  const destLower = destination.toLowerCase();
-  
-  // Extract city/state from addresses (very simplistic)
-  const originParts = originLower.split(',').map(p => p.trim());
-  const destParts = destLower.split(',').map(p => p.trim());
-  
-  // Check if the addresses share a city/state
-  const sameCity = originParts.some(part => destParts.includes(part));
-  
-  if (sameCity) {
-    // Local move (5-25 miles)
-    return Math.floor(Math.random() * 20) + 5;
-  } else {
-    // Extract states (if present)
-    const originState = originParts.length > 1 ? originParts[originParts.length - 1] : '';
-    const destState = destParts.length > 1 ? destParts[destParts.length - 1] : '';
-    
-    if (originState === destState && originState !== '') {
-      // In-state move (25-200 miles)
-      return Math.floor(Math.random() * 175) + 25;
-    } else {
-      // Long-distance move (200-3000 miles)
-      return Math.floor(Math.random() * 2800) + 200;
-    }
-  }
-}
-
-// Helper function to calculate costs for additional services
-function calculateServicesCost(services: string[]): { diy: number, hybrid: number, fullService: number } {
-  const costs = { diy: 0, hybrid: 0, fullService: 0 };
-  
-  services.forEach(service => {
-    switch (service) {
-      case 'packing':
-        costs.diy += 100;
-        costs.hybrid += 200;
-        costs.fullService += 0; // Already included
-        break;
-      case 'storage':
-        costs.diy += 150;
-        costs.hybrid += 150;
-        costs.fullService += 150;
-        break;
-      case 'cleaning':
-        costs.diy += 200;
-        costs.hybrid += 200;
-        costs.fullService += 200;
-        break;
-    }
-  });
-  
-  return costs;
-}
-
-// Helper function to generate moving cost data for the heatmap
-function generateStateMovingCosts(origin: string, homeSize: string) {
-  // Major US states/cities with coordinates
-  const stateData = [
-    { state: "New York, NY", code: "NY", coordinates: [-74.0060, 40.7128], baseCost: 2500, popularity: 85 },
-    { state: "Los Angeles, CA", code: "CA", coordinates: [-118.2437, 34.0522], baseCost: 2800, popularity: 90 },
-    { state: "Chicago, IL", code: "IL", coordinates: [-87.6298, 41.8781], baseCost: 2200, popularity: 75 },
-    { state: "Houston, TX", code: "TX", coordinates: [-95.3698, 29.7604], baseCost: 2100, popularity: 80 },
-    { state: "Phoenix, AZ", code: "AZ", coordinates: [-112.0740, 33.4484], baseCost: 2000, popularity: 70 },
-    { state: "Philadelphia, PA", code: "PA", coordinates: [-75.1652, 39.9526], baseCost: 2300, popularity: 65 },
-    { state: "San Antonio, TX", code: "TX2", coordinates: [-98.4936, 29.4241], baseCost: 2050, popularity: 60 },
-    { state: "San Diego, CA", code: "CA2", coordinates: [-117.1611, 32.7157], baseCost: 2700, popularity: 75 },
-    { state: "Dallas, TX", code: "TX3", coordinates: [-96.7970, 32.7767], baseCost: 2150, popularity: 70 },
-    { state: "San Jose, CA", code: "CA3", coordinates: [-121.8863, 37.3382], baseCost: 3000, popularity: 65 },
-    { state: "Austin, TX", code: "TX4", coordinates: [-97.7431, 30.2672], baseCost: 2200, popularity: 85 },
-    { state: "Jacksonville, FL", code: "FL", coordinates: [-81.6557, 30.3322], baseCost: 2150, popularity: 60 },
-    { state: "Columbus, OH", code: "OH", coordinates: [-82.9988, 39.9612], baseCost: 1900, popularity: 55 },
-    { state: "Indianapolis, IN", code: "IN", coordinates: [-86.1581, 39.7684], baseCost: 1850, popularity: 50 },
-    { state: "Charlotte, NC", code: "NC", coordinates: [-80.8431, 35.2271], baseCost: 2050, popularity: 65 },
-    { state: "Seattle, WA", code: "WA", coordinates: [-122.3321, 47.6062], baseCost: 2700, popularity: 75 },
-    { state: "Denver, CO", code: "CO", coordinates: [-104.9903, 39.7392], baseCost: 2400, popularity: 75 },
-    { state: "Washington, DC", code: "DC", coordinates: [-77.0369, 38.9072], baseCost: 2600, popularity: 70 },
-    { state: "Boston, MA", code: "MA", coordinates: [-71.0589, 42.3601], baseCost: 2700, popularity: 65 },
-    { state: "Nashville, TN", code: "TN", coordinates: [-86.7816, 36.1627], baseCost: 2050, popularity: 70 },
-    { state: "Atlanta, GA", code: "GA", coordinates: [-84.3880, 33.7490], baseCost: 2150, popularity: 80 },
-    { state: "Miami, FL", code: "FL2", coordinates: [-80.1918, 25.7617], baseCost: 2300, popularity: 85 },
-    { state: "Portland, OR", code: "OR", coordinates: [-122.6765, 45.5231], baseCost: 2350, popularity: 65 },
-    { state: "Detroit, MI", code: "MI", coordinates: [-83.0458, 42.3314], baseCost: 1900, popularity: 50 },
-    { state: "Minneapolis, MN", code: "MN", coordinates: [-93.2650, 44.9778], baseCost: 2000, popularity: 55 },
-    { state: "Las Vegas, NV", code: "NV", coordinates: [-115.1398, 36.1699], baseCost: 2200, popularity: 70 },
-    { state: "New Orleans, LA", code: "LA", coordinates: [-90.0715, 29.9511], baseCost: 2100, popularity: 60 },
-    { state: "Cincinnati, OH", code: "OH2", coordinates: [-84.5120, 39.1031], baseCost: 1850, popularity: 45 },
-    { state: "Kansas City, MO", code: "MO", coordinates: [-94.5786, 39.0997], baseCost: 1900, popularity: 50 },
-    { state: "Salt Lake City, UT", code: "UT", coordinates: [-111.8910, 40.7608], baseCost: 2050, popularity: 55 },
-    { state: "Pittsburgh, PA", code: "PA2", coordinates: [-79.9959, 40.4406], baseCost: 2050, popularity: 50 },
-    { state: "Raleigh, NC", code: "NC2", coordinates: [-78.6382, 35.7796], baseCost: 2100, popularity: 60 },
-    { state: "Baltimore, MD", code: "MD", coordinates: [-76.6122, 39.2904], baseCost: 2200, popularity: 55 },
-    { state: "St. Louis, MO", code: "MO2", coordinates: [-90.1994, 38.6270], baseCost: 1950, popularity: 45 },
-    { state: "Sacramento, CA", code: "CA4", coordinates: [-121.4944, 38.5816], baseCost: 2400, popularity: 60 },
-    { state: "Tucson, AZ", code: "AZ2", coordinates: [-110.9747, 32.2226], baseCost: 1950, popularity: 55 },
-    { state: "Omaha, NE", code: "NE", coordinates: [-95.9979, 41.2565], baseCost: 1850, popularity: 45 },
-    { state: "Oklahoma City, OK", code: "OK", coordinates: [-97.5164, 35.4676], baseCost: 1900, popularity: 50 },
-    { state: "Albuquerque, NM", code: "NM", coordinates: [-106.6504, 35.0844], baseCost: 2000, popularity: 45 },
-    { state: "Memphis, TN", code: "TN2", coordinates: [-90.0490, 35.1495], baseCost: 1950, popularity: 50 },
-    { state: "Louisville, KY", code: "KY", coordinates: [-85.7585, 38.2542], baseCost: 1900, popularity: 45 },
-    { state: "Buffalo, NY", code: "NY2", coordinates: [-78.8784, 42.8864], baseCost: 2100, popularity: 40 },
-    { state: "Richmond, VA", code: "VA", coordinates: [-77.4360, 37.5407], baseCost: 2150, popularity: 50 },
-    { state: "Boise, ID", code: "ID", coordinates: [-116.2023, 43.6150], baseCost: 2100, popularity: 55 },
-    { state: "Des Moines, IA", code: "IA", coordinates: [-93.6091, 41.5868], baseCost: 1850, popularity: 40 },
-    { state: "Charleston, SC", code: "SC", coordinates: [-79.9311, 32.7765], baseCost: 2150, popularity: 60 },
-    { state: "Jackson, MS", code: "MS", coordinates: [-90.1848, 32.2988], baseCost: 1900, popularity: 40 },
-    { state: "Birmingham, AL", code: "AL", coordinates: [-86.8103, 33.5207], baseCost: 1950, popularity: 45 },
-    { state: "Providence, RI", code: "RI", coordinates: [-71.4128, 41.8240], baseCost: 2250, popularity: 50 },
-    { state: "Hartford, CT", code: "CT", coordinates: [-72.6830, 41.7658], baseCost: 2300, popularity: 45 },
-    { state: "Concord, NH", code: "NH", coordinates: [-71.5372, 43.2081], baseCost: 2200, popularity: 40 },
-    { state: "Burlington, VT", code: "VT", coordinates: [-73.2121, 44.4759], baseCost: 2150, popularity: 40 },
-    { state: "Augusta, ME", code: "ME", coordinates: [-69.7795, 44.3106], baseCost: 2250, popularity: 35 },
-    { state: "Honolulu, HI", code: "HI", coordinates: [-157.8583, 21.3069], baseCost: 4500, popularity: 75 },
-    { state: "Anchorage, AK", code: "AK", coordinates: [-149.9003, 61.2181], baseCost: 4000, popularity: 30 },
-  ];
-  
-  // Find origin city
-  const originCity = stateData.find(city => city.state.includes(origin.split(',')[0])) || stateData[0];
-  
-  // Adjust costs based on distance from origin and home size
-  return stateData.map(city => {
-    // Get coordinates
-    const lat1 = originCity.coordinates[1];
-    const lon1 = originCity.coordinates[0];
-    const lat2 = city.coordinates[1];
-    const lon2 = city.coordinates[0];
-    
-    // Calculate distance
-    const distance = calculateGeoDistance(lat1, lon1, lat2, lon2);
-    
-    // Adjust cost based on distance, home size, and regional cost factors
-    const homeSizeMultiplier = 
-      homeSize === "studio" ? 0.6 : 
-      homeSize === "1bedroom" ? 0.8 :
-      homeSize === "2bedroom" ? 1.0 :
-      homeSize === "3bedroom" ? 1.3 : 1.5;
-    
-    // Calculate base cost adjusted for home size
-    const baseCost = Math.round(city.baseCost * homeSizeMultiplier);
-    
-    // Apply distance factor (higher distance = higher cost)
-    const distanceFactor = distance / 1000; // Normalize distance effect
-    const hybridCost = Math.round(baseCost * (1 + distanceFactor));
-    
-    // Calculate different moving method costs
-    const diyCost = Math.round(hybridCost * 0.6); // DIY is cheaper
-    const fullServiceCost = Math.round(hybridCost * 1.7); // Full service is more expensive
-    
-    // Popularity decreases with distance but has a minimum value
-    const popularity = Math.max(20, city.popularity - (distance / 500));
-    
-    return {
-      state: city.state,
-      code: city.code,
-      coordinates: city.coordinates as [number, number],
-      hybridCost,
-      diyCost,
-      fullServiceCost,
-      popularity
-    };
-  });
-}
+  // Moving company directory API endpoints
+  
+  app.get('/api/moving-companies', async (req, res) => {
+    try {
+      const companies = await storage.getMovingCompanies();
+      res.json(companies.filter(company => company.published));
+    } catch (error) {
+      console.error('Error retrieving moving companies:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Unpublished companies are only shown to the people who can manage them
+  app.get('/api/moving-companies/:id', async (req, res) => {
+    try {
+      const company = await storage.getMovingCompany(parseInt(req.params.id));
+      
+      if (!company || (!company.published && !(req.isAuthenticated() && canManageCompany(req.user!, company.id)))) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      res.json(company);
+    } catch (error) {
+      console.error('Error retrieving moving company:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Movers register their own company, which waits for an admin to publish it;
+  // companies admins add are published straight away
+  app.post('/api/moving-companies', requireRole('mover', 'admin'), async (req, res) => {
+    if (req.user!.role === 'mover' && req.user!.companyId) {
+      return res.status(409).json({ message: 'Your account already manages a moving company' });
+    }
+    
+    try {
+      const validatedData = movingCompanyProfileSchema.parse(req.body);
+      const company = await storage.createMovingCompany({
+        ...validatedData,
+        published: req.user!.role === 'admin',
+      });
+      
+      if (req.user!.role === 'mover') {
+        await storage.updateUser(req.user!.id, { companyId: company.id });
+      }
+      
+      res.status(201).json(company);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error creating moving company:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  app.patch('/api/moving-companies/:id', requireCompanyAccess, async (req, res) => {
+    try {
+      const validatedData = movingCompanyProfileSchema.partial().parse(req.body);
+      const company = await storage.updateMovingCompany(parseInt(req.params.id), validatedData);
+      
+      if (!company) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      res.json(company);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error updating moving company:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  app.delete('/api/moving-companies/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const deleted = await storage.deleteMovingCompany(parseInt(req.params.id));
+      
+      if (!deleted) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting moving company:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Capacity calendar for a date range; defaults to the next 30 days
+  app.get('/api/moving-companies/:id/capacity', async (req, res) => {
+    try {
+      const company = await storage.getMovingCompany(parseInt(req.params.id));
+      
+      if (!company) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      const today = new Date();
+      const from = (req.query.from as string) || today.toISOString().slice(0, 10);
+      const to = (req.query.to as string) || new Date(today.getTime() + 30 * 86400000).toISOString().slice(0, 10);
+      
+      const days = await storage.getCompanyCapacity(company.id, from, to);
+      res.json({
+        companyId: company.id,
+        dailyCapacity: company.dailyCapacity,
+        days,
+      });
+    } catch (error) {
+      console.error('Error retrieving company capacity:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Set capacity (and optionally bookings) for a single day
+  app.put('/api/moving-companies/:id/capacity/:date', requireCompanyAccess, async (req, res) => {
+    try {
+      const company = await storage.getMovingCompany(parseInt(req.params.id));
+      
+      if (!company) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      const validatedData = insertCompanyCapacitySchema.parse({
+        ...req.body,
+        companyId: company.id,
+        date: req.params.date,
+      });
+      
+      const capacity = await storage.setCompanyCapacity(validatedData);
+      res.json(capacity);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error updating company capacity:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Rank companies for a move, with the reasons behind each ranking
+  app.post('/api/moving-companies/match', async (req, res) => {
+    try {
+      const data = moveCalculationRequestSchema.pick({
+        origin: true,
+        destination: true,
+        homeSize: true,
+        moveDate: true,
+      }).parse(req.body);
+      
+      const route = estimateRoute(data.origin, data.destination);
+      const { costs } = await priceMove({
+        distance: route.distance,
+        homeSize: data.homeSize,
+        additionalItems: 'none',
+        services: [],
+        moveDate: data.moveDate,
+      });
+      
+      const matches = await matchCompanies({ route, moveDate: data.moveDate, homeSize: data.homeSize, costs });
+      res.json(matches);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof GeocodingError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        console.error('Error matching moving companies:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+
+  // Company review API endpoints
+  
+  // Published reviews for a company, newest first, with aggregate ratings
+  app.get('/api/moving-companies/:id/reviews', async (req, res) => {
+    try {
+      const companyId = parseInt(req.params.id);
+      const company = await storage.getMovingCompany(companyId);
+      
+      if (!company) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      const { page, pageSize } = paginationSchema.parse(req.query);
+      const query = { companyId, status: 'published' as const };
+      
+      const [reviews, total, summary] = await Promise.all([
+        storage.getCompanyReviews({ ...query, limit: pageSize, offset: (page - 1) * pageSize }),
+        storage.countCompanyReviews(query),
+        getReviewSummary(companyId),
+      ]);
+      
+      res.json({
+        items: await toPublicReviews(reviews),
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+        summary,
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving company reviews:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Review a company; requires a saved estimate for the move being reviewed
+  app.post('/api/moving-companies/:id/reviews', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const companyId = parseInt(req.params.id);
+      const company = await storage.getMovingCompany(companyId);
+      
+      if (!company) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      const submission = reviewSubmissionSchema.parse(req.body);
+      const review = await submitReview(req.user!.id, companyId, submission);
+      const [publicReview] = await toPublicReviews([review]);
+      res.status(201).json(publicReview);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof ReviewEligibilityError) {
+        res.status(403).json({ message: error.message });
+      } else if (error instanceof DuplicateReviewError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error submitting review:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Report a review for moderation
+  app.post('/api/reviews/:id/flag', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const review = await storage.getCompanyReview(parseInt(req.params.id));
+      
+      if (!review || review.status === 'hidden') {
+        return res.status(404).json({ message: 'Review not found' });
+      }
+      
+      const { reason } = reviewFlagSchema.parse(req.body);
+      await flagReview(review, req.user!.id, reason);
+      res.json({ success: true, message: 'Thanks, our team will take a look at this review' });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error flagging review:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Recent highly rated reviews for the testimonials section
+  app.get('/api/reviews/featured', async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 3, 12);
+      const reviews = await storage.getCompanyReviews({ status: 'published', minOverall: 4, limit });
+      res.json(await toPublicReviews(reviews));
+    } catch (error) {
+      console.error('Error retrieving featured reviews:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // The current user's reviews, including any held for moderation
+  app.get('/api/my-reviews', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const reviews = await storage.getCompanyReviews({ userId: req.user!.id });
+      res.json(reviews.map(({ flags, ...review }) => review));
+    } catch (error) {
+      console.error('Error retrieving user reviews:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Admin API endpoints
+  
+  // Moderation queue; defaults to reviews held back by customer reports
+  app.get('/api/admin/reviews', requireRole('admin'), async (req, res) => {
+    try {
+      const { page, pageSize } = paginationSchema.parse(req.query);
+      const status = reviewStatusSchema.parse(req.query.status ?? 'flagged');
+      const query = { status };
+      
+      const [reviews, total] = await Promise.all([
+        storage.getCompanyReviews({ ...query, limit: pageSize, offset: (page - 1) * pageSize }),
+        storage.countCompanyReviews(query),
+      ]);
+      
+      res.json(toPage(await toModeratedReviews(reviews), total, { page, pageSize }));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving reviews for moderation:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Publish or hide a review
+  app.patch('/api/admin/reviews/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const review = await storage.getCompanyReview(parseInt(req.params.id));
+      
+      if (!review) {
+        return res.status(404).json({ message: 'Review not found' });
+      }
+      
+      const { status } = reviewModerationSchema.parse(req.body);
+      const [moderated] = await toModeratedReviews([await moderateReview(review, status)]);
+      res.json(moderated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error moderating review:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Companies waiting to be published, or with ?published=true those in the directory
+  app.get('/api/admin/moving-companies', requireRole('admin'), async (req, res) => {
+    try {
+      const published = z.enum(['true', 'false']).default('false').parse(req.query.published) === 'true';
+      const companies = await storage.getMovingCompanies();
+      res.json(companies.filter(company => company.published === published));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving moving companies for moderation:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Publish a company to the directory or take it out again
+  app.patch('/api/admin/moving-companies/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const { published } = companyModerationSchema.parse(req.body);
+      const company = await storage.updateMovingCompany(parseInt(req.params.id), { published });
+      
+      if (!company) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      res.json(company);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error moderating moving company:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Every estimate in the system, anonymous quotes included
+  app.get('/api/admin/estimates', requireRole('admin'), async (req, res) => {
+    try {
+      const params = adminEstimateQuerySchema.parse(req.query);
+      const query = toEstimateQuery(params);
+      
+      const [estimates, total] = await Promise.all([
+        storage.getMoveEstimates(query),
+        storage.countMoveEstimates(query),
+      ]);
+      
+      res.json(toPage(await toAdminEstimates(estimates), total, params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving estimates for admin:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Accounts, without password hashes
+  app.get('/api/admin/users', requireRole('admin'), async (req, res) => {
+    try {
+      const params = adminUserQuerySchema.parse(req.query);
+      const { page, pageSize, ...filters } = params;
+      const query = { ...filters, search: filters.search || undefined };
+      
+      const [users, total] = await Promise.all([
+        storage.getUsers({ ...query, limit: pageSize, offset: (page - 1) * pageSize }),
+        storage.countUsers(query),
+      ]);
+      
+      res.json(toPage(await toAdminUsers(users), total, params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving users for admin:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Checklists with their completion progress
+  app.get('/api/admin/checklists', requireRole('admin'), async (req, res) => {
+    try {
+      const params = adminChecklistQuerySchema.parse(req.query);
+      const { page, pageSize, from, to, ...filters } = params;
+      const query = { ...filters, moveDateFrom: from, moveDateTo: to };
+      
+      const [checklists, total] = await Promise.all([
+        storage.getMoveChecklists({ ...query, limit: pageSize, offset: (page - 1) * pageSize }),
+        storage.countMoveChecklists(query),
+      ]);
+      
+      res.json(toPage(await toAdminChecklists(checklists), total, params));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving checklists for admin:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // The templates new checklists are built from, including inactive ones
+  app.get('/api/admin/checklist-templates', requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await storage.getChecklistTemplates());
+    } catch (error) {
+      console.error('Error retrieving checklist templates:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.post('/api/admin/checklist-templates', requireRole('admin'), async (req, res) => {
+    try {
+      const data = checklistTemplateInputSchema.parse(req.body);
+      const template = await storage.createChecklistTemplate({ ...data, description: data.description || null });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error creating checklist template:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Changes only affect checklists created afterwards
+  app.patch('/api/admin/checklist-templates/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const update = checklistTemplateUpdateSchema.parse(req.body);
+      const template = await storage.updateChecklistTemplate(parseInt(req.params.id), {
+        ...update,
+        ...(update.description !== undefined && { description: update.description || null }),
+      });
+      
+      if (!template) {
+        return res.status(404).json({ message: 'Checklist template not found' });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error updating checklist template:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  app.delete('/api/admin/checklist-templates/:id', requireRole('admin'), async (req, res) => {
+    try {
+      if (!(await storage.deleteChecklistTemplate(parseInt(req.params.id)))) {
+        return res.status(404).json({ message: 'Checklist template not found' });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting checklist template:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Quote volume, average prices and how many quotes get saved
+  app.get('/api/admin/metrics', requireRole('admin'), async (req, res) => {
+    try {
+      const params = adminMetricsQuerySchema.parse(req.query);
+      res.json(await summarizeEstimateMetrics(params.days));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving estimate metrics:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Send due reminders now rather than waiting for the scheduler
+  app.post('/api/admin/reminders/run', requireRole('admin'), async (req, res) => {
+    try {
+      res.json(await runReminders());
+    } catch (error) {
+      console.error('Error sending reminders:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Change an account's role, or the company a mover acts for
+  app.patch('/api/admin/users/:id', requireRole('admin'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const update = userAdminUpdateSchema.parse(req.body);
+      
+      if (userId === req.user!.id && update.role && update.role !== 'admin') {
+        return res.status(400).json({ message: "You can't remove your own admin role" });
+      }
+      
+      if (update.companyId && !(await storage.getMovingCompany(update.companyId))) {
+        return res.status(404).json({ message: 'Moving company not found' });
+      }
+      
+      const user = await storage.updateUser(userId, update);
+      
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      
+      const { password, ...account } = user;
+      res.json(account);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error updating user:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+
+  // Quote request API endpoints
+  
+  // Turn a saved estimate into a draft quote request
+  app.post('/api/quote-requests', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const submission = quoteRequestSubmissionSchema.parse(req.body);
+      const estimate = await storage.getMoveEstimate(submission.estimateId);
+      
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
+      
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
+      
+      await validateQuoteCompanies(submission.companyIds ?? [], submission.tier);
+      const request = await storage.createQuoteRequest({
+        ...submission,
+        userId: req.user!.id,
+        status: 'draft'
+      });
+      
+      res.status(201).json(await toQuoteRequestDetail(request));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof QuoteRequestError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuoteStateError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error creating quote request:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // The current user's quote requests with their bids
+  app.get('/api/quote-requests', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const requests = await storage.getUserQuoteRequests(req.user!.id);
+      const details = [];
+      for (const request of requests) {
+        const detail = await toQuoteRequestDetail(await refreshQuoteExpiry(request));
+        if (detail) details.push(detail);
+      }
+      res.json(details);
+    } catch (error) {
+      console.error('Error retrieving quote requests:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.get('/api/quote-requests/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      if (!request) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      if (request.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this quote request' });
+      }
+      
+      const detail = await toQuoteRequestDetail(await refreshQuoteExpiry(request));
+      
+      if (!detail) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      res.json(detail);
+    } catch (error) {
+      console.error('Error retrieving quote request:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Change the service level, companies or notes of a draft
+  app.patch('/api/quote-requests/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      if (!request) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      if (request.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this quote request' });
+      }
+      
+      if (request.status !== 'draft') {
+        throw new QuoteStateError('Only draft quote requests can be edited');
+      }
+      
+      const update = quoteRequestUpdateSchema.parse(req.body);
+      await validateQuoteCompanies(update.companyIds ?? request.companyIds, update.tier ?? request.tier as CompanyTier);
+      const updated = await storage.updateQuoteRequest(request.id, update);
+      res.json(await toQuoteRequestDetail(updated ?? request));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof QuoteRequestError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuoteStateError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error updating quote request:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Send a draft to the chosen companies
+  app.post('/api/quote-requests/:id/send', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      if (!request) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      if (request.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this quote request' });
+      }
+      
+      const sent = await sendQuoteRequest(request);
+      res.json(await toQuoteRequestDetail(sent));
+    } catch (error) {
+      if (error instanceof QuoteRequestError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuoteStateError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error sending quote request:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Accept one company's bid; the others are declined
+  app.post('/api/quote-requests/:id/bids/:bidId/accept', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      if (!request) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      if (request.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this quote request' });
+      }
+      
+      const accepted = await acceptBid(await refreshQuoteExpiry(request), parseInt(req.params.bidId));
+      res.json(await toQuoteRequestDetail(accepted));
+    } catch (error) {
+      if (error instanceof QuoteRequestError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuoteStateError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error accepting bid:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Decline all bids and close the request
+  app.post('/api/quote-requests/:id/decline', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      if (!request) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      if (request.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this quote request' });
+      }
+      
+      const declined = await declineQuoteRequest(await refreshQuoteExpiry(request));
+      res.json(await toQuoteRequestDetail(declined));
+    } catch (error) {
+      if (error instanceof QuoteRequestError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuoteStateError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error declining quote request:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Mover inbox: requests sent to the signed-in mover's company, newest first
+  app.get('/api/mover/quote-requests', requireRole('mover'), async (req, res) => {
+    if (!req.user!.companyId) {
+      return res.status(403).json({ message: 'Register your company to receive quote requests' });
+    }
+    
+    try {
+      const companyId = req.user!.companyId!;
+      const requests = await storage.getCompanyQuoteRequests(companyId);
+      const inbox = [];
+      for (const request of requests) {
+        const item = await toMoverQuoteRequest(await refreshQuoteExpiry(request), companyId);
+        if (item) inbox.push(item);
+      }
+      res.json(inbox);
+    } catch (error) {
+      console.error('Error retrieving quote inbox:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.get('/api/mover/quote-requests/:id', requireRole('mover'), async (req, res) => {
+    if (!req.user!.companyId) {
+      return res.status(403).json({ message: 'Register your company to receive quote requests' });
+    }
+    
+    try {
+      const companyId = req.user!.companyId!;
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      // Companies only see requests sent to them
+      if (!request || request.status === 'draft' || !request.companyIds.includes(companyId)) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      const item = await toMoverQuoteRequest(await refreshQuoteExpiry(request), companyId);
+      
+      if (!item) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      res.json(item);
+    } catch (error) {
+      console.error('Error retrieving quote request:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Submit or revise the company's bid on a request
+  app.put('/api/mover/quote-requests/:id/bid', requireRole('mover'), async (req, res) => {
+    if (!req.user!.companyId) {
+      return res.status(403).json({ message: 'Register your company to receive quote requests' });
+    }
+    
+    try {
+      const companyId = req.user!.companyId!;
+      const request = await storage.getQuoteRequest(parseInt(req.params.id));
+      
+      // Companies only see requests sent to them
+      if (!request || request.status === 'draft' || !request.companyIds.includes(companyId)) {
+        return res.status(404).json({ message: 'Quote request not found' });
+      }
+      
+      const submission = bidSubmissionSchema.parse(req.body);
+      const bid = await submitBid(await refreshQuoteExpiry(request), companyId, req.user!.id, submission);
+      res.json(bid);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof QuoteRequestError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof QuoteStateError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error submitting bid:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+
+  // Account data API endpoints
+  
+  // Download everything the user has saved as a zip of CSV and JSON files
+  app.get('/api/account/export', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const archive = await exportAccountData(req.user!);
+      const date = new Date().toISOString().slice(0, 10);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="move-ease-export-${date}.zip"`);
+      res.send(Buffer.from(archive));
+    } catch (error) {
+      console.error('Error exporting account data:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Restore an export into the current account, which must not have any data yet;
+  // the body is the zip itself
+  app.post('/api/account/import', express.raw({ type: ['application/zip', 'application/octet-stream'], limit: '10mb' }), async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: 'Upload the zip file you exported' });
+    }
+    
+    try {
+      const summary = await importAccountData(req.user!.id, new Uint8Array(req.body));
+      res.status(201).json(summary);
+    } catch (error) {
+      if (error instanceof ImportValidationError) {
+        res.status(400).json({ message: error.message, errors: error.errors });
+      } else if (error instanceof AccountNotEmptyError) {
+        res.status(409).json({ message: error.message });
+      } else {
+        console.error('Error importing account data:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Checklist API endpoints
+  
+  // Create a new moving checklist
+  app.post('/api/checklists', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const userId = req.user!.id;
+      
+      // Validate request data
+      const validatedData = checklistCreationSchema.parse(req.body);
+      
+      // Make sure we have all required fields
+      if (!validatedData.moveDate) {
+        return res.status(400).json({ message: 'Move date is required' });
+      }
+      
+      // The linked estimate decides which move-specific tasks are included
+      const estimate = validatedData.estimateId ? await storage.getMoveEstimate(validatedData.estimateId) : undefined;
+      if (validatedData.estimateId && !estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
+      if (estimate && estimate.userId !== userId) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
+      
+      // Add the user ID to the checklist
+      const checklistWithUser = {
+        moveDate: validatedData.moveDate,
+        estimateId: validatedData.estimateId || null,
+        tier: validatedData.tier || null,
+        userId
+      };
+      
+      const checklist = await storage.createMoveChecklist(checklistWithUser);
+      
+      // Generate initial checklist items from the templates that fit this move
+      const items = await buildChecklistItems(checklist, estimate);
+      await checkAchievements(userId);
+      
+      res.status(201).json({
+        checklist,
+        items
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error creating checklist:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Get the current user's checklists and the ones shared with them
+  app.get('/api/checklists', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklists = await getAccessibleChecklists(req.user!.id);
+      res.json(checklists);
+    } catch (error) {
+      console.error('Error retrieving checklists:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Get a specific checklist with its items
+  app.get('/api/checklists/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklistId = parseInt(req.params.id);
+      const checklist = await storage.getMoveChecklist(checklistId);
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      // The owner and anyone it's shared with can see it
+      const access = await getChecklistAccess(checklist, req.user!.id);
+      if (!canAccessChecklist(access, 'view')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      const items = await ensureDueDates(checklist);
+      
+      res.json({
+        checklist,
+        items,
+        access
+      });
+    } catch (error) {
+      console.error('Error retrieving checklist:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Change a checklist's move date; every task's due date moves with it
+  app.patch('/api/checklists/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      // The move date is the owner's, like the estimate it may be linked to
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'manage')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      const { moveDate } = checklistRescheduleSchema.parse(req.body);
+      const updated = await rescheduleChecklist(checklist, moveDate);
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'checklist.updated', checklist: updated });
+      
+      res.json({
+        checklist: updated,
+        items: await storage.getChecklistItems(checklist.id)
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error rescheduling checklist:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Get a checklist for a specific estimate
+  app.get('/api/estimates/:id/checklist', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const estimateId = parseInt(req.params.id);
+      const checklist = await storage.getChecklistByEstimate(estimateId);
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'No checklist found for this estimate' });
+      }
+      
+      const access = await getChecklistAccess(checklist, req.user!.id);
+      if (!canAccessChecklist(access, 'view')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      const items = await ensureDueDates(checklist);
+      
+      res.json({
+        checklist,
+        items,
+        access
+      });
+    } catch (error) {
+      console.error('Error retrieving estimate checklist:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Add a task of the user's own to a checklist, at the end of the list
+  app.post('/api/checklists/:id/items', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      // Viewers can see the checklist but not change it
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'edit')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      const data = checklistItemInputSchema.parse(req.body);
+      const items = await storage.getChecklistItems(checklist.id);
+      const item = await storage.createChecklistItem({
+        ...data,
+        description: data.description || null,
+        checklistId: checklist.id,
+        completed: false,
+        custom: true,
+        position: items.reduce((last, existing) => Math.max(last, existing.position + 1), 0),
+        dueDate: checklistDueDate(checklist.moveDate, data.timeframe),
+      });
+      
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'item.created', item });
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error creating checklist item:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Put a checklist's items in a new order
+  app.put('/api/checklists/:id/items/order', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'edit')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      const { itemIds } = checklistItemOrderSchema.parse(req.body);
+      const items = await storage.getChecklistItems(checklist.id);
+      
+      // A partial order would leave the missing items' positions ambiguous
+      const sameItems = itemIds.length === items.length && new Set(itemIds).size === items.length &&
+        items.every(item => itemIds.includes(item.id));
+      if (!sameItems) {
+        return res.status(400).json({ message: 'The order must list every item of the checklist once' });
+      }
+      
+      const reordered = await storage.reorderChecklistItems(checklist.id, itemIds);
+      for (const item of reordered) {
+        if (item.position !== items.find(existing => existing.id === item.id)!.position) {
+          publishChecklistEvent(checklist.id, req.user!.id, { type: 'item.updated', item });
+        }
+      }
+      
+      res.json(reordered);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error reordering checklist items:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Everyone who can see a checklist: its owner and the members it's shared with
+  app.get('/api/checklists/:id/members', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'view')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      res.json(await getChecklistCollaborators(checklist));
+    } catch (error) {
+      console.error('Error retrieving checklist members:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Share a checklist with another user by their username
+  app.post('/api/checklists/:id/members', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'manage')) {
+        return res.status(403).json({ message: 'Only the owner can share this checklist' });
+      }
+      
+      const { username, role } = checklistInvitationSchema.parse(req.body);
+      const member = await inviteChecklistMember(checklist, req.user!.id, username, role);
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'checklist.updated', checklist });
+      res.status(201).json(member);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof ChecklistMemberError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        console.error('Error inviting checklist member:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Make a member a viewer or an editor
+  app.patch('/api/checklists/:id/members/:userId', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'manage')) {
+        return res.status(403).json({ message: 'Only the owner can change who this checklist is shared with' });
+      }
+      
+      const { role } = checklistMemberUpdateSchema.parse(req.body);
+      const member = await changeChecklistMemberRole(checklist, parseInt(req.params.userId), role);
+      
+      if (!member) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      
+      // Viewers lose their assignments, so everyone reloads
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'checklist.updated', checklist });
+      res.json(member);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error updating checklist member:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Stop sharing a checklist with a member; members can also remove themselves
+  app.delete('/api/checklists/:id/members/:userId', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      const userId = parseInt(req.params.userId);
+      const access = await getChecklistAccess(checklist, req.user!.id);
+      if (!canAccessChecklist(access, 'manage') && !(access !== null && userId === req.user!.id)) {
+        return res.status(403).json({ message: 'Only the owner can change who this checklist is shared with' });
+      }
+      
+      if (!(await removeChecklistMember(checklist, userId))) {
+        return res.status(404).json({ message: 'Member not found' });
+      }
+      
+      closeChecklistConnections(checklist.id, userId);
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'checklist.updated', checklist });
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error removing checklist member:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // A checklist's tasks as an iCalendar file to import into a calendar app
+  app.get('/api/checklists/:id/calendar', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const checklist = await storage.getMoveChecklist(parseInt(req.params.id));
+      
+      if (!checklist) {
+        return res.status(404).json({ message: 'Checklist not found' });
+      }
+      
+      if (!canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'view')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="moving-checklist-${checklist.id}.ics"`);
+      res.send(await renderChecklistCalendar(checklist));
+    } catch (error) {
+      console.error('Error exporting checklist calendar:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // The secret address calendar apps can subscribe to for all of the user's checklists
+  app.get('/api/calendar/subscription', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json(toCalendarSubscription(await getCalendarFeed(req.user!.id)));
+    } catch (error) {
+      console.error('Error retrieving calendar subscription:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Replace the address, e.g. after sharing it by mistake; the old one stops working
+  app.post('/api/calendar/subscription/reset', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json(toCalendarSubscription(await resetCalendarFeed(req.user!.id)));
+    } catch (error) {
+      console.error('Error resetting calendar subscription:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // The subscribed calendar itself; calendar apps can't log in, so the token is the credential
+  app.get('/api/calendar/:token.ics', async (req, res) => {
+    try {
+      const calendar = await renderCalendarFeed(req.params.token);
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.send(calendar);
+    } catch (error) {
+      if (error instanceof CalendarFeedNotFoundError) {
+        res.status(404).json({ message: error.message });
+      } else {
+        console.error('Error rendering calendar feed:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // How and when the user gets reminders
+  app.get('/api/notification-preferences', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json(await getNotificationPreferences(req.user!.id));
+    } catch (error) {
+      console.error('Error retrieving notification preferences:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.put('/api/notification-preferences', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const preferences = notificationPreferencesInputSchema.parse(req.body);
+      if (preferences.webhookUrl) {
+        await checkWebhookUrl(preferences.webhookUrl);
+      }
+      await storage.saveNotificationPreferences(req.user!.id, preferences);
+      await checkAchievements(req.user!.id);
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof WebhookAddressError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        console.error('Error saving notification preferences:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // The notification center: the user's latest notifications and how many are unread
+  app.get('/api/notifications', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const { unread, limit } = notificationListQuerySchema.parse(req.query);
+      const list: NotificationList = {
+        notifications: await storage.getNotifications({ userId: req.user!.id, unread, limit }),
+        unreadCount: await storage.countUnreadNotifications(req.user!.id),
+      };
+      res.json(list);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving notifications:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Cheap enough for the header to poll
+  app.get('/api/notifications/unread-count', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json({ count: await storage.countUnreadNotifications(req.user!.id) });
+    } catch (error) {
+      console.error('Error counting notifications:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.post('/api/notifications/read-all', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json({ updated: await storage.markAllNotificationsRead(req.user!.id) });
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  app.post('/api/notifications/:id/read', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const notification = await storage.getNotification(parseInt(req.params.id));
+      
+      if (!notification) {
+        return res.status(404).json({ message: 'Notification not found' });
+      }
+      
+      if (notification.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this notification' });
+      }
+      
+      res.json(await storage.markNotificationRead(notification.id));
+    } catch (error) {
+      console.error('Error marking notification read:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Open tasks due soon, or already overdue, across all of the user's checklists
+  app.get('/api/checklist-items/upcoming', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const { days, today } = upcomingChecklistItemsQuerySchema.parse(req.query);
+      res.json(await getUpcomingTasks(req.user!.id, days, today));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error retrieving upcoming checklist items:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Edit a checklist item or mark it complete/incomplete
+  app.patch('/api/checklist-items/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const item = await storage.getChecklistItem(parseInt(req.params.id));
+      
+      if (!item) {
+        return res.status(404).json({ message: 'Checklist item not found' });
+      }
+      
+      // Anyone who can edit the item's checklist can change it or tick it off
+      const checklist = await storage.getMoveChecklist(item.checklistId);
+      if (!checklist || !canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'edit')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      const update = checklistItemUpdateSchema.parse(req.body);
+      if (update.assignedTo) {
+        await assertAssignable(checklist, update.assignedTo);
+      }
+      
+      const updatedItem = await storage.updateChecklistItem(item.id, {
+        ...update,
+        ...(update.description !== undefined && { description: update.description || null }),
+        ...(update.timeframe !== undefined && { dueDate: checklistDueDate(checklist.moveDate, update.timeframe) }),
+        // Record who ticked the task off, and when
+        ...(update.completed !== undefined && update.completed !== item.completed && {
+          completedBy: update.completed ? req.user!.id : null,
+          completedAt: update.completed ? new Date().toISOString() : null,
+        }),
+      });
+      
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'item.updated', item: updatedItem! });
+      if (update.completed && !item.completed) {
+        await checkAchievements(req.user!.id);
+      }
+      res.json(updatedItem);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else if (error instanceof ChecklistMemberError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        console.error('Error updating checklist item:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Remove a checklist item
+  app.delete('/api/checklist-items/:id', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const item = await storage.getChecklistItem(parseInt(req.params.id));
+      
+      if (!item) {
+        return res.status(404).json({ message: 'Checklist item not found' });
+      }
+      
+      const checklist = await storage.getMoveChecklist(item.checklistId);
+      if (!checklist || !canAccessChecklist(await getChecklistAccess(checklist, req.user!.id), 'edit')) {
+        return res.status(403).json({ message: 'Unauthorized access to this checklist' });
+      }
+      
+      await storage.deleteChecklistItem(item.id);
+      publishChecklistEvent(checklist.id, req.user!.id, { type: 'item.deleted', itemId: item.id });
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error deleting checklist item:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Pricing API endpoints
+  
+  // List all pricing versions, newest first. The rate tables are internal, so only admins see them.
+  app.get('/api/pricing/versions', requireRole('admin'), async (req, res) => {
+    try {
+      const versions = await storage.getPricingVersions();
+      res.json(versions);
+    } catch (error) {
+      console.error('Error retrieving pricing versions:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Publish new rates; they only apply to new quotes once activated
+  app.post('/api/pricing/versions', requireRole('admin'), async (req, res) => {
+    try {
+      const { active, ...validatedData } = insertPricingVersionSchema.parse(req.body);
+      
+      if (await storage.getPricingVersion(validatedData.version)) {
+        return res.status(409).json({ message: `Pricing version ${validatedData.version} already exists` });
+      }
+      
+      const created = await storage.createPricingVersion({ ...validatedData, active: false });
+      const pricingVersion = active ? await storage.activatePricingVersion(created.version) : created;
+      res.status(201).json(pricingVersion);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error creating pricing version:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+  
+  // Make a version the one new quotes are priced with
+  app.post('/api/pricing/versions/:version/activate', requireRole('admin'), async (req, res) => {
+    try {
+      const pricingVersion = await storage.activatePricingVersion(req.params.version);
+      
+      if (!pricingVersion) {
+        return res.status(404).json({ message: 'Pricing version not found' });
+      }
+      
+      res.json(pricingVersion);
+    } catch (error) {
+      console.error('Error activating pricing version:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Reprice a saved estimate, by default with the version that originally produced it
+  app.get('/api/estimates/:id/reprice', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const estimateId = parseInt(req.params.id);
+      const estimate = await storage.getMoveEstimate(estimateId);
+      
+      if (!estimate) {
+        return res.status(404).json({ message: 'Estimate not found' });
+      }
+      
+      if (estimate.userId !== req.user!.id) {
+        return res.status(403).json({ message: 'Unauthorized access to this estimate' });
+      }
+      
+      const version = (req.query.version as string) || estimate.pricingVersion;
+      const input = parsePricingOptions(estimate);
+      
+      const inventory = estimate.estimateMode === 'inventory'
+        ? summarizeInventory(await storage.getEstimateInventory(estimate.id))
+        : undefined;
+      
+      const pricing = await priceMove({ distance: estimate.distance, moveDate: estimate.moveDate, inventory, ...input }, version);
+      
+      res.json({
+        estimateId: estimate.id,
+        pricingVersion: pricing.version,
+        costs: pricing.costs,
+        breakdown: pricing.breakdown,
+        adjustments: pricing.adjustments,
+      });
+    } catch (error) {
+      if (error instanceof PricingVersionNotFoundError) {
+        res.status(404).json({ message: error.message });
+      } else if (error instanceof InvalidPricingInputError) {
+        res.status(422).json({ message: error.message });
+      } else {
+        console.error('Error repricing estimate:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+
+  // Moving cost heatmap API endpoint
+  app.get('/api/moving-costs-map', async (req, res) => {
+    try {
+      const origin = req.query.origin as string || 'New York, NY';
+      const homeSize = moveCalculationRequestSchema.shape.homeSize
+        .catch('2bedroom')
+        .parse(req.query.homeSize);
+      
+      // Generate the state-by-state cost data
+      const costData = await generateStateMovingCosts(origin, homeSize);
+      
+      res.json(costData);
+    } catch (error) {
+      console.error('Error generating moving costs map data:', error);
+      res.status(500).json({ message: 'Error generating moving costs map data' });
+    }
+  });
+
+  // User progress API endpoints for gamification. Points and achievements are
+  // only ever awarded by the server.
+  
+  // Get user progress
+  app.get('/api/user-progress', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json(await getProgress(req.user!.id));
+    } catch (error) {
+      console.error('Error retrieving user progress:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Every achievement, with how close the user is to each
+  app.get('/api/achievements', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json(await getAchievements(req.user!.id));
+    } catch (error) {
+      console.error('Error retrieving achievements:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Count today's visit towards the user's streak
+  app.post('/api/user-progress/check-in', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      res.json(await checkIn(req.user!.id));
+    } catch (error) {
+      console.error('Error checking in:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+  
+  // Points for finishing a stress relief activity, up to a daily limit
+  app.post('/api/user-progress/activities', async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: 'Not authenticated' });
+    }
+    
+    try {
+      const { activity } = progressActivitySchema.parse(req.body);
+      res.json(await recordActivity(req.user!.id, activity));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        const validationError = fromZodError(error);
+        res.status(400).json({ 
+          message: 'Validation error',
+          errors: validationError.details
+        });
+      } else {
+        console.error('Error recording activity:', error);
+        res.status(500).json({ message: 'Internal server error' });
+      }
+    }
+  });
+
+  const httpServer = createServer(app);
+  attachChecklistSync(httpServer);
+  return httpServer;
+}
+
+// Helper function to calculate moving costs
+async function calculateMovingCosts(
+  data: MoveCalculationRequest,
+  inventory: Omit<InsertEstimateInventoryItem, "estimateId">[]
+): Promise<MoveCalculationResponse> {
+  // Resolve both addresses against the bundled geo dataset and estimate road distance
+  const route = estimateRoute(data.origin, data.destination);
+  const distance = route.distance;
+  
+  // Price every tier with the active pricing version
+  const pricingVersion = await resolvePricingVersion();
+  const pricingInput = {
+    distance,
+    homeSize: data.homeSize,
+    additionalItems: data.additionalItems,
+    services: data.services,
+    moveDate: data.moveDate,
+    inventory: inventory.length > 0 ? summarizeInventory(inventory) : undefined,
+  };
+  const pricing = evaluatePricing(pricingInput, pricingVersion);
+  
+  // Versions without volume rates quote by home size even when given an inventory
+  const sizing = sizeMoveByVolume(pricingInput, pricingVersion.rates);
+  
+  // Look for a cheaper day within the customer's date flexibility
+  const { dateOptions, cheapestDate } = findCheapestMoveDate(pricingInput, data.flexibility, pricingVersion);
+  
+  // Recommend the best matching companies from the directory
+  const companies = await matchCompanies({
+    route,
+    moveDate: data.moveDate,
+    homeSize: data.homeSize,
+    costs: pricing.costs,
+  }, 4);
+
+  return {
+    distance,
+    distanceConfidence: route.confidence,
+    pricingVersion: pricing.version,
+    origin: data.origin,
+    destination: data.destination,
+    homeSize: data.homeSize,
+    moveDate: data.moveDate,
+    estimateMode: sizing ? 'inventory' : 'homeSize',
+    volume: sizing && pricingInput.inventory ? {
+      ...pricingInput.inventory,
+      truck: sizing.truck,
+      truckCount: sizing.truckCount,
+      laborHours: sizing.laborHours,
+    } : null,
+    costs: pricing.costs,
+    breakdown: pricing.breakdown,
+    dateOptions,
+    cheapestDate,
+    companies,
+  };
+}
 
-// Calculate distance between two geographic coordinates using Haversine formula
-function calculateGeoDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Radius of the Earth in km
-  const dLat = (lat2 - lat1) * (Math.PI / 180);
-  const dLon = (lon2 - lon1) * (Math.PI / 180);
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) * 
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const distance = R * c; // Distance in km
-  return distance;
+// Destination markets shown on the heatmap; coordinates come from the geo dataset
+const HEATMAP_MARKETS = [
+  { state: "New York, NY", code: "NY", popularity: 85 },
+  { state: "Los Angeles, CA", code: "CA", popularity: 90 },
+  { state: "Chicago, IL", code: "IL", popularity: 75 },
+  { state: "Houston, TX", code: "TX", popularity: 80 },
+  { state: "Phoenix, AZ", code: "AZ", popularity: 70 },
+  { state: "Philadelphia, PA", code: "PA", popularity: 65 },
+  { state: "San Antonio, TX", code: "TX2", popularity: 60 },
+  { state: "San Diego, CA", code: "CA2", popularity: 75 },
+  { state: "Dallas, TX", code: "TX3", popularity: 70 },
+  { state: "San Jose, CA", code: "CA3", popularity: 65 },
+  { state: "Austin, TX", code: "TX4", popularity: 85 },
+  { state: "Jacksonville, FL", code: "FL", popularity: 60 },
+  { state: "Columbus, OH", code: "OH", popularity: 55 },
+  { state: "Indianapolis, IN", code: "IN", popularity: 50 },
+  { state: "Charlotte, NC", code: "NC", popularity: 65 },
+  { state: "Seattle, WA", code: "WA", popularity: 75 },
+  { state: "Denver, CO", code: "CO", popularity: 75 },
+  { state: "Washington, DC", code: "DC", popularity: 70 },
+  { state: "Boston, MA", code: "MA", popularity: 65 },
+  { state: "Nashville, TN", code: "TN", popularity: 70 },
+  { state: "Atlanta, GA", code: "GA", popularity: 80 },
+  { state: "Miami, FL", code: "FL2", popularity: 85 },
+  { state: "Portland, OR", code: "OR", popularity: 65 },
+  { state: "Detroit, MI", code: "MI", popularity: 50 },
+  { state: "Minneapolis, MN", code: "MN", popularity: 55 },
+  { state: "Las Vegas, NV", code: "NV", popularity: 70 },
+  { state: "New Orleans, LA", code: "LA", popularity: 60 },
+  { state: "Cincinnati, OH", code: "OH2", popularity: 45 },
+  { state: "Kansas City, MO", code: "MO", popularity: 50 },
+  { state: "Salt Lake City, UT", code: "UT", popularity: 55 },
+  { state: "Pittsburgh, PA", code: "PA2", popularity: 50 },
+  { state: "Raleigh, NC", code: "NC2", popularity: 60 },
+  { state: "Baltimore, MD", code: "MD", popularity: 55 },
+  { state: "St. Louis, MO", code: "MO2", popularity: 45 },
+  { state: "Sacramento, CA", code: "CA4", popularity: 60 },
+  { state: "Tucson, AZ", code: "AZ2", popularity: 55 },
+  { state: "Omaha, NE", code: "NE", popularity: 45 },
+  { state: "Oklahoma City, OK", code: "OK", popularity: 50 },
+  { state: "Albuquerque, NM", code: "NM", popularity: 45 },
+  { state: "Memphis, TN", code: "TN2", popularity: 50 },
+  { state: "Louisville, KY", code: "KY", popularity: 45 },
+  { state: "Buffalo, NY", code: "NY2", popularity: 40 },
+  { state: "Richmond, VA", code: "VA", popularity: 50 },
+  { state: "Boise, ID", code: "ID", popularity: 55 },
+  { state: "Des Moines, IA", code: "IA", popularity: 40 },
+  { state: "Charleston, SC", code: "SC", popularity: 60 },
+  { state: "Jackson, MS", code: "MS", popularity: 40 },
+  { state: "Birmingham, AL", code: "AL", popularity: 45 },
+  { state: "Providence, RI", code: "RI", popularity: 50 },
+  { state: "Hartford, CT", code: "CT", popularity: 45 },
+  { state: "Concord, NH", code: "NH", popularity: 40 },
+  { state: "Burlington, VT", code: "VT", popularity: 40 },
+  { state: "Augusta, ME", code: "ME", popularity: 35 },
+  { state: "Honolulu, HI", code: "HI", popularity: 75 },
+  { state: "Anchorage, AK", code: "AK", popularity: 30 },
+];
+
+// Helper function to generate moving cost data for the heatmap
+async function generateStateMovingCosts(origin: string, homeSize: MoveCalculationRequest["homeSize"]) {
+  // Fall back to the first market if the requested origin can't be located
+  const originAddress = geocodeAddress(origin) ? origin : HEATMAP_MARKETS[0].state;
+  const pricingVersion = await resolvePricingVersion();
+  
+  return HEATMAP_MARKETS.map(market => {
+    // Use the same routing and pricing as quotes so the map matches the calculator
+    const route = estimateRoute(originAddress, market.state);
+    const { costs } = evaluatePricing(
+      { distance: route.distance, homeSize, additionalItems: "none", services: [] },
+      pricingVersion
+    );
+    
+    // Popularity decreases with distance but has a minimum value
+    const popularity = Math.max(20, market.popularity - (route.distance / 300));
+    
+    return {
+      state: market.state,
+      code: market.code,
+      coordinates: [route.destination.lon, route.destination.lat] as [number, number],
+      distance: route.distance,
+      hybridCost: costs.hybrid,
+      diyCost: costs.diy,
+      fullServiceCost: costs.fullService,
+      popularity
+    };
+  });
 }
 
-// Helper function to generate default checklist items for a new checklist
-async function generateDefaultChecklistItems(checklistId: number, moveDate: Date): Promise<void> {
-  // Calculate different time periods relative to move date
-  const eightWeeksBefore = new Date(moveDate);
-  eightWeeksBefore.setDate(moveDate.getDate() - 56);
-  
-  const fourWeeksBefore = new Date(moveDate);
-  fourWeeksBefore.setDate(moveDate.getDate() - 28);
-  
-  const twoWeeksBefore = new Date(moveDate);
-  twoWeeksBefore.setDate(moveDate.getDate() - 14);
-  
-  const oneWeekBefore = new Date(moveDate);
-  oneWeekBefore.setDate(moveDate.getDate() - 7);
-  
-  const oneWeekAfter = new Date(moveDate);
-  oneWeekAfter.setDate(moveDate.getDate() + 7);
-  
-  // Default checklist items
-  const checklistItems = [
-    // 8 weeks before (planning phase)
-    {
-      checklistId,
-      task: "Create a moving budget",
-      description: "Estimate all costs involved in your move including packing supplies, movers, transportation, etc.",
-      category: "planning",
-      timeframe: "8-weeks",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Research moving companies",
-      description: "Get quotes from at least 3 different moving companies for comparison.",
-      category: "planning",
-      timeframe: "8-weeks",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Create a home inventory",
-      description: "Document all your belongings and decide what to keep, sell, donate, or discard.",
-      category: "planning",
-      timeframe: "8-weeks",
-      completed: false
-    },
-    
-    // 4 weeks before (preparation phase)
-    {
-      checklistId,
-      task: "Start packing non-essential items",
-      description: "Begin with items you rarely use like seasonal decorations, books, and extra kitchen items.",
-      category: "packing",
-      timeframe: "4-weeks",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Notify important parties about your move",
-      description: "Update your address with banks, insurance companies, subscription services, etc.",
-      category: "admin",
-      timeframe: "4-weeks",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Schedule utility disconnection and connection",
-      description: "Arrange for utilities to be disconnected at your current home and connected at your new home.",
-      category: "admin",
-      timeframe: "4-weeks",
-      completed: false
-    },
-    
-    // 2 weeks before (action phase)
-    {
-      checklistId,
-      task: "Confirm moving arrangements",
-      description: "Verify date, time, and details with your moving company or rental truck service.",
-      category: "admin",
-      timeframe: "2-weeks",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Pack most of your belongings",
-      description: "Leave out only essential items that you'll need in the final days.",
-      category: "packing",
-      timeframe: "2-weeks",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Clean out the refrigerator and pantry",
-      description: "Use up perishable food items or plan to give them away before the move.",
-      category: "cleaning",
-      timeframe: "2-weeks",
-      completed: false
-    },
-    
-    // 1 week before (final prep)
-    {
-      checklistId,
-      task: "Pack an essentials box",
-      description: "Include items you'll need immediately upon arrival: toiletries, medications, change of clothes, basic kitchen supplies, etc.",
-      category: "packing",
-      timeframe: "1-week",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Disassemble furniture",
-      description: "Take apart larger furniture pieces that won't fit through doors or are easier to move disassembled.",
-      category: "packing",
-      timeframe: "1-week",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Confirm arrival time at new residence",
-      description: "Make sure you can access your new home when you arrive and that utilities are connected.",
-      category: "admin",
-      timeframe: "1-week",
-      completed: false
-    },
-    
-    // Moving day
-    {
-      checklistId,
-      task: "Conduct final walkthrough of old home",
-      description: "Check all rooms, closets, cabinets, and storage areas to ensure nothing is left behind.",
-      category: "moving-day",
-      timeframe: "moving-day",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Document condition of rental property",
-      description: "Take photos of your cleaned rental property to document its condition for your deposit return.",
-      category: "moving-day",
-      timeframe: "moving-day",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Supervise movers",
-      description: "Be available to answer questions and direct movers throughout the loading process.",
-      category: "moving-day",
-      timeframe: "moving-day",
-      completed: false
-    },
-    
-    // After the move
-    {
-      checklistId,
-      task: "Unpack essential items",
-      description: "Focus on setting up the kitchen, bathroom, and bedroom areas first.",
-      category: "unpacking",
-      timeframe: "after-move",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Update your address",
-      description: "File a change of address with the post office and update your driver's license.",
-      category: "admin",
-      timeframe: "after-move",
-      completed: false
-    },
-    {
-      checklistId,
-      task: "Meet your neighbors",
-      description: "Introduce yourself to neighbors and begin getting familiar with the neighborhood.",
-      category: "settling-in",
-      timeframe: "after-move",
-      completed: false
-    }
-  ];
-  
-  // Save each checklist item to storage
-  for (const item of checklistItems) {
-    await storage.createChecklistItem(item);
-  }
+// Subscription addresses are absolute, since they're pasted into other apps
+function toCalendarSubscription(feed: CalendarFeed): CalendarSubscription {
+  const url = `${APP_URL}/api/calendar/${feed.token}.ics`;
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, 'webcal:'),
+    createdAt: feed.createdAt
+  };
 }
@@ -0,0 +1,99 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { EstimateShare, MoveEstimate, SharedEstimate } from "@shared/schema";
+import { notifyUser } from "./notifications";
+import { storage } from "./storage";
+
+const SHARE_TOKEN_SECRET = process.env.SHARE_TOKEN_SECRET || process.env.SESSION_SECRET || "move-ease-secret-key";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Thrown when a token is malformed, forged or points at nothing
+export class ShareLinkNotFoundError extends Error {
+  constructor() {
+    super("Shared estimate not found");
+    this.name = "ShareLinkNotFoundError";
+  }
+}
+
+// Thrown when a link existed but has expired or been revoked
+export class ShareLinkExpiredError extends Error {
+  constructor() {
+    super("This link has expired or been revoked");
+    this.name = "ShareLinkExpiredError";
+  }
+}
+
+export async function createShareLink(estimate: MoveEstimate, userId: number, expiresInDays: number | null): Promise<EstimateShare> {
+  return storage.createEstimateShare({
+    estimateId: estimate.id,
+    userId,
+    token: signToken(randomBytes(18).toString("base64url")),
+    expiresAt: expiresInDays === null ? null : new Date(Date.now() + expiresInDays * DAY_MS).toISOString(),
+  });
+}
+
+export function isShareActive(share: EstimateShare, now = new Date()): boolean {
+  if (share.revokedAt) return false;
+  return share.expiresAt === null || new Date(share.expiresAt) > now;
+}
+
+// Resolve a token to what the public page shows, counting the visit
+export async function openSharedEstimate(token: string): Promise<SharedEstimate> {
+  if (!verifyToken(token)) throw new ShareLinkNotFoundError();
+
+  const share = await storage.getEstimateShareByToken(token);
+  if (!share) throw new ShareLinkNotFoundError();
+  if (!isShareActive(share)) throw new ShareLinkExpiredError();
+
+  const estimate = await storage.getMoveEstimate(share.estimateId);
+  if (!estimate) throw new ShareLinkNotFoundError();
+
+  await storage.recordEstimateShareView(share.id);
+  if (share.viewCount === 0) {
+    // Only the first visit; the link's view count tells the rest
+    await notifyUser(share.userId, {
+      type: "estimate-shared",
+      title: "Someone opened your shared estimate",
+      body: `Your estimate for ${estimate.origin} to ${estimate.destination} was viewed through its share link.`,
+      link: "/?tab=profile",
+    });
+  }
+  const inventory = await storage.getEstimateInventory(estimate.id);
+
+  return {
+    origin: estimate.origin,
+    destination: estimate.destination,
+    distance: estimate.distance,
+    homeSize: estimate.homeSize,
+    additionalItems: estimate.additionalItems,
+    moveDate: estimate.moveDate,
+    flexibility: estimate.flexibility,
+    services: estimate.services,
+    costDiy: estimate.costDiy,
+    costHybrid: estimate.costHybrid,
+    costFullService: estimate.costFullService,
+    pricingVersion: estimate.pricingVersion,
+    estimateMode: estimate.estimateMode,
+    createdAt: estimate.createdAt,
+    inventory: inventory.map(({ name, room, quantity }) => ({ name, room, quantity })),
+    expiresAt: share.expiresAt,
+  };
+}
+
+// Tokens are "<nonce>.<signature>" so forged ones never reach storage
+function signToken(nonce: string): string {
+  return `${nonce}.${signature(nonce)}`;
+}
+
+function verifyToken(token: string): boolean {
+  const [nonce, supplied, ...rest] = token.split(".");
+  if (!nonce || !supplied || rest.length > 0) return false;
+
+  const expected = Buffer.from(signature(nonce));
+  const actual = Buffer.from(supplied);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function signature(nonce: string): string {
+  return createHmac("sha256", SHARE_TOKEN_SECRET).update(nonce).digest("base64url");
+}
@@ -1,18 +1,97 @@
 import { 
-  users, movingEstimates, movingChecklists, checklistItems, userProgress,
+  users, movingEstimates, movingChecklists, checklistItems, checklistTemplates, userProgress, pricingVersions, estimateInventoryItems, estimateRevisions, estimateShares, calendarFeeds, checklistMembers,
+  notifications, notificationPreferences, sentReminders, pointAwards,
+  movingCompanies, companyCapacity, companyReviews, quoteRequests, quoteBids,
   type User, type InsertUser, 
   type MoveEstimate, type InsertMoveEstimate,
   type MoveChecklist, type InsertMoveChecklist,
   type ChecklistItem, type InsertChecklistItem,
-  type UserProgress, type InsertUserProgress
+  type ChecklistTemplate, type InsertChecklistTemplate,
+  type UserProgress, type InsertUserProgress,
+  type PricingVersion, type InsertPricingVersion,
+  type EstimateInventoryItem, type InsertEstimateInventoryItem,
+  type EstimateRevision, type InsertEstimateRevision,
+  type EstimateShare, type InsertEstimateShare,
+  type CalendarFeed,
+  type ChecklistMember, type InsertChecklistMember,
+  type Notification, type InsertNotification,
+  type NotificationPreferences, type NotificationPreferencesInput, type SentReminder,
+  type PointAward, type InsertPointAward,
+  type MovingCompany, type InsertMovingCompany,
+  type CompanyCapacity, type InsertCompanyCapacity,
+  type CompanyReview, type InsertCompanyReview, type ReviewStatus,
+  type QuoteRequest, type InsertQuoteRequest,
+  type QuoteBid, type InsertQuoteBid,
+  type UserRole, type SortOrder
 } from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import { eq, asc, desc, and, gte, lt, lte, ne, ilike, inArray, isNull, isNotNull, count, sql, type AnyColumn, type SQL } from "drizzle-orm";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 
 const MemoryStore = createMemoryStore(session);
 
+// Filters for listing reviews; results are newest first
+export interface ReviewQuery {
+  companyId?: number;
+  userId?: number;
+  estimateId?: number;
+  status?: ReviewStatus;
+  minOverall?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// Rating totals for reviews with the same rounded overall stars
+export interface ReviewStarTotals {
+  stars: 1 | 2 | 3 | 4 | 5;
+  count: number;
+  overall: number;
+  punctuality: number;
+  care: number;
+  priceAccuracy: number;
+}
+
+// Filters for the admin estimate table; newest first unless sorted otherwise
+export interface EstimateQuery {
+  userId?: number;
+  saved?: boolean; // Saved to an account rather than an anonymous quote
+  archived?: boolean;
+  homeSize?: string;
+  createdFrom?: string; // ISO timestamps; createdBefore is exclusive
+  createdBefore?: string;
+  sort?: "createdAt" | "distance" | "costDiy" | "costFullService";
+  order?: SortOrder;
+  limit?: number;
+  offset?: number;
+}
+
+// Filters for a user's notifications; results are newest first
+export interface NotificationQuery {
+  userId: number;
+  unread?: boolean;
+  limit?: number;
+}
+
+export interface UserQuery {
+  role?: UserRole;
+  search?: string; // Case-insensitive part of the username
+  sort?: "id" | "username";
+  order?: SortOrder;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ChecklistQuery {
+  userId?: number;
+  moveDateFrom?: string; // Inclusive yyyy-MM-dd
+  moveDateTo?: string;
+  sort?: "createdAt" | "moveDate";
+  order?: SortOrder;
+  limit?: number;
+  offset?: number;
+}
+
 // modify the interface with any CRUD methods
 // you might need
 
@@ -20,28 +99,134 @@ export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, user: Partial<Pick<User, "role" | "companyId">>): Promise<User | undefined>;
+  getUsers(query: UserQuery): Promise<User[]>;
+  countUsers(query: UserQuery): Promise<number>;
   
   // Moving estimate storage methods
   createMoveEstimate(estimate: InsertMoveEstimate): Promise<MoveEstimate>;
   getMoveEstimate(id: number): Promise<MoveEstimate | undefined>;
-  getAllMoveEstimates(): Promise<MoveEstimate[]>;
+  getMoveEstimates(query: EstimateQuery): Promise<MoveEstimate[]>;
+  countMoveEstimates(query: EstimateQuery): Promise<number>;
+  // Changes and deletes only apply to the owner's estimates; anything else is left alone
+  updateMoveEstimate(id: number, userId: number, estimate: Partial<InsertMoveEstimate>): Promise<MoveEstimate | undefined>;
+  // Also removes its inventory, history and share links, and detaches its checklist.
+  // Estimates with quote requests or reviews must be archived instead; see assertEstimateDeletable.
+  deleteMoveEstimate(id: number, userId: number): Promise<boolean>;
   getUserEstimates(userId: number): Promise<MoveEstimate[]>;
   
+  // Estimate inventory methods
+  getEstimateInventory(estimateId: number): Promise<EstimateInventoryItem[]>;
+  setEstimateInventory(estimateId: number, items: Omit<InsertEstimateInventoryItem, "estimateId">[]): Promise<EstimateInventoryItem[]>;
+  
+  // Estimate revision methods; revisions are only ever appended, oldest first
+  getEstimateRevisions(estimateId: number): Promise<EstimateRevision[]>;
+  createEstimateRevision(revision: InsertEstimateRevision): Promise<EstimateRevision>;
+  
+  // Estimate share link methods; lists are newest first
+  getEstimateShare(id: number): Promise<EstimateShare | undefined>;
+  getEstimateShareByToken(token: string): Promise<EstimateShare | undefined>;
+  getEstimateShares(estimateId: number): Promise<EstimateShare[]>;
+  createEstimateShare(share: InsertEstimateShare): Promise<EstimateShare>;
+  updateEstimateShare(id: number, share: Partial<InsertEstimateShare>): Promise<EstimateShare | undefined>;
+  recordEstimateShareView(id: number): Promise<EstimateShare | undefined>; // Counts one view
+  
   // Moving checklist methods
   createMoveChecklist(checklist: InsertMoveChecklist): Promise<MoveChecklist>;
   getMoveChecklist(id: number): Promise<MoveChecklist | undefined>;
   getUserChecklists(userId: number): Promise<MoveChecklist[]>;
   getChecklistByEstimate(estimateId: number): Promise<MoveChecklist | undefined>;
+  rescheduleMoveChecklist(id: number, moveDate: string, dueDates: Record<number, string | null>): Promise<MoveChecklist | undefined>; // dueDates is keyed by item id
+  getMoveChecklists(query: ChecklistQuery): Promise<MoveChecklist[]>;
+  countMoveChecklists(query: ChecklistQuery): Promise<number>;
   
-  // Checklist items methods
+  // Checklist items methods; items come back in the user's order
   createChecklistItem(item: InsertChecklistItem): Promise<ChecklistItem>;
+  getChecklistItem(id: number): Promise<ChecklistItem | undefined>;
   getChecklistItems(checklistId: number): Promise<ChecklistItem[]>;
-  updateChecklistItem(id: number, completed: boolean): Promise<ChecklistItem | undefined>;
+  updateChecklistItem(id: number, item: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined>;
+  deleteChecklistItem(id: number): Promise<boolean>;
+  reorderChecklistItems(checklistId: number, itemIds: number[]): Promise<ChecklistItem[]>; // itemIds lists every item of the checklist
+  getDueChecklistItems(checklistIds: number[], dueBy: string): Promise<ChecklistItem[]>; // Open items across the checklists due on or before dueBy, soonest first
+  
+  // Checklist member methods; members come back in the order they were invited
+  getChecklistMembers(checklistId: number): Promise<ChecklistMember[]>;
+  getChecklistMember(checklistId: number, userId: number): Promise<ChecklistMember | undefined>;
+  getSharedChecklists(userId: number): Promise<MoveChecklist[]>; // Checklists the user is a member of
+  createChecklistMember(member: InsertChecklistMember): Promise<ChecklistMember>;
+  updateChecklistMember(id: number, member: Partial<InsertChecklistMember>): Promise<ChecklistMember | undefined>;
+  deleteChecklistMember(id: number): Promise<boolean>;
+  
+  // Notification methods
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  saveNotificationPreferences(userId: number, preferences: NotificationPreferencesInput): Promise<NotificationPreferences>; // Creates or replaces them
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotifications(query: NotificationQuery): Promise<Notification[]>;
+  countUnreadNotifications(userId: number): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: number): Promise<Notification | undefined>; // Keeps the first time it was read
+  markAllNotificationsRead(userId: number): Promise<number>; // How many were unread
+  hasSentReminder(userId: number, key: string): Promise<boolean>;
+  recordSentReminder(userId: number, key: string): Promise<SentReminder>;
+  
+  // Checklist template methods; templates come back by timeframe position
+  getChecklistTemplates(): Promise<ChecklistTemplate[]>;
+  getChecklistTemplate(id: number): Promise<ChecklistTemplate | undefined>;
+  createChecklistTemplate(template: InsertChecklistTemplate): Promise<ChecklistTemplate>;
+  updateChecklistTemplate(id: number, template: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined>;
+  deleteChecklistTemplate(id: number): Promise<boolean>;
+  
+  // Calendar feed methods; a user has at most one feed
+  getCalendarFeed(userId: number): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  saveCalendarFeed(userId: number, token: string): Promise<CalendarFeed>; // Creates the feed or replaces its token
   
   // User progress methods for gamification
   getUserProgress(userId: number): Promise<UserProgress | undefined>;
   createUserProgress(progress: InsertUserProgress): Promise<UserProgress>;
   updateUserProgress(userId: number, progress: Partial<InsertUserProgress>): Promise<UserProgress | undefined>;
+  createPointAward(award: InsertPointAward): Promise<PointAward>;
+  getPointAwards(userId: number, reason?: string): Promise<PointAward[]>; // Oldest first
+  
+  // Pricing version methods
+  getPricingVersions(): Promise<PricingVersion[]>;
+  getPricingVersion(version: string): Promise<PricingVersion | undefined>;
+  getActivePricingVersion(): Promise<PricingVersion | undefined>;
+  createPricingVersion(pricingVersion: InsertPricingVersion): Promise<PricingVersion>;
+  activatePricingVersion(version: string): Promise<PricingVersion | undefined>; // Deactivates every other version
+  
+  // Moving company directory methods
+  getMovingCompanies(): Promise<MovingCompany[]>;
+  getMovingCompany(id: number): Promise<MovingCompany | undefined>;
+  createMovingCompany(company: InsertMovingCompany): Promise<MovingCompany>;
+  updateMovingCompany(id: number, company: Partial<InsertMovingCompany>): Promise<MovingCompany | undefined>;
+  deleteMovingCompany(id: number): Promise<boolean>;
+  
+  // Company capacity calendar methods; dates are inclusive yyyy-MM-dd strings
+  getCompanyCapacity(companyId: number, from: string, to: string): Promise<CompanyCapacity[]>;
+  setCompanyCapacity(capacity: InsertCompanyCapacity): Promise<CompanyCapacity>;
+  
+  // Company review methods
+  getCompanyReview(id: number): Promise<CompanyReview | undefined>;
+  getCompanyReviews(query: ReviewQuery): Promise<CompanyReview[]>;
+  countCompanyReviews(query: ReviewQuery): Promise<number>;
+  getReviewStarTotals(query: ReviewQuery): Promise<ReviewStarTotals[]>;
+  createCompanyReview(review: InsertCompanyReview): Promise<CompanyReview>;
+  updateCompanyReview(id: number, review: Partial<InsertCompanyReview>): Promise<CompanyReview | undefined>;
+  updateCompanyRating(companyId: number, rating: number, reviewCount: number): Promise<MovingCompany | undefined>;
+  
+  // Quote request methods; lists are newest first
+  getQuoteRequest(id: number): Promise<QuoteRequest | undefined>;
+  getUserQuoteRequests(userId: number): Promise<QuoteRequest[]>;
+  getCompanyQuoteRequests(companyId: number): Promise<QuoteRequest[]>; // Sent to the company; drafts are excluded
+  createQuoteRequest(request: InsertQuoteRequest): Promise<QuoteRequest>;
+  updateQuoteRequest(id: number, request: Partial<InsertQuoteRequest>): Promise<QuoteRequest | undefined>;
+  
+  // Quote bid methods
+  getQuoteBid(id: number): Promise<QuoteBid | undefined>;
+  getQuoteBids(quoteRequestId: number): Promise<QuoteBid[]>;
+  createQuoteBid(bid: InsertQuoteBid): Promise<QuoteBid>;
+  updateQuoteBid(id: number, bid: Partial<InsertQuoteBid>): Promise<QuoteBid | undefined>;
   
   // Session store for authentication
   sessionStore: session.Store;
@@ -53,12 +238,44 @@ export class MemStorage implements IStorage {
   private moveEstimates: Map<number, MoveEstimate>;
   private moveChecklists: Map<number, MoveChecklist>;
   private checklistItems: Map<number, ChecklistItem>;
+  private checklistTemplatesMap: Map<number, ChecklistTemplate>;
+  private calendarFeedsMap: Map<number, CalendarFeed>;
+  private checklistMembersMap: Map<number, ChecklistMember>;
+  private notificationsMap: Map<number, Notification>;
+  private notificationPreferencesMap: Map<number, NotificationPreferences>;
+  private sentRemindersMap: Map<number, SentReminder>;
+  private pointAwardsMap: Map<number, PointAward>;
   private userProgressMap: Map<number, UserProgress>;
+  private pricingVersionsMap: Map<number, PricingVersion>;
+  private estimateInventoryMap: Map<number, EstimateInventoryItem>;
+  private estimateRevisionsMap: Map<number, EstimateRevision>;
+  private estimateSharesMap: Map<number, EstimateShare>;
+  private movingCompaniesMap: Map<number, MovingCompany>;
+  private companyCapacityMap: Map<number, CompanyCapacity>;
+  private companyReviewsMap: Map<number, CompanyReview>;
+  private quoteRequestsMap: Map<number, QuoteRequest>;
+  private quoteBidsMap: Map<number, QuoteBid>;
   private currentUserId: number;
   private currentEstimateId: number;
   private currentChecklistId: number;
   private currentChecklistItemId: number;
+  private currentChecklistTemplateId: number;
+  private currentCalendarFeedId: number;
+  private currentChecklistMemberId: number;
+  private currentNotificationId: number;
+  private currentNotificationPreferencesId: number;
+  private currentSentReminderId: number;
+  private currentPointAwardId: number;
   private currentProgressId: number;
+  private currentPricingVersionId: number;
+  private currentInventoryItemId: number;
+  private currentRevisionId: number;
+  private currentShareId: number;
+  private currentCompanyId: number;
+  private currentCapacityId: number;
+  private currentReviewId: number;
+  private currentQuoteRequestId: number;
+  private currentQuoteBidId: number;
   public sessionStore: session.Store;
 
   constructor() {
@@ -66,12 +283,44 @@ export class MemStorage implements IStorage {
     this.moveEstimates = new Map();
     this.moveChecklists = new Map();
     this.checklistItems = new Map();
+    this.checklistTemplatesMap = new Map();
+    this.calendarFeedsMap = new Map();
+    this.checklistMembersMap = new Map();
+    this.notificationsMap = new Map();
+    this.notificationPreferencesMap = new Map();
+    this.sentRemindersMap = new Map();
+    this.pointAwardsMap = new Map();
     this.userProgressMap = new Map();
+    this.pricingVersionsMap = new Map();
+    this.estimateInventoryMap = new Map();
+    this.estimateRevisionsMap = new Map();
+    this.estimateSharesMap = new Map();
+    this.movingCompaniesMap = new Map();
+    this.companyCapacityMap = new Map();
+    this.companyReviewsMap = new Map();
+    this.quoteRequestsMap = new Map();
+    this.quoteBidsMap = new Map();
     this.currentUserId = 1;
     this.currentEstimateId = 1;
     this.currentChecklistId = 1;
     this.currentChecklistItemId = 1;
+    this.currentChecklistTemplateId = 1;
+    this.currentCalendarFeedId = 1;
+    this.currentChecklistMemberId = 1;
+    this.currentNotificationId = 1;
+    this.currentNotificationPreferencesId = 1;
+    this.currentSentReminderId = 1;
+    this.currentPointAwardId = 1;
     this.currentProgressId = 1;
+    this.currentPricingVersionId = 1;
+    this.currentInventoryItemId = 1;
+    this.currentRevisionId = 1;
+    this.currentShareId = 1;
+    this.currentCompanyId = 1;
+    this.currentCapacityId = 1;
+    this.currentReviewId = 1;
+    this.currentQuoteRequestId = 1;
+    this.currentQuoteBidId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // prune expired entries every 24h
     });
@@ -89,11 +338,44 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    // Only take known fields; company membership is never set at sign-up
+    const user: User = {
+      username: insertUser.username,
+      password: insertUser.password,
+      role: insertUser.role || "customer",
+      companyId: null,
+      id
+    };
     this.users.set(id, user);
     return user;
   }
   
+  async updateUser(id: number, userUpdate: Partial<Pick<User, "role" | "companyId">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, ...userUpdate };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
+  async getUsers(query: UserQuery): Promise<User[]> {
+    const users = sortRecords(this.filterUsers(query), query.sort ?? "id", query.order);
+    return paginateRecords(users, query);
+  }
+  
+  async countUsers(query: UserQuery): Promise<number> {
+    return this.filterUsers(query).length;
+  }
+  
+  private filterUsers(query: UserQuery): User[] {
+    const search = query.search?.toLowerCase();
+    return Array.from(this.users.values()).filter(user =>
+      (query.role === undefined || user.role === query.role) &&
+      (!search || user.username.toLowerCase().includes(search))
+    );
+  }
+  
   async createMoveEstimate(insertEstimate: InsertMoveEstimate): Promise<MoveEstimate> {
     const id = this.currentEstimateId++;
     const now = new Date().toISOString();
@@ -105,6 +387,9 @@ export class MemStorage implements IStorage {
       additionalItems: insertEstimate.additionalItems || null,
       flexibility: insertEstimate.flexibility || null,
       services: Array.isArray(insertEstimate.services) ? insertEstimate.services : [],
+      pricingVersion: insertEstimate.pricingVersion || null,
+      estimateMode: insertEstimate.estimateMode || "homeSize",
+      archivedAt: insertEstimate.archivedAt || null,
       id, 
       createdAt: now 
     };
@@ -117,8 +402,24 @@ export class MemStorage implements IStorage {
     return this.moveEstimates.get(id);
   }
   
-  async getAllMoveEstimates(): Promise<MoveEstimate[]> {
-    return Array.from(this.moveEstimates.values());
+  async getMoveEstimates(query: EstimateQuery): Promise<MoveEstimate[]> {
+    const estimates = sortRecords(this.filterEstimates(query), query.sort ?? "createdAt", query.order);
+    return paginateRecords(estimates, query);
+  }
+  
+  async countMoveEstimates(query: EstimateQuery): Promise<number> {
+    return this.filterEstimates(query).length;
+  }
+  
+  private filterEstimates(query: EstimateQuery): MoveEstimate[] {
+    return Array.from(this.moveEstimates.values()).filter(estimate =>
+      (query.userId === undefined || estimate.userId === query.userId) &&
+      (query.saved === undefined || (estimate.userId !== null) === query.saved) &&
+      (query.archived === undefined || (estimate.archivedAt !== null) === query.archived) &&
+      (query.homeSize === undefined || estimate.homeSize === query.homeSize) &&
+      (query.createdFrom === undefined || estimate.createdAt >= query.createdFrom) &&
+      (query.createdBefore === undefined || estimate.createdAt < query.createdBefore)
+    );
   }
   
   async getUserEstimates(userId: number): Promise<MoveEstimate[]> {
@@ -126,6 +427,127 @@ export class MemStorage implements IStorage {
       .filter(estimate => estimate.userId === userId);
   }
   
+  async updateMoveEstimate(id: number, userId: number, estimateUpdate: Partial<InsertMoveEstimate>): Promise<MoveEstimate | undefined> {
+    const estimate = this.moveEstimates.get(id);
+    if (!estimate || estimate.userId !== userId) return undefined;
+    
+    const updatedEstimate: MoveEstimate = { ...estimate, ...estimateUpdate, id, userId };
+    this.moveEstimates.set(id, updatedEstimate);
+    return updatedEstimate;
+  }
+  
+  async deleteMoveEstimate(id: number, userId: number): Promise<boolean> {
+    const estimate = this.moveEstimates.get(id);
+    if (!estimate || estimate.userId !== userId) return false;
+    
+    await this.setEstimateInventory(id, []);
+    for (const revision of await this.getEstimateRevisions(id)) {
+      this.estimateRevisionsMap.delete(revision.id);
+    }
+    for (const share of await this.getEstimateShares(id)) {
+      this.estimateSharesMap.delete(share.id);
+    }
+    for (const checklist of Array.from(this.moveChecklists.values())) {
+      if (checklist.estimateId === id) {
+        this.moveChecklists.set(checklist.id, { ...checklist, estimateId: null });
+      }
+    }
+    return this.moveEstimates.delete(id);
+  }
+  
+  // Estimate inventory methods
+  async getEstimateInventory(estimateId: number): Promise<EstimateInventoryItem[]> {
+    return Array.from(this.estimateInventoryMap.values())
+      .filter(item => item.estimateId === estimateId);
+  }
+  
+  async setEstimateInventory(estimateId: number, items: Omit<InsertEstimateInventoryItem, "estimateId">[]): Promise<EstimateInventoryItem[]> {
+    // Replace whatever was saved before
+    for (const item of await this.getEstimateInventory(estimateId)) {
+      this.estimateInventoryMap.delete(item.id);
+    }
+    
+    return items.map(insertItem => {
+      const id = this.currentInventoryItemId++;
+      const item: EstimateInventoryItem = { ...insertItem, estimateId, id };
+      this.estimateInventoryMap.set(id, item);
+      return item;
+    });
+  }
+  
+  // Estimate revision methods
+  async getEstimateRevisions(estimateId: number): Promise<EstimateRevision[]> {
+    return Array.from(this.estimateRevisionsMap.values())
+      .filter(revision => revision.estimateId === estimateId)
+      .sort((a, b) => a.revision - b.revision);
+  }
+  
+  async createEstimateRevision(insertRevision: InsertEstimateRevision): Promise<EstimateRevision> {
+    const id = this.currentRevisionId++;
+    const now = new Date().toISOString();
+    
+    const revision: EstimateRevision = {
+      ...insertRevision,
+      pricingVersion: insertRevision.pricingVersion || null,
+      id,
+      createdAt: now
+    };
+    this.estimateRevisionsMap.set(id, revision);
+    return revision;
+  }
+  
+  // Estimate share link methods
+  async getEstimateShare(id: number): Promise<EstimateShare | undefined> {
+    return this.estimateSharesMap.get(id);
+  }
+  
+  async getEstimateShareByToken(token: string): Promise<EstimateShare | undefined> {
+    return Array.from(this.estimateSharesMap.values())
+      .find(share => share.token === token);
+  }
+  
+  async getEstimateShares(estimateId: number): Promise<EstimateShare[]> {
+    return Array.from(this.estimateSharesMap.values())
+      .filter(share => share.estimateId === estimateId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async createEstimateShare(insertShare: InsertEstimateShare): Promise<EstimateShare> {
+    const id = this.currentShareId++;
+    const now = new Date().toISOString();
+    
+    const share: EstimateShare = {
+      ...insertShare,
+      expiresAt: insertShare.expiresAt || null,
+      revokedAt: insertShare.revokedAt || null,
+      viewCount: insertShare.viewCount ?? 0,
+      lastViewedAt: insertShare.lastViewedAt || null,
+      id,
+      createdAt: now
+    };
+    this.estimateSharesMap.set(id, share);
+    return share;
+  }
+  
+  async updateEstimateShare(id: number, shareUpdate: Partial<InsertEstimateShare>): Promise<EstimateShare | undefined> {
+    const share = this.estimateSharesMap.get(id);
+    if (!share) return undefined;
+    
+    const updatedShare: EstimateShare = { ...share, ...shareUpdate };
+    this.estimateSharesMap.set(id, updatedShare);
+    return updatedShare;
+  }
+  
+  async recordEstimateShareView(id: number): Promise<EstimateShare | undefined> {
+    const share = this.estimateSharesMap.get(id);
+    if (!share) return undefined;
+    
+    return this.updateEstimateShare(id, {
+      viewCount: share.viewCount + 1,
+      lastViewedAt: new Date().toISOString(),
+    });
+  }
+  
   // Moving checklist methods
   async createMoveChecklist(insertChecklist: InsertMoveChecklist): Promise<MoveChecklist> {
     const id = this.currentChecklistId++;
@@ -136,6 +558,7 @@ export class MemStorage implements IStorage {
       ...insertChecklist,
       userId: insertChecklist.userId,
       estimateId: insertChecklist.estimateId || null,
+      tier: insertChecklist.tier || null,
       id,
       createdAt: now
     };
@@ -158,6 +581,37 @@ export class MemStorage implements IStorage {
       .find(checklist => checklist.estimateId === estimateId);
   }
   
+  async rescheduleMoveChecklist(id: number, moveDate: string, dueDates: Record<number, string | null>): Promise<MoveChecklist | undefined> {
+    const checklist = this.moveChecklists.get(id);
+    if (!checklist) return undefined;
+    
+    const updatedChecklist: MoveChecklist = { ...checklist, moveDate };
+    this.moveChecklists.set(id, updatedChecklist);
+    for (const item of Array.from(this.checklistItems.values())) {
+      if (item.checklistId === id && item.id in dueDates) {
+        this.checklistItems.set(item.id, { ...item, dueDate: dueDates[item.id] });
+      }
+    }
+    return updatedChecklist;
+  }
+  
+  async getMoveChecklists(query: ChecklistQuery): Promise<MoveChecklist[]> {
+    const checklists = sortRecords(this.filterChecklists(query), query.sort ?? "createdAt", query.order);
+    return paginateRecords(checklists, query);
+  }
+  
+  async countMoveChecklists(query: ChecklistQuery): Promise<number> {
+    return this.filterChecklists(query).length;
+  }
+  
+  private filterChecklists(query: ChecklistQuery): MoveChecklist[] {
+    return Array.from(this.moveChecklists.values()).filter(checklist =>
+      (query.userId === undefined || checklist.userId === query.userId) &&
+      (query.moveDateFrom === undefined || checklist.moveDate >= query.moveDateFrom) &&
+      (query.moveDateTo === undefined || checklist.moveDate <= query.moveDateTo)
+    );
+  }
+  
   // Checklist items methods
   async createChecklistItem(insertItem: InsertChecklistItem): Promise<ChecklistItem> {
     const id = this.currentChecklistItemId++;
@@ -168,6 +622,12 @@ export class MemStorage implements IStorage {
       ...insertItem,
       description: insertItem.description || null,
       completed: insertItem.completed !== undefined ? insertItem.completed : false,
+      position: insertItem.position ?? 0,
+      custom: insertItem.custom ?? false,
+      dueDate: insertItem.dueDate || null,
+      assignedTo: insertItem.assignedTo ?? null,
+      completedBy: insertItem.completedBy ?? null,
+      completedAt: insertItem.completedAt ?? null,
       id,
       createdAt: now
     };
@@ -176,23 +636,226 @@ export class MemStorage implements IStorage {
     return item;
   }
   
+  async getChecklistItem(id: number): Promise<ChecklistItem | undefined> {
+    return this.checklistItems.get(id);
+  }
+  
   async getChecklistItems(checklistId: number): Promise<ChecklistItem[]> {
     return Array.from(this.checklistItems.values())
-      .filter(item => item.checklistId === checklistId);
+      .filter(item => item.checklistId === checklistId)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
   }
   
-  async updateChecklistItem(id: number, completed: boolean): Promise<ChecklistItem | undefined> {
+  async updateChecklistItem(id: number, itemUpdate: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
     const item = this.checklistItems.get(id);
     if (!item) return undefined;
     
     const updatedItem: ChecklistItem = {
       ...item,
-      completed
+      ...itemUpdate
     };
     this.checklistItems.set(id, updatedItem);
     return updatedItem;
   }
   
+  async deleteChecklistItem(id: number): Promise<boolean> {
+    return this.checklistItems.delete(id);
+  }
+  
+  async reorderChecklistItems(checklistId: number, itemIds: number[]): Promise<ChecklistItem[]> {
+    itemIds.forEach((id, position) => {
+      const item = this.checklistItems.get(id);
+      if (item && item.checklistId === checklistId) {
+        this.checklistItems.set(id, { ...item, position });
+      }
+    });
+    return this.getChecklistItems(checklistId);
+  }
+  
+  async getDueChecklistItems(checklistIds: number[], dueBy: string): Promise<ChecklistItem[]> {
+    return Array.from(this.checklistItems.values())
+      .filter(item => checklistIds.includes(item.checklistId) && !item.completed && item.dueDate !== null && item.dueDate <= dueBy)
+      .sort((a, b) => a.dueDate!.localeCompare(b.dueDate!) || a.position - b.position || a.id - b.id);
+  }
+  
+  // Checklist template methods
+  async getChecklistTemplates(): Promise<ChecklistTemplate[]> {
+    return Array.from(this.checklistTemplatesMap.values())
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+  
+  async getChecklistTemplate(id: number): Promise<ChecklistTemplate | undefined> {
+    return this.checklistTemplatesMap.get(id);
+  }
+  
+  async createChecklistTemplate(insertTemplate: InsertChecklistTemplate): Promise<ChecklistTemplate> {
+    const id = this.currentChecklistTemplateId++;
+    const template: ChecklistTemplate = {
+      ...insertTemplate,
+      description: insertTemplate.description || null,
+      conditions: insertTemplate.conditions ?? {},
+      position: insertTemplate.position ?? 0,
+      active: insertTemplate.active ?? true,
+      id,
+      createdAt: new Date().toISOString()
+    };
+    this.checklistTemplatesMap.set(id, template);
+    return template;
+  }
+  
+  async updateChecklistTemplate(id: number, templateUpdate: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined> {
+    const template = this.checklistTemplatesMap.get(id);
+    if (!template) return undefined;
+    
+    const updatedTemplate: ChecklistTemplate = { ...template, ...templateUpdate };
+    this.checklistTemplatesMap.set(id, updatedTemplate);
+    return updatedTemplate;
+  }
+  
+  async deleteChecklistTemplate(id: number): Promise<boolean> {
+    return this.checklistTemplatesMap.delete(id);
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeed(userId: number): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeedsMap.values()).find(feed => feed.userId === userId);
+  }
+  
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeedsMap.values()).find(feed => feed.token === token);
+  }
+  
+  async saveCalendarFeed(userId: number, token: string): Promise<CalendarFeed> {
+    const existing = await this.getCalendarFeed(userId);
+    const feed: CalendarFeed = {
+      id: existing?.id ?? this.currentCalendarFeedId++,
+      userId,
+      token,
+      createdAt: new Date().toISOString()
+    };
+    this.calendarFeedsMap.set(feed.id, feed);
+    return feed;
+  }
+  
+  // Checklist member methods
+  async getChecklistMembers(checklistId: number): Promise<ChecklistMember[]> {
+    return Array.from(this.checklistMembersMap.values())
+      .filter(member => member.checklistId === checklistId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getChecklistMember(checklistId: number, userId: number): Promise<ChecklistMember | undefined> {
+    return Array.from(this.checklistMembersMap.values())
+      .find(member => member.checklistId === checklistId && member.userId === userId);
+  }
+  
+  async getSharedChecklists(userId: number): Promise<MoveChecklist[]> {
+    return Array.from(this.checklistMembersMap.values())
+      .filter(member => member.userId === userId)
+      .map(member => this.moveChecklists.get(member.checklistId))
+      .filter((checklist): checklist is MoveChecklist => checklist !== undefined);
+  }
+  
+  async createChecklistMember(insertMember: InsertChecklistMember): Promise<ChecklistMember> {
+    const id = this.currentChecklistMemberId++;
+    const member: ChecklistMember = {
+      ...insertMember,
+      id,
+      createdAt: new Date().toISOString()
+    };
+    this.checklistMembersMap.set(id, member);
+    return member;
+  }
+  
+  async updateChecklistMember(id: number, memberUpdate: Partial<InsertChecklistMember>): Promise<ChecklistMember | undefined> {
+    const member = this.checklistMembersMap.get(id);
+    if (!member) return undefined;
+    
+    const updatedMember: ChecklistMember = { ...member, ...memberUpdate };
+    this.checklistMembersMap.set(id, updatedMember);
+    return updatedMember;
+  }
+  
+  async deleteChecklistMember(id: number): Promise<boolean> {
+    return this.checklistMembersMap.delete(id);
+  }
+  
+  // Notification methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    return Array.from(this.notificationPreferencesMap.values()).find(preferences => preferences.userId === userId);
+  }
+  
+  async saveNotificationPreferences(userId: number, input: NotificationPreferencesInput): Promise<NotificationPreferences> {
+    const existing = await this.getNotificationPreferences(userId);
+    const preferences: NotificationPreferences = {
+      ...input,
+      id: existing?.id ?? this.currentNotificationPreferencesId++,
+      userId,
+      updatedAt: new Date().toISOString()
+    };
+    this.notificationPreferencesMap.set(preferences.id, preferences);
+    return preferences;
+  }
+  
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notificationsMap.get(id);
+  }
+  
+  async getNotifications(query: NotificationQuery): Promise<Notification[]> {
+    const notifications = Array.from(this.notificationsMap.values())
+      .filter(notification => notification.userId === query.userId)
+      .filter(notification => query.unread === undefined || (notification.readAt === null) === query.unread)
+      .sort((a, b) => b.id - a.id);
+    return query.limit !== undefined ? notifications.slice(0, query.limit) : notifications;
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    return (await this.getNotifications({ userId, unread: true })).length;
+  }
+  
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.currentNotificationId++;
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      body: insertNotification.body ?? null,
+      link: insertNotification.link ?? null,
+      readAt: null,
+      createdAt: new Date().toISOString()
+    };
+    this.notificationsMap.set(id, notification);
+    return notification;
+  }
+  
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    const notification = this.notificationsMap.get(id);
+    if (!notification) return undefined;
+    if (notification.readAt) return notification;
+    
+    const updatedNotification: Notification = { ...notification, readAt: new Date().toISOString() };
+    this.notificationsMap.set(id, updatedNotification);
+    return updatedNotification;
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const unread = await this.getNotifications({ userId, unread: true });
+    for (const notification of unread) {
+      await this.markNotificationRead(notification.id);
+    }
+    return unread.length;
+  }
+  
+  async hasSentReminder(userId: number, key: string): Promise<boolean> {
+    return Array.from(this.sentRemindersMap.values()).some(reminder => reminder.userId === userId && reminder.key === key);
+  }
+  
+  async recordSentReminder(userId: number, key: string): Promise<SentReminder> {
+    const id = this.currentSentReminderId++;
+    const reminder: SentReminder = { id, userId, key, sentAt: new Date().toISOString() };
+    this.sentRemindersMap.set(id, reminder);
+    return reminder;
+  }
+  
   // User progress methods for gamification
   async getUserProgress(userId: number): Promise<UserProgress | undefined> {
     return Array.from(this.userProgressMap.values())
@@ -234,6 +897,299 @@ export class MemStorage implements IStorage {
     this.userProgressMap.set(progress.id, updatedProgress);
     return updatedProgress;
   }
+  
+  async createPointAward(insertAward: InsertPointAward): Promise<PointAward> {
+    const id = this.currentPointAwardId++;
+    const award: PointAward = { ...insertAward, id, createdAt: new Date().toISOString() };
+    this.pointAwardsMap.set(id, award);
+    return award;
+  }
+  
+  async getPointAwards(userId: number, reason?: string): Promise<PointAward[]> {
+    return Array.from(this.pointAwardsMap.values())
+      .filter(award => award.userId === userId && (reason === undefined || award.reason === reason))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Pricing version methods
+  async getPricingVersions(): Promise<PricingVersion[]> {
+    return Array.from(this.pricingVersionsMap.values())
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getPricingVersion(version: string): Promise<PricingVersion | undefined> {
+    return Array.from(this.pricingVersionsMap.values())
+      .find(pricingVersion => pricingVersion.version === version);
+  }
+  
+  async getActivePricingVersion(): Promise<PricingVersion | undefined> {
+    return (await this.getPricingVersions()).find(pricingVersion => pricingVersion.active);
+  }
+  
+  async createPricingVersion(insertPricingVersion: InsertPricingVersion): Promise<PricingVersion> {
+    const id = this.currentPricingVersionId++;
+    const now = new Date().toISOString();
+    
+    const pricingVersion: PricingVersion = {
+      ...insertPricingVersion,
+      description: insertPricingVersion.description || null,
+      active: insertPricingVersion.active !== undefined ? insertPricingVersion.active : false,
+      id,
+      createdAt: now
+    };
+    
+    this.pricingVersionsMap.set(id, pricingVersion);
+    return pricingVersion;
+  }
+  
+  async activatePricingVersion(version: string): Promise<PricingVersion | undefined> {
+    const target = await this.getPricingVersion(version);
+    if (!target) return undefined;
+    
+    Array.from(this.pricingVersionsMap.values()).forEach(pricingVersion => {
+      this.pricingVersionsMap.set(pricingVersion.id, { ...pricingVersion, active: pricingVersion.id === target.id });
+    });
+    return this.pricingVersionsMap.get(target.id);
+  }
+  
+  // Moving company directory methods
+  async getMovingCompanies(): Promise<MovingCompany[]> {
+    return Array.from(this.movingCompaniesMap.values());
+  }
+  
+  async getMovingCompany(id: number): Promise<MovingCompany | undefined> {
+    return this.movingCompaniesMap.get(id);
+  }
+  
+  async createMovingCompany(insertCompany: InsertMovingCompany): Promise<MovingCompany> {
+    const id = this.currentCompanyId++;
+    const now = new Date().toISOString();
+    
+    const company: MovingCompany = {
+      ...insertCompany,
+      interstate: insertCompany.interstate !== undefined ? insertCompany.interstate : false,
+      maxHomeSize: insertCompany.maxHomeSize || "3bedroom",
+      dailyCapacity: insertCompany.dailyCapacity !== undefined ? insertCompany.dailyCapacity : 1,
+      published: insertCompany.published !== undefined ? insertCompany.published : true,
+      rating: 0,
+      reviewCount: 0,
+      id,
+      createdAt: now
+    };
+    
+    this.movingCompaniesMap.set(id, company);
+    return company;
+  }
+  
+  async updateMovingCompany(id: number, companyUpdate: Partial<InsertMovingCompany>): Promise<MovingCompany | undefined> {
+    const company = this.movingCompaniesMap.get(id);
+    if (!company) return undefined;
+    
+    const updatedCompany: MovingCompany = {
+      ...company,
+      ...companyUpdate
+    };
+    this.movingCompaniesMap.set(id, updatedCompany);
+    return updatedCompany;
+  }
+  
+  async deleteMovingCompany(id: number): Promise<boolean> {
+    Array.from(this.companyCapacityMap.values())
+      .filter(capacity => capacity.companyId === id)
+      .forEach(capacity => this.companyCapacityMap.delete(capacity.id));
+    return this.movingCompaniesMap.delete(id);
+  }
+  
+  async getCompanyCapacity(companyId: number, from: string, to: string): Promise<CompanyCapacity[]> {
+    return Array.from(this.companyCapacityMap.values())
+      .filter(capacity => capacity.companyId === companyId && capacity.date >= from && capacity.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+  
+  async setCompanyCapacity(insertCapacity: InsertCompanyCapacity): Promise<CompanyCapacity> {
+    // One row per company and day
+    const existing = Array.from(this.companyCapacityMap.values())
+      .find(capacity => capacity.companyId === insertCapacity.companyId && capacity.date === insertCapacity.date);
+    const id = existing ? existing.id : this.currentCapacityId++;
+    
+    const capacity: CompanyCapacity = {
+      ...insertCapacity,
+      booked: insertCapacity.booked !== undefined ? insertCapacity.booked : (existing?.booked ?? 0),
+      id
+    };
+    
+    this.companyCapacityMap.set(id, capacity);
+    return capacity;
+  }
+  
+  // Company review methods
+  async getCompanyReview(id: number): Promise<CompanyReview | undefined> {
+    return this.companyReviewsMap.get(id);
+  }
+  
+  async getCompanyReviews(query: ReviewQuery): Promise<CompanyReview[]> {
+    const offset = query.offset ?? 0;
+    const reviews = this.filterReviews(query).sort((a, b) => b.id - a.id);
+    return query.limit !== undefined ? reviews.slice(offset, offset + query.limit) : reviews.slice(offset);
+  }
+  
+  async countCompanyReviews(query: ReviewQuery): Promise<number> {
+    return this.filterReviews(query).length;
+  }
+  
+  async getReviewStarTotals(query: ReviewQuery): Promise<ReviewStarTotals[]> {
+    const totals = new Map<ReviewStarTotals["stars"], ReviewStarTotals>();
+    for (const review of this.filterReviews(query)) {
+      const stars = Math.min(5, Math.max(1, Math.round(review.overall))) as ReviewStarTotals["stars"];
+      const group = totals.get(stars) ?? { stars, count: 0, overall: 0, punctuality: 0, care: 0, priceAccuracy: 0 };
+      group.count++;
+      group.overall += review.overall;
+      group.punctuality += review.punctuality;
+      group.care += review.care;
+      group.priceAccuracy += review.priceAccuracy;
+      totals.set(stars, group);
+    }
+    return Array.from(totals.values());
+  }
+  
+  private filterReviews(query: ReviewQuery): CompanyReview[] {
+    return Array.from(this.companyReviewsMap.values()).filter(review =>
+      (query.companyId === undefined || review.companyId === query.companyId) &&
+      (query.userId === undefined || review.userId === query.userId) &&
+      (query.estimateId === undefined || review.estimateId === query.estimateId) &&
+      (query.status === undefined || review.status === query.status) &&
+      (query.minOverall === undefined || review.overall >= query.minOverall)
+    );
+  }
+  
+  async createCompanyReview(insertReview: InsertCompanyReview): Promise<CompanyReview> {
+    const id = this.currentReviewId++;
+    const now = new Date().toISOString();
+    
+    const review: CompanyReview = {
+      ...insertReview,
+      status: insertReview.status || "published",
+      flags: Array.isArray(insertReview.flags) ? insertReview.flags : [],
+      id,
+      createdAt: now
+    };
+    
+    this.companyReviewsMap.set(id, review);
+    return review;
+  }
+  
+  async updateCompanyReview(id: number, reviewUpdate: Partial<InsertCompanyReview>): Promise<CompanyReview | undefined> {
+    const review = this.companyReviewsMap.get(id);
+    if (!review) return undefined;
+    
+    const updatedReview: CompanyReview = {
+      ...review,
+      ...reviewUpdate,
+      flags: reviewUpdate.flags || review.flags
+    };
+    this.companyReviewsMap.set(id, updatedReview);
+    return updatedReview;
+  }
+  
+  async updateCompanyRating(companyId: number, rating: number, reviewCount: number): Promise<MovingCompany | undefined> {
+    const company = this.movingCompaniesMap.get(companyId);
+    if (!company) return undefined;
+    
+    const updatedCompany: MovingCompany = { ...company, rating, reviewCount };
+    this.movingCompaniesMap.set(companyId, updatedCompany);
+    return updatedCompany;
+  }
+  
+  // Quote request methods
+  async getQuoteRequest(id: number): Promise<QuoteRequest | undefined> {
+    return this.quoteRequestsMap.get(id);
+  }
+  
+  async getUserQuoteRequests(userId: number): Promise<QuoteRequest[]> {
+    return Array.from(this.quoteRequestsMap.values())
+      .filter(request => request.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async getCompanyQuoteRequests(companyId: number): Promise<QuoteRequest[]> {
+    return Array.from(this.quoteRequestsMap.values())
+      .filter(request => request.status !== "draft" && request.companyIds.includes(companyId))
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async createQuoteRequest(insertRequest: InsertQuoteRequest): Promise<QuoteRequest> {
+    const id = this.currentQuoteRequestId++;
+    const now = new Date().toISOString();
+    
+    const request: QuoteRequest = {
+      ...insertRequest,
+      companyIds: Array.isArray(insertRequest.companyIds) ? insertRequest.companyIds : [],
+      notes: insertRequest.notes || null,
+      status: insertRequest.status || "draft",
+      acceptedBidId: insertRequest.acceptedBidId || null,
+      sentAt: insertRequest.sentAt || null,
+      expiresAt: insertRequest.expiresAt || null,
+      id,
+      createdAt: now
+    };
+    
+    this.quoteRequestsMap.set(id, request);
+    return request;
+  }
+  
+  async updateQuoteRequest(id: number, requestUpdate: Partial<InsertQuoteRequest>): Promise<QuoteRequest | undefined> {
+    const request = this.quoteRequestsMap.get(id);
+    if (!request) return undefined;
+    
+    const updatedRequest: QuoteRequest = {
+      ...request,
+      ...requestUpdate,
+      companyIds: requestUpdate.companyIds || request.companyIds
+    };
+    this.quoteRequestsMap.set(id, updatedRequest);
+    return updatedRequest;
+  }
+  
+  // Quote bid methods
+  async getQuoteBid(id: number): Promise<QuoteBid | undefined> {
+    return this.quoteBidsMap.get(id);
+  }
+  
+  async getQuoteBids(quoteRequestId: number): Promise<QuoteBid[]> {
+    return Array.from(this.quoteBidsMap.values())
+      .filter(bid => bid.quoteRequestId === quoteRequestId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createQuoteBid(insertBid: InsertQuoteBid): Promise<QuoteBid> {
+    const id = this.currentQuoteBidId++;
+    const now = new Date().toISOString();
+    
+    const bid: QuoteBid = {
+      ...insertBid,
+      lineItems: insertBid.lineItems,
+      message: insertBid.message || null,
+      status: insertBid.status || "pending",
+      id,
+      createdAt: now
+    };
+    
+    this.quoteBidsMap.set(id, bid);
+    return bid;
+  }
+  
+  async updateQuoteBid(id: number, bidUpdate: Partial<InsertQuoteBid>): Promise<QuoteBid | undefined> {
+    const bid = this.quoteBidsMap.get(id);
+    if (!bid) return undefined;
+    
+    const updatedBid: QuoteBid = {
+      ...bid,
+      ...bidUpdate,
+      lineItems: bidUpdate.lineItems || bid.lineItems
+    };
+    this.quoteBidsMap.set(id, updatedBid);
+    return updatedBid;
+  }
 }
 
 // Database storage implementation
@@ -264,11 +1220,46 @@ export class DatabaseStorage implements IStorage {
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values(insertUser)
+      .values({ username: insertUser.username, password: insertUser.password, role: insertUser.role })
       .returning();
     return user;
   }
   
+  async updateUser(id: number, userUpdate: Partial<Pick<User, "role" | "companyId">>): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set(userUpdate)
+      .where(eq(users.id, id))
+      .returning();
+    return user || undefined;
+  }
+  
+  async getUsers(query: UserQuery): Promise<User[]> {
+    const column = query.sort === "username" ? users.username : users.id;
+    const rows = db
+      .select()
+      .from(users)
+      .where(and(...this.userConditions(query)))
+      .orderBy(query.order === "asc" ? asc(column) : desc(column), desc(users.id))
+      .offset(query.offset ?? 0);
+    return query.limit !== undefined ? rows.limit(query.limit) : rows;
+  }
+  
+  async countUsers(query: UserQuery): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(users)
+      .where(and(...this.userConditions(query)));
+    return result.total;
+  }
+  
+  private userConditions(query: UserQuery): SQL[] {
+    const conditions: SQL[] = [];
+    if (query.role !== undefined) conditions.push(eq(users.role, query.role));
+    if (query.search) conditions.push(ilike(users.username, `%${escapeLike(query.search)}%`));
+    return conditions;
+  }
+  
   async createMoveEstimate(insertEstimate: InsertMoveEstimate): Promise<MoveEstimate> {
     // Extract required properties
     const { 
@@ -295,7 +1286,12 @@ export class DatabaseStorage implements IStorage {
       userId: insertEstimate.userId || null,
       additionalItems: insertEstimate.additionalItems || null,
       flexibility: insertEstimate.flexibility || null,
-      services: Array.isArray(insertEstimate.services) ? insertEstimate.services : []
+      services: Array.isArray(insertEstimate.services) ? insertEstimate.services : [],
+      pricingVersion: insertEstimate.pricingVersion || null,
+      estimateMode: insertEstimate.estimateMode || "homeSize",
+      archivedAt: insertEstimate.archivedAt || null,
+      // The column default is fixed when the schema loads, so set it per row
+      createdAt: new Date().toISOString()
     };
     
     const [estimate] = await db
@@ -310,14 +1306,151 @@ export class DatabaseStorage implements IStorage {
     return estimate || undefined;
   }
   
-  async getAllMoveEstimates(): Promise<MoveEstimate[]> {
-    return db.select().from(movingEstimates);
+  async getMoveEstimates(query: EstimateQuery): Promise<MoveEstimate[]> {
+    const column = {
+      createdAt: movingEstimates.createdAt,
+      distance: movingEstimates.distance,
+      costDiy: movingEstimates.costDiy,
+      costFullService: movingEstimates.costFullService,
+    }[query.sort ?? "createdAt"];
+    
+    const rows = db
+      .select()
+      .from(movingEstimates)
+      .where(and(...this.estimateConditions(query)))
+      .orderBy(query.order === "asc" ? asc(column) : desc(column), desc(movingEstimates.id))
+      .offset(query.offset ?? 0);
+    return query.limit !== undefined ? rows.limit(query.limit) : rows;
+  }
+  
+  async countMoveEstimates(query: EstimateQuery): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(movingEstimates)
+      .where(and(...this.estimateConditions(query)));
+    return result.total;
+  }
+  
+  private estimateConditions(query: EstimateQuery): SQL[] {
+    const conditions: SQL[] = [];
+    if (query.userId !== undefined) conditions.push(eq(movingEstimates.userId, query.userId));
+    if (query.saved !== undefined) conditions.push(query.saved ? isNotNull(movingEstimates.userId) : isNull(movingEstimates.userId));
+    if (query.archived !== undefined) conditions.push(query.archived ? isNotNull(movingEstimates.archivedAt) : isNull(movingEstimates.archivedAt));
+    if (query.homeSize !== undefined) conditions.push(eq(movingEstimates.homeSize, query.homeSize));
+    if (query.createdFrom !== undefined) conditions.push(gte(movingEstimates.createdAt, query.createdFrom));
+    if (query.createdBefore !== undefined) conditions.push(lt(movingEstimates.createdAt, query.createdBefore));
+    return conditions;
   }
   
   async getUserEstimates(userId: number): Promise<MoveEstimate[]> {
     return db.select().from(movingEstimates).where(eq(movingEstimates.userId, userId));
   }
   
+  async updateMoveEstimate(id: number, userId: number, estimateUpdate: Partial<InsertMoveEstimate>): Promise<MoveEstimate | undefined> {
+    const [estimate] = await db
+      .update(movingEstimates)
+      .set({ ...estimateUpdate, userId })
+      .where(and(eq(movingEstimates.id, id), eq(movingEstimates.userId, userId)))
+      .returning();
+    return estimate || undefined;
+  }
+  
+  async deleteMoveEstimate(id: number, userId: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [estimate] = await tx
+        .select({ id: movingEstimates.id })
+        .from(movingEstimates)
+        .where(and(eq(movingEstimates.id, id), eq(movingEstimates.userId, userId)));
+      if (!estimate) return false;
+      
+      await tx.delete(estimateInventoryItems).where(eq(estimateInventoryItems.estimateId, id));
+      await tx.delete(estimateRevisions).where(eq(estimateRevisions.estimateId, id));
+      await tx.delete(estimateShares).where(eq(estimateShares.estimateId, id));
+      await tx.update(movingChecklists).set({ estimateId: null }).where(eq(movingChecklists.estimateId, id));
+      await tx.delete(movingEstimates).where(eq(movingEstimates.id, id));
+      return true;
+    });
+  }
+  
+  // Estimate inventory methods
+  async getEstimateInventory(estimateId: number): Promise<EstimateInventoryItem[]> {
+    return db.select().from(estimateInventoryItems).where(eq(estimateInventoryItems.estimateId, estimateId));
+  }
+  
+  async setEstimateInventory(estimateId: number, items: Omit<InsertEstimateInventoryItem, "estimateId">[]): Promise<EstimateInventoryItem[]> {
+    return db.transaction(async (tx) => {
+      await tx.delete(estimateInventoryItems).where(eq(estimateInventoryItems.estimateId, estimateId));
+      if (items.length === 0) return [];
+      
+      return tx
+        .insert(estimateInventoryItems)
+        .values(items.map(item => ({ ...item, estimateId })))
+        .returning();
+    });
+  }
+  
+  // Estimate revision methods
+  async getEstimateRevisions(estimateId: number): Promise<EstimateRevision[]> {
+    return db
+      .select()
+      .from(estimateRevisions)
+      .where(eq(estimateRevisions.estimateId, estimateId))
+      .orderBy(asc(estimateRevisions.revision));
+  }
+  
+  async createEstimateRevision(insertRevision: InsertEstimateRevision): Promise<EstimateRevision> {
+    const [revision] = await db
+      .insert(estimateRevisions)
+      .values({ ...insertRevision, createdAt: new Date().toISOString() })
+      .returning();
+    return revision;
+  }
+  
+  // Estimate share link methods
+  async getEstimateShare(id: number): Promise<EstimateShare | undefined> {
+    const [share] = await db.select().from(estimateShares).where(eq(estimateShares.id, id));
+    return share || undefined;
+  }
+  
+  async getEstimateShareByToken(token: string): Promise<EstimateShare | undefined> {
+    const [share] = await db.select().from(estimateShares).where(eq(estimateShares.token, token));
+    return share || undefined;
+  }
+  
+  async getEstimateShares(estimateId: number): Promise<EstimateShare[]> {
+    return db
+      .select()
+      .from(estimateShares)
+      .where(eq(estimateShares.estimateId, estimateId))
+      .orderBy(desc(estimateShares.id));
+  }
+  
+  async createEstimateShare(insertShare: InsertEstimateShare): Promise<EstimateShare> {
+    const [share] = await db
+      .insert(estimateShares)
+      .values({ ...insertShare, createdAt: new Date().toISOString() })
+      .returning();
+    return share;
+  }
+  
+  async updateEstimateShare(id: number, shareUpdate: Partial<InsertEstimateShare>): Promise<EstimateShare | undefined> {
+    const [share] = await db
+      .update(estimateShares)
+      .set(shareUpdate)
+      .where(eq(estimateShares.id, id))
+      .returning();
+    return share || undefined;
+  }
+  
+  async recordEstimateShareView(id: number): Promise<EstimateShare | undefined> {
+    const [share] = await db
+      .update(estimateShares)
+      .set({ viewCount: sql`${estimateShares.viewCount} + 1`, lastViewedAt: new Date().toISOString() })
+      .where(eq(estimateShares.id, id))
+      .returning();
+    return share || undefined;
+  }
+  
   // Moving checklist methods
   async createMoveChecklist(insertChecklist: InsertMoveChecklist): Promise<MoveChecklist> {
     // Extract required properties
@@ -327,7 +1460,10 @@ export class DatabaseStorage implements IStorage {
     const checklistData = {
       userId,
       moveDate,
-      estimateId: insertChecklist.estimateId || null
+      estimateId: insertChecklist.estimateId || null,
+      tier: insertChecklist.tier || null,
+      // Due dates are compressed from the creation date, so it has to be this row's own
+      createdAt: new Date().toISOString()
     };
     
     const [checklist] = await db
@@ -351,12 +1487,60 @@ export class DatabaseStorage implements IStorage {
     return checklist || undefined;
   }
   
+  async rescheduleMoveChecklist(id: number, moveDate: string, dueDates: Record<number, string | null>): Promise<MoveChecklist | undefined> {
+    return db.transaction(async (tx) => {
+      const [checklist] = await tx
+        .update(movingChecklists)
+        .set({ moveDate })
+        .where(eq(movingChecklists.id, id))
+        .returning();
+      if (!checklist) return undefined;
+      
+      const itemIds = Object.keys(dueDates).map(Number);
+      for (let i = 0; i < itemIds.length; i++) {
+        await tx
+          .update(checklistItems)
+          .set({ dueDate: dueDates[itemIds[i]] })
+          .where(and(eq(checklistItems.id, itemIds[i]), eq(checklistItems.checklistId, id)));
+      }
+      return checklist;
+    });
+  }
+  
+  async getMoveChecklists(query: ChecklistQuery): Promise<MoveChecklist[]> {
+    const column = query.sort === "moveDate" ? movingChecklists.moveDate : movingChecklists.createdAt;
+    const rows = db
+      .select()
+      .from(movingChecklists)
+      .where(and(...this.checklistConditions(query)))
+      .orderBy(query.order === "asc" ? asc(column) : desc(column), desc(movingChecklists.id))
+      .offset(query.offset ?? 0);
+    return query.limit !== undefined ? rows.limit(query.limit) : rows;
+  }
+  
+  async countMoveChecklists(query: ChecklistQuery): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(movingChecklists)
+      .where(and(...this.checklistConditions(query)));
+    return result.total;
+  }
+  
+  private checklistConditions(query: ChecklistQuery): SQL[] {
+    const conditions: SQL[] = [];
+    if (query.userId !== undefined) conditions.push(eq(movingChecklists.userId, query.userId));
+    if (query.moveDateFrom !== undefined) conditions.push(gte(movingChecklists.moveDate, query.moveDateFrom));
+    if (query.moveDateTo !== undefined) conditions.push(lte(movingChecklists.moveDate, query.moveDateTo));
+    return conditions;
+  }
+  
   // Checklist items methods
   async createChecklistItem(insertItem: InsertChecklistItem): Promise<ChecklistItem> {
     const itemData = {
       ...insertItem,
       description: insertItem.description || null,
-      completed: insertItem.completed !== undefined ? insertItem.completed : false
+      completed: insertItem.completed !== undefined ? insertItem.completed : false,
+      createdAt: new Date().toISOString()
     };
     
     const [item] = await db
@@ -366,19 +1550,236 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
   
+  async getChecklistItem(id: number): Promise<ChecklistItem | undefined> {
+    const [item] = await db.select().from(checklistItems).where(eq(checklistItems.id, id));
+    return item || undefined;
+  }
+  
   async getChecklistItems(checklistId: number): Promise<ChecklistItem[]> {
-    return db.select().from(checklistItems).where(eq(checklistItems.checklistId, checklistId));
+    return db
+      .select()
+      .from(checklistItems)
+      .where(eq(checklistItems.checklistId, checklistId))
+      .orderBy(asc(checklistItems.position), asc(checklistItems.id));
   }
   
-  async updateChecklistItem(id: number, completed: boolean): Promise<ChecklistItem | undefined> {
+  async updateChecklistItem(id: number, itemUpdate: Partial<InsertChecklistItem>): Promise<ChecklistItem | undefined> {
     const [item] = await db
       .update(checklistItems)
-      .set({ completed })
+      .set(itemUpdate)
       .where(eq(checklistItems.id, id))
       .returning();
     return item || undefined;
   }
   
+  async deleteChecklistItem(id: number): Promise<boolean> {
+    const deleted = await db.delete(checklistItems).where(eq(checklistItems.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  async reorderChecklistItems(checklistId: number, itemIds: number[]): Promise<ChecklistItem[]> {
+    await db.transaction(async (tx) => {
+      for (let position = 0; position < itemIds.length; position++) {
+        await tx
+          .update(checklistItems)
+          .set({ position })
+          .where(and(eq(checklistItems.id, itemIds[position]), eq(checklistItems.checklistId, checklistId)));
+      }
+    });
+    return this.getChecklistItems(checklistId);
+  }
+  
+  async getDueChecklistItems(checklistIds: number[], dueBy: string): Promise<ChecklistItem[]> {
+    if (checklistIds.length === 0) return [];
+    return db
+      .select()
+      .from(checklistItems)
+      .where(and(
+        inArray(checklistItems.checklistId, checklistIds),
+        eq(checklistItems.completed, false),
+        isNotNull(checklistItems.dueDate),
+        lte(checklistItems.dueDate, dueBy)
+      ))
+      .orderBy(asc(checklistItems.dueDate), asc(checklistItems.position), asc(checklistItems.id));
+  }
+  
+  // Checklist template methods
+  async getChecklistTemplates(): Promise<ChecklistTemplate[]> {
+    return db.select().from(checklistTemplates).orderBy(asc(checklistTemplates.position), asc(checklistTemplates.id));
+  }
+  
+  async getChecklistTemplate(id: number): Promise<ChecklistTemplate | undefined> {
+    const [template] = await db.select().from(checklistTemplates).where(eq(checklistTemplates.id, id));
+    return template || undefined;
+  }
+  
+  async createChecklistTemplate(insertTemplate: InsertChecklistTemplate): Promise<ChecklistTemplate> {
+    const [template] = await db
+      .insert(checklistTemplates)
+      .values({ ...insertTemplate, createdAt: new Date().toISOString() })
+      .returning();
+    return template;
+  }
+  
+  async updateChecklistTemplate(id: number, templateUpdate: Partial<InsertChecklistTemplate>): Promise<ChecklistTemplate | undefined> {
+    const [template] = await db
+      .update(checklistTemplates)
+      .set(templateUpdate)
+      .where(eq(checklistTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+  
+  async deleteChecklistTemplate(id: number): Promise<boolean> {
+    const deleted = await db.delete(checklistTemplates).where(eq(checklistTemplates.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Calendar feed methods
+  async getCalendarFeed(userId: number): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed || undefined;
+  }
+  
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed || undefined;
+  }
+  
+  async saveCalendarFeed(userId: number, token: string): Promise<CalendarFeed> {
+    const createdAt = new Date().toISOString();
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ userId, token, createdAt })
+      .onConflictDoUpdate({ target: calendarFeeds.userId, set: { token, createdAt } })
+      .returning();
+    return feed;
+  }
+  
+  // Checklist member methods
+  async getChecklistMembers(checklistId: number): Promise<ChecklistMember[]> {
+    return db.select().from(checklistMembers).where(eq(checklistMembers.checklistId, checklistId)).orderBy(asc(checklistMembers.id));
+  }
+  
+  async getChecklistMember(checklistId: number, userId: number): Promise<ChecklistMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(checklistMembers)
+      .where(and(eq(checklistMembers.checklistId, checklistId), eq(checklistMembers.userId, userId)));
+    return member || undefined;
+  }
+  
+  async getSharedChecklists(userId: number): Promise<MoveChecklist[]> {
+    const rows = await db
+      .select()
+      .from(movingChecklists)
+      .innerJoin(checklistMembers, eq(checklistMembers.checklistId, movingChecklists.id))
+      .where(eq(checklistMembers.userId, userId))
+      .orderBy(asc(checklistMembers.id));
+    return rows.map(row => row.moving_checklists);
+  }
+  
+  async createChecklistMember(insertMember: InsertChecklistMember): Promise<ChecklistMember> {
+    const [member] = await db
+      .insert(checklistMembers)
+      .values({ ...insertMember, createdAt: new Date().toISOString() })
+      .returning();
+    return member;
+  }
+  
+  async updateChecklistMember(id: number, memberUpdate: Partial<InsertChecklistMember>): Promise<ChecklistMember | undefined> {
+    const [member] = await db
+      .update(checklistMembers)
+      .set(memberUpdate)
+      .where(eq(checklistMembers.id, id))
+      .returning();
+    return member || undefined;
+  }
+  
+  async deleteChecklistMember(id: number): Promise<boolean> {
+    const deleted = await db.delete(checklistMembers).where(eq(checklistMembers.id, id)).returning();
+    return deleted.length > 0;
+  }
+  
+  // Notification methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return preferences || undefined;
+  }
+  
+  async saveNotificationPreferences(userId: number, input: NotificationPreferencesInput): Promise<NotificationPreferences> {
+    const values = { ...input, updatedAt: new Date().toISOString() };
+    const [preferences] = await db
+      .insert(notificationPreferences)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+      .returning();
+    return preferences;
+  }
+  
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification || undefined;
+  }
+  
+  async getNotifications(query: NotificationQuery): Promise<Notification[]> {
+    const conditions: SQL[] = [eq(notifications.userId, query.userId)];
+    if (query.unread !== undefined) {
+      conditions.push(query.unread ? isNull(notifications.readAt) : isNotNull(notifications.readAt));
+    }
+    const rows = db.select().from(notifications).where(and(...conditions)).orderBy(desc(notifications.id));
+    return query.limit !== undefined ? rows.limit(query.limit) : rows;
+  }
+  
+  async countUnreadNotifications(userId: number): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return result.total;
+  }
+  
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await db
+      .insert(notifications)
+      .values({ ...insertNotification, createdAt: new Date().toISOString() })
+      .returning();
+    return notification;
+  }
+  
+  async markNotificationRead(id: number): Promise<Notification | undefined> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date().toISOString() })
+      .where(and(eq(notifications.id, id), isNull(notifications.readAt)));
+    return this.getNotification(id);
+  }
+  
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date().toISOString() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+  
+  async hasSentReminder(userId: number, key: string): Promise<boolean> {
+    const [reminder] = await db
+      .select({ id: sentReminders.id })
+      .from(sentReminders)
+      .where(and(eq(sentReminders.userId, userId), eq(sentReminders.key, key)));
+    return reminder !== undefined;
+  }
+  
+  async recordSentReminder(userId: number, key: string): Promise<SentReminder> {
+    const [reminder] = await db
+      .insert(sentReminders)
+      .values({ userId, key, sentAt: new Date().toISOString() })
+      .returning();
+    return reminder;
+  }
+  
   // User progress methods for gamification
   async getUserProgress(userId: number): Promise<UserProgress | undefined> {
     const [progress] = await db.select().from(userProgress).where(eq(userProgress.userId, userId));
@@ -427,6 +1828,305 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return progress || undefined;
   }
+  
+  async createPointAward(insertAward: InsertPointAward): Promise<PointAward> {
+    const [award] = await db
+      .insert(pointAwards)
+      .values({ ...insertAward, createdAt: new Date().toISOString() })
+      .returning();
+    return award;
+  }
+  
+  async getPointAwards(userId: number, reason?: string): Promise<PointAward[]> {
+    const conditions: SQL[] = [eq(pointAwards.userId, userId)];
+    if (reason !== undefined) conditions.push(eq(pointAwards.reason, reason));
+    return db.select().from(pointAwards).where(and(...conditions)).orderBy(asc(pointAwards.id));
+  }
+  
+  // Pricing version methods
+  async getPricingVersions(): Promise<PricingVersion[]> {
+    return db.select().from(pricingVersions).orderBy(desc(pricingVersions.id));
+  }
+  
+  async getPricingVersion(version: string): Promise<PricingVersion | undefined> {
+    const [pricingVersion] = await db.select().from(pricingVersions).where(eq(pricingVersions.version, version));
+    return pricingVersion || undefined;
+  }
+  
+  async getActivePricingVersion(): Promise<PricingVersion | undefined> {
+    const [pricingVersion] = await db
+      .select()
+      .from(pricingVersions)
+      .where(eq(pricingVersions.active, true))
+      .orderBy(desc(pricingVersions.id))
+      .limit(1);
+    return pricingVersion || undefined;
+  }
+  
+  async createPricingVersion(insertPricingVersion: InsertPricingVersion): Promise<PricingVersion> {
+    const [pricingVersion] = await db
+      .insert(pricingVersions)
+      .values({ ...insertPricingVersion, createdAt: new Date().toISOString() })
+      .returning();
+    return pricingVersion;
+  }
+  
+  async activatePricingVersion(version: string): Promise<PricingVersion | undefined> {
+    return db.transaction(async (tx) => {
+      const [target] = await tx.select().from(pricingVersions).where(eq(pricingVersions.version, version));
+      if (!target) return undefined;
+      
+      await tx.update(pricingVersions).set({ active: false }).where(ne(pricingVersions.id, target.id));
+      const [pricingVersion] = await tx
+        .update(pricingVersions)
+        .set({ active: true })
+        .where(eq(pricingVersions.id, target.id))
+        .returning();
+      return pricingVersion;
+    });
+  }
+  
+  // Moving company directory methods
+  async getMovingCompanies(): Promise<MovingCompany[]> {
+    return db.select().from(movingCompanies);
+  }
+  
+  async getMovingCompany(id: number): Promise<MovingCompany | undefined> {
+    const [company] = await db.select().from(movingCompanies).where(eq(movingCompanies.id, id));
+    return company || undefined;
+  }
+  
+  async createMovingCompany(insertCompany: InsertMovingCompany): Promise<MovingCompany> {
+    const [company] = await db
+      .insert(movingCompanies)
+      .values({ ...insertCompany, createdAt: new Date().toISOString() })
+      .returning();
+    return company;
+  }
+  
+  async updateMovingCompany(id: number, companyUpdate: Partial<InsertMovingCompany>): Promise<MovingCompany | undefined> {
+    const [company] = await db
+      .update(movingCompanies)
+      .set(companyUpdate)
+      .where(eq(movingCompanies.id, id))
+      .returning();
+    return company || undefined;
+  }
+  
+  async deleteMovingCompany(id: number): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      await tx.delete(companyCapacity).where(eq(companyCapacity.companyId, id));
+      const deleted = await tx.delete(movingCompanies).where(eq(movingCompanies.id, id)).returning();
+      return deleted.length > 0;
+    });
+  }
+  
+  async getCompanyCapacity(companyId: number, from: string, to: string): Promise<CompanyCapacity[]> {
+    return db
+      .select()
+      .from(companyCapacity)
+      .where(and(
+        eq(companyCapacity.companyId, companyId),
+        gte(companyCapacity.date, from),
+        lte(companyCapacity.date, to)
+      ))
+      .orderBy(companyCapacity.date);
+  }
+  
+  async setCompanyCapacity(insertCapacity: InsertCompanyCapacity): Promise<CompanyCapacity> {
+    const [existing] = await db
+      .select()
+      .from(companyCapacity)
+      .where(and(
+        eq(companyCapacity.companyId, insertCapacity.companyId),
+        eq(companyCapacity.date, insertCapacity.date)
+      ));
+    
+    if (existing) {
+      const [capacity] = await db
+        .update(companyCapacity)
+        .set(insertCapacity)
+        .where(eq(companyCapacity.id, existing.id))
+        .returning();
+      return capacity;
+    }
+    
+    const [capacity] = await db
+      .insert(companyCapacity)
+      .values(insertCapacity)
+      .returning();
+    return capacity;
+  }
+  
+  // Company review methods
+  async getCompanyReview(id: number): Promise<CompanyReview | undefined> {
+    const [review] = await db.select().from(companyReviews).where(eq(companyReviews.id, id));
+    return review || undefined;
+  }
+  
+  async getCompanyReviews(query: ReviewQuery): Promise<CompanyReview[]> {
+    const reviews = db
+      .select()
+      .from(companyReviews)
+      .where(and(...this.reviewConditions(query)))
+      .orderBy(desc(companyReviews.id))
+      .offset(query.offset ?? 0);
+    return query.limit !== undefined ? reviews.limit(query.limit) : reviews;
+  }
+  
+  async countCompanyReviews(query: ReviewQuery): Promise<number> {
+    const [result] = await db
+      .select({ total: count() })
+      .from(companyReviews)
+      .where(and(...this.reviewConditions(query)));
+    return result.total;
+  }
+  
+  async getReviewStarTotals(query: ReviewQuery): Promise<ReviewStarTotals[]> {
+    const stars = sql<ReviewStarTotals["stars"]>`least(5, greatest(1, round(${companyReviews.overall})))::int`;
+    const total = (column: AnyColumn) => sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number);
+    return db
+      .select({
+        stars,
+        count: count(),
+        overall: total(companyReviews.overall),
+        punctuality: total(companyReviews.punctuality),
+        care: total(companyReviews.care),
+        priceAccuracy: total(companyReviews.priceAccuracy),
+      })
+      .from(companyReviews)
+      .where(and(...this.reviewConditions(query)))
+      .groupBy(stars);
+  }
+  
+  private reviewConditions(query: ReviewQuery): SQL[] {
+    const conditions: SQL[] = [];
+    if (query.companyId !== undefined) conditions.push(eq(companyReviews.companyId, query.companyId));
+    if (query.userId !== undefined) conditions.push(eq(companyReviews.userId, query.userId));
+    if (query.estimateId !== undefined) conditions.push(eq(companyReviews.estimateId, query.estimateId));
+    if (query.status !== undefined) conditions.push(eq(companyReviews.status, query.status));
+    if (query.minOverall !== undefined) conditions.push(gte(companyReviews.overall, query.minOverall));
+    return conditions;
+  }
+  
+  async createCompanyReview(insertReview: InsertCompanyReview): Promise<CompanyReview> {
+    const [review] = await db
+      .insert(companyReviews)
+      .values({ ...insertReview, createdAt: new Date().toISOString() })
+      .returning();
+    return review;
+  }
+  
+  async updateCompanyReview(id: number, reviewUpdate: Partial<InsertCompanyReview>): Promise<CompanyReview | undefined> {
+    const [review] = await db
+      .update(companyReviews)
+      .set(reviewUpdate)
+      .where(eq(companyReviews.id, id))
+      .returning();
+    return review || undefined;
+  }
+  
+  async updateCompanyRating(companyId: number, rating: number, reviewCount: number): Promise<MovingCompany | undefined> {
+    const [company] = await db
+      .update(movingCompanies)
+      .set({ rating, reviewCount })
+      .where(eq(movingCompanies.id, companyId))
+      .returning();
+    return company || undefined;
+  }
+  
+  // Quote request methods
+  async getQuoteRequest(id: number): Promise<QuoteRequest | undefined> {
+    const [request] = await db.select().from(quoteRequests).where(eq(quoteRequests.id, id));
+    return request || undefined;
+  }
+  
+  async getUserQuoteRequests(userId: number): Promise<QuoteRequest[]> {
+    return db
+      .select()
+      .from(quoteRequests)
+      .where(eq(quoteRequests.userId, userId))
+      .orderBy(desc(quoteRequests.id));
+  }
+  
+  async getCompanyQuoteRequests(companyId: number): Promise<QuoteRequest[]> {
+    return db
+      .select()
+      .from(quoteRequests)
+      .where(and(
+        ne(quoteRequests.status, "draft"),
+        sql`${quoteRequests.companyIds}::jsonb @> ${JSON.stringify([companyId])}::jsonb`
+      ))
+      .orderBy(desc(quoteRequests.id));
+  }
+  
+  async createQuoteRequest(insertRequest: InsertQuoteRequest): Promise<QuoteRequest> {
+    const [request] = await db
+      .insert(quoteRequests)
+      .values({ ...insertRequest, createdAt: new Date().toISOString() })
+      .returning();
+    return request;
+  }
+  
+  async updateQuoteRequest(id: number, requestUpdate: Partial<InsertQuoteRequest>): Promise<QuoteRequest | undefined> {
+    const [request] = await db
+      .update(quoteRequests)
+      .set(requestUpdate)
+      .where(eq(quoteRequests.id, id))
+      .returning();
+    return request || undefined;
+  }
+  
+  // Quote bid methods
+  async getQuoteBid(id: number): Promise<QuoteBid | undefined> {
+    const [bid] = await db.select().from(quoteBids).where(eq(quoteBids.id, id));
+    return bid || undefined;
+  }
+  
+  async getQuoteBids(quoteRequestId: number): Promise<QuoteBid[]> {
+    return db
+      .select()
+      .from(quoteBids)
+      .where(eq(quoteBids.quoteRequestId, quoteRequestId))
+      .orderBy(quoteBids.id);
+  }
+  
+  async createQuoteBid(insertBid: InsertQuoteBid): Promise<QuoteBid> {
+    const [bid] = await db
+      .insert(quoteBids)
+      .values({ ...insertBid, createdAt: new Date().toISOString() })
+      .returning();
+    return bid;
+  }
+  
+  async updateQuoteBid(id: number, bidUpdate: Partial<InsertQuoteBid>): Promise<QuoteBid | undefined> {
+    const [bid] = await db
+      .update(quoteBids)
+      .set(bidUpdate)
+      .where(eq(quoteBids.id, id))
+      .returning();
+    return bid || undefined;
+  }
+}
+
+// Sorts in-memory records like an ORDER BY on one column, newest id first on ties
+function sortRecords<T extends { id: number }, K extends keyof T>(records: T[], key: K, order: SortOrder = "desc"): T[] {
+  const direction = order === "asc" ? 1 : -1;
+  return records.sort((a, b) => {
+    if (a[key] < b[key]) return -direction;
+    if (a[key] > b[key]) return direction;
+    return b.id - a.id;
+  });
+}
+
+function paginateRecords<T>(records: T[], query: { limit?: number; offset?: number }): T[] {
+  const offset = query.offset ?? 0;
+  return query.limit !== undefined ? records.slice(offset, offset + query.limit) : records.slice(offset);
+}
+
+// Escapes LIKE wildcards so a search matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
 }
 
 // Uncomment this line to use DatabaseStorage when database is available
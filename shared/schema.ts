@@ -1,18 +1,38 @@
-import { pgTable, text, serial, integer, boolean, date, json, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, json, timestamp, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { relations } from "drizzle-orm";
 import { z } from "zod";
 
 // User schema (keeping this as it's in the original file)
+// Customers get quotes and plan moves, movers manage their company and bid on
+// quote requests, and admins manage pricing and moderation
+export const userRoleSchema = z.enum(["customer", "mover", "admin"]);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("customer"),
+  companyId: integer("company_id").references(() => movingCompanies.id), // The company a mover acts for
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
+export const insertUserSchema = createInsertSchema(users, {
+  role: userRoleSchema.optional(),
+}).pick({
   username: true,
   password: true,
+  role: true,
+});
+
+// Roles anyone can sign up with; admins are appointed by other admins
+export const registrationRoleSchema = userRoleSchema.exclude(["admin"]);
+
+// Role and company changes an admin can make to an account
+export const userAdminUpdateSchema = z.object({
+  role: userRoleSchema.optional(),
+  companyId: z.number().int().positive().nullable().optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -35,9 +55,28 @@ export const movingEstimates = pgTable("moving_estimates", {
   costDiy: integer("cost_diy").notNull(),
   costHybrid: integer("cost_hybrid").notNull(),
   costFullService: integer("cost_full_service").notNull(),
+  pricingVersion: text("pricing_version"), // Pricing version that produced the costs
+  estimateMode: text("estimate_mode").default("homeSize"), // 'homeSize' or 'inventory'
+  archivedAt: text("archived_at"), // Archived estimates are hidden from the profile unless asked for
   createdAt: text("created_at").notNull().default(new Date().toISOString()),
 });
 
+// Query string for paginated list endpoints
+export const paginationSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+export type Pagination = z.infer<typeof paginationSchema>;
+
+export interface Paginated<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
 // Zod schema for address validation
 export const addressSchema = z.object({
   address: z.string().min(5, "Please enter a valid address"),
@@ -48,6 +87,40 @@ export const addressSchema = z.object({
 
 export type Address = z.infer<typeof addressSchema>;
 
+// Inventory schemas
+export const inventoryRoomSchema = z.enum([
+  "livingRoom",
+  "bedroom",
+  "kitchen",
+  "diningRoom",
+  "office",
+  "bathroom",
+  "garage",
+  "outdoor",
+]);
+
+export type InventoryRoom = z.infer<typeof inventoryRoomSchema>;
+
+// One catalogue entry; volume and weight are per unit
+export const inventoryCatalogItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  room: inventoryRoomSchema,
+  cubicFeet: z.number().positive(),
+  weight: z.number().positive(), // Pounds
+});
+
+export type InventoryCatalogItem = z.infer<typeof inventoryCatalogItemSchema>;
+
+// An item the customer is moving, referenced by catalogue id
+export const inventorySelectionSchema = z.object({
+  itemId: z.string().min(1),
+  room: inventoryRoomSchema,
+  quantity: z.number().int().positive().max(100),
+});
+
+export type InventorySelection = z.infer<typeof inventorySelectionSchema>;
+
 // Zod schema for the calculation request
 export const moveCalculationRequestSchema = z.object({
   origin: z.string().min(5, "Origin address is required"),
@@ -59,57 +132,238 @@ export const moveCalculationRequestSchema = z.object({
   moveDate: z.string().min(1, "Move date is required"),
   flexibility: z.enum(["exact", "1-2days", "1week", "flexible"]).default("exact"),
   services: z.array(z.enum(["packing", "storage", "cleaning"])).default([]),
+  // 'inventory' prices from the itemized inventory; 'homeSize' is the quick estimate
+  estimateMode: z.enum(["homeSize", "inventory"]).default("homeSize"),
+  inventory: z.array(inventorySelectionSchema).max(200).default([]),
 });
 
 export type MoveCalculationRequest = z.infer<typeof moveCalculationRequestSchema>;
 
+// Line items that make up a single tier's total; amounts always sum to that tier's cost
+export const costCategorySchema = z.enum([
+  "truck",
+  "fuel",
+  "labor",
+  "materials",
+  "specialItems",
+  "services",
+  "demand",
+  "insurance",
+  "taxes",
+]);
+
+export type CostCategory = z.infer<typeof costCategorySchema>;
+
+export const costLineItemSchema = z.object({
+  category: costCategorySchema,
+  label: z.string(),
+  amount: z.number(),
+  detail: z.string().optional(),
+});
+
+const costLineItemsSchema = z.array(costLineItemSchema);
+
+const tierCostsSchema = z.object({
+  diy: z.number(),
+  hybrid: z.number(),
+  fullService: z.number(),
+});
+
+export type CostLineItem = z.infer<typeof costLineItemSchema>;
+
 export const moveCalculationResponseSchema = z.object({
   distance: z.number(),
+  distanceConfidence: z.enum(["high", "medium", "low"]),
+  pricingVersion: z.string(),
   origin: z.string(),
   destination: z.string(),
   homeSize: z.string(),
   moveDate: z.string(),
-  costs: z.object({
-    diy: z.number(),
-    hybrid: z.number(),
-    fullService: z.number(),
-  }),
+  estimateMode: z.enum(["homeSize", "inventory"]),
+  // Truck and crew sizing derived from the inventory; null for quick estimates
+  volume: z.object({
+    cubicFeet: z.number(),
+    weight: z.number(),
+    itemCount: z.number(),
+    truck: z.string(),
+    truckCount: z.number(),
+    laborHours: z.number(),
+  }).nullable(),
+  costs: tierCostsSchema,
   breakdown: z.object({
-    transportation: z.number(),
-    labor: z.number(),
-    materials: z.number(),
-    other: z.number(),
+    diy: costLineItemsSchema,
+    hybrid: costLineItemsSchema,
+    fullService: costLineItemsSchema,
+  }),
+  // Prices for every date in the flexibility window, including the requested one
+  dateOptions: z.array(z.object({
+    date: z.string(),
+    demandMultiplier: z.number(),
+    costs: tierCostsSchema,
+  })),
+  cheapestDate: z.object({
+    date: z.string(),
+    costs: tierCostsSchema,
+    savings: tierCostsSchema,
   }),
+  // Best matching moving companies, highest score first
   companies: z.array(
     z.object({
+      id: z.number(),
       name: z.string(),
       rating: z.number(),
+      reviewCount: z.number(),
       description: z.string(),
       available: z.boolean(),
+      nextAvailableDate: z.string().nullable(),
+      tiers: z.array(z.enum(["diy", "hybrid", "fullService"])),
+      estimatedCosts: z.object({
+        diy: z.number().optional(),
+        hybrid: z.number().optional(),
+        fullService: z.number().optional(),
+      }),
+      score: z.number(),
+      reasons: z.array(z.string()),
     })
   ),
 });
 
 export type MoveCalculationResponse = z.infer<typeof moveCalculationResponseSchema>;
 
-export const insertMoveEstimateSchema = createInsertSchema(movingEstimates).omit({
+export const insertMoveEstimateSchema = createInsertSchema(movingEstimates, {
+  services: z.array(z.string()).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
 export type InsertMoveEstimate = z.infer<typeof insertMoveEstimateSchema>;
+
+// Saved estimates get repriced later, so their calculator options must be ones
+// the calculator offers
+export const estimateSubmissionSchema = insertMoveEstimateSchema.omit({ archivedAt: true }).extend({
+  homeSize: moveCalculationRequestSchema.shape.homeSize,
+  additionalItems: moveCalculationRequestSchema.shape.additionalItems.removeDefault().nullable().optional(),
+  services: moveCalculationRequestSchema.shape.services.removeDefault().nullable().optional(),
+});
 export type MoveEstimate = typeof movingEstimates.$inferSelect;
 
+// Inventory items saved with an estimate; volume and weight are copied from the
+// catalogue so later catalogue edits don't change saved estimates
+export const estimateInventoryItems = pgTable("estimate_inventory_items", {
+  id: serial("id").primaryKey(),
+  estimateId: integer("estimate_id").references(() => movingEstimates.id).notNull(),
+  itemId: text("item_id").notNull(),
+  name: text("name").notNull(),
+  room: text("room").notNull(),
+  quantity: integer("quantity").notNull(),
+  cubicFeet: integer("cubic_feet").notNull(), // Per unit
+  weight: integer("weight").notNull(), // Per unit, in pounds
+});
+
+export const insertEstimateInventoryItemSchema = createInsertSchema(estimateInventoryItems).omit({
+  id: true,
+});
+
+export type EstimateInventoryItem = typeof estimateInventoryItems.$inferSelect;
+export type InsertEstimateInventoryItem = z.infer<typeof insertEstimateInventoryItemSchema>;
+
+// The inputs an estimate was priced from, as recorded in its revision log
+export const estimateRevisionInputsSchema = z.object({
+  origin: z.string(),
+  destination: z.string(),
+  distance: z.number().int(),
+  homeSize: z.string(),
+  additionalItems: z.string(),
+  moveDate: z.string(),
+  flexibility: z.string(),
+  services: z.array(z.string()),
+  estimateMode: z.string(),
+  inventory: z.object({
+    cubicFeet: z.number(),
+    weight: z.number(),
+    itemCount: z.number().int(),
+  }).nullable(), // Totals only; null when nothing was inventoried
+});
+
+export type EstimateRevisionInputs = z.infer<typeof estimateRevisionInputsSchema>;
+
+// Append-only log of every price a saved estimate has had; revisions count up from 1
+export const estimateRevisions = pgTable("estimate_revisions", {
+  id: serial("id").primaryKey(),
+  estimateId: integer("estimate_id").references(() => movingEstimates.id).notNull(),
+  revision: integer("revision").notNull(),
+  inputs: json("inputs").$type<EstimateRevisionInputs>().notNull(),
+  pricingVersion: text("pricing_version"),
+  costDiy: integer("cost_diy").notNull(),
+  costHybrid: integer("cost_hybrid").notNull(),
+  costFullService: integer("cost_full_service").notNull(),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertEstimateRevisionSchema = createInsertSchema(estimateRevisions, {
+  inputs: estimateRevisionInputsSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type EstimateRevision = typeof estimateRevisions.$inferSelect;
+export type InsertEstimateRevision = z.infer<typeof insertEstimateRevisionSchema>;
+
+export type RevisionCosts = Pick<EstimateRevision, "costDiy" | "costHybrid" | "costFullService">;
+
+// Price-relevant inputs, in the order a diff applies them
+export const revisionFactorSchema = z.enum([
+  "route",
+  "homeSize",
+  "inventory",
+  "additionalItems",
+  "services",
+  "moveDate",
+  "pricingVersion",
+  "other", // Whatever re-pricing can't account for, e.g. rules that have since changed
+]);
+
+export type RevisionFactor = z.infer<typeof revisionFactorSchema>;
+
+export interface EstimateRevisionDiff {
+  estimateId: number;
+  from: EstimateRevision;
+  to: EstimateRevision;
+  // Every recorded field that differs between the two revisions
+  changes: { field: keyof EstimateRevisionInputs | "pricingVersion"; label: string; from: unknown; to: unknown }[];
+  costChange: RevisionCosts;
+  // How much each changed factor moved the price, applied one after another; sums to costChange
+  attribution: { factor: RevisionFactor; label: string; costChange: RevisionCosts }[];
+}
+
 // Define table relationships
 export const usersRelations = relations(users, ({ many }) => ({
   estimates: many(movingEstimates),
 }));
 
-export const movingEstimatesRelations = relations(movingEstimates, ({ one }) => ({
+export const movingEstimatesRelations = relations(movingEstimates, ({ one, many }) => ({
   user: one(users, {
     fields: [movingEstimates.userId],
     references: [users.id],
   }),
+  inventory: many(estimateInventoryItems),
+  revisions: many(estimateRevisions),
+}));
+
+export const estimateInventoryItemsRelations = relations(estimateInventoryItems, ({ one }) => ({
+  estimate: one(movingEstimates, {
+    fields: [estimateInventoryItems.estimateId],
+    references: [movingEstimates.id],
+  }),
+}));
+
+export const estimateRevisionsRelations = relations(estimateRevisions, ({ one }) => ({
+  estimate: one(movingEstimates, {
+    fields: [estimateRevisions.estimateId],
+    references: [movingEstimates.id],
+  }),
 }));
 
 // Moving checklist schema
@@ -118,6 +372,7 @@ export const movingChecklists = pgTable("moving_checklists", {
   userId: integer("user_id").references(() => users.id).notNull(),
   estimateId: integer("estimate_id").references(() => movingEstimates.id),
   moveDate: text("move_date").notNull(),
+  tier: text("tier"), // How the user is moving ('diy', 'hybrid' or 'fullService'), if they said
   createdAt: text("created_at").notNull().default(new Date().toISOString()),
 });
 
@@ -133,6 +388,12 @@ export const checklistItems = pgTable("checklist_items", {
   category: text("category").notNull(),
   timeframe: text("timeframe").notNull(), // e.g., "8-weeks", "4-weeks", "2-weeks", "1-week", "moving-day", "after-move"
   completed: boolean("completed").default(false).notNull(),
+  position: integer("position").notNull().default(0), // Order within the checklist, set by the user
+  custom: boolean("custom").notNull().default(false), // Added by the user rather than built from a template
+  dueDate: text("due_date"), // YYYY-MM-DD, worked out from the checklist's move date and the timeframe
+  assignedTo: integer("assigned_to").references(() => users.id), // The owner or a member who is doing the task
+  completedBy: integer("completed_by").references(() => users.id),
+  completedAt: text("completed_at"),
   createdAt: text("created_at").notNull().default(new Date().toISOString()),
 });
 
@@ -146,11 +407,60 @@ export const insertMoveChecklistSchema = createInsertSchema(movingChecklists).om
 });
 
 // Schema for inserting a new checklist item
-export const insertChecklistItemSchema = createInsertSchema(checklistItems).omit({
+export const insertChecklistItemSchema = createInsertSchema(checklistItems, {
+  position: z.number().int().min(0).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+// Timeframes in the order they happen
+export const CHECKLIST_TIMEFRAMES = ["8-weeks", "4-weeks", "2-weeks", "1-week", "moving-day", "after-move"] as const;
+
+export const CHECKLIST_CATEGORIES = ["planning", "packing", "admin", "cleaning", "moving-day", "unpacking", "settling-in"] as const;
+
+// What a user can set when adding or editing a task
+export const checklistItemInputSchema = z.object({
+  task: z.string().trim().min(1, "Task is required").max(200),
+  description: z.string().trim().max(1000).nullable().optional(),
+  category: z.enum(CHECKLIST_CATEGORIES),
+  timeframe: z.enum(CHECKLIST_TIMEFRAMES),
+});
+
+export const checklistItemUpdateSchema = checklistItemInputSchema.partial().extend({
+  completed: z.boolean().optional(),
+  assignedTo: z.number().int().positive().nullable().optional(), // Null unassigns the task
+}).refine(update => Object.keys(update).length > 0, { message: "Nothing to update" });
+
+// Every item of the checklist, in the order they should appear
+export const checklistItemOrderSchema = z.object({
+  itemIds: z.array(z.number().int().positive()).min(1),
+});
+
+// Moving the date moves every task's due date with it
+export const checklistRescheduleSchema = z.object({
+  moveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date"),
+});
+
+// Open tasks due within the next `days` days, plus any that are overdue. `today`
+// is the user's local date, so "overdue" matches their calendar rather than the server's
+export const upcomingChecklistItemsQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(90).default(7),
+  today: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date").optional(),
+});
+
+export type ChecklistTimeframe = typeof CHECKLIST_TIMEFRAMES[number];
+export type ChecklistCategory = typeof CHECKLIST_CATEGORIES[number];
+export type ChecklistItemInput = z.infer<typeof checklistItemInputSchema>;
+export type ChecklistItemUpdate = z.infer<typeof checklistItemUpdateSchema>;
+
+// An open task from any of the user's checklists, for the upcoming tasks list
+export type UpcomingChecklistItem = ChecklistItem & {
+  dueDate: string;
+  moveDate: string; // Of the checklist the task is on
+  overdue: boolean;
+};
+
 // Relations 
 export const movingChecklistsRelations = relations(movingChecklists, ({ one, many }) => ({
   user: one(users, {
@@ -190,3 +500,975 @@ export const insertUserProgressSchema = createInsertSchema(userProgress).omit({
   id: true,
   createdAt: true,
 });
+
+// Pricing schemas
+// Rates are versioned data so they can change without a deploy and old
+// estimates can be repriced with the version that originally produced them
+const tierRatesSchema = z.object({
+  diy: z.number().nonnegative(),
+  hybrid: z.number().nonnegative(),
+  fullService: z.number().nonnegative(),
+});
+
+export type TierRates = z.infer<typeof tierRatesSchema>;
+
+const homeSizeRatesSchema = z.object({
+  // Truck rental (DIY), container (hybrid) or company truck (full service)
+  equipment: tierRatesSchema,
+  // Mover-hours needed to load and unload
+  laborHours: tierRatesSchema,
+  // Boxes, tape and padding supplied with the move
+  materials: tierRatesSchema,
+});
+
+export const pricingRatesSchema = z.object({
+  homeSizes: z.object({
+    studio: homeSizeRatesSchema,
+    "1bedroom": homeSizeRatesSchema,
+    "2bedroom": homeSizeRatesSchema,
+    "3bedroom": homeSizeRatesSchema,
+  }),
+  // Hourly rate per mover-hour
+  laborRate: tierRatesSchema,
+  // Marginal per-mile equipment rates; the last band should have no upper limit
+  distanceBands: z.array(z.object({
+    upToMiles: z.number().positive().nullable(),
+    perMile: tierRatesSchema,
+  })).min(1),
+  fuelPerMile: tierRatesSchema,
+  items: z.object({
+    none: tierRatesSchema,
+    piano: tierRatesSchema,
+    artwork: tierRatesSchema,
+    gym: tierRatesSchema,
+    multiple: tierRatesSchema,
+  }),
+  services: z.object({
+    packing: tierRatesSchema,
+    storage: tierRatesSchema,
+    cleaning: tierRatesSchema,
+  }),
+  // Valuation coverage as a fraction of the pre-insurance subtotal
+  insuranceRate: tierRatesSchema,
+  // Sales tax on equipment rental and materials
+  taxRate: z.number().nonnegative(),
+  // Date-based demand pricing applied to equipment and labor; omitted in older versions
+  demand: z.object({
+    monthMultipliers: z.array(z.number().positive()).length(12), // January to December
+    weekendMultiplier: z.number().positive(),
+    monthEndMultiplier: z.number().positive(),
+    monthEndDays: z.number().int().nonnegative(), // How many days at the end of a month count as month-end
+  }).optional(),
+  // Inventory-based sizing used instead of the home size buckets; omitted in older versions
+  volume: z.object({
+    // Smallest first; the largest is used multiple times when nothing fits
+    trucks: z.array(z.object({
+      name: z.string(),
+      capacityCubicFeet: z.number().positive(),
+      maxWeight: z.number().positive(),
+      equipment: tierRatesSchema,
+    })).min(1),
+    // Mover throughput; hours come from whichever of volume or weight takes longer
+    cubicFeetPerLaborHour: z.number().positive(),
+    poundsPerLaborHour: z.number().positive(),
+    minimumLaborHours: z.number().nonnegative(),
+    materialsPerCubicFoot: tierRatesSchema,
+  }).optional(),
+});
+
+export type PricingRates = z.infer<typeof pricingRatesSchema>;
+
+export const pricingVersions = pgTable("pricing_versions", {
+  id: serial("id").primaryKey(),
+  version: text("version").notNull().unique(),
+  description: text("description"),
+  rates: json("rates").$type<PricingRates>().notNull(),
+  active: boolean("active").default(false).notNull(),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertPricingVersionSchema = createInsertSchema(pricingVersions, {
+  rates: pricingRatesSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PricingVersion = typeof pricingVersions.$inferSelect;
+export type InsertPricingVersion = z.infer<typeof insertPricingVersionSchema>;
+
+// Moving company directory
+export const companyTierSchema = z.enum(["diy", "hybrid", "fullService"]);
+
+export type CompanyTier = z.infer<typeof companyTierSchema>;
+
+export const movingCompanies = pgTable("moving_companies", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  serviceStates: json("service_states").$type<string[]>().notNull(), // State codes, or "*" for nationwide
+  interstate: boolean("interstate").default(false).notNull(), // Licensed for moves between states
+  tiers: json("tiers").$type<CompanyTier[]>().notNull(),
+  maxHomeSize: text("max_home_size").notNull().default("3bedroom"),
+  dailyCapacity: integer("daily_capacity").notNull().default(1), // Jobs per day unless the calendar says otherwise
+  pricingMultipliers: json("pricing_multipliers").$type<TierRates>().notNull(), // Relative to the calculator's estimate
+  // Only published companies are shown to customers; companies movers register wait for an admin
+  published: boolean("published").default(true).notNull(),
+  // Aggregates of published reviews, kept up to date by the server
+  rating: real("rating").notNull().default(0),
+  reviewCount: integer("review_count").notNull().default(0),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertMovingCompanySchema = createInsertSchema(movingCompanies, {
+  name: z.string().min(2, "Company name is required"),
+  serviceStates: z.array(z.string().regex(/^([A-Z]{2}|\*)$/, "Use two-letter state codes or * for nationwide")).min(1),
+  tiers: z.array(companyTierSchema).min(1),
+  maxHomeSize: moveCalculationRequestSchema.shape.homeSize.optional(),
+  dailyCapacity: z.number().int().nonnegative().optional(),
+  pricingMultipliers: tierRatesSchema,
+}).omit({
+  id: true,
+  rating: true,
+  reviewCount: true,
+  createdAt: true,
+});
+
+// What movers and admins fill in on a company profile; publishing is an admin decision
+export const movingCompanyProfileSchema = insertMovingCompanySchema.omit({ published: true });
+
+// An admin's decision on a company
+export const companyModerationSchema = z.object({
+  published: z.boolean(),
+});
+
+export type MovingCompany = typeof movingCompanies.$inferSelect;
+export type InsertMovingCompany = z.infer<typeof insertMovingCompanySchema>;
+export type MovingCompanyProfile = z.infer<typeof movingCompanyProfileSchema>;
+
+// Per-day capacity overrides; days without a row use the company's daily capacity
+export const companyCapacity = pgTable("company_capacity", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => movingCompanies.id).notNull(),
+  date: text("date").notNull(), // yyyy-MM-dd
+  capacity: integer("capacity").notNull(),
+  booked: integer("booked").notNull().default(0),
+});
+
+export const insertCompanyCapacitySchema = createInsertSchema(companyCapacity, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date"),
+  capacity: z.number().int().nonnegative(),
+  booked: z.number().int().nonnegative().optional(),
+}).omit({
+  id: true,
+});
+
+export type CompanyCapacity = typeof companyCapacity.$inferSelect;
+export type InsertCompanyCapacity = z.infer<typeof insertCompanyCapacitySchema>;
+
+export const movingCompaniesRelations = relations(movingCompanies, ({ many }) => ({
+  capacity: many(companyCapacity),
+  reviews: many(companyReviews),
+  bids: many(quoteBids),
+}));
+
+export const companyCapacityRelations = relations(companyCapacity, ({ one }) => ({
+  company: one(movingCompanies, {
+    fields: [companyCapacity.companyId],
+    references: [movingCompanies.id],
+  }),
+}));
+
+// Company reviews
+export const reviewStatusSchema = z.enum(["published", "flagged", "hidden"]);
+
+export type ReviewStatus = z.infer<typeof reviewStatusSchema>;
+
+const reviewFlagEntrySchema = z.object({
+  userId: z.number(),
+  reason: z.string(),
+  createdAt: z.string(),
+});
+
+export type ReviewFlag = z.infer<typeof reviewFlagEntrySchema>;
+
+export const companyReviews = pgTable("company_reviews", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => movingCompanies.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  estimateId: integer("estimate_id").references(() => movingEstimates.id).notNull(), // The move being reviewed
+  punctuality: integer("punctuality").notNull(), // 1-5 stars
+  care: integer("care").notNull(), // 1-5 stars
+  priceAccuracy: integer("price_accuracy").notNull(), // 1-5 stars; how close the final bill was to the quote
+  overall: real("overall").notNull(), // Mean of the three star ratings
+  text: text("text").notNull(),
+  // 'flagged' reviews are held back until a moderator publishes or hides them
+  status: text("status").notNull().default("published"),
+  flags: json("flags").$type<ReviewFlag[]>().notNull().default([]),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+const starRatingSchema = z.number().int().min(1, "Choose 1 to 5 stars").max(5, "Choose 1 to 5 stars");
+
+export const insertCompanyReviewSchema = createInsertSchema(companyReviews, {
+  punctuality: starRatingSchema,
+  care: starRatingSchema,
+  priceAccuracy: starRatingSchema,
+  text: z.string().trim().min(10, "Please write at least a sentence").max(2000),
+  status: reviewStatusSchema.optional(),
+  flags: z.array(reviewFlagEntrySchema).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What a customer submits; the server fills in the rest
+export const reviewSubmissionSchema = insertCompanyReviewSchema.pick({
+  estimateId: true,
+  punctuality: true,
+  care: true,
+  priceAccuracy: true,
+  text: true,
+});
+
+export const reviewFlagSchema = z.object({
+  reason: z.string().trim().min(3, "Tell us what's wrong with this review").max(500),
+});
+
+// A moderator's decision on a review
+export const reviewModerationSchema = z.object({
+  status: reviewStatusSchema.exclude(["flagged"]),
+});
+
+export type CompanyReview = typeof companyReviews.$inferSelect;
+export type InsertCompanyReview = z.infer<typeof insertCompanyReviewSchema>;
+export type ReviewSubmission = z.infer<typeof reviewSubmissionSchema>;
+
+// A review as shown to other customers, without moderation data or ids that identify the reviewer
+export type PublicCompanyReview = Omit<CompanyReview, "userId" | "estimateId" | "flags"> & {
+  reviewer: string;
+  companyName: string;
+  location: string | null; // Where the reviewer moved to
+};
+
+// A review as shown to moderators
+export type ModeratedCompanyReview = CompanyReview & {
+  reviewer: string;
+  companyName: string;
+};
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  punctuality: number;
+  care: number;
+  priceAccuracy: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>; // Review count by rounded overall stars
+}
+
+export const companyReviewsRelations = relations(companyReviews, ({ one }) => ({
+  company: one(movingCompanies, {
+    fields: [companyReviews.companyId],
+    references: [movingCompanies.id],
+  }),
+  user: one(users, {
+    fields: [companyReviews.userId],
+    references: [users.id],
+  }),
+  estimate: one(movingEstimates, {
+    fields: [companyReviews.estimateId],
+    references: [movingEstimates.id],
+  }),
+}));
+
+// Quote requests and mover bids
+// A request moves draft -> sent -> bid -> accepted, and can be declined by the
+// customer or expire before a bid is accepted
+export const quoteRequestStatusSchema = z.enum(["draft", "sent", "bid", "accepted", "declined", "expired"]);
+
+export type QuoteRequestStatus = z.infer<typeof quoteRequestStatusSchema>;
+
+export const quoteRequests = pgTable("quote_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  estimateId: integer("estimate_id").references(() => movingEstimates.id).notNull(),
+  tier: text("tier").notNull(), // Service level the customer wants quoted
+  companyIds: json("company_ids").$type<number[]>().notNull().default([]), // Companies the request goes to
+  notes: text("notes"),
+  status: text("status").notNull().default("draft"),
+  acceptedBidId: integer("accepted_bid_id"),
+  sentAt: text("sent_at"),
+  expiresAt: text("expires_at"), // yyyy-MM-dd; set when sent, open requests expire after this day
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+// Companies a customer can send one request to
+export const MAX_QUOTE_COMPANIES = 5;
+
+export const insertQuoteRequestSchema = createInsertSchema(quoteRequests, {
+  tier: companyTierSchema,
+  companyIds: z.array(z.number().int().positive()).max(MAX_QUOTE_COMPANIES, `Choose up to ${MAX_QUOTE_COMPANIES} companies`).optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  status: quoteRequestStatusSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What a customer submits; the server manages status, acceptance and expiry
+export const quoteRequestSubmissionSchema = insertQuoteRequestSchema.pick({
+  estimateId: true,
+  tier: true,
+  companyIds: true,
+  notes: true,
+});
+
+export const quoteRequestUpdateSchema = quoteRequestSubmissionSchema.omit({ estimateId: true }).partial();
+
+export type QuoteRequest = typeof quoteRequests.$inferSelect;
+export type InsertQuoteRequest = z.infer<typeof insertQuoteRequestSchema>;
+export type QuoteRequestSubmission = z.infer<typeof quoteRequestSubmissionSchema>;
+
+export const bidTypeSchema = z.enum(["binding", "nonBinding"]);
+
+export type BidType = z.infer<typeof bidTypeSchema>;
+
+export const quoteBidStatusSchema = z.enum(["pending", "accepted", "declined", "expired"]);
+
+export type QuoteBidStatus = z.infer<typeof quoteBidStatusSchema>;
+
+export const bidLineItemSchema = z.object({
+  label: z.string().trim().min(1, "Describe the charge").max(100),
+  amount: z.number().int(), // Whole dollars; negative for discounts
+});
+
+export type BidLineItem = z.infer<typeof bidLineItemSchema>;
+
+export const quoteBids = pgTable("quote_bids", {
+  id: serial("id").primaryKey(),
+  quoteRequestId: integer("quote_request_id").references(() => quoteRequests.id).notNull(),
+  companyId: integer("company_id").references(() => movingCompanies.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(), // Mover who submitted the bid
+  // A binding bid is the final price; a non-binding one may change after the move is weighed
+  type: text("type").notNull(),
+  lineItems: json("line_items").$type<BidLineItem[]>().notNull(),
+  total: integer("total").notNull(), // Sum of the line items
+  message: text("message"),
+  expiresAt: text("expires_at").notNull(), // yyyy-MM-dd; the price holds through this day
+  status: text("status").notNull().default("pending"),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertQuoteBidSchema = createInsertSchema(quoteBids, {
+  type: bidTypeSchema,
+  lineItems: z.array(bidLineItemSchema).min(1, "Add at least one line item").max(30),
+  message: z.string().trim().max(1000).nullable().optional(),
+  expiresAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date"),
+  status: quoteBidStatusSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What a mover submits; the total is computed from the line items
+export const bidSubmissionSchema = insertQuoteBidSchema.pick({
+  type: true,
+  lineItems: true,
+  message: true,
+  expiresAt: true,
+});
+
+export type QuoteBid = typeof quoteBids.$inferSelect;
+export type InsertQuoteBid = z.infer<typeof insertQuoteBidSchema>;
+export type BidSubmission = z.infer<typeof bidSubmissionSchema>;
+
+// A bid as shown to the customer comparing offers
+export type CustomerQuoteBid = Omit<QuoteBid, "userId"> & {
+  companyName: string;
+  companyRating: number;
+  companyReviewCount: number;
+};
+
+// A customer's request with everything needed to compare bids
+export type QuoteRequestDetail = QuoteRequest & {
+  estimate: MoveEstimate;
+  companies: Pick<MovingCompany, "id" | "name">[];
+  bids: CustomerQuoteBid[];
+};
+
+// A request as it appears in a mover's inbox; the customer's identity and other
+// companies' bids are never shown
+export type MoverQuoteRequest = Omit<QuoteRequest, "userId" | "companyIds" | "acceptedBidId"> & {
+  move: Pick<MoveEstimate, "origin" | "destination" | "distance" | "homeSize" | "additionalItems" | "moveDate" | "flexibility" | "services" | "estimateMode">;
+  inventory: Pick<EstimateInventoryItem, "name" | "room" | "quantity" | "cubicFeet" | "weight">[];
+  bid: QuoteBid | null; // This company's bid, if any
+};
+
+export const quoteRequestsRelations = relations(quoteRequests, ({ one, many }) => ({
+  user: one(users, {
+    fields: [quoteRequests.userId],
+    references: [users.id],
+  }),
+  estimate: one(movingEstimates, {
+    fields: [quoteRequests.estimateId],
+    references: [movingEstimates.id],
+  }),
+  bids: many(quoteBids),
+}));
+
+export const quoteBidsRelations = relations(quoteBids, ({ one }) => ({
+  request: one(quoteRequests, {
+    fields: [quoteBids.quoteRequestId],
+    references: [quoteRequests.id],
+  }),
+  company: one(movingCompanies, {
+    fields: [quoteBids.companyId],
+    references: [movingCompanies.id],
+  }),
+  user: one(users, {
+    fields: [quoteBids.userId],
+    references: [users.id],
+  }),
+}));
+
+// Admin console schemas
+
+export const sortOrderSchema = z.enum(["asc", "desc"]);
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a yyyy-MM-dd date");
+
+// Query string for the admin estimate table; dates bound when the estimate was created
+export const adminEstimateQuerySchema = paginationSchema.extend({
+  homeSize: moveCalculationRequestSchema.shape.homeSize.optional(),
+  saved: z.enum(["true", "false"]).transform(value => value === "true").optional(), // Saved to an account, or an anonymous quote
+  userId: z.coerce.number().int().positive().optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  sort: z.enum(["createdAt", "distance", "costDiy", "costFullService"]).default("createdAt"),
+  order: sortOrderSchema.default("desc"),
+});
+
+export const adminUserQuerySchema = paginationSchema.extend({
+  role: userRoleSchema.optional(),
+  search: z.string().trim().max(50).optional(), // Matches part of the username
+  sort: z.enum(["id", "username"]).default("id"),
+  order: sortOrderSchema.default("desc"),
+});
+
+// Query string for the admin checklist table; dates bound the move date
+export const adminChecklistQuerySchema = paginationSchema.extend({
+  userId: z.coerce.number().int().positive().optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  sort: z.enum(["createdAt", "moveDate"]).default("createdAt"),
+  order: sortOrderSchema.default("desc"),
+});
+
+export const adminMetricsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type SortOrder = z.infer<typeof sortOrderSchema>;
+export type AdminEstimateQuery = z.infer<typeof adminEstimateQuerySchema>;
+export type AdminUserQuery = z.infer<typeof adminUserQuerySchema>;
+export type AdminChecklistQuery = z.infer<typeof adminChecklistQuerySchema>;
+
+export type AdminEstimate = MoveEstimate & {
+  username: string | null; // Null for anonymous quotes
+};
+
+// Accounts never expose their password hash, even to admins
+export type AdminUser = Omit<User, "password"> & {
+  companyName: string | null;
+};
+
+export type AdminChecklist = MoveChecklist & {
+  username: string;
+  itemCount: number;
+  completedCount: number;
+};
+
+export interface EstimateMetrics {
+  from: string; // yyyy-MM-dd, inclusive
+  to: string;
+  quotesPerDay: { date: string; quotes: number; saved: number }[];
+  averageCostByHomeSize: {
+    homeSize: string;
+    count: number;
+    costDiy: number;
+    costHybrid: number;
+    costFullService: number;
+  }[];
+  totalQuotes: number;
+  totalSaved: number;
+  conversionRate: number; // Saved estimates per anonymous quote, 0-1
+}
+
+// Estimate comparison
+
+export const MAX_COMPARED_ESTIMATES = 4;
+
+// ?ids=1,2,3 with between two and four distinct estimates
+export const estimateComparisonQuerySchema = z.object({
+  ids: z
+    .string()
+    .transform(ids => Array.from(new Set(ids.split(",").map(id => Number(id.trim())))))
+    .pipe(z.array(z.number().int().positive()).min(2, "Choose at least two estimates").max(MAX_COMPARED_ESTIMATES, `Compare up to ${MAX_COMPARED_ESTIMATES} estimates`)),
+});
+
+export type TierCosts = MoveCalculationResponse["costs"];
+
+export interface ComparedEstimate {
+  id: number;
+  origin: string;
+  destination: string;
+  distance: number;
+  moveDate: string;
+  homeSize: string;
+  additionalItems: string;
+  services: string[];
+  pricingVersion: string | null;
+  costs: TierCosts;
+  deltas: TierCosts; // Above the cheapest compared estimate for each tier; 0 for the cheapest
+}
+
+export interface EstimateComparison {
+  estimates: ComparedEstimate[]; // In the order requested
+  cheapest: Record<keyof TierCosts, number>; // Estimate id with the lowest price for each tier
+}
+
+// Read-only links to a saved estimate; the token is signed so guesses can be
+// rejected without a lookup
+export const estimateShares = pgTable("estimate_shares", {
+  id: serial("id").primaryKey(),
+  estimateId: integer("estimate_id").references(() => movingEstimates.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  token: text("token").notNull().unique(),
+  expiresAt: text("expires_at"), // ISO timestamp; null never expires
+  revokedAt: text("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: text("last_viewed_at"),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertEstimateShareSchema = createInsertSchema(estimateShares, {
+  viewCount: z.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What the owner picks when creating a link
+export const shareLinkRequestSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).nullable().default(null),
+});
+
+export type EstimateShare = typeof estimateShares.$inferSelect;
+export type InsertEstimateShare = z.infer<typeof insertEstimateShareSchema>;
+export type ShareLinkRequest = z.infer<typeof shareLinkRequestSchema>;
+
+// An estimate as anyone with the link sees it; nothing identifies the owner
+export type SharedEstimate = Pick<
+  MoveEstimate,
+  | "origin"
+  | "destination"
+  | "distance"
+  | "homeSize"
+  | "additionalItems"
+  | "moveDate"
+  | "flexibility"
+  | "services"
+  | "costDiy"
+  | "costHybrid"
+  | "costFullService"
+  | "pricingVersion"
+  | "estimateMode"
+  | "createdAt"
+> & {
+  inventory: Pick<EstimateInventoryItem, "name" | "room" | "quantity">[];
+  expiresAt: string | null;
+};
+
+export const estimateSharesRelations = relations(estimateShares, ({ one }) => ({
+  estimate: one(movingEstimates, {
+    fields: [estimateShares.estimateId],
+    references: [movingEstimates.id],
+  }),
+  user: one(users, {
+    fields: [estimateShares.userId],
+    references: [users.id],
+  }),
+}));
+
+// Account data export and import
+// An export is a zip with one CSV and one JSON file per table. Rows keep the ids
+// they had in the exporting account so inventory and checklists can point at
+// their estimates; an import gives everything new ids.
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+export const accountExportManifestSchema = z.object({
+  version: z.literal(ACCOUNT_EXPORT_VERSION),
+  exportedAt: z.string(),
+  username: z.string(),
+});
+
+export const exportedEstimateSchema = insertMoveEstimateSchema.omit({ userId: true }).extend({
+  ...estimateSubmissionSchema.pick({ homeSize: true, additionalItems: true, services: true }).shape,
+  id: z.number().int().positive(),
+  createdAt: z.string().optional(),
+});
+
+export const exportedInventoryItemSchema = insertEstimateInventoryItemSchema;
+
+export const exportedChecklistSchema = insertMoveChecklistSchema.omit({ userId: true }).extend({
+  id: z.number().int().positive(),
+  createdAt: z.string().optional(),
+});
+
+// Assignees and who completed a task are other people's accounts, so they aren't exported
+export const exportedChecklistItemSchema = insertChecklistItemSchema.omit({
+  assignedTo: true,
+  completedBy: true,
+}).extend({
+  createdAt: z.string().optional(),
+});
+
+export const exportedProgressSchema = insertUserProgressSchema.omit({ userId: true });
+
+export type AccountExportManifest = z.infer<typeof accountExportManifestSchema>;
+export type ExportedEstimate = z.infer<typeof exportedEstimateSchema>;
+export type ExportedInventoryItem = z.infer<typeof exportedInventoryItemSchema>;
+export type ExportedChecklist = z.infer<typeof exportedChecklistSchema>;
+export type ExportedChecklistItem = z.infer<typeof exportedChecklistItemSchema>;
+export type ExportedProgress = z.infer<typeof exportedProgressSchema>;
+
+// A problem with one row of an imported file; row 0 is the file as a whole
+export interface ImportRowError {
+  file: string;
+  row: number; // 1-based, matching the data rows of the CSV
+  errors: string[];
+}
+
+export interface ImportSummary {
+  estimates: number;
+  inventoryItems: number;
+  checklists: number;
+  checklistItems: number;
+  achievements: number; // Earned again from the imported data
+}
+
+// Checklist templates: the tasks new checklists are built from. A template applies
+// to a move only when every condition it sets holds for the move.
+export const checklistTemplateConditionsSchema = z.object({
+  additionalItems: z.array(z.string()).min(1).optional(), // Any of these special items
+  services: z.array(z.enum(["packing", "storage", "cleaning"])).min(1).optional(), // Any of these services
+  tiers: z.array(companyTierSchema).min(1).optional(), // Moving this way
+  minDistance: z.number().int().min(0).optional(), // Miles
+  maxDistance: z.number().int().min(0).optional(),
+});
+
+export type ChecklistTemplateConditions = z.infer<typeof checklistTemplateConditionsSchema>;
+
+export const checklistTemplates = pgTable("checklist_templates", {
+  id: serial("id").primaryKey(),
+  task: text("task").notNull(),
+  description: text("description"),
+  category: text("category").notNull(),
+  timeframe: text("timeframe").notNull(),
+  conditions: json("conditions").$type<ChecklistTemplateConditions>().notNull().default({}),
+  position: integer("position").notNull().default(0), // Order within the timeframe on new checklists
+  active: boolean("active").notNull().default(true), // Inactive templates are kept but not used
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertChecklistTemplateSchema = createInsertSchema(checklistTemplates, {
+  conditions: checklistTemplateConditionsSchema.optional(),
+  position: z.number().int().min(0).optional(),
+  active: z.boolean().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What an admin can set on a template
+export const checklistTemplateInputSchema = checklistItemInputSchema.extend({
+  conditions: checklistTemplateConditionsSchema.default({}),
+  position: z.number().int().min(0).default(0),
+  active: z.boolean().default(true),
+});
+
+export const checklistTemplateUpdateSchema = checklistItemInputSchema.extend({
+  conditions: checklistTemplateConditionsSchema,
+  position: z.number().int().min(0),
+  active: z.boolean(),
+}).partial().refine(update => Object.keys(update).length > 0, { message: "Nothing to update" });
+
+// A new checklist; its tasks are built from the templates that fit the linked estimate and tier
+export const checklistCreationSchema = insertMoveChecklistSchema.omit({ userId: true }).extend({
+  tier: companyTierSchema.nullable().optional(),
+});
+
+export type ChecklistTemplate = typeof checklistTemplates.$inferSelect;
+export type InsertChecklistTemplate = z.infer<typeof insertChecklistTemplateSchema>;
+
+// A secret per-user address calendar apps subscribe to; a new token cuts off the old address
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  token: text("token").notNull().unique(),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+
+export interface CalendarSubscription {
+  url: string;
+  webcalUrl: string; // Opens the subscribe prompt in most calendar apps
+  createdAt: string;
+}
+
+// Checklist sharing. The owner invites other users as editors, who can change and
+// complete tasks, or viewers, who can only see them.
+export const checklistRoleSchema = z.enum(["viewer", "editor"]);
+
+export type ChecklistRole = z.infer<typeof checklistRoleSchema>;
+
+// Everything a user can be to a checklist
+export type ChecklistAccess = ChecklistRole | "owner";
+
+export const checklistMembers = pgTable("checklist_members", {
+  id: serial("id").primaryKey(),
+  checklistId: integer("checklist_id").references(() => movingChecklists.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  role: text("role").notNull(), // 'viewer' or 'editor'
+  invitedBy: integer("invited_by").references(() => users.id).notNull(),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertChecklistMemberSchema = createInsertSchema(checklistMembers, {
+  role: checklistRoleSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const checklistInvitationSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  role: checklistRoleSchema.default("editor"),
+});
+
+export const checklistMemberUpdateSchema = z.object({
+  role: checklistRoleSchema,
+});
+
+export type ChecklistMember = typeof checklistMembers.$inferSelect;
+export type InsertChecklistMember = z.infer<typeof insertChecklistMemberSchema>;
+
+// Someone who can see a checklist, its owner included
+export interface ChecklistCollaborator {
+  userId: number;
+  username: string;
+  access: ChecklistAccess;
+}
+
+// A checklist as listed to someone who can see it
+export type UserChecklist = MoveChecklist & {
+  access: ChecklistAccess;
+  ownerUsername: string;
+};
+
+export const checklistMembersRelations = relations(checklistMembers, ({ one }) => ({
+  checklist: one(movingChecklists, {
+    fields: [checklistMembers.checklistId],
+    references: [movingChecklists.id],
+  }),
+  user: one(users, {
+    fields: [checklistMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+// Real-time checklist sync. Events are numbered per checklist so a client that
+// reconnects can ask for the ones it missed.
+export type ChecklistEventPayload =
+  | { type: "item.created"; item: ChecklistItem }
+  | { type: "item.updated"; item: ChecklistItem }
+  | { type: "item.deleted"; itemId: number }
+  | { type: "checklist.updated"; checklist: MoveChecklist }; // Move date or members changed; reload it
+
+export type ChecklistEvent = ChecklistEventPayload & {
+  checklistId: number;
+  seq: number;
+  userId: number; // Who made the change
+  at: string;
+};
+
+// Sent once a client has caught up, or as "resync" when the events it missed are gone
+// and it should reload the checklist. `stream` identifies the server's event log;
+// sequence numbers only mean something within one stream.
+export type ChecklistSyncStatus =
+  | { type: "ready"; stream: string; seq: number }
+  | { type: "resync"; stream: string; seq: number };
+
+export type ChecklistSyncMessage = ChecklistEvent | ChecklistSyncStatus;
+
+// Close code for a user who lost access to the checklist; clients shouldn't reconnect
+export const CHECKLIST_ACCESS_REVOKED_CODE = 4403;
+
+// Notifications: reminders and other messages, delivered through each channel the user has turned on
+export const NOTIFICATION_CHANNELS = ["inApp", "email", "webhook"] as const;
+
+export const NOTIFICATION_TYPES = [
+  "task-due",
+  "task-overdue",
+  "move-soon",
+  "bid-received",
+  "estimate-shared", // Someone opened a share link
+  "checklist-shared",
+  "achievement-unlocked",
+] as const;
+
+export const notificationChannelSchema = z.enum(NOTIFICATION_CHANNELS);
+
+export type NotificationChannelName = z.infer<typeof notificationChannelSchema>;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// The in-app inbox
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  body: text("body"),
+  link: text("link"), // Where in the app it leads
+  readAt: text("read_at"),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+// Query string for the notification center; newest first
+export const notificationListQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export interface NotificationList {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+// How and when a user wants reminders. Times are HH:mm in the user's time zone;
+// nothing is sent between quietHoursStart and quietHoursEnd.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  channels: json("channels").$type<NotificationChannelName[]>().notNull().default(["inApp"]),
+  email: text("email"),
+  webhookUrl: text("webhook_url"),
+  taskReminderDays: integer("task_reminder_days").notNull().default(1), // How long before a task is due
+  moveReminderDays: integer("move_reminder_days").notNull().default(7), // How long before moving day
+  quietHoursStart: text("quiet_hours_start"),
+  quietHoursEnd: text("quiet_hours_end"),
+  timeZone: text("time_zone").notNull().default("UTC"),
+  updatedAt: text("updated_at").notNull().default(new Date().toISOString()),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use a HH:mm time");
+
+export const notificationPreferencesInputSchema = z.object({
+  channels: z.array(notificationChannelSchema),
+  email: z.string().trim().email().nullable(),
+  webhookUrl: z.string().trim().url().refine(url => /^https?:\/\//.test(url), "Use an http or https address").nullable(),
+  taskReminderDays: z.number().int().min(0).max(14),
+  moveReminderDays: z.number().int().min(0).max(30),
+  quietHoursStart: timeOfDaySchema.nullable(),
+  quietHoursEnd: timeOfDaySchema.nullable(),
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+}).superRefine((preferences, ctx) => {
+  if (preferences.channels.includes("email") && !preferences.email) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["email"], message: "Enter an address to get reminders by email" });
+  }
+  if (preferences.channels.includes("webhook") && !preferences.webhookUrl) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["webhookUrl"], message: "Enter the address to send reminders to" });
+  }
+  if ((preferences.quietHoursStart === null) !== (preferences.quietHoursEnd === null)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quietHoursEnd"], message: "Set both ends of your quiet hours" });
+  }
+});
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesInputSchema>;
+
+// Reminders already sent, so each is only sent once. The key names what it was about,
+// e.g. "task-due:12:2026-10-20"; a new due date makes a new reminder.
+export const sentReminders = pgTable("sent_reminders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  key: text("key").notNull(),
+  sentAt: text("sent_at").notNull().default(new Date().toISOString()),
+});
+
+export type SentReminder = typeof sentReminders.$inferSelect;
+
+// Achievements and points. Points only come from the server: each award is kept in
+// this ledger and user_progress.points is its running total.
+export const pointAwards = pgTable("point_awards", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  reason: text("reason").notNull(), // e.g. "achievement:first_estimate" or "activity:breathing"
+  points: integer("points").notNull(),
+  createdAt: text("created_at").notNull().default(new Date().toISOString()),
+});
+
+export const insertPointAwardSchema = createInsertSchema(pointAwards).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type PointAward = typeof pointAwards.$inferSelect;
+export type InsertPointAward = z.infer<typeof insertPointAwardSchema>;
+
+// Stress relief activities; the server decides what each is worth
+export const PROGRESS_ACTIVITIES = ["tip", "breathing", "packing-puzzle"] as const;
+
+export const progressActivitySchema = z.object({
+  activity: z.enum(PROGRESS_ACTIVITIES),
+});
+
+export type ProgressActivity = typeof PROGRESS_ACTIVITIES[number];
+
+// An achievement as the client shows it
+export interface AchievementStatus {
+  id: string;
+  title: string;
+  description: string;
+  icon: string; // Name of the icon to show, e.g. "medal"
+  points: number;
+  unlocked: boolean;
+  current: number; // How far the user has got towards target
+  target: number;
+}
+
+// What changed after a check-in or an activity
+export interface ProgressUpdate {
+  progress: UserProgress;
+  pointsAwarded: number;
+  unlocked: AchievementStatus[];
+}